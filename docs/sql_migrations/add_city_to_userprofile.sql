@@ -0,0 +1,9 @@
+-- Migration: City on userprofile
+-- Purpose: iyzico requires the payer's identity number, address and city with every charge.
+-- tc_kimlik_no and address already exist on userprofile; the city is collected separately so
+-- it doesn't have to be parsed out of the free-text address.
+
+ALTER TABLE userprofile
+ADD COLUMN IF NOT EXISTS city VARCHAR(100);
+
+COMMENT ON COLUMN userprofile.city IS 'City of the address; required for iyzico payments together with tc_kimlik_no and address';
@@ -0,0 +1,17 @@
+-- Migration: Dead-letter state on webhook_storage
+-- Purpose: An admin can take a poisoned webhook (one that can never be processed) out of
+-- processing. The retry job skips it and further deliveries of the same reference_no are
+-- ignored until an admin replays it.
+
+ALTER TABLE webhook_storage
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS dead_letter_reason TEXT,
+ADD COLUMN IF NOT EXISTS dead_lettered_by UUID;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_storage_dead_lettered_at
+ON webhook_storage(dead_lettered_at)
+WHERE dead_lettered_at IS NOT NULL;
+
+COMMENT ON COLUMN webhook_storage.dead_lettered_at IS 'When an admin took the webhook out of processing, NULL otherwise';
+COMMENT ON COLUMN webhook_storage.dead_letter_reason IS 'Why the admin dead-lettered the webhook';
+COMMENT ON COLUMN webhook_storage.dead_lettered_by IS 'Admin user who dead-lettered the webhook';
@@ -0,0 +1,13 @@
+-- Migration: Add installment columns to payments table
+-- Purpose: Store the installment (taksit) count and the gateway commission rate the
+-- fee breakdown was calculated with. Single charges use 1 and 0.0343.
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS installment_count INT DEFAULT 1 NOT NULL,
+ADD COLUMN IF NOT EXISTS gateway_commission_rate NUMERIC(6, 4) DEFAULT 0.0343 NOT NULL;
+
+ALTER TABLE payments
+ADD CONSTRAINT payments_installment_count_check CHECK (installment_count BETWEEN 1 AND 12);
+
+COMMENT ON COLUMN payments.installment_count IS 'Number of installments (taksit), 1 = single charge';
+COMMENT ON COLUMN payments.gateway_commission_rate IS 'Gateway commission rate for installment_count, as a fraction of total_amount; payment_gateway_fee = total_amount * rate';
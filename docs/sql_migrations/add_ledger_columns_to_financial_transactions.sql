@@ -0,0 +1,28 @@
+-- Migration: Double-entry ledger in financial_transactions
+-- Purpose: Every money movement (capture, escrow hold, provider commission, escrow
+-- release split, refund, payouts) is posted as a row that debits debit_account and
+-- credits credit_account by the same amount. entry_key makes each step idempotent.
+--
+-- Accounts: provider_balance, payer_clearing, escrow_held, gateway_fees,
+-- finder_payable, carrier_payable, service_revenue
+
+ALTER TABLE financial_transactions
+ADD COLUMN IF NOT EXISTS entry_key VARCHAR(200);
+
+-- Plain unique index (NULLs allowed for legacy rows) so PostgREST upsert can target it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_financial_transactions_entry_key
+ON financial_transactions(entry_key);
+
+CREATE INDEX IF NOT EXISTS idx_financial_transactions_payment_id ON financial_transactions(payment_id);
+
+ALTER TABLE financial_transactions
+ADD CONSTRAINT financial_transactions_ledger_amount_check
+CHECK (debit_account IS NULL OR amount > 0);
+
+ALTER TABLE financial_transactions
+ADD CONSTRAINT financial_transactions_ledger_accounts_check
+CHECK (debit_account IS NULL OR (credit_account IS NOT NULL AND debit_account <> credit_account));
+
+COMMENT ON COLUMN financial_transactions.entry_key IS 'payment_id:transaction_type[:reference] - posting the same ledger step twice is a no-op';
+COMMENT ON COLUMN financial_transactions.debit_account IS 'Ledger account debited by amount';
+COMMENT ON COLUMN financial_transactions.credit_account IS 'Ledger account credited by amount';
@@ -0,0 +1,247 @@
+-- Migration: Outbox messages from the payment transition functions
+-- Purpose: complete_payment, release_escrow and refund_escrow (create_payment_transition_functions.sql)
+-- take p_outbox and write the notifications and secondary audit entries it carries to outbox_messages
+-- in the same transaction as the state change, so a side effect is never lost or sent for a rolled
+-- back transition. Run after create_payment_transition_functions.sql and create_outbox_messages_table.sql.
+-- The functions are otherwise unchanged.
+
+-- Signatures before p_outbox was added
+DROP FUNCTION IF EXISTS complete_payment(UUID, TEXT, TEXT, JSONB, JSONB);
+DROP FUNCTION IF EXISTS release_escrow(UUID, TEXT, TEXT, UUID, UUID, TEXT, JSONB, JSONB);
+DROP FUNCTION IF EXISTS refund_escrow(UUID, TEXT, TEXT, UUID, TEXT, JSONB);
+
+-- 1. Payment captured: pending/failed -> completed, escrow pending -> held
+CREATE OR REPLACE FUNCTION complete_payment(
+  p_payment_id UUID,
+  p_expected_payment_status TEXT,
+  p_expected_escrow_status TEXT,
+  p_payment JSONB, -- Provider data: provider_payment_id, provider_transaction_id, provider_status,
+                   -- provider_response, completed_at, payment_gateway_fee, service_fee,
+                   -- installment_count, card_last_four, card_bin, card_brand, gross_amount, net_amount
+  p_audit JSONB,   -- audit_logs row: event_type, user_id, event_description, event_data
+  p_outbox JSONB DEFAULT '[]'::jsonb -- outbox_messages: [{ topic, payload, aggregate_id }]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_owner devices%ROWTYPE;
+  v_now TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found: %', p_payment_id USING ERRCODE = 'PT404';
+  END IF;
+  IF v_payment.payment_status IS DISTINCT FROM p_expected_payment_status
+     OR v_payment.escrow_status IS DISTINCT FROM p_expected_escrow_status THEN
+    RAISE EXCEPTION 'Payment % is %/%, expected %/%', p_payment_id,
+      v_payment.payment_status, v_payment.escrow_status,
+      p_expected_payment_status, p_expected_escrow_status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE payments SET
+    payment_status = 'completed',
+    escrow_status = 'held',
+    escrow_held_at = v_now,
+    provider_payment_id = COALESCE(p_payment->>'provider_payment_id', provider_payment_id),
+    provider_transaction_id = COALESCE(p_payment->>'provider_transaction_id', provider_transaction_id),
+    provider_status = COALESCE(p_payment->>'provider_status', provider_status),
+    provider_response = COALESCE(p_payment->>'provider_response', provider_response),
+    completed_at = COALESCE((p_payment->>'completed_at')::TIMESTAMP WITH TIME ZONE, v_now),
+    payment_gateway_fee = COALESCE((p_payment->>'payment_gateway_fee')::NUMERIC, payment_gateway_fee),
+    service_fee = COALESCE((p_payment->>'service_fee')::NUMERIC, service_fee),
+    installment_count = COALESCE((p_payment->>'installment_count')::INT, installment_count),
+    card_last_four = COALESCE(p_payment->>'card_last_four', card_last_four),
+    card_bin = COALESCE(p_payment->>'card_bin', card_bin),
+    card_brand = COALESCE(p_payment->>'card_brand', card_brand),
+    gross_amount = COALESCE((p_payment->>'gross_amount')::NUMERIC, gross_amount),
+    net_amount = COALESCE((p_payment->>'net_amount')::NUMERIC, net_amount),
+    updated_at = v_now
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  INSERT INTO escrow_accounts (
+    payment_id, device_id, holder_user_id, beneficiary_user_id,
+    total_amount, reward_amount, service_fee, gateway_fee, cargo_fee, net_payout,
+    status, escrow_type, auto_release_days, release_conditions, confirmations, currency, held_at
+  ) VALUES (
+    v_payment.id, v_payment.device_id, v_payment.payer_id, v_payment.receiver_id,
+    v_payment.total_amount, v_payment.reward_amount, v_payment.service_fee,
+    v_payment.payment_gateway_fee, v_payment.cargo_fee, v_payment.net_payout,
+    'held', 'standard', 30, '[]'::jsonb, '[]'::jsonb, 'TRY', v_now
+  );
+
+  -- Owner's device and the matched finder's device
+  SELECT * INTO v_owner FROM devices WHERE id = v_payment.device_id;
+  UPDATE devices SET status = 'payment_completed', updated_at = v_now
+  WHERE id = v_payment.device_id
+     OR (device_role = 'finder' AND "serialNumber" = v_owner."serialNumber" AND model = v_owner.model);
+
+  INSERT INTO audit_logs (
+    event_type, event_category, event_action, event_severity,
+    user_id, resource_type, resource_id, event_description, event_data
+  ) VALUES (
+    COALESCE(p_audit->>'event_type', 'payment_completed'), 'payment', 'complete', 'info',
+    COALESCE((p_audit->>'user_id')::UUID, v_payment.payer_id), 'payment', p_payment_id,
+    p_audit->>'event_description', p_audit->'event_data'
+  );
+
+  PERFORM enqueue_outbox_messages(p_outbox);
+
+  RETURN jsonb_build_object('payment_id', p_payment_id, 'payment_status', 'completed', 'escrow_status', 'held');
+END;
+$$;
+
+-- 2. Escrow released to the finder: escrow held -> released. A partial refund (p_partial_refund)
+-- keeps only the released amounts on the escrow account and records what was refunded.
+CREATE OR REPLACE FUNCTION release_escrow(
+  p_payment_id UUID,
+  p_expected_payment_status TEXT,
+  p_expected_escrow_status TEXT,
+  p_device_id UUID,
+  p_released_by UUID, -- User id
+  p_reason TEXT,
+  p_audit JSONB, -- event_type, user_id, event_description, event_data; event_action/event_severity optional
+  p_partial_refund JSONB DEFAULT NULL, -- { refunded_amount, refund_breakdown, released: { total_amount,
+                                       --   reward_amount, cargo_fee, service_fee } }
+  p_outbox JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_released JSONB := p_partial_refund->'released';
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found: %', p_payment_id USING ERRCODE = 'PT404';
+  END IF;
+  IF v_payment.payment_status IS DISTINCT FROM p_expected_payment_status
+     OR v_payment.escrow_status IS DISTINCT FROM p_expected_escrow_status THEN
+    RAISE EXCEPTION 'Payment % is %/%, expected %/%', p_payment_id,
+      v_payment.payment_status, v_payment.escrow_status,
+      p_expected_payment_status, p_expected_escrow_status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE payments SET
+    escrow_status = 'released',
+    escrow_released_at = v_now,
+    refund_amount = COALESCE((p_partial_refund->>'refunded_amount')::NUMERIC, refund_amount),
+    refund_reason = CASE WHEN p_partial_refund IS NULL THEN refund_reason ELSE p_reason END,
+    updated_at = v_now
+  WHERE id = p_payment_id;
+
+  UPDATE escrow_accounts SET
+    status = 'released',
+    released_at = v_now,
+    released_by = p_released_by,
+    release_reason = p_reason,
+    total_amount = COALESCE((v_released->>'total_amount')::NUMERIC, total_amount),
+    reward_amount = COALESCE((v_released->>'reward_amount')::NUMERIC, reward_amount),
+    cargo_fee = COALESCE((v_released->>'cargo_fee')::NUMERIC, cargo_fee),
+    service_fee = COALESCE((v_released->>'service_fee')::NUMERIC, service_fee),
+    refunded_amount = COALESCE((p_partial_refund->>'refunded_amount')::NUMERIC, refunded_amount),
+    refund_breakdown = COALESCE(p_partial_refund->'refund_breakdown', refund_breakdown),
+    refund_reason = CASE WHEN p_partial_refund IS NULL THEN refund_reason ELSE p_reason END,
+    refunded_at = CASE WHEN p_partial_refund IS NULL THEN refunded_at ELSE v_now END,
+    refunded_by = CASE WHEN p_partial_refund IS NULL THEN refunded_by ELSE p_released_by END,
+    updated_at = v_now
+  WHERE payment_id = p_payment_id AND status = 'held';
+
+  UPDATE devices SET status = 'completed', updated_at = v_now WHERE id = p_device_id;
+
+  INSERT INTO audit_logs (
+    event_type, event_category, event_action, event_severity,
+    user_id, resource_type, resource_id, event_description, event_data
+  ) VALUES (
+    COALESCE(p_audit->>'event_type', 'escrow_released'), 'payment',
+    COALESCE(p_audit->>'event_action', 'release'), COALESCE(p_audit->>'event_severity', 'info'),
+    (p_audit->>'user_id')::UUID, 'payment', p_payment_id,
+    p_audit->>'event_description', p_audit->'event_data'
+  );
+
+  PERFORM enqueue_outbox_messages(p_outbox);
+
+  RETURN jsonb_build_object('payment_id', p_payment_id, 'payment_status', v_payment.payment_status, 'escrow_status', 'released');
+END;
+$$;
+
+-- 3. Escrow refunded to the owner: completed/held -> cancelled/refunded
+CREATE OR REPLACE FUNCTION refund_escrow(
+  p_payment_id UUID,
+  p_expected_payment_status TEXT,
+  p_expected_escrow_status TEXT,
+  p_device_id UUID,
+  p_reason TEXT,
+  p_audit JSONB,
+  p_outbox JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_now TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found: %', p_payment_id USING ERRCODE = 'PT404';
+  END IF;
+  IF v_payment.payment_status IS DISTINCT FROM p_expected_payment_status
+     OR v_payment.escrow_status IS DISTINCT FROM p_expected_escrow_status THEN
+    RAISE EXCEPTION 'Payment % is %/%, expected %/%', p_payment_id,
+      v_payment.payment_status, v_payment.escrow_status,
+      p_expected_payment_status, p_expected_escrow_status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE payments SET
+    payment_status = 'cancelled',
+    escrow_status = 'refunded',
+    escrow_refunded_at = v_now,
+    updated_at = v_now
+  WHERE id = p_payment_id;
+
+  UPDATE escrow_accounts SET
+    status = 'refunded',
+    refunded_at = v_now,
+    notes = p_reason,
+    updated_at = v_now
+  WHERE payment_id = p_payment_id AND status = 'held';
+
+  -- Owner's row; cargo.service.ts mirrors it onto the finder's paired row
+  UPDATE devices SET status = 'cancelled', updated_at = v_now WHERE id = p_device_id;
+
+  INSERT INTO audit_logs (
+    event_type, event_category, event_action, event_severity,
+    user_id, resource_type, resource_id, event_description, event_data
+  ) VALUES (
+    COALESCE(p_audit->>'event_type', 'payment_cancelled'), 'payment', 'cancel', 'info',
+    (p_audit->>'user_id')::UUID, 'payment', p_payment_id,
+    p_audit->>'event_description', p_audit->'event_data'
+  );
+
+  PERFORM enqueue_outbox_messages(p_outbox);
+
+  RETURN jsonb_build_object('payment_id', p_payment_id, 'payment_status', 'cancelled', 'escrow_status', 'refunded');
+END;
+$$;
+
+-- Only the backend (service role) may run them
+REVOKE ALL ON FUNCTION complete_payment(UUID, TEXT, TEXT, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_escrow(UUID, TEXT, TEXT, UUID, UUID, TEXT, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refund_escrow(UUID, TEXT, TEXT, UUID, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_payment(UUID, TEXT, TEXT, JSONB, JSONB, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION release_escrow(UUID, TEXT, TEXT, UUID, UUID, TEXT, JSONB, JSONB, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_escrow(UUID, TEXT, TEXT, UUID, TEXT, JSONB, JSONB) TO service_role;
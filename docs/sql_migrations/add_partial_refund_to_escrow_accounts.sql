@@ -0,0 +1,15 @@
+-- Migration: Partial refunds of held escrows
+-- Purpose: An admin (or a 'split' dispute resolution) can refund part of a held escrow to the
+-- owner and release the rest. escrow_accounts then keeps only the released amounts in
+-- total_amount/reward_amount/cargo_fee/service_fee - what payouts split - and records what
+-- was refunded here. payments.refund_amount/refund_reason hold the refunded total.
+
+ALTER TABLE escrow_accounts
+ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10,2) DEFAULT 0.00 NOT NULL,
+ADD COLUMN IF NOT EXISTS refund_breakdown JSONB;
+
+ALTER TABLE escrow_accounts
+ADD CONSTRAINT escrow_accounts_refunded_amount_check CHECK (refunded_amount >= 0);
+
+COMMENT ON COLUMN escrow_accounts.refunded_amount IS 'Amount refunded to the owner by a partial refund; the escrow amounts are what was released';
+COMMENT ON COLUMN escrow_accounts.refund_breakdown IS 'Partial refund per part: { reward, cargo_fee, service_fee }';
@@ -0,0 +1,13 @@
+-- Migration: Add payment_mode and client_platform columns to payments table
+-- Purpose: Record whether a payment used direct 3D Secure or the provider's hosted
+-- payment page (Ortak Ödeme Sayfası), and which client platform started it
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS payment_mode VARCHAR(20) DEFAULT 'direct_3ds' NOT NULL,
+ADD COLUMN IF NOT EXISTS client_platform VARCHAR(20);
+
+ALTER TABLE payments
+ADD CONSTRAINT payments_payment_mode_check CHECK (payment_mode IN ('direct_3ds', 'hosted_page'));
+
+COMMENT ON COLUMN payments.payment_mode IS 'direct_3ds: backend runs 3D Secure with card data; hosted_page: provider payment page collects the card and the confirmation webhook completes the payment';
+COMMENT ON COLUMN payments.client_platform IS 'Client platform that started the payment (web, ios) - selects payment_mode via PAYMENT_MODE_WEB / PAYMENT_MODE_IOS';
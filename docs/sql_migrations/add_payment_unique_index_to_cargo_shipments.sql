@@ -0,0 +1,12 @@
+-- Migration: One cargo shipment per payment
+-- Purpose: PaymentCompleted is published by both the 3D completion and the webhook (and again
+-- when a completion is retried), so shipment creation must be idempotent. The second insert for a
+-- payment hits this index and is ignored.
+
+-- Inspect duplicates first; the index can't be created while any exist:
+-- SELECT payment_id, COUNT(*) FROM cargo_shipments
+-- WHERE payment_id IS NOT NULL GROUP BY payment_id HAVING COUNT(*) > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cargo_shipments_payment_id_unique
+  ON cargo_shipments(payment_id)
+  WHERE payment_id IS NOT NULL;
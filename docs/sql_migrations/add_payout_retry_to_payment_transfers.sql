@@ -0,0 +1,21 @@
+-- Migration: Payout tracking on final_payment_distributions / payment_transfers
+-- Purpose: One distribution per released payment, and retry bookkeeping for
+-- transfers that failed (e.g. the finder has no valid IBAN in userprofile yet).
+
+ALTER TABLE payment_transfers
+ADD COLUMN IF NOT EXISTS retry_count INT DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transfers_retry
+ON payment_transfers(next_retry_at)
+WHERE status = 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_payment_transfers_distribution_id ON payment_transfers(distribution_id);
+
+-- Escrow release and the payouts job may race to create the distribution
+CREATE UNIQUE INDEX IF NOT EXISTS idx_final_payment_distributions_payment_id
+ON final_payment_distributions(payment_id);
+
+COMMENT ON COLUMN payment_transfers.retry_count IS 'Failed attempts so far; automatic retries stop at 5';
+COMMENT ON COLUMN payment_transfers.next_retry_at IS 'When the payouts job retries a failed transfer, NULL when none is scheduled';
+COMMENT ON COLUMN payment_transfers.metadata IS 'Transfer details; iban = the IBAN a finder reward is sent to, snapshotted when validated';
@@ -0,0 +1,15 @@
+-- Migration: Quarantine on webhook_storage
+-- Purpose: A success webhook whose amount, currency or commission doesn't match the stored
+-- payment is not applied. It is quarantined for admin review instead: the payment stays
+-- pending and the retry job skips it.
+
+ALTER TABLE webhook_storage
+ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_storage_quarantined_at
+ON webhook_storage(quarantined_at)
+WHERE quarantined_at IS NOT NULL;
+
+COMMENT ON COLUMN webhook_storage.quarantined_at IS 'When the webhook was held back for admin review because its amounts did not match the payment, NULL otherwise';
+COMMENT ON COLUMN webhook_storage.quarantine_reason IS 'The mismatches that quarantined the webhook';
@@ -0,0 +1,10 @@
+-- Migration: Add quote_id column to payments table
+-- Purpose: Link a payment to the server-computed quote (GET /v1/payments/quote/:deviceId)
+-- its amount and fee breakdown were taken from
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS quote_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_payments_quote_id ON payments(quote_id) WHERE quote_id IS NOT NULL;
+
+COMMENT ON COLUMN payments.quote_id IS 'ID (qid) of the signed payment quote used for this payment; NULL for legacy payments with client-sent totalAmount';
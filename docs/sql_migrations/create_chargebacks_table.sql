@@ -0,0 +1,57 @@
+-- Chargebacks Table Migration
+-- Chargeback cases raised by the card holder's bank, from the PAYNET chargeback webhook or admin entry.
+-- While a case is open a still-held escrow is 'frozen' (payments.escrow_status, escrow_accounts.status);
+-- a lost case leaves the payment 'charged_back'.
+
+CREATE TABLE IF NOT EXISTS chargebacks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE RESTRICT,
+  device_id UUID NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  provider_case_id VARCHAR(100) NOT NULL, -- Provider's chargeback case number
+  source VARCHAR(10) NOT NULL CHECK (source IN ('webhook', 'admin')),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'evidence_submitted', 'resolving', 'won', 'lost')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0), -- Disputed amount
+  currency VARCHAR(3) NOT NULL DEFAULT 'TRY',
+  reason_code VARCHAR(20), -- Card scheme reason code
+  reason TEXT,
+  escrow_status_at_open VARCHAR(20),
+  escrow_frozen BOOLEAN NOT NULL DEFAULT false, -- The held escrow was frozen for this case
+  evidence_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  evidence JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ description, documentUrl, addedBy, addedAt }]
+  evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+  deadline_alerted_at TIMESTAMP WITH TIME ZONE, -- Admins were alerted about the evidence deadline
+  reward_action VARCHAR(20) CHECK (reward_action IN ('kept', 'cancelled', 'recovery_required', 'none')),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID, -- Admin user id
+  resolution_note TEXT,
+  raw_payload JSONB, -- Provider notification as received
+  created_by VARCHAR(50) NOT NULL, -- Admin user id or 'system'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Repeated notifications for one case map to the same row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chargebacks_provider_case ON chargebacks(provider, provider_case_id);
+
+-- One undecided case per payment; it owns the escrow freeze
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chargebacks_open_payment
+ON chargebacks(payment_id)
+WHERE status IN ('open', 'evidence_submitted', 'resolving');
+
+CREATE INDEX IF NOT EXISTS idx_chargebacks_evidence_due
+ON chargebacks(evidence_due_at)
+WHERE status = 'open' AND deadline_alerted_at IS NULL;
+
+ALTER TABLE chargebacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to chargebacks"
+ON chargebacks
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE chargebacks IS 'Chargeback cases; open until an admin records the bank''s decision';
+COMMENT ON COLUMN payment_transfers.status IS 'pending, processing, completed, failed, or cancelled (finder reward reversed by a lost chargeback)';
+COMMENT ON COLUMN financial_transactions.debit_account IS 'Ledger account debited by amount; chargeback_losses = money lost to chargebacks after release';
@@ -0,0 +1,58 @@
+-- Fee Schedules Table Migration
+-- Versioned fee policies used to split a payment's total (device_models.ifoundanapple_fee)
+-- into reward, cargo fee and service fee. Rows are never edited: a change is a new version,
+-- and an old version is retired by setting effective_to. Each payment records the version
+-- that priced it.
+--
+-- Scope: a schedule applies to one device model (device_model_name = device_models.model_name),
+-- to one device category (device_category = device_models.category), or to every device when
+-- both are NULL. The most specific schedule in effect wins: model > category > default.
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_model_name VARCHAR(100), -- Model scope (device_models.model_name)
+  device_category VARCHAR(50), -- Category scope (device_models.category)
+  version INT NOT NULL, -- Increments per scope
+  reward_rate NUMERIC(5, 4), -- Finder reward as a fraction of total; NULL = device_models.fee_percentage
+  min_reward NUMERIC(10, 2),
+  max_reward NUMERIC(10, 2),
+  cargo_company_code VARCHAR(20), -- cargo_companies.code whose base_fee is the cargo fee; NULL = highest active base_fee
+  effective_from TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  effective_to TIMESTAMP WITH TIME ZONE, -- NULL = open-ended
+  notes TEXT,
+  created_by UUID, -- Admin user who created the version
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT fee_schedules_single_scope_check CHECK (device_model_name IS NULL OR device_category IS NULL),
+  CONSTRAINT fee_schedules_reward_rate_check CHECK (reward_rate IS NULL OR (reward_rate >= 0 AND reward_rate <= 1)),
+  CONSTRAINT fee_schedules_reward_bounds_check CHECK (min_reward IS NULL OR max_reward IS NULL OR min_reward <= max_reward),
+  CONSTRAINT fee_schedules_effective_range_check CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_schedules_scope_version
+ON fee_schedules(COALESCE(device_model_name, ''), COALESCE(device_category, ''), version);
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_effective ON fee_schedules(effective_from, effective_to);
+
+ALTER TABLE fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to fee_schedules"
+ON fee_schedules
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Default schedule: the previous hard-coded 20% reward
+INSERT INTO fee_schedules (version, reward_rate, notes)
+SELECT 1, 0.2000, 'Initial default schedule (20% reward)'
+WHERE NOT EXISTS (SELECT 1 FROM fee_schedules);
+
+-- Payments: which fee schedule version priced the payment
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS fee_schedule_id UUID REFERENCES fee_schedules(id),
+ADD COLUMN IF NOT EXISTS fee_schedule_version INT;
+
+COMMENT ON TABLE fee_schedules IS 'Versioned fee policies; rows are immutable except effective_to';
+COMMENT ON COLUMN fee_schedules.reward_rate IS 'Finder reward as a fraction of total_amount, clamped to min_reward/max_reward; NULL uses device_models.fee_percentage';
+COMMENT ON COLUMN fee_schedules.cargo_company_code IS 'Cargo fee is cargo_companies.base_fee of this company; NULL uses the highest active base_fee';
+COMMENT ON COLUMN payments.fee_schedule_id IS 'Fee schedule that priced the payment, NULL for payments priced before fee schedules';
+COMMENT ON COLUMN payments.fee_schedule_version IS 'Version of fee_schedule_id at pricing time';
@@ -0,0 +1,35 @@
+-- Idempotency Keys Table Migration
+-- Responses of money-moving requests sent with an Idempotency-Key header, per user and key.
+-- A retry with the same key and body replays response_status/response_body instead of running again.
+-- Rows are purged hourly after expires_at (IDEMPOTENCY_KEY_TTL_HOURS).
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_fingerprint VARCHAR(64) NOT NULL, -- sha256 of method, path and body
+  method VARCHAR(10) NOT NULL,
+  path TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- The first request claims the key; concurrent retries hit this constraint
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idempotency_keys_user_key ON idempotency_keys(user_id, idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to idempotency_keys"
+ON idempotency_keys
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE idempotency_keys IS 'Stored responses for Idempotency-Key retries of money-moving endpoints';
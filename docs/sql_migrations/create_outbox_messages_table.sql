@@ -0,0 +1,64 @@
+-- Outbox Messages Table Migration
+-- Side effects of payment and cargo flows (notifications, audit log entries), written in the
+-- same transaction as the state change and delivered by the dispatcher worker (OutboxDispatcherService).
+-- Failed deliveries are retried with backoff; after OUTBOX_MAX_ATTEMPTS they are dead-lettered
+-- and wait for an admin retry (POST /v1/outbox/messages/:id/retry).
+-- Run before add_outbox_to_payment_transition_functions.sql.
+
+CREATE TABLE IF NOT EXISTS outbox_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic VARCHAR(30) NOT NULL CHECK (topic IN ('notification', 'audit_log')),
+  payload JSONB NOT NULL, -- row inserted into notifications / audit_logs
+  aggregate_id UUID, -- payment or device the message belongs to
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  dead_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Dispatcher queue scan
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_due ON outbox_messages(next_attempt_at) WHERE status = 'pending';
+
+-- Admin view of stuck messages
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_status ON outbox_messages(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_aggregate_id ON outbox_messages(aggregate_id);
+
+ALTER TABLE outbox_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to outbox_messages"
+ON outbox_messages
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE outbox_messages IS 'Transactional outbox for notifications and audit log entries';
+
+-- Used by the payment transition functions: p_messages is a JSON array of
+-- { topic, payload, aggregate_id } objects
+CREATE OR REPLACE FUNCTION enqueue_outbox_messages(p_messages JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_messages IS NULL OR jsonb_typeof(p_messages) <> 'array' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO outbox_messages (topic, payload, aggregate_id)
+  SELECT
+    message->>'topic',
+    message->'payload',
+    NULLIF(message->>'aggregate_id', '')::UUID
+  FROM jsonb_array_elements(p_messages) AS message;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_outbox_messages(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_outbox_messages(JSONB) TO service_role;
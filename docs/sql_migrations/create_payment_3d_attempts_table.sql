@@ -0,0 +1,27 @@
+-- Payment 3D Attempts Table Migration
+-- One row per 3D Secure return_url callback: the complete-3d run the callback started and its outcome.
+-- The callback redirects the payer with a signed token carrying only the attempt id; the client
+-- reads the outcome with GET /v1/payments/3d-result instead of receiving provider identifiers.
+
+CREATE TABLE IF NOT EXISTS payment_3d_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  client_platform VARCHAR(20) NOT NULL DEFAULT 'web' CHECK (client_platform IN ('web', 'ios')),
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'succeeded', 'failed')),
+  message TEXT, -- Outcome message of complete-3d (failure reason when failed)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_3d_attempts_payment_id ON payment_3d_attempts(payment_id);
+
+ALTER TABLE payment_3d_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to payment_3d_attempts"
+ON payment_3d_attempts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE payment_3d_attempts IS 'Outcome of each 3D Secure callback, looked up by the signed redirect result token';
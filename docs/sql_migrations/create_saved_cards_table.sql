@@ -0,0 +1,44 @@
+-- Saved Cards Table Migration
+-- Stores provider card-vault tokens so payers can pay without sending raw card data.
+-- Only the provider token and display fields (BIN, last four, brand) are stored - never PAN/CVC.
+
+CREATE TABLE IF NOT EXISTS saved_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL, -- Card owner (auth user id)
+  provider VARCHAR(50) NOT NULL, -- Payment provider holding the card (paynet, iyzico)
+  card_hash TEXT NOT NULL, -- Provider card token
+  user_unique_id TEXT NOT NULL, -- Provider-side card owner key (PAYNET user_unique_id / iyzico cardUserKey)
+  card_bin VARCHAR(8),
+  card_last_four VARCHAR(4),
+  card_brand VARCHAR(50),
+  card_type VARCHAR(50),
+  source_payment_id UUID REFERENCES payments(id) ON DELETE SET NULL, -- Payment the card was saved on
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE, -- Soft delete; the provider-side card is deleted at the same time
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_cards_provider_card_hash ON saved_cards(provider, card_hash);
+CREATE INDEX IF NOT EXISTS idx_saved_cards_user_id ON saved_cards(user_id) WHERE deleted_at IS NULL;
+
+ALTER TABLE saved_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to saved_cards"
+ON saved_cards
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Payments: remember whether the payer asked to save the card and which saved card was used
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS save_card BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS saved_card_id UUID REFERENCES saved_cards(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS card_bin VARCHAR(8);
+
+COMMENT ON TABLE saved_cards IS 'Provider card-vault tokens for saved-card payments. No raw card data.';
+COMMENT ON COLUMN saved_cards.card_hash IS 'Provider card token, sent instead of PAN/CVC when paying with this card';
+COMMENT ON COLUMN saved_cards.user_unique_id IS 'Provider card owner key; all saved cards of a user at one provider share it';
+COMMENT ON COLUMN payments.save_card IS 'Payer asked to store the card; the card is saved when the charge succeeds';
+COMMENT ON COLUMN payments.saved_card_id IS 'Saved card used for this payment, NULL for a new card';
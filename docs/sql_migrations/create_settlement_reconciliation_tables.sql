@@ -0,0 +1,126 @@
+-- Settlement Reconciliation Tables Migration
+-- Imported PAYNET settlement/transaction reports and the daily reconciliation of them against payments.
+-- Rows are matched by reference_no, which is the payment ID we send to PAYNET.
+
+CREATE TABLE IF NOT EXISTS settlement_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(50) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('csv', 'json')),
+  checksum VARCHAR(64) NOT NULL, -- SHA-256 of the file content; the same file can't be imported twice
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  error_rows INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ line, message }] of rows that could not be parsed
+  settlement_dates DATE[] NOT NULL DEFAULT '{}',
+  failed_reason TEXT,
+  imported_by UUID, -- Admin user id
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_settlement_imports_provider_checksum ON settlement_imports(provider, checksum);
+
+CREATE TABLE IF NOT EXISTS settlement_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID NOT NULL REFERENCES settlement_imports(id) ON DELETE CASCADE, -- Last import that reported the row
+  provider VARCHAR(50) NOT NULL,
+  reference_no VARCHAR(255) NOT NULL,
+  xact_id VARCHAR(255),
+  record_type VARCHAR(10) NOT NULL CHECK (record_type IN ('sale', 'refund')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  amount DECIMAL(10, 2) NOT NULL,
+  commission DECIMAL(10, 2),
+  net_amount DECIMAL(10, 2),
+  transaction_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  settlement_date DATE NOT NULL, -- Transaction day in Europe/Istanbul
+  raw_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_settlement_records_reference ON settlement_records(provider, reference_no, record_type);
+CREATE INDEX IF NOT EXISTS idx_settlement_records_settlement_date ON settlement_records(provider, settlement_date);
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(50) NOT NULL,
+  settlement_date DATE NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'completed', 'no_settlement_data', 'failed')),
+  settlement_rows INTEGER NOT NULL DEFAULT 0,
+  payments_checked INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  discrepancy_count INTEGER NOT NULL DEFAULT 0,
+  triggered_by VARCHAR(255) NOT NULL, -- 'cron' or the admin user id
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE, -- Last run that found it
+  provider VARCHAR(50) NOT NULL,
+  settlement_date DATE NOT NULL,
+  discrepancy_type VARCHAR(30) NOT NULL CHECK (discrepancy_type IN (
+    'amount_mismatch',
+    'commission_mismatch',
+    'status_mismatch',
+    'missing_in_settlement',
+    'missing_in_payments'
+  )),
+  reference_no VARCHAR(255) NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  settlement_record_id UUID REFERENCES settlement_records(id) ON DELETE SET NULL,
+  expected_value TEXT, -- Our value
+  actual_value TEXT, -- PAYNET's value
+  details TEXT NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID, -- Admin user id; NULL when a later run no longer found it
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- One open discrepancy per day, type and reference; re-runs update it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_open
+ON reconciliation_discrepancies(settlement_date, discrepancy_type, reference_no)
+WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_payment_id ON reconciliation_discrepancies(payment_id);
+
+ALTER TABLE settlement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settlement_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to settlement_imports"
+ON settlement_imports
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to settlement_records"
+ON settlement_records
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to reconciliation_runs"
+ON reconciliation_runs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to reconciliation_discrepancies"
+ON reconciliation_discrepancies
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE settlement_records IS 'PAYNET settlement report rows, one per reference and sale/refund; later imports update them';
+COMMENT ON TABLE reconciliation_discrepancies IS 'Differences between settlement reports and payments; open until resolved by an admin or a later run';
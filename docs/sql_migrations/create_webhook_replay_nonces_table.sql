@@ -0,0 +1,26 @@
+-- Webhook Replay Nonces Table Migration
+-- One row per authenticated provider webhook delivery, keyed on its signature (which covers body and
+-- timestamp). A second delivery with the same signature inside the timestamp tolerance
+-- window hits the primary key and is rejected as a replay; older ones already fail the timestamp check.
+-- Rows are purged hourly after expires_at.
+
+CREATE TABLE IF NOT EXISTS webhook_replay_nonces (
+  provider VARCHAR(20) NOT NULL,
+  nonce VARCHAR(255) NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (provider, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_replay_nonces_expires_at ON webhook_replay_nonces(expires_at);
+
+ALTER TABLE webhook_replay_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to webhook_replay_nonces"
+ON webhook_replay_nonces
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE webhook_replay_nonces IS 'Seen webhook nonces, rejecting replayed deliveries within the timestamp tolerance window';
@@ -14,6 +14,12 @@ import { WebhooksModule } from './webhooks/webhooks.module';
 import { ScheduleModule } from '@nestjs/schedule';
 import { MaintenanceModule } from './maintenance/maintenance.module';
 import { CargoModule } from './cargo/cargo.module';
+import { PaynetSandboxModule } from './paynet-sandbox/paynet-sandbox.module';
+import { PayoutsModule } from './payouts/payouts.module';
+import { SettlementsModule } from './settlements/settlements.module';
+import { ChargebacksModule } from './chargebacks/chargebacks.module';
+import { OutboxModule } from './outbox/outbox.module';
+import { RealtimeModule } from './realtime/realtime.module';
 
 @Module({
   imports: [
@@ -30,6 +36,13 @@ import { CargoModule } from './cargo/cargo.module';
     ScheduleModule.forRoot(),
     MaintenanceModule,
     CargoModule,
+    PayoutsModule,
+    SettlementsModule,
+    ChargebacksModule,
+    OutboxModule,
+    RealtimeModule,
+    // Local PAYNET simulator; validation refuses PAYNET_SANDBOX_ENABLED in production
+    ...(process.env.PAYNET_SANDBOX_ENABLED === 'true' ? [PaynetSandboxModule] : []),
   ],
   controllers: [AppController],
   providers: [
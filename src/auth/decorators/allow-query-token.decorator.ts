@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Accept the JWT as ?access_token= when there is no Authorization header.
+// Only for endpoints browsers open with EventSource, which can't set headers.
+export const ALLOW_QUERY_TOKEN_KEY = 'allowQueryToken';
+export const AllowQueryToken = () => SetMetadata(ALLOW_QUERY_TOKEN_KEY, true);
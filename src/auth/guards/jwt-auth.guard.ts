@@ -1,7 +1,9 @@
 import { ExecutionContext, Injectable } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { AuthService } from '../auth.service';
+import { ALLOW_QUERY_TOKEN_KEY } from '../decorators/allow-query-token.decorator';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 import { SupabaseJwtGuard } from './supabase-jwt.guard';
 
@@ -27,4 +29,22 @@ export class JwtAuthGuard extends SupabaseJwtGuard {
 
     return super.canActivate(context);
   }
+
+  protected extractToken(context: ExecutionContext, request: Request): string | null {
+    const headerToken = super.extractToken(context, request);
+    if (headerToken) {
+      return headerToken;
+    }
+
+    const allowQueryToken = this.reflector.getAllAndOverride<boolean>(ALLOW_QUERY_TOKEN_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const queryToken = request.query.access_token;
+    if (allowQueryToken && typeof queryToken === 'string' && queryToken) {
+      return queryToken;
+    }
+
+    return null;
+  }
 }
@@ -21,15 +21,13 @@ export class SupabaseJwtGuard implements CanActivate {
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<Request>();
-    const authHeader = request.headers.authorization;
+    const token = this.extractToken(context, request);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       this.logger.warn('Missing or invalid Authorization header');
       throw new UnauthorizedException('Missing or invalid token');
     }
 
-    const token = authHeader.substring(7);
-
     try {
       const { data: { user }, error } = await this.supabaseService
         .getClient()
@@ -52,5 +50,13 @@ export class SupabaseJwtGuard implements CanActivate {
       throw new UnauthorizedException('Token validation failed');
     }
   }
+
+  protected extractToken(_context: ExecutionContext, request: Request): string | null {
+    const authHeader = request.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+    return authHeader.substring(7);
+  }
 }
 
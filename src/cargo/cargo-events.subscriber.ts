@@ -0,0 +1,181 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import {
+  DisputeOpenedEvent,
+  EscrowReleasedEvent,
+  PaymentCompletedEvent,
+} from '../domain-events/domain-events.types';
+import { OutboxService } from '../outbox/outbox.service';
+import { SupabaseService } from '../supabase/supabase.service';
+
+/**
+ * Cargo side of payment and delivery events: opens the shipment once the
+ * payment is captured and keeps the finder's paired device row in step
+ * with the owner's.
+ */
+@Injectable()
+export class CargoEventsSubscriber implements OnModuleInit {
+  private readonly logger = new Logger(CargoEventsSubscriber.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly eventBus: DomainEventBus,
+    private readonly outboxService: OutboxService,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  onModuleInit(): void {
+    this.eventBus.subscribe('PaymentCompleted', CargoEventsSubscriber.name, (event) =>
+      this.createShipment(event),
+    );
+    this.eventBus.subscribe('EscrowReleased', CargoEventsSubscriber.name, (event) =>
+      this.completeFinderDevice(event),
+    );
+    this.eventBus.subscribe('DisputeOpened', CargoEventsSubscriber.name, (event) =>
+      this.notifyFinderOfDispute(event),
+    );
+  }
+
+  /**
+   * No real cargo carrier integration exists yet: the finder ships the device
+   * through a carrier of their own choosing and enters the tracking number
+   * manually in the app. We pre-create the shipment row now (with a generated
+   * delivery code) so the finder immediately sees their code after payment.
+   * PaymentCompleted may arrive more than once per payment; the unique index
+   * on cargo_shipments.payment_id keeps it to one shipment.
+   */
+  private async createShipment(event: PaymentCompletedEvent): Promise<void> {
+    const { data: existing } = await this.supabase
+      .from('cargo_shipments')
+      .select('id')
+      .eq('payment_id', event.paymentId)
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) {
+      return;
+    }
+
+    const codeExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+    const { error } = await this.supabase.from('cargo_shipments').insert({
+      device_id: event.deviceId,
+      payment_id: event.paymentId,
+      cargo_company: 'pending',
+      cargo_service_type: 'standard',
+      sender_anonymous_id: this.generateAnonymousId('FND'),
+      receiver_anonymous_id: this.generateAnonymousId('OWN'),
+      sender_user_id: event.receiverId,
+      receiver_user_id: event.payerId,
+      status: 'created',
+      cargo_status: 'pending',
+      cargo_fee: event.cargoFee,
+      code: this.generateCargoCode(),
+      generated_by: event.receiverId,
+      expires_at: codeExpiresAt,
+    });
+
+    if (error?.code === '23505') {
+      // A concurrent PaymentCompleted (3D completion and webhook) created it
+      return;
+    }
+    if (error) {
+      // The finder can still be helped manually if this fails
+      this.logger.error(
+        `Failed to create cargo shipment for payment ${event.paymentId}: ${error.message}`,
+        error,
+      );
+      return;
+    }
+
+    if (event.receiverId) {
+      await this.outboxService.enqueue([
+        {
+          topic: 'notification',
+          aggregateId: event.paymentId,
+          payload: {
+            user_id: event.receiverId,
+            message_key: 'delivery_code_ready',
+            type: 'info',
+            link: `device/${event.deviceId}`,
+          },
+        },
+      ]);
+    }
+  }
+
+  /**
+   * The release only moves the owner's device row (payments.device_id) to
+   * 'completed' - mirror it onto the finder's paired row so both sides reach
+   * the final state instead of the finder staying stuck on 'confirmed'.
+   */
+  private async completeFinderDevice(event: EscrowReleasedEvent): Promise<void> {
+    const { data: ownerDevice } = await this.supabase
+      .from('devices')
+      .select('model, serialNumber')
+      .eq('id', event.deviceId)
+      .maybeSingle();
+
+    if (!ownerDevice) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('devices')
+      .update({ status: 'completed', updated_at: new Date().toISOString() })
+      .eq('serialNumber', ownerDevice.serialNumber)
+      .eq('model', ownerDevice.model)
+      .eq('device_role', 'finder');
+
+    if (error) {
+      this.logger.error(
+        `Failed to complete finder device for payment ${event.paymentId}: ${error.message}`,
+        error,
+      );
+    }
+  }
+
+  private async notifyFinderOfDispute(event: DisputeOpenedEvent): Promise<void> {
+    if (!event.finderUserId) {
+      return;
+    }
+
+    await this.outboxService.enqueue([
+      {
+        topic: 'notification',
+        aggregateId: event.deviceId,
+        payload: {
+          user_id: event.finderUserId,
+          message_key: 'delivery_disputed',
+          type: 'warning',
+          link: `device/${event.deviceId}`,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Generate a short human-readable delivery code for the finder.
+   * No real cargo carrier is integrated yet: this code identifies the
+   * anonymous shipment until ops enters a real tracking number.
+   */
+  private generateCargoCode(): string {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no O/0/I/1 ambiguity
+    let code = '';
+    for (let i = 0; i < 6; i++) {
+      code += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return `IFA-${code}`;
+  }
+
+  /**
+   * Generate an anonymous identifier for a cargo shipment party so the
+   * finder and owner never see each other's real identity.
+   */
+  private generateAnonymousId(prefix: string): string {
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `${prefix}-${suffix}`;
+  }
+}
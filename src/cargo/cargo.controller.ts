@@ -3,6 +3,7 @@ import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagg
 import { Request } from 'express';
 import { AdminGuard } from '../auth/guards/admin.guard';
 import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { Idempotent } from '../idempotency/idempotent.decorator';
 import { CargoService } from './cargo.service';
 import { CancelByOwnerDto } from './dto/cancel-by-owner.dto';
 import { DisputeReceiptDto } from './dto/dispute-receipt.dto';
@@ -92,6 +93,7 @@ export class CargoController {
   @ApiResponse({ status: 200, description: 'Marked as received successfully' })
   @ApiResponse({ status: 403, description: 'Forbidden - only the device owner can confirm receipt' })
   @ApiResponse({ status: 404, description: 'Device not found' })
+  @Idempotent()
   @Patch('shipments/:deviceId/received')
   async markReceived(
     @Param('deviceId') deviceId: string,
@@ -114,6 +116,7 @@ export class CargoController {
   @ApiResponse({ status: 400, description: 'Cargo has already shipped, cannot self-cancel' })
   @ApiResponse({ status: 403, description: 'Forbidden - only the device owner can cancel' })
   @ApiResponse({ status: 404, description: 'Device or payment not found' })
+  @Idempotent()
   @Patch('shipments/:deviceId/cancel')
   async cancelByOwner(
     @Param('deviceId') deviceId: string,
@@ -160,6 +163,7 @@ export class CargoController {
   @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
   @ApiResponse({ status: 404, description: 'Device or payment not found' })
   @UseGuards(AdminGuard)
+  @Idempotent()
   @Patch('shipments/:deviceId/admin-release-escrow')
   async adminReleaseEscrow(@Param('deviceId') deviceId: string): Promise<{ success: boolean }> {
     return this.cargoService.adminReleaseEscrow(deviceId);
@@ -168,18 +172,24 @@ export class CargoController {
   @ApiOperation({
     summary: 'Resolve a disputed delivery (Admin only)',
     description:
-      'Ops investigates outside the system (phone, photos) and resolves the dispute — either confirming receipt as normal or sending the device back to the finder.',
+      "Ops investigates outside the system (phone, photos) and resolves the dispute — confirming receipt as normal, sending the device back to the finder, or 'split': keeping the delivery but refunding part of the escrow to the owner (e.g. a damaged device) and releasing the rest.",
   })
   @ApiResponse({ status: 200, description: 'Dispute resolved successfully' })
-  @ApiResponse({ status: 400, description: 'Device is not currently disputed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Device is not currently disputed, or the split refund exceeds the held escrow',
+  })
   @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
   @ApiResponse({ status: 404, description: 'Device not found' })
   @UseGuards(AdminGuard)
+  @Idempotent()
   @Patch('shipments/:deviceId/resolve-dispute')
   async resolveDispute(
     @Param('deviceId') deviceId: string,
     @Body() dto: ResolveDisputeDto,
+    @Req() request: Request,
   ): Promise<{ success: boolean }> {
-    return this.cargoService.resolveDispute(deviceId, dto.resolution);
+    const user = request.user as RequestUser;
+    return this.cargoService.resolveDispute(deviceId, dto.resolution, user.id, dto.refund);
   }
 }
@@ -1,14 +1,26 @@
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { OutboxModule } from '../outbox/outbox.module';
 import { PaymentsModule } from '../payments/payments.module';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { CargoEventsSubscriber } from './cargo-events.subscriber';
 import { CargoController } from './cargo.controller';
 import { CargoService } from './cargo.service';
+import { EscrowSchedulerService } from './escrow-scheduler.service';
 
 @Module({
-  imports: [SupabaseModule, PaymentsModule, ScheduleModule.forRoot()],
+  imports: [
+    SupabaseModule,
+    PaymentsModule,
+    IdempotencyModule,
+    OutboxModule,
+    DomainEventsModule,
+    ScheduleModule.forRoot(),
+  ],
   controllers: [CargoController],
-  providers: [CargoService],
+  providers: [CargoService, EscrowSchedulerService, CargoEventsSubscriber],
   exports: [CargoService],
 })
 export class CargoModule {}
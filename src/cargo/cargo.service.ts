@@ -7,8 +7,12 @@ import {
 } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PartialRefundDto } from '../payments/dto/partial-refund.dto';
 import { PaymentsService } from '../payments/services/payments.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { DisputeResolution } from './dto/resolve-dispute.dto';
 import { SubmitCargoTrackingDto } from './dto/submit-cargo-tracking.dto';
 import { CargoAdminStatus, UpdateCargoStatusDto } from './dto/update-cargo-status.dto';
 
@@ -29,6 +33,8 @@ export class CargoService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly paymentsService: PaymentsService,
+    private readonly outboxService: OutboxService,
+    private readonly eventBus: DomainEventBus,
   ) {
     this.supabase = this.supabaseService.getClient();
   }
@@ -105,7 +111,11 @@ export class CargoService {
       throw new BadRequestException('Failed to update cargo shipment');
     }
 
-    const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(deviceId, 'cargo_shipped');
+    const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(
+      deviceId,
+      'cargo_shipped',
+      'picked_up',
+    );
 
     if (ownerDevice?.userId) {
       await this.notify(ownerDevice.userId, 'package_in_transit', deviceId);
@@ -182,33 +192,52 @@ export class CargoService {
     // in_transit/out_for_delivery are shipment-level tracking info only and
     // don't move devices.status.
     if (dto.status === 'picked_up') {
-      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(deviceId, 'cargo_shipped');
-      if (ownerDevice?.userId) await this.notify(ownerDevice.userId, 'package_in_transit', deviceId);
+      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(
+        deviceId,
+        'cargo_shipped',
+        cargoStatus,
+      );
+      if (ownerDevice?.userId)
+        await this.notify(ownerDevice.userId, 'package_in_transit', deviceId);
       if (finderDevice?.userId) await this.notify(finderDevice.userId, 'package_shipped', deviceId);
     } else if (dto.status === 'delivered') {
-      const { ownerDevice } = await this.updateDevicePairStatus(deviceId, 'delivered');
+      const { ownerDevice } = await this.updateDevicePairStatus(deviceId, 'delivered', cargoStatus);
       if (ownerDevice?.userId) await this.notify(ownerDevice.userId, 'package_delivered_by_carrier', deviceId);
     } else if (dto.status === 'failed_delivery') {
       // Carrier attempted delivery to the owner and it failed (wrong address,
       // recipient absent, etc). Ops can retry (advance back to in_transit /
       // out_for_delivery) or escalate to 'returned' once it's clear the
       // package is going back to the finder.
-      const { ownerDevice } = await this.updateDevicePairStatus(deviceId, 'failed_delivery');
+      const { ownerDevice } = await this.updateDevicePairStatus(
+        deviceId,
+        'failed_delivery',
+        cargoStatus,
+      );
       if (ownerDevice?.userId) await this.notify(ownerDevice.userId, 'delivery_failed', deviceId);
     } else if (dto.status === 'returned') {
       // Package is being sent back to the finder (after repeated failed
       // delivery, or the finder/owner backing out before pickup). This is
       // a terminal state for this shipment — no automatic refund logic
       // runs here, ops handles refunds manually per the cargo fee policy.
-      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(deviceId, 'returned');
+      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(
+        deviceId,
+        'returned',
+        cargoStatus,
+      );
       if (ownerDevice?.userId) await this.notify(ownerDevice.userId, 'package_returned', deviceId);
       if (finderDevice?.userId) await this.notify(finderDevice.userId, 'package_returned_to_you', deviceId);
     } else if (dto.status === 'cancelled') {
       // Transaction cancelled before/during shipping, by a party or ops.
       // Terminal state — no further cargo status transitions expected.
-      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(deviceId, 'cancelled');
-      if (ownerDevice?.userId) await this.notify(ownerDevice.userId, 'shipment_cancelled', deviceId);
-      if (finderDevice?.userId) await this.notify(finderDevice.userId, 'shipment_cancelled', deviceId);
+      const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(
+        deviceId,
+        'cancelled',
+        cargoStatus,
+      );
+      if (ownerDevice?.userId)
+        await this.notify(ownerDevice.userId, 'shipment_cancelled', deviceId);
+      if (finderDevice?.userId)
+        await this.notify(finderDevice.userId, 'shipment_cancelled', deviceId);
     } else {
       const { data: ownerDevice } = await this.supabase
         .from('devices')
@@ -218,6 +247,7 @@ export class CargoService {
       if (ownerDevice?.userId) {
         await this.notify(ownerDevice.userId, 'package_in_transit', deviceId);
       }
+      await this.publishStatusChange(deviceId, ownerDevice, null, null, cargoStatus);
     }
 
     return { success: true };
@@ -229,8 +259,15 @@ export class CargoService {
    * the admin-triggered 'cancelled' path in updateStatus() (which is for ops
    * handling exceptions after shipping and does not touch money), this
    * immediately refunds the held escrow to the owner via Paynet.
+   * The escrow scheduler uses the same path, on the owner's behalf, when an
+   * escrow's hold period runs out before anything shipped.
    */
-  async cancelByOwner(deviceId: string, userId: string, reason: string): Promise<{ success: boolean }> {
+  async cancelByOwner(
+    deviceId: string,
+    userId: string,
+    reason: string,
+    finderNotifyKey = 'shipment_cancelled_by_owner',
+  ): Promise<{ success: boolean }> {
     const { data: ownerDevice, error: deviceError } = await this.supabase
       .from('devices')
       .select('id, userId, device_role, model, serialNumber')
@@ -300,10 +337,12 @@ export class CargoService {
         .eq('id', finderDevice.id);
 
       if (finderDevice.userId) {
-        await this.notify(finderDevice.userId, 'shipment_cancelled_by_owner', deviceId);
+        await this.notify(finderDevice.userId, finderNotifyKey, deviceId);
       }
     }
 
+    await this.publishStatusChange(deviceId, ownerDevice, finderDevice, 'cancelled', 'cancelled');
+
     return { success: true };
   }
 
@@ -412,8 +451,9 @@ export class CargoService {
    * Shared core of "the owner is treated as having confirmed receipt" —
    * used both by the owner's own manual confirmation (markReceived) and by
    * the 48-hour auto-confirm cron (autoConfirmStaleDeliveries). Moves both
-   * device rows to 'confirmed', releases escrow (moving both to
-   * 'completed' on success), and notifies the finder.
+   * device rows to 'confirmed', notifies the finder and publishes
+   * ShipmentDelivered, which releases escrow (moving both to 'completed'
+   * on success).
    */
   private async confirmReceipt(
     ownerDevice: { id: string; userId: string; model: string; serialNumber: string },
@@ -460,48 +500,17 @@ export class CargoService {
       await this.notify(finderDevice.userId, finderNotifyKey, deviceId);
     }
 
-    // Confirmation is the signal that releases the held payment to us
-    // (Paynet settles escrowed funds to our merchant account, not directly
-    // to the finder's IBAN — the finder's actual payout is a separate,
-    // manual step outside this system). A failure here must not undo the
-    // receipt confirmation itself; ops can retry the release manually via
-    // the admin "Escrow Serbest Bırak" button if this fails.
-    const { data: payment } = await this.supabase
-      .from('payments')
-      .select('id')
-      .eq('device_id', deviceId)
-      .eq('payment_status', 'completed')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+    await this.publishStatusChange(deviceId, ownerDevice, finderDevice, 'confirmed', 'delivered');
 
-    if (payment) {
-      try {
-        await this.paymentsService.releaseEscrow(
-          payment.id,
-          deviceId,
-          'Device receipt confirmed',
-          ownerDevice.userId,
-        );
-        // releaseEscrow only sets the owner's own device row to 'completed'
-        // (it only knows the single deviceId it was called with) — mirror
-        // that onto the finder's paired row so both sides reach the final
-        // state instead of the finder staying stuck on 'confirmed' forever.
-        if (finderDevice) {
-          await this.supabase
-            .from('devices')
-            .update({ status: 'completed', updated_at: new Date().toISOString() })
-            .eq('id', finderDevice.id);
-        }
-      } catch (err: any) {
-        this.logger.error(
-          `Failed to auto-release escrow after receipt confirmation (payment ${payment.id}): ${err.message}`,
-          err,
-        );
-      }
-    } else {
-      this.logger.error(`No completed payment found for device ${deviceId} — cannot auto-release escrow`);
-    }
+    // Confirmation is the signal that releases the held payment to us
+    // (see PaymentEventsSubscriber)
+    await this.eventBus.publish({
+      type: 'ShipmentDelivered',
+      deviceId,
+      ownerUserId: ownerDevice.userId,
+      finderDeviceId: finderDevice?.id ?? null,
+      reason: 'Device receipt confirmed',
+    });
 
     return { success: true };
   }
@@ -589,9 +598,13 @@ export class CargoService {
 
     const { finderDevice } = await this.updateDevicePairStatus(deviceId, 'disputed');
 
-    if (finderDevice?.userId) {
-      await this.notify(finderDevice.userId, 'delivery_disputed', deviceId);
-    }
+    await this.eventBus.publish({
+      type: 'DisputeOpened',
+      deviceId,
+      ownerUserId: userId,
+      finderUserId: finderDevice?.userId ?? null,
+      reason,
+    });
 
     return { success: true };
   }
@@ -655,9 +668,16 @@ export class CargoService {
   /**
    * Ops resolves a dispute after investigating outside the system (phone,
    * photos, etc). 'confirmed' proceeds as if the owner had confirmed
-   * receipt normally; 'returned' sends the device back to the finder.
+   * receipt normally; 'returned' sends the device back to the finder;
+   * 'split' refunds part of the escrow to the owner and releases the rest,
+   * completing the delivery.
    */
-  async resolveDispute(deviceId: string, resolution: 'confirmed' | 'returned'): Promise<{ success: boolean }> {
+  async resolveDispute(
+    deviceId: string,
+    resolution: DisputeResolution,
+    adminUserId: string,
+    refund?: PartialRefundDto,
+  ): Promise<{ success: boolean }> {
     const { data: ownerDevice, error: deviceError } = await this.supabase
       .from('devices')
       .select('id, userId, device_role, model, serialNumber, status')
@@ -672,6 +692,10 @@ export class CargoService {
       throw new BadRequestException('Device is not currently in a disputed state');
     }
 
+    if (resolution === 'split') {
+      return this.resolveDisputeWithSplit(deviceId, adminUserId, refund);
+    }
+
     const { ownerDevice: updatedOwner, finderDevice } = await this.updateDevicePairStatus(deviceId, resolution);
 
     const now = new Date().toISOString();
@@ -684,38 +708,13 @@ export class CargoService {
       // Resolving as 'confirmed' proceeds as if the owner had confirmed
       // receipt normally — release the held payment to us the same way
       // markReceived does.
-      const { data: payment } = await this.supabase
-        .from('payments')
-        .select('id')
-        .eq('device_id', deviceId)
-        .eq('payment_status', 'completed')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (payment) {
-        try {
-          await this.paymentsService.releaseEscrow(
-            payment.id,
-            deviceId,
-            'Dispute resolved as confirmed receipt',
-            updatedOwner.userId,
-          );
-          // Same as markReceived: releaseEscrow only advances the owner's
-          // own row to 'completed', mirror it onto the finder's paired row.
-          if (finderDevice) {
-            await this.supabase
-              .from('devices')
-              .update({ status: 'completed', updated_at: now })
-              .eq('id', finderDevice.id);
-          }
-        } catch (err: any) {
-          this.logger.error(
-            `Failed to auto-release escrow after dispute resolution (payment ${payment.id}): ${err.message}`,
-            err,
-          );
-        }
-      }
+      await this.eventBus.publish({
+        type: 'ShipmentDelivered',
+        deviceId,
+        ownerUserId: updatedOwner.userId,
+        finderDeviceId: finderDevice?.id ?? null,
+        reason: 'Dispute resolved as confirmed receipt',
+      });
     }
 
     if (updatedOwner?.userId) {
@@ -736,9 +735,57 @@ export class CargoService {
     return { success: true };
   }
 
+  /**
+   * 'split' dispute resolution: the refund runs first, so a rejected split
+   * (amounts over the held escrow, provider error) leaves the dispute open
+   */
+  private async resolveDisputeWithSplit(
+    deviceId: string,
+    adminUserId: string,
+    refund?: PartialRefundDto,
+  ): Promise<{ success: boolean }> {
+    if (!refund) {
+      throw new BadRequestException("refund is required for a 'split' resolution");
+    }
+
+    const { data: payment } = await this.supabase
+      .from('payments')
+      .select('id')
+      .eq('device_id', deviceId)
+      .eq('payment_status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!payment) {
+      throw new NotFoundException('No completed payment found for this device');
+    }
+
+    await this.paymentsService.refundEscrowPartially(
+      payment.id,
+      {
+        reward: refund.rewardRefund ?? 0,
+        cargoFee: refund.cargoFeeRefund ?? 0,
+        serviceFee: refund.serviceFeeRefund ?? 0,
+      },
+      refund.reason,
+      adminUserId,
+    );
+
+    const { ownerDevice, finderDevice } = await this.updateDevicePairStatus(deviceId, 'completed');
+    for (const userId of [ownerDevice?.userId, finderDevice?.userId]) {
+      if (userId) {
+        await this.notify(userId, 'dispute_resolved_split', deviceId);
+      }
+    }
+
+    return { success: true };
+  }
+
   private async updateDevicePairStatus(
     deviceId: string,
     status: string,
+    cargoStatus: string | null = null,
   ): Promise<{ ownerDevice: any; finderDevice: any }> {
     const now = new Date().toISOString();
 
@@ -769,9 +816,28 @@ export class CargoService {
         .eq('id', finderDevice.id);
     }
 
+    await this.publishStatusChange(deviceId, ownerDevice, finderDevice, status, cargoStatus);
+
     return { ownerDevice, finderDevice };
   }
 
+  private async publishStatusChange(
+    deviceId: string,
+    ownerDevice: { userId?: string | null } | null,
+    finderDevice: { userId?: string | null } | null,
+    deviceStatus: string | null,
+    cargoStatus: string | null,
+  ): Promise<void> {
+    await this.eventBus.publish({
+      type: 'ShipmentStatusChanged',
+      deviceId,
+      ownerUserId: ownerDevice?.userId ?? null,
+      finderUserId: finderDevice?.userId ?? null,
+      deviceStatus,
+      cargoStatus,
+    });
+  }
+
   // Anything the user needs to actively deal with (failed/disputed/cancelled
   // shipments) is a warning; routine progress updates are just info.
   private static readonly WARNING_MESSAGE_KEYS = new Set([
@@ -779,22 +845,19 @@ export class CargoService {
     'delivery_disputed',
     'shipment_cancelled',
     'shipment_cancelled_by_owner',
+    'escrow_expired_not_shipped',
     'package_returned',
     'package_returned_to_you',
   ]);
 
   private async notify(userId: string, messageKey: string, deviceId: string): Promise<void> {
     const type = CargoService.WARNING_MESSAGE_KEYS.has(messageKey) ? 'warning' : 'info';
-    const { error } = await this.supabase.from('notifications').insert({
-      user_id: userId,
-      message_key: messageKey,
-      type,
-      is_read: false,
-      link: `device/${deviceId}`,
-    });
-
-    if (error) {
-      this.logger.error(`Failed to create notification (${messageKey}): ${error.message}`, error);
-    }
+    await this.outboxService.enqueue([
+      {
+        topic: 'notification',
+        aggregateId: deviceId,
+        payload: { user_id: userId, message_key: messageKey, type, link: `device/${deviceId}` },
+      },
+    ]);
   }
 }
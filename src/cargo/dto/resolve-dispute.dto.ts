@@ -1,14 +1,17 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsDefined, IsIn, ValidateIf, ValidateNested } from 'class-validator';
+import { PartialRefundDto } from '../../payments/dto/partial-refund.dto';
 
-export const DISPUTE_RESOLUTIONS = ['confirmed', 'returned'] as const;
+export const DISPUTE_RESOLUTIONS = ['confirmed', 'returned', 'split'] as const;
 export type DisputeResolution = (typeof DISPUTE_RESOLUTIONS)[number];
 
 /**
  * Body for ops resolving a disputed delivery after investigating outside
  * the system. 'confirmed' proceeds as if the owner had confirmed receipt
  * normally (unblocks escrow release); 'returned' sends the device back to
- * the finder.
+ * the finder; 'split' keeps the delivery but refunds part of the escrow
+ * to the owner (e.g. the device arrived damaged) and releases the rest.
  */
 export class ResolveDisputeDto {
   @ApiProperty({
@@ -17,4 +20,15 @@ export class ResolveDisputeDto {
   })
   @IsIn(DISPUTE_RESOLUTIONS)
   resolution: DisputeResolution;
+
+  @ApiProperty({
+    description: "Required for 'split': what is refunded to the owner",
+    type: PartialRefundDto,
+    required: false,
+  })
+  @ValidateIf((dto: ResolveDisputeDto) => dto.resolution === 'split')
+  @IsDefined({ message: "refund is required for a 'split' resolution" })
+  @ValidateNested()
+  @Type(() => PartialRefundDto)
+  refund?: PartialRefundDto;
 }
@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppConfiguration, EscrowConfig } from '../config/configuration';
+import { OutboxService } from '../outbox/outbox.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CargoService } from './cargo.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Column default; rows created before it existed may still be NULL
+const DEFAULT_AUTO_RELEASE_DAYS = 30;
+// Same statuses cancelByOwner treats as "already shipped"
+const SHIPPED_CARGO_STATUSES = ['picked_up', 'in_transit', 'out_for_delivery', 'delivered'];
+
+export const ESCROW_ACTIVITY_ACTIONS = [
+  'reminder_sent',
+  'auto_released',
+  'auto_refunded',
+  'deadline_escalated',
+  'stuck_escalated',
+] as const;
+export type EscrowActivityAction = (typeof ESCROW_ACTIVITY_ACTIONS)[number];
+
+/**
+ * Entry in escrow_accounts.activity_log
+ */
+export interface EscrowActivity {
+  action: EscrowActivityAction;
+  at: string;
+  actor: 'system';
+  details: string;
+}
+
+interface HeldEscrow {
+  id: string;
+  payment_id: string;
+  device_id: string;
+  holder_user_id: string;
+  beneficiary_user_id: string | null;
+  held_at: string | null;
+  created_at: string;
+  auto_release_days: number | null;
+  reminder_sent_at: string | null;
+  activity_log: EscrowActivity[] | null;
+}
+
+/**
+ * Enforces the maximum hold period of each escrow
+ * (escrow_accounts.auto_release_days after it was held).
+ *
+ * Before the deadline owner and finder get one reminder, and admins are
+ * alerted when nothing has shipped for ESCROW_STUCK_ESCALATION_DAYS. At
+ * the deadline the escrow is settled when the outcome is clear - refunded
+ * to the owner if the device never shipped, released if receipt was
+ * already confirmed - and escalated to admins otherwise (in transit,
+ * disputed, returned). Devices at 'delivered' are left to the 48-hour
+ * auto-confirm in CargoService. Every automatic action is appended to the
+ * escrow's activity_log.
+ */
+@Injectable()
+export class EscrowSchedulerService {
+  private readonly logger = new Logger(EscrowSchedulerService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly config: EscrowConfig;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly cargoService: CargoService,
+    private readonly outboxService: OutboxService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+    this.config = this.configService.get<EscrowConfig>('escrow', { infer: true });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async enforceHoldPeriods(): Promise<void> {
+    const { data: escrows, error } = await this.supabase
+      .from('escrow_accounts')
+      .select(
+        'id, payment_id, device_id, holder_user_id, beneficiary_user_id, held_at, created_at, auto_release_days, reminder_sent_at, activity_log',
+      )
+      .eq('status', 'held')
+      .order('held_at', { ascending: true })
+      .limit(500);
+
+    if (error) {
+      this.logger.error(`Failed to fetch held escrows: ${error.message}`, error);
+      return;
+    }
+
+    for (const escrow of (escrows || []) as HeldEscrow[]) {
+      try {
+        await this.processEscrow(escrow);
+      } catch (processError: any) {
+        this.logger.error(`Escrow check failed for ${escrow.id}: ${processError.message}`);
+      }
+    }
+  }
+
+  private async processEscrow(escrow: HeldEscrow): Promise<void> {
+    const now = Date.now();
+    const heldAt = new Date(escrow.held_at ?? escrow.created_at).getTime();
+    const holdDays = escrow.auto_release_days ?? DEFAULT_AUTO_RELEASE_DAYS;
+    const deadline = heldAt + holdDays * DAY_MS;
+
+    const { data: shipment } = await this.supabase
+      .from('cargo_shipments')
+      .select('cargo_status')
+      .eq('device_id', escrow.device_id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const shipped = !!shipment && SHIPPED_CARGO_STATUSES.includes(shipment.cargo_status);
+
+    if (now >= deadline) {
+      await this.handleDeadline(escrow, holdDays, shipped, shipment?.cargo_status ?? null);
+      return;
+    }
+
+    if (!escrow.reminder_sent_at && now >= deadline - this.config.reminderDays * DAY_MS) {
+      const deadlineDate = new Date(deadline).toISOString();
+      await this.notify(escrow, escrow.holder_user_id, 'escrow_deadline_reminder_owner');
+      if (escrow.beneficiary_user_id) {
+        await this.notify(escrow, escrow.beneficiary_user_id, 'escrow_deadline_reminder_finder');
+      }
+      await this.recordActivity(escrow, 'reminder_sent', `Hold period ends ${deadlineDate}`, {
+        reminder_sent_at: new Date(now).toISOString(),
+      });
+    }
+
+    if (
+      !shipped &&
+      now >= heldAt + this.config.stuckEscalationDays * DAY_MS &&
+      !this.hasActivity(escrow, 'stuck_escalated')
+    ) {
+      await this.escalate(
+        escrow,
+        'stuck_escalated',
+        `Held ${this.config.stuckEscalationDays}+ days without shipment progress (cargo status: ${shipment?.cargo_status ?? 'no shipment'})`,
+      );
+    }
+  }
+
+  private async handleDeadline(
+    escrow: HeldEscrow,
+    holdDays: number,
+    shipped: boolean,
+    cargoStatus: string | null,
+  ): Promise<void> {
+    // Escalated once; admins take it from there
+    if (this.hasActivity(escrow, 'deadline_escalated')) {
+      return;
+    }
+
+    const { data: ownerDevice } = await this.supabase
+      .from('devices')
+      .select('id, status')
+      .eq('id', escrow.device_id)
+      .maybeSingle();
+    const deviceStatus = ownerDevice?.status ?? 'unknown';
+
+    if (deviceStatus === 'delivered') {
+      return;
+    }
+
+    try {
+      if (!shipped && deviceStatus !== 'disputed') {
+        await this.cargoService.cancelByOwner(
+          escrow.device_id,
+          escrow.holder_user_id,
+          `Escrow hold period of ${holdDays} days ended before the device shipped`,
+          'escrow_expired_not_shipped',
+        );
+        await this.recordActivity(
+          escrow,
+          'auto_refunded',
+          `Hold period of ${holdDays} days ended without shipment; refunded to the owner`,
+        );
+        return;
+      }
+
+      if (deviceStatus === 'confirmed') {
+        await this.cargoService.adminReleaseEscrow(escrow.device_id);
+        await this.recordActivity(
+          escrow,
+          'auto_released',
+          `Hold period of ${holdDays} days ended after receipt was confirmed; released`,
+        );
+        return;
+      }
+    } catch (actionError: any) {
+      await this.escalate(
+        escrow,
+        'deadline_escalated',
+        `Hold period of ${holdDays} days ended; automatic settlement failed: ${actionError.message}`,
+      );
+      return;
+    }
+
+    await this.escalate(
+      escrow,
+      'deadline_escalated',
+      `Hold period of ${holdDays} days ended and cannot be settled automatically (device: ${deviceStatus}, cargo: ${cargoStatus ?? 'no shipment'})`,
+    );
+  }
+
+  /**
+   * Critical audit log entry - the admin alert channel, same as failed
+   * webhook retries
+   */
+  private async escalate(
+    escrow: HeldEscrow,
+    action: 'deadline_escalated' | 'stuck_escalated',
+    details: string,
+  ): Promise<void> {
+    this.logger.warn(`Escrow ${escrow.id} escalated to admins: ${details}`);
+
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: escrow.payment_id,
+        payload: {
+          event_type: `escrow_${action}`,
+          event_category: 'payment',
+          event_action: 'alert',
+          event_severity: 'critical',
+          user_id: escrow.holder_user_id,
+          resource_type: 'escrow',
+          resource_id: escrow.id,
+          event_description: `Escrow needs manual review: ${details}`,
+          event_data: {
+            escrow_id: escrow.id,
+            payment_id: escrow.payment_id,
+            device_id: escrow.device_id,
+          },
+        },
+      },
+    ]);
+
+    await this.recordActivity(escrow, action, details);
+  }
+
+  private async recordActivity(
+    escrow: HeldEscrow,
+    action: EscrowActivityAction,
+    details: string,
+    fields: Record<string, unknown> = {},
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const activityLog = [
+      ...(escrow.activity_log ?? []),
+      { action, at: now, actor: 'system', details } as EscrowActivity,
+    ];
+
+    const { error } = await this.supabase
+      .from('escrow_accounts')
+      .update({ ...fields, activity_log: activityLog, last_activity_at: now, updated_at: now })
+      .eq('id', escrow.id);
+
+    if (error) {
+      this.logger.error(
+        `Failed to record escrow activity ${action} for ${escrow.id}: ${error.message}`,
+      );
+      return;
+    }
+
+    escrow.activity_log = activityLog;
+    this.logger.log(`Escrow ${escrow.id}: ${action} - ${details}`);
+  }
+
+  private hasActivity(escrow: HeldEscrow, action: EscrowActivityAction): boolean {
+    return (escrow.activity_log ?? []).some((entry) => entry.action === action);
+  }
+
+  private async notify(escrow: HeldEscrow, userId: string, messageKey: string): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'notification',
+        aggregateId: escrow.payment_id,
+        payload: {
+          user_id: userId,
+          message_key: messageKey,
+          type: 'warning',
+          link: `device/${escrow.device_id}`,
+        },
+      },
+    ]);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { ChargebacksService } from './chargebacks.service';
+import { AddChargebackEvidenceDto } from './dto/add-evidence.dto';
+import { ChargebackDto, ListChargebacksQueryDto } from './dto/chargeback.dto';
+import { CreateChargebackDto } from './dto/create-chargeback.dto';
+import { ResolveChargebackDto } from './dto/resolve-chargeback.dto';
+
+@ApiTags('chargebacks')
+@Controller('chargebacks')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class ChargebacksController {
+  constructor(private readonly chargebacksService: ChargebacksService) {}
+
+  @ApiOperation({
+    summary: 'Open a chargeback case (Admin only)',
+    description:
+      'For chargebacks the provider reported outside the webhook. A still-held escrow is frozen until the case is decided. Returns the existing case if the provider case number was already recorded.',
+  })
+  @ApiResponse({ status: 201, description: 'Chargeback case', type: ChargebackDto })
+  @ApiResponse({ status: 400, description: 'Invalid amount' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  @ApiResponse({ status: 409, description: 'Payment already has an open chargeback' })
+  @Post()
+  async create(@Body() dto: CreateChargebackDto, @Req() request: Request): Promise<ChargebackDto> {
+    const user = request.user as RequestUser;
+    return this.chargebacksService.create(dto, user.id);
+  }
+
+  @ApiOperation({ summary: 'List chargeback cases (Admin only)', description: 'Newest first.' })
+  @ApiResponse({ status: 200, description: 'Chargeback cases', type: [ChargebackDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get()
+  async list(@Query() query: ListChargebacksQueryDto): Promise<ChargebackDto[]> {
+    return this.chargebacksService.list(query);
+  }
+
+  @ApiOperation({ summary: 'Get a chargeback case (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Chargeback case ID' })
+  @ApiResponse({ status: 200, description: 'Chargeback case', type: ChargebackDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Chargeback not found' })
+  @Get(':id')
+  async get(@Param('id', ParseUUIDPipe) id: string): Promise<ChargebackDto> {
+    return this.chargebacksService.getById(id);
+  }
+
+  @ApiOperation({ summary: 'Add evidence to an open chargeback (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Chargeback case ID' })
+  @ApiResponse({ status: 201, description: 'Chargeback case', type: ChargebackDto })
+  @ApiResponse({ status: 400, description: 'Chargeback is already decided' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Chargeback not found' })
+  @Post(':id/evidence')
+  async addEvidence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddChargebackEvidenceDto,
+    @Req() request: Request,
+  ): Promise<ChargebackDto> {
+    const user = request.user as RequestUser;
+    return this.chargebacksService.addEvidence(id, dto, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Mark chargeback evidence as submitted (Admin only)',
+    description:
+      "Record that ops sent the collected evidence to the bank through the provider's merchant panel. Stops the evidence deadline alert.",
+  })
+  @ApiParam({ name: 'id', description: 'Chargeback case ID' })
+  @ApiResponse({ status: 200, description: 'Chargeback case', type: ChargebackDto })
+  @ApiResponse({ status: 400, description: 'No evidence, already submitted or decided' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Chargeback not found' })
+  @Patch(':id/submit-evidence')
+  async submitEvidence(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: Request,
+  ): Promise<ChargebackDto> {
+    const user = request.user as RequestUser;
+    return this.chargebacksService.submitEvidence(id, user.id);
+  }
+
+  @ApiOperation({
+    summary: "Record the bank's decision (Admin only)",
+    description:
+      "won: a frozen escrow is held again. lost: the payment is marked charged_back and, if the escrow was already released, the finder's reward is cancelled (or flagged for recovery when it was already sent) unless keepFinderReward is set. If applying the decision fails the case stays undecided and can be resolved again.",
+  })
+  @ApiParam({ name: 'id', description: 'Chargeback case ID' })
+  @ApiResponse({ status: 200, description: 'Decided chargeback case', type: ChargebackDto })
+  @ApiResponse({ status: 400, description: 'Chargeback is already decided' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Chargeback not found' })
+  @ApiResponse({ status: 409, description: 'A decision for the chargeback is being applied' })
+  @Patch(':id/resolve')
+  async resolve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ResolveChargebackDto,
+    @Req() request: Request,
+  ): Promise<ChargebackDto> {
+    const user = request.user as RequestUser;
+    return this.chargebacksService.resolve(id, dto, user.id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { PaymentStateModule } from '../payment-state/payment-state.module';
+import { PayoutsModule } from '../payouts/payouts.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ChargebacksController } from './chargebacks.controller';
+import { ChargebacksService } from './chargebacks.service';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    LedgerModule,
+    OutboxModule,
+    PayoutsModule,
+    PaymentStateModule,
+    ScheduleModule.forRoot(),
+  ],
+  controllers: [ChargebacksController],
+  providers: [ChargebacksService],
+  exports: [ChargebacksService],
+})
+export class ChargebacksModule {}
@@ -0,0 +1,708 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Money } from '../common/money/money';
+import { AppConfiguration, ChargebackConfig } from '../config/configuration';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerPayment } from '../ledger/ledger.types';
+import { OutboxService } from '../outbox/outbox.service';
+import {
+  IllegalPaymentTransitionException,
+  StalePaymentStateException,
+} from '../payment-state/payment-state.exceptions';
+import { PaymentStateService } from '../payment-state/payment-state.service';
+import { EscrowStatus } from '../payment-state/payment-state.types';
+import { PayoutsService } from '../payouts/payouts.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  ChargebackEvidence,
+  ChargebackNotice,
+  ChargebackRecord,
+  ChargebackSource,
+  ChargebackStatus,
+  OPEN_CHARGEBACK_STATUSES,
+  RewardAction,
+} from './chargebacks.types';
+import { AddChargebackEvidenceDto } from './dto/add-evidence.dto';
+import { ChargebackDto, ListChargebacksQueryDto } from './dto/chargeback.dto';
+import { ChargebackNotificationDto } from './dto/chargeback-notification.dto';
+import { CreateChargebackDto } from './dto/create-chargeback.dto';
+import { ResolveChargebackDto } from './dto/resolve-chargeback.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+const PAYMENT_FIELDS =
+  'id, device_id, payer_id, receiver_id, total_amount, reward_amount, cargo_fee, service_fee, payment_gateway_fee, payment_status, escrow_status';
+
+type ChargebackPayment = LedgerPayment & { payment_status: string; escrow_status: EscrowStatus };
+
+/**
+ * Chargebacks raised by the card holder's bank (chargebacks table).
+ *
+ * A case is opened from the provider's notification or by an admin, once
+ * per provider case number. A still-held escrow is frozen ('frozen' on
+ * payments.escrow_status and escrow_accounts.status), so neither release,
+ * cancellation nor the hold-period scheduler can move the money while the
+ * bank decides. Ops collects evidence and submits it through the
+ * provider's merchant panel; admins are alerted when the evidence
+ * deadline is near and nothing was submitted.
+ *
+ * Won: a frozen escrow goes back to held. Lost: the payment becomes
+ * 'charged_back'; if the escrow was already released, the finder's reward
+ * is cancelled unless it was sent (then ops must recover it) or the admin
+ * decides to keep paying it.
+ */
+@Injectable()
+export class ChargebacksService {
+  private readonly logger = new Logger(ChargebacksService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly config: ChargebackConfig;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly ledgerService: LedgerService,
+    private readonly payoutsService: PayoutsService,
+    private readonly paymentStateService: PaymentStateService,
+    private readonly outboxService: OutboxService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+    this.config = this.configService.get<ChargebackConfig>('chargebacks', { infer: true });
+  }
+
+  async create(dto: CreateChargebackDto, adminUserId: string): Promise<ChargebackDto> {
+    return this.open(
+      {
+        paymentId: dto.paymentId,
+        provider: 'paynet',
+        providerCaseId: dto.providerCaseId,
+        amount: dto.amount,
+        reasonCode: dto.reasonCode ?? null,
+        reason: dto.reason ?? null,
+        evidenceDueAt: dto.evidenceDueAt ?? null,
+        rawPayload: null,
+      },
+      'admin',
+      adminUserId,
+    );
+  }
+
+  /**
+   * Chargeback notification from the provider. reference_no is our payment
+   * ID, as in the payment confirmation webhook.
+   */
+  async handleProviderNotification(
+    notification: ChargebackNotificationDto,
+    provider: string,
+  ): Promise<ChargebackDto> {
+    const dueDate = notification.due_date ? new Date(notification.due_date) : null;
+    if (dueDate && isNaN(dueDate.getTime())) {
+      throw new BadRequestException(`Invalid chargeback due_date: ${notification.due_date}`);
+    }
+
+    return this.open(
+      {
+        paymentId: notification.reference_no,
+        provider,
+        // The DTO requires one of the two
+        providerCaseId: (notification.chargeback_id ?? notification.case_id)!,
+        amount: notification.amount,
+        reasonCode: notification.reason_code ?? null,
+        reason: notification.reason ?? null,
+        evidenceDueAt: dueDate ? dueDate.toISOString() : null,
+        rawPayload: { ...notification },
+      },
+      'webhook',
+      'system',
+    );
+  }
+
+  async list(query: ListChargebacksQueryDto): Promise<ChargebackDto[]> {
+    let request = this.supabase
+      .from('chargebacks')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+    if (query.status) {
+      request = request.eq('status', query.status);
+    }
+    if (query.paymentId) {
+      request = request.eq('payment_id', query.paymentId);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      this.logger.error(`Failed to list chargebacks: ${error.message}`, error);
+      throw new BadRequestException('Failed to list chargebacks');
+    }
+    return (data as ChargebackRecord[]).map((record) => this.toDto(record));
+  }
+
+  async getById(chargebackId: string): Promise<ChargebackDto> {
+    return this.toDto(await this.findCase(chargebackId));
+  }
+
+  async addEvidence(
+    chargebackId: string,
+    dto: AddChargebackEvidenceDto,
+    adminUserId: string,
+  ): Promise<ChargebackDto> {
+    const chargeback = await this.findOpenCase(chargebackId);
+    const evidence: ChargebackEvidence[] = [
+      ...(chargeback.evidence ?? []),
+      {
+        description: dto.description,
+        documentUrl: dto.documentUrl ?? null,
+        addedBy: adminUserId,
+        addedAt: new Date().toISOString(),
+      },
+    ];
+
+    return this.toDto(await this.updateCase(chargeback.id, { evidence }));
+  }
+
+  /**
+   * Ops sent the evidence to the bank through the provider
+   */
+  async submitEvidence(chargebackId: string, adminUserId: string): Promise<ChargebackDto> {
+    const chargeback = await this.findOpenCase(chargebackId);
+    if (chargeback.status !== 'open') {
+      throw new BadRequestException('Evidence was already submitted');
+    }
+    if (!chargeback.evidence?.length) {
+      throw new BadRequestException('Add evidence before submitting it');
+    }
+
+    const updated = await this.updateCase(chargeback.id, {
+      status: 'evidence_submitted',
+      evidence_submitted_at: new Date().toISOString(),
+    });
+    this.logger.log(`Chargeback ${chargeback.id} evidence submitted by ${adminUserId}`);
+    return this.toDto(updated);
+  }
+
+  async resolve(
+    chargebackId: string,
+    dto: ResolveChargebackDto,
+    adminUserId: string,
+  ): Promise<ChargebackDto> {
+    const chargeback = await this.findOpenCase(chargebackId);
+
+    // Claim the case first so a double click can't apply the outcome twice.
+    // The outcome is only recorded once it is applied; if applying fails the
+    // claim is rolled back and the admin can retry.
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('chargebacks')
+      .update({ status: 'resolving', updated_at: new Date().toISOString() })
+      .eq('id', chargeback.id)
+      .eq('status', chargeback.status)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      this.logger.error(`Failed to resolve chargeback ${chargebackId}: ${claimError.message}`);
+      throw new BadRequestException('Failed to resolve chargeback');
+    }
+    if (!claimed) {
+      // Another resolve claimed it between the read and the claim
+      throw new ConflictException('Chargeback decision is being applied');
+    }
+
+    let rewardAction: RewardAction;
+    try {
+      const payment = await this.findPayment(chargeback.payment_id);
+      rewardAction =
+        dto.outcome === 'won'
+          ? await this.applyWon(chargeback, payment, adminUserId)
+          : await this.applyLost(chargeback, payment, !!dto.keepFinderReward, adminUserId);
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to apply chargeback ${chargeback.id} outcome ${dto.outcome}: ${error.message}`,
+      );
+      await this.releaseClaim(chargeback);
+      throw error;
+    }
+
+    const now = new Date().toISOString();
+    const updated = await this.updateCase(chargeback.id, {
+      status: dto.outcome,
+      decided_at: now,
+      resolved_by: adminUserId,
+      resolution_note: dto.note,
+      reward_action: rewardAction,
+    });
+    await this.audit(
+      chargeback,
+      `chargeback_${dto.outcome}`,
+      dto.outcome === 'won' ? 'info' : 'warning',
+      `Chargeback ${chargeback.provider_case_id} ${dto.outcome} (finder reward: ${rewardAction}): ${dto.note}`,
+      adminUserId,
+    );
+
+    return this.toDto(updated);
+  }
+
+  /**
+   * Put a case whose outcome could not be applied back to its undecided
+   * status. A case left in 'resolving' (the rollback failed too) is
+   * alerted, since it blocks both a retry and the escrow.
+   */
+  private async releaseClaim(chargeback: ChargebackRecord): Promise<void> {
+    const { error } = await this.supabase
+      .from('chargebacks')
+      .update({ status: chargeback.status, updated_at: new Date().toISOString() })
+      .eq('id', chargeback.id)
+      .eq('status', 'resolving');
+
+    if (error) {
+      this.logger.error(`Failed to release chargeback ${chargeback.id}: ${error.message}`, error);
+      await this.audit(
+        chargeback,
+        'chargeback_resolution_stuck',
+        'critical',
+        `Chargeback ${chargeback.provider_case_id} is stuck in resolving; set its status back to ${chargeback.status} and retry`,
+      );
+    }
+  }
+
+  /**
+   * Alert admins once when an open case's evidence deadline is near (or
+   * passed) and no evidence was submitted
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async alertEvidenceDeadlines(): Promise<void> {
+    const alertBefore = new Date(Date.now() + this.config.deadlineAlertHours * HOUR_MS);
+    const { data, error } = await this.supabase
+      .from('chargebacks')
+      .select('*')
+      .eq('status', 'open')
+      .is('deadline_alerted_at', null)
+      .lte('evidence_due_at', alertBefore.toISOString())
+      .limit(100);
+
+    if (error) {
+      this.logger.error(`Failed to fetch chargeback deadlines: ${error.message}`, error);
+      return;
+    }
+
+    for (const chargeback of (data || []) as ChargebackRecord[]) {
+      await this.audit(
+        chargeback,
+        'chargeback_evidence_due',
+        'critical',
+        `Chargeback ${chargeback.provider_case_id} evidence is due ${chargeback.evidence_due_at} and was not submitted`,
+      );
+      await this.updateCase(chargeback.id, { deadline_alerted_at: new Date().toISOString() });
+    }
+  }
+
+  private async open(
+    notice: ChargebackNotice,
+    source: ChargebackSource,
+    createdBy: string,
+  ): Promise<ChargebackDto> {
+    const existing = await this.findByProviderCase(notice.provider, notice.providerCaseId);
+    if (existing) {
+      return this.toDto(existing);
+    }
+
+    const payment = await this.findPayment(notice.paymentId);
+    let amount: Money;
+    try {
+      amount = Money.fromMajor(notice.amount);
+    } catch (error: any) {
+      this.logger.warn(`Chargeback amount rejected: ${error.message}`);
+      throw new BadRequestException(`Invalid chargeback amount: ${notice.amount}`);
+    }
+    if (amount.minor <= 0 || Money.fromMajor(payment.total_amount).subtract(amount).isNegative()) {
+      throw new BadRequestException(
+        `Chargeback amount ${amount} must be positive and at most the payment total ${payment.total_amount}`,
+      );
+    }
+
+    const now = new Date();
+    const evidenceDueAt =
+      notice.evidenceDueAt ??
+      new Date(now.getTime() + this.config.evidenceDays * 24 * HOUR_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('chargebacks')
+      .insert({
+        payment_id: payment.id,
+        device_id: payment.device_id,
+        provider: notice.provider,
+        provider_case_id: notice.providerCaseId,
+        source,
+        status: 'open',
+        amount: amount.toMajor(),
+        currency: 'TRY',
+        reason_code: notice.reasonCode,
+        reason: notice.reason,
+        escrow_status_at_open: payment.escrow_status,
+        escrow_frozen: false,
+        evidence_due_at: evidenceDueAt,
+        evidence: [],
+        raw_payload: notice.rawPayload,
+        created_by: createdBy,
+      })
+      .select('*')
+      .single();
+
+    if (error?.code === '23505') {
+      // A retried notification racing the first one
+      const concurrent = await this.findByProviderCase(notice.provider, notice.providerCaseId);
+      if (concurrent) {
+        return this.toDto(concurrent);
+      }
+      throw new ConflictException(`Payment ${payment.id} already has an open chargeback`);
+    }
+    if (error || !data) {
+      this.logger.error(`Failed to open chargeback for payment ${payment.id}: ${error?.message}`);
+      throw new BadRequestException('Failed to open chargeback');
+    }
+
+    let chargeback = data as ChargebackRecord;
+    if (payment.escrow_status === 'held') {
+      chargeback = await this.freezeEscrow(chargeback, payment);
+    }
+
+    await this.audit(
+      chargeback,
+      'chargeback_received',
+      'critical',
+      `Chargeback ${chargeback.provider_case_id} for ${amount} TRY (${source}), escrow ${chargeback.escrow_frozen ? 'frozen' : payment.escrow_status}; evidence due ${evidenceDueAt}`,
+      source === 'admin' ? createdBy : undefined,
+    );
+    this.logger.warn(
+      `Chargeback ${chargeback.id} opened for payment ${payment.id} (${notice.provider} case ${notice.providerCaseId})`,
+    );
+
+    return this.toDto(chargeback);
+  }
+
+  private async freezeEscrow(
+    chargeback: ChargebackRecord,
+    payment: ChargebackPayment,
+  ): Promise<ChargebackRecord> {
+    // Only if it is still held: a release that got there first wins
+    try {
+      await this.paymentStateService.transition(
+        payment.id,
+        { escrowStatus: 'frozen' },
+        { actor: chargeback.created_by, reason: `Chargeback ${chargeback.provider_case_id}` },
+      );
+    } catch (transitionError: any) {
+      if (
+        !(transitionError instanceof IllegalPaymentTransitionException) &&
+        !(transitionError instanceof StalePaymentStateException)
+      ) {
+        throw transitionError;
+      }
+      this.logger.warn(
+        `Escrow of payment ${payment.id} could not be frozen for chargeback ${chargeback.id}: ${transitionError.message}`,
+      );
+      return chargeback;
+    }
+
+    await this.paymentStateService.syncEscrowAccount(payment.id, 'held', 'frozen', {
+      dispute_status: 'chargeback',
+      dispute_reason: chargeback.reason ?? `Chargeback ${chargeback.provider_case_id}`,
+      last_activity_at: new Date().toISOString(),
+    });
+
+    if (payment.receiver_id) {
+      await this.notify(payment.receiver_id, 'escrow_frozen_chargeback', payment);
+    }
+
+    return this.updateCase(chargeback.id, { escrow_frozen: true });
+  }
+
+  private async applyWon(
+    chargeback: ChargebackRecord,
+    payment: ChargebackPayment,
+    adminUserId: string,
+  ): Promise<RewardAction> {
+    if (chargeback.escrow_frozen) {
+      // An earlier attempt may have unfrozen the escrow before failing
+      if (payment.escrow_status === 'frozen') {
+        await this.paymentStateService.transition(
+          payment.id,
+          { escrowStatus: 'held' },
+          { actor: adminUserId, reason: `Chargeback ${chargeback.provider_case_id} won` },
+        );
+      }
+      await this.paymentStateService.syncEscrowAccount(payment.id, 'frozen', 'held', {
+        dispute_status: 'chargeback_won',
+        resolution_notes: `Chargeback ${chargeback.provider_case_id} won`,
+        last_activity_at: new Date().toISOString(),
+      });
+      if (payment.receiver_id) {
+        await this.notify(payment.receiver_id, 'escrow_unfrozen_chargeback_won', payment);
+      }
+      return 'none';
+    }
+
+    await this.updateEscrow(payment.id, { dispute_status: 'chargeback_won' });
+    return payment.escrow_status === 'released' ? 'kept' : 'none';
+  }
+
+  private async applyLost(
+    chargeback: ChargebackRecord,
+    payment: ChargebackPayment,
+    keepFinderReward: boolean,
+    adminUserId: string,
+  ): Promise<RewardAction> {
+    // An earlier attempt may have charged the payment back before failing;
+    // the escrow account sync and ledger entry below are idempotent
+    const retried = payment.payment_status === 'charged_back';
+    const wasReleased =
+      !chargeback.escrow_frozen &&
+      (payment.escrow_status === 'released' ||
+        (retried && chargeback.escrow_status_at_open === 'released'));
+    const escrowStatus: EscrowStatus =
+      chargeback.escrow_frozen || wasReleased ? 'charged_back' : payment.escrow_status;
+
+    const retriedFrom: EscrowStatus = chargeback.escrow_frozen
+      ? 'frozen'
+      : wasReleased
+        ? 'released'
+        : payment.escrow_status;
+    const { from } = retried
+      ? { from: { escrowStatus: retriedFrom } }
+      : await this.paymentStateService.transition(
+          payment.id,
+          { paymentStatus: 'charged_back', escrowStatus },
+          {
+            actor: adminUserId,
+            reason: `Chargeback ${chargeback.provider_case_id} lost`,
+            fields: { refund_reason: `Chargeback ${chargeback.provider_case_id} lost` },
+          },
+        );
+    const escrowFields = {
+      dispute_status: 'chargeback_lost',
+      resolution_notes: `Chargeback ${chargeback.provider_case_id} lost`,
+      last_activity_at: new Date().toISOString(),
+    };
+    if (from.escrowStatus !== escrowStatus) {
+      await this.paymentStateService.syncEscrowAccount(
+        payment.id,
+        from.escrowStatus,
+        escrowStatus,
+        escrowFields,
+      );
+    } else {
+      await this.updateEscrow(payment.id, escrowFields);
+    }
+    await this.ledgerService.postChargebackLost(
+      { ...payment, total_amount: chargeback.amount },
+      chargeback.escrow_frozen,
+      chargeback.id,
+      adminUserId,
+    );
+
+    if (!wasReleased) {
+      return 'none';
+    }
+    if (keepFinderReward) {
+      return 'kept';
+    }
+
+    const cancellation = await this.payoutsService.cancelRewardTransfer(
+      payment.id,
+      `Chargeback ${chargeback.provider_case_id} lost`,
+      adminUserId,
+    );
+    if (cancellation.result === 'cancelled' && cancellation.transfer) {
+      await this.ledgerService.postRewardReversed(
+        payment,
+        { transferId: cancellation.transfer.id, amount: cancellation.transfer.amount },
+        adminUserId,
+      );
+      if (payment.receiver_id) {
+        await this.notify(payment.receiver_id, 'payout_cancelled_chargeback', payment);
+      }
+      return 'cancelled';
+    }
+    if (cancellation.result === 'already_paid') {
+      await this.audit(
+        chargeback,
+        'chargeback_reward_recovery',
+        'critical',
+        `Chargeback ${chargeback.provider_case_id} lost after the finder reward was sent (transfer ${cancellation.transfer?.id}); recover it from the finder`,
+        adminUserId,
+      );
+      return 'recovery_required';
+    }
+    return 'none';
+  }
+
+  private async findCase(chargebackId: string): Promise<ChargebackRecord> {
+    const { data, error } = await this.supabase
+      .from('chargebacks')
+      .select('*')
+      .eq('id', chargebackId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Chargeback not found: ${chargebackId}`);
+    }
+    return data as ChargebackRecord;
+  }
+
+  private async findOpenCase(chargebackId: string): Promise<ChargebackRecord> {
+    const chargeback = await this.findCase(chargebackId);
+    if (chargeback.status === 'resolving') {
+      throw new ConflictException('Chargeback decision is being applied');
+    }
+    if (!OPEN_CHARGEBACK_STATUSES.includes(chargeback.status)) {
+      throw new BadRequestException(`Chargeback is already decided: ${chargeback.status}`);
+    }
+    return chargeback;
+  }
+
+  private async findByProviderCase(
+    provider: string,
+    providerCaseId: string,
+  ): Promise<ChargebackRecord | null> {
+    const { data } = await this.supabase
+      .from('chargebacks')
+      .select('*')
+      .eq('provider', provider)
+      .eq('provider_case_id', providerCaseId)
+      .maybeSingle();
+    return data as ChargebackRecord | null;
+  }
+
+  private async findPayment(paymentId: string): Promise<ChargebackPayment> {
+    const { data, error } = await this.supabase
+      .from('payments')
+      .select(PAYMENT_FIELDS)
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Payment not found: ${paymentId}`);
+    }
+    return data as ChargebackPayment;
+  }
+
+  private async updateCase(
+    chargebackId: string,
+    changes: Partial<ChargebackRecord> & { status?: ChargebackStatus },
+  ): Promise<ChargebackRecord> {
+    const { data, error } = await this.supabase
+      .from('chargebacks')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', chargebackId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to update chargeback ${chargebackId}: ${error?.message}`, error);
+      throw new BadRequestException('Failed to update chargeback');
+    }
+    return data as ChargebackRecord;
+  }
+
+  private async updateEscrow(paymentId: string, changes: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('escrow_accounts')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('payment_id', paymentId);
+
+    if (error) {
+      this.logger.error(`Failed to update escrow of payment ${paymentId}: ${error.message}`, error);
+    }
+  }
+
+  /**
+   * Audit log entry; 'critical' is the admin alert channel
+   */
+  private async audit(
+    chargeback: ChargebackRecord,
+    eventType: string,
+    severity: 'info' | 'warning' | 'critical',
+    description: string,
+    userId?: string,
+  ): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: chargeback.payment_id,
+        payload: {
+          event_type: eventType,
+          event_category: 'payment',
+          event_action: severity === 'critical' ? 'alert' : 'update',
+          event_severity: severity,
+          user_id: userId ?? null,
+          resource_type: 'chargeback',
+          resource_id: chargeback.id,
+          event_description: description,
+          event_data: {
+            chargeback_id: chargeback.id,
+            payment_id: chargeback.payment_id,
+            device_id: chargeback.device_id,
+            provider_case_id: chargeback.provider_case_id,
+            amount: chargeback.amount,
+          },
+        },
+      },
+    ]);
+  }
+
+  private async notify(
+    userId: string,
+    messageKey: string,
+    payment: ChargebackPayment,
+  ): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'notification',
+        aggregateId: payment.id,
+        payload: {
+          user_id: userId,
+          message_key: messageKey,
+          type: 'warning',
+          link: `device/${payment.device_id}`,
+        },
+      },
+    ]);
+  }
+
+  private toDto(record: ChargebackRecord): ChargebackDto {
+    return {
+      id: record.id,
+      paymentId: record.payment_id,
+      deviceId: record.device_id,
+      provider: record.provider,
+      providerCaseId: record.provider_case_id,
+      source: record.source,
+      status: record.status,
+      amount: Money.fromMajor(record.amount).toString(),
+      currency: record.currency,
+      reasonCode: record.reason_code ?? undefined,
+      reason: record.reason ?? undefined,
+      escrowStatusAtOpen: record.escrow_status_at_open ?? undefined,
+      escrowFrozen: record.escrow_frozen,
+      evidenceDueAt: record.evidence_due_at,
+      evidence: (record.evidence ?? []).map((item) => ({
+        description: item.description,
+        documentUrl: item.documentUrl ?? undefined,
+        addedBy: item.addedBy,
+        addedAt: item.addedAt,
+      })),
+      evidenceSubmittedAt: record.evidence_submitted_at ?? undefined,
+      rewardAction: record.reward_action ?? undefined,
+      decidedAt: record.decided_at ?? undefined,
+      resolvedBy: record.resolved_by ?? undefined,
+      resolutionNote: record.resolution_note ?? undefined,
+      createdAt: record.created_at,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+// open = waiting for our evidence; evidence_submitted = ops sent it to the
+// bank via the provider, waiting for the decision; resolving = an admin's
+// decision is being applied to the payment
+export const CHARGEBACK_STATUSES = [
+  'open',
+  'evidence_submitted',
+  'resolving',
+  'won',
+  'lost',
+] as const;
+export type ChargebackStatus = (typeof CHARGEBACK_STATUSES)[number];
+
+export const OPEN_CHARGEBACK_STATUSES: ChargebackStatus[] = ['open', 'evidence_submitted'];
+
+export const CHARGEBACK_OUTCOMES = ['won', 'lost'] as const;
+export type ChargebackOutcome = (typeof CHARGEBACK_OUTCOMES)[number];
+
+export const CHARGEBACK_SOURCES = ['webhook', 'admin'] as const;
+export type ChargebackSource = (typeof CHARGEBACK_SOURCES)[number];
+
+// What happened to the finder's reward when the case was decided:
+// recovery_required = already sent, ops has to claim it back from the finder
+export const REWARD_ACTIONS = ['kept', 'cancelled', 'recovery_required', 'none'] as const;
+export type RewardAction = (typeof REWARD_ACTIONS)[number];
+
+/**
+ * Entry in chargebacks.evidence
+ */
+export interface ChargebackEvidence {
+  description: string;
+  documentUrl: string | null;
+  addedBy: string;
+  addedAt: string;
+}
+
+/**
+ * A chargeback as reported by the provider or entered by an admin
+ */
+export interface ChargebackNotice {
+  paymentId: string;
+  provider: string;
+  providerCaseId: string;
+  amount: number | string;
+  reasonCode: string | null;
+  reason: string | null;
+  evidenceDueAt: string | null;
+  rawPayload: Record<string, unknown> | null;
+}
+
+export interface ChargebackRecord {
+  id: string;
+  payment_id: string;
+  device_id: string;
+  provider: string;
+  provider_case_id: string;
+  source: ChargebackSource;
+  status: ChargebackStatus;
+  amount: number | string;
+  currency: string;
+  reason_code: string | null;
+  reason: string | null;
+  escrow_status_at_open: string | null;
+  escrow_frozen: boolean;
+  evidence_due_at: string;
+  evidence: ChargebackEvidence[] | null;
+  evidence_submitted_at: string | null;
+  deadline_alerted_at: string | null;
+  reward_action: RewardAction | null;
+  decided_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  raw_payload: Record<string, unknown> | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+export class AddChargebackEvidenceDto {
+  @ApiProperty({
+    description: 'What the evidence shows',
+    example: 'Kargo teslim belgesi, alıcı imzalı',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  description: string;
+
+  @ApiProperty({ description: 'Link to the document', required: false })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(500)
+  documentUrl?: string;
+}
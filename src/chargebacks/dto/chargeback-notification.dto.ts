@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+/**
+ * Fields of PAYNET's chargeback notification. The case number comes as
+ * chargeback_id, or case_id in older notifications.
+ *
+ * Amounts may arrive as strings (form posts); they are converted to numbers.
+ */
+export class ChargebackNotificationDto {
+  @ApiProperty({ description: 'Payment reference (our payment ID)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  reference_no: string;
+
+  @ApiProperty({ description: "Provider's chargeback case number", example: 'CB-2026-004512' })
+  @ValidateIf((notification) => notification.case_id === undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  chargeback_id?: string;
+
+  @ApiProperty({ description: 'Case number in older notifications', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  case_id?: string;
+
+  @ApiProperty({ description: 'Disputed amount (TRY)', example: 4750 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Evidence deadline',
+    example: '2026-11-02T00:00:00+03:00',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  due_date?: string;
+
+  @ApiProperty({ description: 'Card scheme reason code', example: '4853', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  reason_code?: string;
+
+  @ApiProperty({ description: "Card holder's reason as reported by the bank", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
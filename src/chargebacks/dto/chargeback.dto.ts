@@ -0,0 +1,113 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+import {
+  CHARGEBACK_SOURCES,
+  CHARGEBACK_STATUSES,
+  ChargebackSource,
+  ChargebackStatus,
+  REWARD_ACTIONS,
+  RewardAction,
+} from '../chargebacks.types';
+
+export class ListChargebacksQueryDto {
+  @ApiProperty({
+    description: 'Only cases with this status',
+    enum: CHARGEBACK_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(CHARGEBACK_STATUSES)
+  status?: ChargebackStatus;
+
+  @ApiProperty({ description: 'Only cases of this payment', required: false })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+}
+
+export class ChargebackEvidenceDto {
+  @ApiProperty({ description: 'What the evidence shows' })
+  description: string;
+
+  @ApiProperty({ description: 'Link to the document', required: false })
+  documentUrl?: string;
+
+  @ApiProperty({ description: 'Admin who added it' })
+  addedBy: string;
+
+  @ApiProperty({ description: 'Added at (ISO 8601)' })
+  addedAt: string;
+}
+
+export class ChargebackDto {
+  @ApiProperty({ description: 'Chargeback case ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Payment ID' })
+  paymentId: string;
+
+  @ApiProperty({ description: 'Device ID' })
+  deviceId: string;
+
+  @ApiProperty({ description: 'Provider', example: 'paynet' })
+  provider: string;
+
+  @ApiProperty({ description: "Provider's case number" })
+  providerCaseId: string;
+
+  @ApiProperty({ description: 'How the case was reported', enum: CHARGEBACK_SOURCES })
+  source: ChargebackSource;
+
+  @ApiProperty({ description: 'Case status', enum: CHARGEBACK_STATUSES })
+  status: ChargebackStatus;
+
+  @ApiProperty({ description: 'Disputed amount', example: '4750.00' })
+  amount: string;
+
+  @ApiProperty({ description: 'Currency', example: 'TRY' })
+  currency: string;
+
+  @ApiProperty({ description: 'Card scheme reason code', required: false })
+  reasonCode?: string;
+
+  @ApiProperty({ description: "Card holder's reason", required: false })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'Escrow status when the case was opened',
+    example: 'held',
+    required: false,
+  })
+  escrowStatusAtOpen?: string;
+
+  @ApiProperty({ description: 'The still-held escrow was frozen for this case' })
+  escrowFrozen: boolean;
+
+  @ApiProperty({ description: 'Evidence deadline (ISO 8601)' })
+  evidenceDueAt: string;
+
+  @ApiProperty({ description: 'Evidence collected so far', type: [ChargebackEvidenceDto] })
+  evidence: ChargebackEvidenceDto[];
+
+  @ApiProperty({ description: 'Evidence submitted at (ISO 8601)', required: false })
+  evidenceSubmittedAt?: string;
+
+  @ApiProperty({
+    description: "What happened to the finder's reward on the decision",
+    enum: REWARD_ACTIONS,
+    required: false,
+  })
+  rewardAction?: RewardAction;
+
+  @ApiProperty({ description: 'Decided at (ISO 8601)', required: false })
+  decidedAt?: string;
+
+  @ApiProperty({ description: 'Admin who recorded the decision', required: false })
+  resolvedBy?: string;
+
+  @ApiProperty({ description: 'Decision details', required: false })
+  resolutionNote?: string;
+
+  @ApiProperty({ description: 'Opened at (ISO 8601)' })
+  createdAt: string;
+}
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Admin entry of a chargeback the provider reported outside the webhook
+ * (e-mail, merchant panel)
+ */
+export class CreateChargebackDto {
+  @ApiProperty({ description: 'Charged back payment' })
+  @IsUUID()
+  paymentId: string;
+
+  @ApiProperty({
+    description: "Provider's case number for the chargeback",
+    example: 'CB-2026-004512',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  providerCaseId: string;
+
+  @ApiProperty({ description: 'Disputed amount (TRY)', example: 4750 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ description: 'Card scheme reason code', example: '4853', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  reasonCode?: string;
+
+  @ApiProperty({
+    description: "Card holder's reason as reported by the bank",
+    example: 'Ürün teslim alınmadı',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+
+  @ApiProperty({
+    description:
+      'Evidence deadline given by the provider (ISO 8601). Defaults to CHARGEBACK_EVIDENCE_DAYS from now',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  evidenceDueAt?: string;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CHARGEBACK_OUTCOMES, ChargebackOutcome } from '../chargebacks.types';
+
+/**
+ * The bank's decision on a chargeback
+ */
+export class ResolveChargebackDto {
+  @ApiProperty({
+    description:
+      'won = the bank kept the payment with us, lost = the amount went back to the card holder',
+    enum: CHARGEBACK_OUTCOMES,
+  })
+  @IsIn(CHARGEBACK_OUTCOMES)
+  outcome: ChargebackOutcome;
+
+  @ApiProperty({
+    description:
+      'Lost after release only: keep paying the finder (e.g. the device was delivered and the platform takes the loss). Default: the reward is cancelled',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepFinderReward?: boolean;
+
+  @ApiProperty({ description: 'Decision details', example: 'Banka itirazı kabul etti' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
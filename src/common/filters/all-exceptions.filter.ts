@@ -9,6 +9,9 @@ import {
 import { HttpAdapterHost } from '@nestjs/core';
 import { Request, Response } from 'express';
 
+// Query parameters that carry credentials (EventSource can't send headers)
+const SENSITIVE_QUERY_PARAMS = /([?&]access_token=)[^&#]*/gi;
+
 interface ErrorResponseBody {
   statusCode: number;
   message: string;
@@ -42,7 +45,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
       statusCode: status,
       message,
       timestamp: new Date().toISOString(),
-      path: httpAdapter.getRequestUrl(request),
+      path: this.redactUrl(httpAdapter.getRequestUrl(request)),
     };
 
     this.logException(exception, request);
@@ -70,8 +73,12 @@ export class AllExceptionsFilter implements ExceptionFilter {
     return exception.message;
   }
 
+  private redactUrl(url: string): string {
+    return url.replace(SENSITIVE_QUERY_PARAMS, '$1[REDACTED]');
+  }
+
   private logException(exception: unknown, request: Request): void {
-    const requestInfo = `${request.method} ${request.url}`;
+    const requestInfo = `${request.method} ${this.redactUrl(request.url)}`;
 
     if (exception instanceof HttpException) {
       this.logger.warn(`[${requestInfo}] ${exception.message}`, exception.stack);
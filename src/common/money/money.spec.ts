@@ -0,0 +1,93 @@
+import { Money } from './money';
+
+describe('Money', () => {
+  describe('fromMajor', () => {
+    it('parses numbers and numeric column strings to kuruş', () => {
+      expect(Money.fromMajor(1234.5).minor).toBe(123450);
+      expect(Money.fromMajor('1234.56').minor).toBe(123456);
+      expect(Money.fromMajor('-0.01').minor).toBe(-1);
+    });
+
+    it('drops the binary noise of float sums', () => {
+      expect(Money.fromMajor(0.1 + 0.2).minor).toBe(30);
+    });
+
+    it('rounds digits beyond kuruş with the given mode', () => {
+      expect(Money.fromMajor('10.125', 'half_up').minor).toBe(1013);
+      expect(Money.fromMajor('10.125', 'half_even').minor).toBe(1012);
+      expect(Money.fromMajor('10.135', 'half_even').minor).toBe(1014);
+      expect(Money.fromMajor('10.1251', 'half_even').minor).toBe(1013);
+    });
+
+    it('rejects values that are not amounts', () => {
+      expect(() => Money.fromMajor('12,50')).toThrow(RangeError);
+      expect(() => Money.fromMajor(Number.NaN)).toThrow(RangeError);
+    });
+  });
+
+  describe('multiply', () => {
+    it('rounds ties with the given mode', () => {
+      // 0.50 TL * 0.05 = 2.5 kuruş
+      expect(Money.fromMajor(0.5).multiply(0.05, 'half_up').minor).toBe(3);
+      expect(Money.fromMajor(0.5).multiply(0.05, 'half_even').minor).toBe(2);
+      // 0.70 TL * 0.05 = 3.5 kuruş
+      expect(Money.fromMajor(0.7).multiply(0.05, 'half_even').minor).toBe(4);
+    });
+
+    it('rounds negative amounts away from zero symmetrically', () => {
+      expect(Money.fromMajor(-0.5).multiply(0.05, 'half_up').minor).toBe(-3);
+      expect(Money.fromMajor(1000).multiply(-0.0343, 'half_up').toString()).toBe('-34.30');
+    });
+  });
+
+  describe('allocate', () => {
+    it('splits evenly when the amount divides', () => {
+      expect(
+        Money.fromMajor(900)
+          .allocate(3)
+          .map((part) => part.toMajor()),
+      ).toEqual([300, 300, 300]);
+    });
+
+    it('gives the remainder kuruş to the first part', () => {
+      const parts = Money.fromMajor(2000).allocate(3);
+
+      expect(parts.map((part) => part.toString())).toEqual(['666.68', '666.66', '666.66']);
+    });
+
+    it('always adds up to the total', () => {
+      for (const total of ['0.01', '1.00', '99.99', '1234.57', '2000.00']) {
+        for (let parts = 1; parts <= 12; parts++) {
+          const sum = Money.fromMajor(total)
+            .allocate(parts)
+            .reduce((acc, part) => acc.add(part), Money.ZERO);
+          expect(sum.toString()).toBe(total);
+        }
+      }
+    });
+
+    it('keeps a negative remainder on the first part', () => {
+      const parts = Money.fromMajor(-10).allocate(3);
+
+      expect(parts.map((part) => part.minor)).toEqual([-334, -333, -333]);
+    });
+
+    it('rejects a non-positive number of parts', () => {
+      expect(() => Money.fromMajor(10).allocate(0)).toThrow(RangeError);
+      expect(() => Money.fromMajor(10).allocate(1.5)).toThrow(RangeError);
+    });
+  });
+
+  it('clamps to open and closed bounds', () => {
+    const amount = Money.fromMajor(50);
+
+    expect(amount.clamp(Money.fromMajor(60), null).toMajor()).toBe(60);
+    expect(amount.clamp(null, Money.fromMajor(40)).toMajor()).toBe(40);
+    expect(amount.clamp(null, null)).toBe(amount);
+  });
+
+  it('formats to two decimals', () => {
+    expect(Money.fromMinor(-5).toString()).toBe('-0.05');
+    expect(Money.fromMinor(123400).toString()).toBe('1234.00');
+  });
+});
@@ -0,0 +1,139 @@
+export const ROUNDING_MODES = ['half_up', 'half_even'] as const;
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+const MINOR_PER_MAJOR = 100;
+// Rates (commission, reward) are applied with 6 decimal places
+const RATE_SCALE = 1_000_000;
+
+/**
+ * Exact TRY amount in integer kuruş.
+ *
+ * Amounts are stored as numeric(10,2) and sent to providers as decimal
+ * TL, so Money converts from and to major units at the edges and does
+ * all arithmetic on integers in between. Multiplying by a rate is the
+ * only operation that rounds, and it always takes an explicit mode.
+ */
+export class Money {
+  static readonly ZERO = new Money(0);
+
+  private constructor(readonly minor: number) {}
+
+  static fromMinor(minor: number): Money {
+    if (!Number.isSafeInteger(minor)) {
+      throw new RangeError(`Money amount must be a whole number of kuruş: ${minor}`);
+    }
+    return new Money(minor);
+  }
+
+  /**
+   * Parse a TL amount (number or numeric column string). Digits beyond
+   * kuruş are rounded with `rounding`.
+   */
+  static fromMajor(amount: number | string, rounding: RoundingMode = 'half_up'): Money {
+    if (typeof amount === 'number' && !Number.isFinite(amount)) {
+      throw new RangeError(`Invalid money amount: ${amount}`);
+    }
+
+    // toFixed drops the binary noise of floats like 0.1 + 0.2
+    const text = typeof amount === 'number' ? amount.toFixed(10) : amount.trim();
+    const match = /^([+-])?(\d+)(?:\.(\d*))?$/.exec(text);
+    if (!match) {
+      throw new RangeError(`Invalid money amount: ${amount}`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const kurus = Number(whole) * MINOR_PER_MAJOR + Number(fraction.padEnd(2, '0').slice(0, 2));
+    const rest = fraction.slice(2).replace(/0+$/, '');
+
+    let roundUp = false;
+    if (rest) {
+      const isTie = rest === '5';
+      roundUp = rounding === 'half_up' ? rest[0] >= '5' : rest > '5' || (isTie && kurus % 2 === 1);
+    }
+
+    const minor = kurus + (roundUp ? 1 : 0);
+    return Money.fromMinor(sign === '-' ? -minor : minor);
+  }
+
+  add(other: Money): Money {
+    return Money.fromMinor(this.minor + other.minor);
+  }
+
+  subtract(other: Money): Money {
+    return Money.fromMinor(this.minor - other.minor);
+  }
+
+  /**
+   * this * rate, rounded to kuruş with `rounding`
+   */
+  multiply(rate: number, rounding: RoundingMode): Money {
+    const scaledRate = Math.round(rate * RATE_SCALE);
+    const product = Math.abs(this.minor) * Math.abs(scaledRate);
+    if (!Number.isSafeInteger(product)) {
+      throw new RangeError(`Money multiplication out of range: ${this.toString()} * ${rate}`);
+    }
+
+    const remainder = product % RATE_SCALE;
+    let quotient = (product - remainder) / RATE_SCALE;
+    if (
+      remainder * 2 > RATE_SCALE ||
+      (remainder * 2 === RATE_SCALE && (rounding === 'half_up' || quotient % 2 === 1))
+    ) {
+      quotient += 1;
+    }
+
+    const negative = this.minor < 0 !== scaledRate < 0;
+    return Money.fromMinor(negative && quotient !== 0 ? -quotient : quotient);
+  }
+
+  /**
+   * Split into `parts` amounts that add up to this exactly. Each part gets
+   * the same whole kuruş; the remainder goes to the first part.
+   */
+  allocate(parts: number): Money[] {
+    if (!Number.isSafeInteger(parts) || parts < 1) {
+      throw new RangeError(`Money can only be split into a positive number of parts: ${parts}`);
+    }
+
+    const share = Math.trunc(this.minor / parts);
+    const remainder = this.minor - share * parts;
+    return Array.from({ length: parts }, (_, index) =>
+      Money.fromMinor(index === 0 ? share + remainder : share),
+    );
+  }
+
+  /**
+   * Bound to [min, max]; a null bound is open
+   */
+  clamp(min: Money | null, max: Money | null): Money {
+    if (min && this.minor < min.minor) {
+      return min;
+    }
+    if (max && this.minor > max.minor) {
+      return max;
+    }
+    return this;
+  }
+
+  equals(other: Money): boolean {
+    return this.minor === other.minor;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  /**
+   * Amount in TL for numeric(10,2) columns, provider requests and JSON.
+   * Exact to the kuruş: minor / 100 is the closest double to the decimal.
+   */
+  toMajor(): number {
+    return this.minor / MINOR_PER_MAJOR;
+  }
+
+  toString(): string {
+    const abs = Math.abs(this.minor);
+    const kurus = String(abs % MINOR_PER_MAJOR).padStart(2, '0');
+    return `${this.minor < 0 ? '-' : ''}${Math.floor(abs / MINOR_PER_MAJOR)}.${kurus}`;
+  }
+}
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Compact HMAC-SHA256 signed tokens: `base64url(payload).base64url(signature)`.
+ *
+ * The payload is readable by anyone holding the token - sign, don't hide.
+ * `exp` (unix seconds) is added on signing and enforced on verification.
+ */
+export type SignedTokenPayload = Record<string, unknown> & { exp: number };
+
+export type SignedTokenError = 'malformed' | 'invalid_signature' | 'expired';
+
+export type SignedTokenResult<T> =
+  | { valid: true; payload: T & SignedTokenPayload }
+  | { valid: false; error: SignedTokenError };
+
+export function signToken(
+  payload: Record<string, unknown>,
+  secret: string,
+  ttlSeconds: number,
+): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds }),
+  ).toString('base64url');
+
+  return `${body}.${hmac(body, secret)}`;
+}
+
+export function verifyToken<T extends Record<string, unknown>>(
+  token: string,
+  secret: string,
+): SignedTokenResult<T> {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    return { valid: false, error: 'malformed' };
+  }
+
+  const expected = Buffer.from(hmac(body, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, error: 'invalid_signature' };
+  }
+
+  let payload: T & SignedTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, error: 'malformed' };
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+function hmac(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
@@ -1,3 +1,6 @@
+import { ClientPlatform, PaymentMode } from '../payments/payments.types';
+import { WebhookVerificationMode } from '../webhooks/webhooks.types';
+
 export interface AppConfig {
   port: number;
 }
@@ -15,10 +18,62 @@ export interface AuthConfig {
   adminRoles: string[];
 }
 
+export interface PaymentsConfig {
+  provider: string;
+  rawCardEnabled: boolean; // Accept PAN/CVC in ProcessPaymentDto (puts the backend in PCI scope)
+  modes: Record<ClientPlatform, PaymentMode>; // Payment mode per client platform
+  quoteSecret: string; // HMAC secret for payment quote IDs
+  quoteTtlSeconds: number;
+  resultTokenSecret: string; // HMAC secret for the 3D Secure result tokens in callback redirects
+  resultTokenTtlSeconds: number;
+  returnUrls: Record<ClientPlatform, string>; // Where the 3D Secure callback sends the payer, per client platform
+}
+
+export interface PaynetWebhookConfig {
+  verification: WebhookVerificationMode;
+  secrets: string[]; // Active signing secrets; more than one while a secret is being rotated
+  timestampToleranceSeconds: number; // Max clock difference between x-paynet-timestamp and now
+  allowedIps: string[]; // Source IPs webhooks are accepted from; empty accepts any
+  commissionTolerance: number; // TL the reported commission may differ from the quoted gateway fee
+}
+
+export interface EscrowConfig {
+  reminderDays: number; // Days before the auto-release deadline to remind owner and finder
+  stuckEscalationDays: number; // Days held without shipment progress before admins are alerted
+}
+
+export interface ChargebackConfig {
+  evidenceDays: number; // Evidence deadline when the bank notification doesn't give one
+  deadlineAlertHours: number; // Hours before the evidence deadline that admins are alerted
+}
+
+export interface IdempotencyConfig {
+  ttlHours: number; // How long a stored Idempotency-Key response is replayed
+}
+
+export interface OutboxConfig {
+  maxAttempts: number; // Delivery attempts before a message is dead-lettered
+}
+
+export interface IyzicoConfig {
+  apiUrl: string;
+  apiKey: string;
+  secretKey: string;
+  commissionRate: number; // Fraction of the amount per single charge
+  commissionFee: number; // Fixed TRY per charge
+}
+
 export interface AppConfiguration {
   app: AppConfig;
   supabase: SupabaseConfig;
   auth: AuthConfig;
+  payments: PaymentsConfig;
+  paynetWebhooks: PaynetWebhookConfig;
+  escrow: EscrowConfig;
+  chargebacks: ChargebackConfig;
+  idempotency: IdempotencyConfig;
+  outbox: OutboxConfig;
+  iyzico: IyzicoConfig;
 }
 
 export const loadConfiguration = (): AppConfiguration => ({
@@ -39,4 +94,63 @@ export const loadConfiguration = (): AppConfiguration => ({
       .map((role) => role.trim())
       .filter((role) => role.length > 0),
   },
+  payments: {
+    provider: process.env.PAYMENT_PROVIDER ?? 'paynet',
+    rawCardEnabled: process.env.PAYMENTS_RAW_CARD_ENABLED === 'true',
+    modes: {
+      web: (process.env.PAYMENT_MODE_WEB ?? 'direct_3ds') as PaymentMode,
+      ios: (process.env.PAYMENT_MODE_IOS ?? 'hosted_page') as PaymentMode,
+    },
+    quoteSecret: process.env.PAYMENT_QUOTE_SECRET ?? '',
+    quoteTtlSeconds: parseInt(process.env.PAYMENT_QUOTE_TTL_SECONDS ?? '900', 10),
+    resultTokenSecret: process.env.PAYMENT_RESULT_TOKEN_SECRET ?? '',
+    resultTokenTtlSeconds: parseInt(process.env.PAYMENT_RESULT_TOKEN_TTL_SECONDS ?? '900', 10),
+    returnUrls: {
+      web:
+        process.env.PAYMENT_RETURN_URL_WEB ||
+        `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payment`,
+      ios:
+        process.env.PAYMENT_RETURN_URL_IOS ||
+        process.env.PAYMENT_RETURN_URL_WEB ||
+        `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payment`,
+    },
+  },
+  paynetWebhooks: {
+    verification: (process.env.PAYNET_WEBHOOK_VERIFICATION ??
+      'required') as WebhookVerificationMode,
+    secrets: (process.env.PAYNET_WEBHOOK_SECRETS || process.env.PAYNET_SECRET_KEY || '')
+      .split(',')
+      .map((secret) => secret.trim())
+      .filter((secret) => secret.length > 0),
+    timestampToleranceSeconds: parseInt(
+      process.env.PAYNET_WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS ?? '300',
+      10,
+    ),
+    allowedIps: (process.env.PAYNET_ALLOWED_IPS ?? '')
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter((ip) => ip.length > 0),
+    commissionTolerance: parseFloat(process.env.PAYNET_WEBHOOK_COMMISSION_TOLERANCE ?? '0.05'),
+  },
+  escrow: {
+    reminderDays: parseInt(process.env.ESCROW_REMINDER_DAYS ?? '3', 10),
+    stuckEscalationDays: parseInt(process.env.ESCROW_STUCK_ESCALATION_DAYS ?? '7', 10),
+  },
+  chargebacks: {
+    evidenceDays: parseInt(process.env.CHARGEBACK_EVIDENCE_DAYS ?? '7', 10),
+    deadlineAlertHours: parseInt(process.env.CHARGEBACK_DEADLINE_ALERT_HOURS ?? '48', 10),
+  },
+  idempotency: {
+    ttlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? '24', 10),
+  },
+  outbox: {
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS ?? '8', 10),
+  },
+  iyzico: {
+    apiUrl: process.env.IYZICO_API_URL ?? '',
+    apiKey: process.env.IYZICO_API_KEY ?? '',
+    secretKey: process.env.IYZICO_SECRET_KEY ?? '',
+    commissionRate: parseFloat(process.env.IYZICO_COMMISSION_RATE ?? '0.0299'),
+    commissionFee: parseFloat(process.env.IYZICO_COMMISSION_FEE ?? '0.25'),
+  },
 });
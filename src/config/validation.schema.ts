@@ -20,6 +20,54 @@ export const validationSchema = Joi.object({
   PAYNET_API_KEY: Joi.string().allow('').optional(),
   PAYNET_SECRET_KEY: Joi.string().allow('').optional(),
   PAYNET_PUBLISHABLE_KEY: Joi.string().allow('').optional(),
+  PAYNET_SANDBOX_ENABLED: Joi.boolean()
+    .default(false)
+    .when('NODE_ENV', { is: 'production', then: Joi.valid(false) }),
+  PAYNET_WEBHOOK_VERIFICATION: Joi.string()
+    .valid('required', 'optional')
+    .default('required')
+    .when('NODE_ENV', { is: 'production', then: Joi.valid('required') }),
+  PAYNET_WEBHOOK_SECRETS: Joi.string().allow('').optional(),
+  PAYNET_WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS: Joi.number().integer().min(30).max(3600).default(300),
+  PAYNET_ALLOWED_IPS: Joi.string()
+    .allow('')
+    .pattern(/^[0-9a-fA-F:.,\s]*$/)
+    .optional(),
+  PAYNET_WEBHOOK_COMMISSION_TOLERANCE: Joi.number().precision(2).min(0).default(0.05),
+  PAYMENT_PROVIDER: Joi.string().valid('paynet', 'iyzico').default('paynet'),
+  PAYMENTS_RAW_CARD_ENABLED: Joi.boolean().default(false),
+  PAYMENT_MODE_WEB: Joi.string().valid('direct_3ds', 'hosted_page').default('direct_3ds'),
+  PAYMENT_MODE_IOS: Joi.string().valid('direct_3ds', 'hosted_page').default('hosted_page'),
+  PAYMENT_QUOTE_SECRET: Joi.string()
+    .min(32)
+    .when('NODE_ENV', { is: 'production', then: Joi.required(), otherwise: Joi.optional() }),
+  PAYMENT_QUOTE_TTL_SECONDS: Joi.number().min(60).default(900),
+  PAYMENT_RESULT_TOKEN_SECRET: Joi.string()
+    .min(32)
+    .when('NODE_ENV', { is: 'production', then: Joi.required(), otherwise: Joi.optional() }),
+  PAYMENT_RESULT_TOKEN_TTL_SECONDS: Joi.number().min(60).default(900),
+  PAYMENT_RETURN_URL_WEB: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .allow('')
+    .optional(),
+  PAYMENT_RETURN_URL_IOS: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .allow('')
+    .optional(),
+  ESCROW_REMINDER_DAYS: Joi.number().integer().min(1).default(3),
+  ESCROW_STUCK_ESCALATION_DAYS: Joi.number().integer().min(1).default(7),
+  CHARGEBACK_EVIDENCE_DAYS: Joi.number().integer().min(1).default(7),
+  CHARGEBACK_DEADLINE_ALERT_HOURS: Joi.number().integer().min(1).default(48),
+  IDEMPOTENCY_KEY_TTL_HOURS: Joi.number().integer().min(1).default(24),
+  OUTBOX_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+  IYZICO_API_URL: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .allow('')
+    .optional(),
+  IYZICO_API_KEY: Joi.string().allow('').optional(),
+  IYZICO_SECRET_KEY: Joi.string().allow('').optional(),
+  IYZICO_COMMISSION_RATE: Joi.number().min(0).max(1).default(0.0299),
+  IYZICO_COMMISSION_FEE: Joi.number().precision(2).min(0).default(0.25),
   FRONTEND_URL: Joi.string().uri({ scheme: ['http', 'https'] }).allow('').optional(),
   BACKEND_URL: Joi.string().uri({ scheme: ['http', 'https'] }).allow('').optional(),
 });
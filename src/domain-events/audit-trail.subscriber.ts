@@ -0,0 +1,66 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { OutboxService } from '../outbox/outbox.service';
+import { DomainEventBus } from './domain-event-bus.service';
+import { DisputeOpenedEvent, ShipmentDeliveredEvent } from './domain-events.types';
+
+/**
+ * Audit log entries for domain events whose publisher doesn't write one
+ * itself. Payment and escrow transitions are audited inside their
+ * transition function and are not repeated here.
+ */
+@Injectable()
+export class AuditTrailSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe('ShipmentDelivered', AuditTrailSubscriber.name, (event) =>
+      this.onShipmentDelivered(event),
+    );
+    this.eventBus.subscribe('DisputeOpened', AuditTrailSubscriber.name, (event) =>
+      this.onDisputeOpened(event),
+    );
+  }
+
+  private async onShipmentDelivered(event: ShipmentDeliveredEvent): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: event.deviceId,
+        payload: {
+          event_type: 'shipment_delivered',
+          event_category: 'cargo',
+          event_action: 'deliver',
+          event_severity: 'info',
+          user_id: event.ownerUserId,
+          resource_type: 'device',
+          resource_id: event.deviceId,
+          event_description: event.reason,
+          event_data: { device_id: event.deviceId, finder_device_id: event.finderDeviceId },
+        },
+      },
+    ]);
+  }
+
+  private async onDisputeOpened(event: DisputeOpenedEvent): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: event.deviceId,
+        payload: {
+          event_type: 'delivery_disputed',
+          event_category: 'cargo',
+          event_action: 'dispute',
+          event_severity: 'warning',
+          user_id: event.ownerUserId,
+          resource_type: 'device',
+          resource_id: event.deviceId,
+          event_description: `Owner disputed the delivery: ${event.reason}`,
+          event_data: { device_id: event.deviceId, reason: event.reason },
+        },
+      },
+    ]);
+  }
+}
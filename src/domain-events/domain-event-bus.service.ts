@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DomainEvent, DomainEventHandler, DomainEventType } from './domain-events.types';
+
+interface Subscription {
+  subscriber: string;
+  handler: (event: DomainEvent) => Promise<void> | void;
+}
+
+/**
+ * In-process bus for domain events. Services publish what happened
+ * (PaymentCompleted, ShipmentDelivered, ...) instead of calling the modules
+ * that react to it; cargo, payouts and audit subscribers register in
+ * onModuleInit.
+ *
+ * publish() runs the handlers one after another in registration order and
+ * resolves once all of them finished. A failing handler is logged and does
+ * not affect the publisher or the other handlers - anything that must be
+ * retried belongs in the outbox, not in a handler's error path.
+ */
+@Injectable()
+export class DomainEventBus {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly subscriptions = new Map<DomainEventType, Subscription[]>();
+
+  subscribe<T extends DomainEventType>(
+    type: T,
+    subscriber: string,
+    handler: DomainEventHandler<T>,
+  ): void {
+    const subscriptions = this.subscriptions.get(type) ?? [];
+    subscriptions.push({ subscriber, handler: handler as Subscription['handler'] });
+    this.subscriptions.set(type, subscriptions);
+  }
+
+  async publish(event: DomainEvent): Promise<void> {
+    const subscriptions = this.subscriptions.get(event.type) ?? [];
+    this.logger.debug(`${event.type} -> ${subscriptions.length} subscribers`);
+
+    for (const { subscriber, handler } of subscriptions) {
+      try {
+        await handler(event);
+      } catch (error: any) {
+        this.logger.error(
+          `${subscriber} failed to handle ${event.type}: ${error.message} - ${JSON.stringify(event)}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { OutboxModule } from '../outbox/outbox.module';
+import { AuditTrailSubscriber } from './audit-trail.subscriber';
+import { DomainEventBus } from './domain-event-bus.service';
+
+@Module({
+  imports: [OutboxModule],
+  providers: [DomainEventBus, AuditTrailSubscriber],
+  exports: [DomainEventBus],
+})
+export class DomainEventsModule {}
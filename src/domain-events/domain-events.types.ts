@@ -0,0 +1,102 @@
+export const DOMAIN_EVENT_TYPES = [
+  'PaymentCompleted',
+  'EscrowHeld',
+  'EscrowReleased',
+  'EscrowRefunded',
+  'ShipmentDelivered',
+  'DisputeOpened',
+  'ShipmentStatusChanged',
+] as const;
+export type DomainEventType = (typeof DOMAIN_EVENT_TYPES)[number];
+
+/**
+ * The payer was charged; published once per payment, by whichever of the
+ * webhook and the 3D Secure completion committed it
+ */
+export interface PaymentCompletedEvent {
+  type: 'PaymentCompleted';
+  paymentId: string;
+  // Owner's device (payments.device_id)
+  deviceId: string;
+  payerId: string;
+  receiverId: string | null;
+  cargoFee: number;
+  source: 'webhook' | '3d_secure';
+}
+
+export interface EscrowHeldEvent {
+  type: 'EscrowHeld';
+  paymentId: string;
+  deviceId: string;
+}
+
+export interface EscrowReleasedEvent {
+  type: 'EscrowReleased';
+  paymentId: string;
+  deviceId: string;
+  releasedBy: string;
+  reason: string;
+  // Part of the escrow was refunded to the payer first
+  partialRefund: boolean;
+}
+
+export interface EscrowRefundedEvent {
+  type: 'EscrowRefunded';
+  paymentId: string;
+  deviceId: string;
+  refundedBy: string;
+  reason: string;
+}
+
+/**
+ * The owner confirmed receipt, the 48-hour auto-confirm did it for them or
+ * an admin resolved a dispute as delivered
+ */
+export interface ShipmentDeliveredEvent {
+  type: 'ShipmentDelivered';
+  // Owner's device
+  deviceId: string;
+  ownerUserId: string;
+  finderDeviceId: string | null;
+  reason: string;
+}
+
+export interface DisputeOpenedEvent {
+  type: 'DisputeOpened';
+  // Owner's device
+  deviceId: string;
+  ownerUserId: string;
+  finderUserId: string | null;
+  reason: string;
+}
+
+/**
+ * The owner's and the finder's device rows moved to a new status
+ * (cargo_shipped, delivered, confirmed, disputed, cancelled, ...) and/or
+ * the carrier reported a new cargo status
+ */
+export interface ShipmentStatusChangedEvent {
+  type: 'ShipmentStatusChanged';
+  // Owner's device
+  deviceId: string;
+  ownerUserId: string | null;
+  finderUserId: string | null;
+  // null when only the shipment moved (in_transit, out_for_delivery)
+  deviceStatus: string | null;
+  cargoStatus: string | null;
+}
+
+export type DomainEvent =
+  | PaymentCompletedEvent
+  | EscrowHeldEvent
+  | EscrowReleasedEvent
+  | EscrowRefundedEvent
+  | ShipmentDeliveredEvent
+  | DisputeOpenedEvent
+  | ShipmentStatusChangedEvent;
+
+export type DomainEventOf<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
+
+export type DomainEventHandler<T extends DomainEventType> = (
+  event: DomainEventOf<T>,
+) => Promise<void> | void;
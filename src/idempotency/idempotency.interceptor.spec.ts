@@ -0,0 +1,132 @@
+import { BadRequestException, CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor, IDEMPOTENT_REPLAYED_HEADER } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyInterceptor', () => {
+  let service: jest.Mocked<Pick<IdempotencyService, 'begin' | 'complete' | 'release'>>;
+  let interceptor: IdempotencyInterceptor;
+  let response: { statusCode: number; status: jest.Mock; setHeader: jest.Mock };
+
+  const context = (headers: Record<string, string>, body: unknown = { amount: 100 }) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          header: (name: string) => headers[name],
+          user: { id: 'user-1' },
+          method: 'POST',
+          originalUrl: '/v1/payments/process?source=app',
+          body,
+        }),
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handler = (result: () => unknown): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn(() => {
+      try {
+        return of(result());
+      } catch (error) {
+        return throwError(() => error);
+      }
+    }),
+  });
+
+  beforeEach(() => {
+    service = {
+      begin: jest.fn(),
+      complete: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    interceptor = new IdempotencyInterceptor(service as unknown as IdempotencyService);
+    response = { statusCode: 201, status: jest.fn(), setHeader: jest.fn() };
+  });
+
+  it('passes requests without the header straight through', async () => {
+    const next = handler(() => ({ ok: true }));
+
+    await expect(lastValueFrom(interceptor.intercept(context({}), next))).resolves.toEqual({
+      ok: true,
+    });
+    expect(service.begin).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed key', () => {
+    expect(() =>
+      interceptor.intercept(
+        context({ 'idempotency-key': 'has spaces' }),
+        handler(() => null),
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('runs the handler and stores its response', async () => {
+    service.begin.mockResolvedValue({ action: 'proceed', recordId: 'key-1' });
+    const next = handler(() => ({ paymentId: 'p-1' }));
+
+    const result = await lastValueFrom(
+      interceptor.intercept(context({ 'idempotency-key': 'abc' }), next),
+    );
+
+    expect(result).toEqual({ paymentId: 'p-1' });
+    expect(service.begin).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', key: 'abc', path: '/v1/payments/process' }),
+    );
+    expect(service.complete).toHaveBeenCalledWith('key-1', 201, { paymentId: 'p-1' });
+  });
+
+  it('replays a stored response without running the handler', async () => {
+    service.begin.mockResolvedValue({ action: 'replay', status: 201, body: { paymentId: 'p-1' } });
+    const next = handler(() => ({ paymentId: 'p-2' }));
+
+    const result = await lastValueFrom(
+      interceptor.intercept(context({ 'idempotency-key': 'abc' }), next),
+    );
+
+    expect(result).toEqual({ paymentId: 'p-1' });
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(response.status).toHaveBeenCalledWith(201);
+    expect(response.setHeader).toHaveBeenCalledWith(IDEMPOTENT_REPLAYED_HEADER, 'true');
+  });
+
+  it('releases the key and rethrows when the handler fails', async () => {
+    service.begin.mockResolvedValue({ action: 'proceed', recordId: 'key-1' });
+    const failure = new Error('provider down');
+    const next = handler(() => {
+      throw failure;
+    });
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context({ 'idempotency-key': 'abc' }), next)),
+    ).rejects.toBe(failure);
+    expect(service.release).toHaveBeenCalledWith('key-1');
+    expect(service.complete).not.toHaveBeenCalled();
+  });
+
+  it('fingerprints the body independent of key order', async () => {
+    service.begin.mockResolvedValue({ action: 'replay', status: 200, body: null });
+
+    await lastValueFrom(
+      interceptor.intercept(
+        context({ 'idempotency-key': 'abc' }, { a: 1, b: { c: 2, d: [1, 2] } }),
+        handler(() => null),
+      ),
+    );
+    await lastValueFrom(
+      interceptor.intercept(
+        context({ 'idempotency-key': 'abc' }, { b: { d: [1, 2], c: 2 }, a: 1 }),
+        handler(() => null),
+      ),
+    );
+    await lastValueFrom(
+      interceptor.intercept(
+        context({ 'idempotency-key': 'abc' }, { a: 1, b: { c: 2, d: [2, 1] } }),
+        handler(() => null),
+      ),
+    );
+
+    const [first, reordered, changed] = service.begin.mock.calls.map(([call]) => call.fingerprint);
+    expect(reordered).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Response } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, concatMap, mergeMap } from 'rxjs/operators';
+import { AuthenticatedRequest } from '../auth/interfaces/request-user.interface';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Printable ASCII without spaces
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Makes a money-moving route safe to retry: a request sent again with the
+ * same Idempotency-Key header gets the first response replayed instead of
+ * running twice. Requests without the header are processed as before.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === undefined || !request.user) {
+      return next.handle();
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      throw new BadRequestException(
+        'Idempotency-Key must be 1-255 printable ASCII characters without spaces',
+      );
+    }
+
+    const path = request.originalUrl.split('?')[0];
+    const idempotentRequest = {
+      userId: request.user.id,
+      key,
+      fingerprint: this.fingerprint(request.method, path, request.body),
+      method: request.method,
+      path,
+    };
+
+    return from(this.idempotencyService.begin(idempotentRequest)).pipe(
+      mergeMap((decision) => {
+        if (decision.action === 'replay') {
+          response.status(decision.status);
+          response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          return of(decision.body);
+        }
+
+        return next.handle().pipe(
+          concatMap((body) =>
+            from(
+              this.idempotencyService.complete(decision.recordId, response.statusCode, body),
+            ).pipe(mergeMap(() => of(body))),
+          ),
+          catchError((error) =>
+            from(this.idempotencyService.release(decision.recordId)).pipe(
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+
+  private fingerprint(method: string, path: string, body: unknown): string {
+    return createHash('sha256')
+      .update(`${method} ${path}\n${this.stableStringify(body ?? {})}`)
+      .digest('hex');
+  }
+
+  /**
+   * JSON with sorted object keys, so a retry that serializes the same body
+   * in a different key order still matches
+   */
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${this.stableStringify((value as Record<string, unknown>)[key])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
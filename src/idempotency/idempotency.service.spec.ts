@@ -0,0 +1,223 @@
+import { ConflictException, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfiguration } from '../config/configuration';
+import { SupabaseService } from '../supabase/supabase.service';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotentRequest } from './idempotency.types';
+
+type Row = Record<string, any>;
+
+/**
+ * In-memory idempotency_keys table with the unique (user_id,
+ * idempotency_key) index, behind the slice of the query builder the
+ * service uses
+ */
+class FakeKeysTable {
+  rows: Row[] = [];
+  private nextId = 1;
+
+  query(): FakeQuery {
+    return new FakeQuery(this);
+  }
+
+  insert(values: Row): { data: Row | null; error: { code: string; message: string } | null } {
+    if (
+      this.rows.some(
+        (row) => row.user_id === values.user_id && row.idempotency_key === values.idempotency_key,
+      )
+    ) {
+      return { data: null, error: { code: '23505', message: 'duplicate key' } };
+    }
+    const row = { id: `key-${this.nextId++}`, ...values };
+    this.rows.push(row);
+    return { data: row, error: null };
+  }
+}
+
+class FakeQuery implements PromiseLike<{ data: Row[]; error: null }> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row = {};
+  private readonly filters: [string, unknown][] = [];
+
+  constructor(private readonly table: FakeKeysTable) {}
+
+  insert(values: Row): this {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  select(): this {
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  async single(): Promise<{ data: Row | null; error: any }> {
+    const { data, error } = this.execute();
+    return { data: data[0] ?? null, error };
+  }
+
+  async maybeSingle(): Promise<{ data: Row | null; error: any }> {
+    return this.single();
+  }
+
+  then<TResult1, TResult2>(
+    onfulfilled?: (value: { data: Row[]; error: null }) => TResult1 | PromiseLike<TResult1>,
+    onrejected?: (reason: unknown) => TResult2 | PromiseLike<TResult2>,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute() as { data: Row[]; error: null }).then(
+      onfulfilled,
+      onrejected,
+    );
+  }
+
+  private execute(): { data: Row[]; error: any } {
+    if (this.operation === 'insert') {
+      const { data, error } = this.table.insert(this.values);
+      return { data: data ? [data] : [], error };
+    }
+
+    const matches = this.table.rows.filter((row) =>
+      this.filters.every(([column, value]) => row[column] === value),
+    );
+    if (this.operation === 'update') {
+      matches.forEach((row) => Object.assign(row, this.values));
+    }
+    if (this.operation === 'delete') {
+      this.table.rows = this.table.rows.filter((row) => !matches.includes(row));
+    }
+    return { data: matches.map((row) => ({ ...row })), error: null };
+  }
+}
+
+describe('IdempotencyService', () => {
+  let table: FakeKeysTable;
+  let service: IdempotencyService;
+
+  const request = (overrides: Partial<IdempotentRequest> = {}): IdempotentRequest => ({
+    userId: 'user-1',
+    key: 'retry-key',
+    fingerprint: 'fingerprint-a',
+    method: 'POST',
+    path: '/v1/payments/process',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    table = new FakeKeysTable();
+    const supabaseService = {
+      getClient: () => ({ from: () => table.query() }),
+    } as unknown as SupabaseService;
+    const configService = {
+      get: () => ({ ttlHours: 24 }),
+    } as unknown as ConfigService<AppConfiguration, true>;
+    service = new IdempotencyService(supabaseService, configService);
+  });
+
+  it('claims a new key for the first request', async () => {
+    const decision = await service.begin(request());
+
+    expect(decision).toEqual({ action: 'proceed', recordId: 'key-1' });
+    expect(table.rows[0]).toMatchObject({
+      status: 'processing',
+      request_fingerprint: 'fingerprint-a',
+    });
+  });
+
+  it('replays the stored response for a retry with the same body', async () => {
+    const first = await service.begin(request());
+    await service.complete((first as { recordId: string }).recordId, 201, { paymentId: 'p-1' });
+
+    const retry = await service.begin(request());
+
+    expect(retry).toEqual({ action: 'replay', status: 201, body: { paymentId: 'p-1' } });
+  });
+
+  it('scopes keys per user', async () => {
+    await service.begin(request());
+
+    const other = await service.begin(request({ userId: 'user-2' }));
+
+    expect(other.action).toBe('proceed');
+  });
+
+  it('rejects a key reused with a different body with 422', async () => {
+    const first = await service.begin(request());
+    await service.complete((first as { recordId: string }).recordId, 201, {});
+
+    await expect(service.begin(request({ fingerprint: 'fingerprint-b' }))).rejects.toBeInstanceOf(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('rejects a retry while the first request is still processing with 409', async () => {
+    await service.begin(request());
+
+    await expect(service.begin(request())).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('releases the key of a failed request so it can be retried', async () => {
+    const first = await service.begin(request());
+    await service.release((first as { recordId: string }).recordId);
+
+    expect(table.rows).toHaveLength(0);
+    expect((await service.begin(request())).action).toBe('proceed');
+  });
+
+  it('does not release a completed key', async () => {
+    const first = await service.begin(request());
+    const { recordId } = first as { recordId: string };
+    await service.complete(recordId, 200, {});
+    await service.release(recordId);
+
+    expect(table.rows).toHaveLength(1);
+  });
+
+  it('lets a retry take over a key stuck in processing', async () => {
+    await service.begin(request());
+    table.rows[0].created_at = new Date(Date.now() - 6 * 60 * 1000).toISOString();
+
+    const retry = await service.begin(request({ fingerprint: 'fingerprint-b' }));
+
+    expect(retry).toEqual({ action: 'proceed', recordId: 'key-1' });
+    expect(table.rows[0]).toMatchObject({
+      status: 'processing',
+      request_fingerprint: 'fingerprint-b',
+    });
+  });
+
+  it('lets only one of two concurrent retries take over a stale key', async () => {
+    await service.begin(request());
+    table.rows[0].created_at = new Date(Date.now() - 6 * 60 * 1000).toISOString();
+
+    const results = await Promise.allSettled([service.begin(request()), service.begin(request())]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('starts over when the stored response expired', async () => {
+    const first = await service.begin(request());
+    await service.complete((first as { recordId: string }).recordId, 201, { paymentId: 'p-1' });
+    table.rows[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+    const retry = await service.begin(request({ fingerprint: 'fingerprint-b' }));
+
+    expect(retry.action).toBe('proceed');
+    expect(table.rows[0]).toMatchObject({ status: 'processing', response_body: null });
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppConfiguration, IdempotencyConfig } from '../config/configuration';
+import { SupabaseService } from '../supabase/supabase.service';
+import { IdempotencyDecision, IdempotencyKeyRecord, IdempotentRequest } from './idempotency.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+// A key still 'processing' after this long belongs to a crashed request
+// and may be taken over by the retry
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Stored responses of requests sent with an Idempotency-Key header
+ * (idempotency_keys table), scoped per user and key.
+ *
+ * The first request claims the key; a retry with the same body gets the
+ * stored response replayed once the first one finished, and a 409 while it
+ * is still running. Reusing a key with a different body is rejected with a
+ * 422. Failed requests release their key so the client can retry them.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly config: IdempotencyConfig;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+    this.config = this.configService.get<IdempotencyConfig>('idempotency', { infer: true });
+  }
+
+  async begin(request: IdempotentRequest): Promise<IdempotencyDecision> {
+    const now = new Date();
+    const { data, error } = await this.supabase
+      .from('idempotency_keys')
+      .insert({
+        user_id: request.userId,
+        idempotency_key: request.key,
+        request_fingerprint: request.fingerprint,
+        method: request.method,
+        path: request.path,
+        status: 'processing',
+        created_at: now.toISOString(),
+        expires_at: this.expiresAt(now),
+      })
+      .select('id')
+      .single();
+
+    if (!error) {
+      return { action: 'proceed', recordId: data.id };
+    }
+
+    if (error.code !== '23505') {
+      // Do not block payments because the key store is unavailable
+      this.logger.error(
+        `Failed to store idempotency key for user ${request.userId}, processing without it: ${error.message}`,
+        error,
+      );
+      return { action: 'proceed', recordId: '' };
+    }
+
+    return this.resolveExisting(request, now);
+  }
+
+  async complete(recordId: string, status: number, body: unknown): Promise<void> {
+    if (!recordId) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: status,
+        response_body: body ?? null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', recordId)
+      .eq('status', 'processing');
+
+    if (error) {
+      this.logger.error(
+        `Failed to store response for idempotency key ${recordId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Frees the key after a failed request so the same key can be retried
+   */
+  async release(recordId: string): Promise<void> {
+    if (!recordId) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('idempotency_keys')
+      .delete()
+      .eq('id', recordId)
+      .eq('status', 'processing');
+
+    if (error) {
+      this.logger.error(`Failed to release idempotency key ${recordId}: ${error.message}`);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredKeys(): Promise<void> {
+    const { error, count } = await this.supabase
+      .from('idempotency_keys')
+      .delete({ count: 'exact' })
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      this.logger.error(`Failed to purge expired idempotency keys: ${error.message}`, error);
+      return;
+    }
+
+    if (count) {
+      this.logger.log(`Purged ${count} expired idempotency keys`);
+    }
+  }
+
+  private async resolveExisting(
+    request: IdempotentRequest,
+    now: Date,
+  ): Promise<IdempotencyDecision> {
+    const { data, error } = await this.supabase
+      .from('idempotency_keys')
+      .select('*')
+      .eq('user_id', request.userId)
+      .eq('idempotency_key', request.key)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load idempotency key: ${error.message}`, error);
+      throw new ConflictException('Could not check the Idempotency-Key, retry the request');
+    }
+
+    if (!data) {
+      // Released or purged in between
+      throw new ConflictException('The request with this Idempotency-Key just finished, retry');
+    }
+
+    const existing = data as IdempotencyKeyRecord;
+    const expired = new Date(existing.expires_at).getTime() <= now.getTime();
+    const stale =
+      existing.status === 'processing' &&
+      now.getTime() - new Date(existing.created_at).getTime() > STALE_PROCESSING_MS;
+
+    if (expired || stale) {
+      return this.takeOver(existing, request, now);
+    }
+
+    if (existing.request_fingerprint !== request.fingerprint) {
+      throw new UnprocessableEntityException(
+        'This Idempotency-Key was already used for a different request',
+      );
+    }
+
+    if (existing.status === 'processing') {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    this.logger.log(`Replaying response for idempotency key ${existing.id}`);
+    return {
+      action: 'replay',
+      status: existing.response_status ?? 200,
+      body: existing.response_body,
+    };
+  }
+
+  private async takeOver(
+    existing: IdempotencyKeyRecord,
+    request: IdempotentRequest,
+    now: Date,
+  ): Promise<IdempotencyDecision> {
+    const { data, error } = await this.supabase
+      .from('idempotency_keys')
+      .update({
+        request_fingerprint: request.fingerprint,
+        method: request.method,
+        path: request.path,
+        status: 'processing',
+        response_status: null,
+        response_body: null,
+        created_at: now.toISOString(),
+        completed_at: null,
+        expires_at: this.expiresAt(now),
+      })
+      .eq('id', existing.id)
+      .eq('created_at', existing.created_at)
+      .select('id')
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    return { action: 'proceed', recordId: data.id };
+  }
+
+  private expiresAt(from: Date): string {
+    return new Date(from.getTime() + this.config.ttlHours * HOUR_MS).toISOString();
+  }
+}
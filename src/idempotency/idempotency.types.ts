@@ -0,0 +1,34 @@
+export const IDEMPOTENCY_KEY_STATUSES = ['processing', 'completed'] as const;
+export type IdempotencyKeyStatus = (typeof IDEMPOTENCY_KEY_STATUSES)[number];
+
+export interface IdempotencyKeyRecord {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  request_fingerprint: string;
+  method: string;
+  path: string;
+  status: IdempotencyKeyStatus;
+  response_status: number | null;
+  response_body: unknown;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string;
+}
+
+export interface IdempotentRequest {
+  userId: string;
+  key: string;
+  fingerprint: string;
+  method: string;
+  path: string;
+}
+
+/**
+ * What the interceptor should do with a request carrying an Idempotency-Key:
+ * run the handler (the key is now claimed by this request) or replay the
+ * response stored for the first one
+ */
+export type IdempotencyDecision =
+  | { action: 'proceed'; recordId: string }
+  | { action: 'replay'; status: number; body: unknown };
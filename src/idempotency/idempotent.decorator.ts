@@ -0,0 +1,27 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+/**
+ * Accepts an optional Idempotency-Key header on the route (see
+ * IdempotencyInterceptor). The controller's module must import
+ * IdempotencyModule.
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description:
+        'Unique key per attempt (e.g. a UUID). Retrying with the same key and body replays the first response (Idempotent-Replayed: true) instead of running the request again.',
+    }),
+    ApiResponse({
+      status: 409,
+      description: 'A request with the same Idempotency-Key is still being processed',
+    }),
+    ApiResponse({
+      status: 422,
+      description: 'The Idempotency-Key was already used with a different request body',
+    }),
+  );
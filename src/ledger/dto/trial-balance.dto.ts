@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+import { LEDGER_ACCOUNTS } from '../ledger.types';
+
+export class TrialBalanceQueryDto {
+  @ApiProperty({
+    description: 'Only entries created up to this time (ISO 8601)',
+    example: '2026-10-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  asOf?: string;
+}
+
+export class TrialBalanceAccountDto {
+  @ApiProperty({ description: 'Ledger account', enum: LEDGER_ACCOUNTS })
+  account: string;
+
+  @ApiProperty({
+    description: 'Account type',
+    enum: ['asset', 'liability', 'expense', 'revenue', 'unknown'],
+  })
+  accountType: string;
+
+  @ApiProperty({ description: 'Total debits (TRY)', example: 4750.0 })
+  debit: number;
+
+  @ApiProperty({ description: 'Total credits (TRY)', example: 162.93 })
+  credit: number;
+
+  @ApiProperty({ description: 'Debits minus credits (TRY)', example: 4587.07 })
+  balance: number;
+}
+
+export class TrialBalanceDto {
+  @ApiProperty({ description: 'When the trial balance was computed (ISO 8601)' })
+  generatedAt: string;
+
+  @ApiProperty({ description: 'Cut-off the entries were filtered by', required: false })
+  asOf?: string;
+
+  @ApiProperty({ description: 'Number of ledger entries included', example: 1200 })
+  entryCount: number;
+
+  @ApiProperty({ description: 'Per-account totals', type: [TrialBalanceAccountDto] })
+  accounts: TrialBalanceAccountDto[];
+
+  @ApiProperty({ description: 'Sum of all debits (TRY)' })
+  totalDebit: number;
+
+  @ApiProperty({ description: 'Sum of all credits (TRY)' })
+  totalCredit: number;
+
+  @ApiProperty({ description: 'totalDebit - totalCredit; must be 0', example: 0 })
+  netBalance: number;
+
+  @ApiProperty({ description: 'True when the books sum to zero' })
+  balanced: boolean;
+}
+
+export class LedgerEntryDto {
+  @ApiProperty({ description: 'Entry ID (financial_transactions.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'Ledger step', example: 'escrow_hold' })
+  transactionType: string;
+
+  @ApiProperty({ description: 'Debited account', example: 'payer_clearing' })
+  debitAccount: string;
+
+  @ApiProperty({ description: 'Credited account', example: 'escrow_held' })
+  creditAccount: string;
+
+  @ApiProperty({ description: 'Amount (TRY)', example: 4750.0 })
+  amount: number;
+
+  @ApiProperty({ description: 'Description', required: false })
+  description?: string;
+
+  @ApiProperty({ description: 'Created at (ISO 8601)' })
+  createdAt: string;
+}
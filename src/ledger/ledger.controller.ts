@@ -0,0 +1,36 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { LedgerEntryDto, TrialBalanceDto, TrialBalanceQueryDto } from './dto/trial-balance.dto';
+import { LedgerService } from './ledger.service';
+
+@ApiTags('ledger')
+@Controller('ledger')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @ApiOperation({
+    summary: 'Trial balance (Admin only)',
+    description:
+      'Debit and credit totals per ledger account from financial_transactions. balanced is true when all debits equal all credits, i.e. the books sum to zero.',
+  })
+  @ApiResponse({ status: 200, description: 'Trial balance', type: TrialBalanceDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('trial-balance')
+  async getTrialBalance(@Query() query: TrialBalanceQueryDto): Promise<TrialBalanceDto> {
+    return this.ledgerService.getTrialBalance(query.asOf);
+  }
+
+  @ApiOperation({ summary: 'Ledger entries of a payment (Admin only)' })
+  @ApiParam({ name: 'paymentId', description: 'Payment ID' })
+  @ApiResponse({ status: 200, description: 'Ledger entries', type: [LedgerEntryDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('payments/:paymentId')
+  async getPaymentEntries(
+    @Param('paymentId', ParseUUIDPipe) paymentId: string,
+  ): Promise<LedgerEntryDto[]> {
+    return this.ledgerService.getPaymentEntries(paymentId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,433 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Money } from '../common/money/money';
+import { SupabaseService } from '../supabase/supabase.service';
+import { LedgerEntryDto, TrialBalanceDto } from './dto/trial-balance.dto';
+import {
+  LEDGER_ACCOUNT_TYPES,
+  LEDGER_ACCOUNTS,
+  LedgerAccount,
+  LedgerPayment,
+  LedgerTransactionType,
+} from './ledger.types';
+
+interface LedgerEntry {
+  type: LedgerTransactionType;
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  amount: Money;
+  description: string;
+  fromUserId?: string | null;
+  toUserId?: string | null;
+  reference?: string; // Distinguishes repeated entries of one type for a payment
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Double-entry ledger in financial_transactions.
+ *
+ * Every row moves one amount from credit_account to debit_account, so the
+ * books balance by construction; the trial balance re-adds everything to
+ * prove it. Each row has an entry_key (payment + step), so posting the same
+ * step twice - webhook retries, a 3D completion racing the webhook - is a
+ * no-op. Posting never throws: the money already moved at the provider,
+ * and a ledger failure must not undo or fail that. Failures are logged
+ * for ops to re-post.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  /**
+   * Payment captured and placed in escrow; the provider keeps its commission
+   */
+  async postPaymentCompleted(payment: LedgerPayment, gatewayFee: number | string): Promise<void> {
+    const total = Money.fromMajor(payment.total_amount);
+    await this.post(payment, [
+      {
+        type: 'payment_capture',
+        debit: 'provider_balance',
+        credit: 'payer_clearing',
+        amount: total,
+        description: 'Payment captured by the provider',
+        fromUserId: payment.payer_id,
+      },
+      {
+        type: 'escrow_hold',
+        debit: 'payer_clearing',
+        credit: 'escrow_held',
+        amount: total,
+        description: 'Payment held in escrow',
+        fromUserId: payment.payer_id,
+      },
+      {
+        type: 'gateway_fee',
+        debit: 'gateway_fees',
+        credit: 'provider_balance',
+        amount: Money.fromMajor(gatewayFee),
+        description: 'Provider commission',
+      },
+    ]);
+  }
+
+  /**
+   * Escrow released: the held amount is split into what the finder, the
+   * carrier and the platform are owed, plus the payer's share of the
+   * gateway fee. The gateway part is the remainder so escrow_held clears
+   * exactly.
+   */
+  async postEscrowReleased(payment: LedgerPayment, releasedBy: string): Promise<void> {
+    const total = Money.fromMajor(payment.total_amount);
+    const reward = Money.fromMajor(payment.reward_amount);
+    const cargoFee = Money.fromMajor(payment.cargo_fee);
+    const serviceFee = Money.fromMajor(payment.service_fee);
+    const gatewayFee = total.subtract(reward).subtract(cargoFee).subtract(serviceFee);
+    if (!gatewayFee.equals(Money.fromMajor(payment.payment_gateway_fee))) {
+      this.logger.warn(
+        `Fee split of payment ${payment.id} does not add up to ${total}; gateway part posted as ${gatewayFee}`,
+      );
+    }
+
+    await this.post(
+      payment,
+      [
+        {
+          type: 'release_reward',
+          debit: 'escrow_held',
+          credit: 'finder_payable',
+          amount: reward,
+          description: 'Escrow released: finder reward',
+          toUserId: payment.receiver_id,
+        },
+        {
+          type: 'release_cargo_fee',
+          debit: 'escrow_held',
+          credit: 'carrier_payable',
+          amount: cargoFee,
+          description: 'Escrow released: cargo fee',
+        },
+        {
+          type: 'release_service_fee',
+          debit: 'escrow_held',
+          credit: 'service_revenue',
+          amount: serviceFee,
+          description: 'Escrow released: service fee',
+        },
+        {
+          type: 'release_gateway_fee',
+          debit: 'escrow_held',
+          credit: 'gateway_fees',
+          amount: gatewayFee,
+          description: "Escrow released: payer's share of the provider commission",
+        },
+      ],
+      releasedBy,
+    );
+  }
+
+  /**
+   * Escrow refunded: the provider returns the full amount to the payer.
+   * The commission it kept stays a platform expense.
+   */
+  async postEscrowRefunded(payment: LedgerPayment, refundedBy: string): Promise<void> {
+    await this.post(
+      payment,
+      [
+        {
+          type: 'escrow_refund',
+          debit: 'escrow_held',
+          credit: 'provider_balance',
+          amount: Money.fromMajor(payment.total_amount),
+          description: 'Escrow refunded to the payer',
+          toUserId: payment.payer_id,
+        },
+      ],
+      refundedBy,
+    );
+  }
+
+  /**
+   * Part of the escrow refunded to the payer before the rest is released
+   * (postEscrowReleased with the reduced amounts)
+   */
+  async postPartialRefund(
+    payment: LedgerPayment,
+    amount: Money,
+    reason: string,
+    refundedBy: string,
+  ): Promise<void> {
+    await this.post(
+      payment,
+      [
+        {
+          type: 'partial_refund',
+          debit: 'escrow_held',
+          credit: 'provider_balance',
+          amount,
+          description: `Escrow partially refunded to the payer: ${reason}`,
+          toUserId: payment.payer_id,
+        },
+      ],
+      refundedBy,
+    );
+  }
+
+  /**
+   * Ops sent a finder reward or carrier fee
+   */
+  async postPayout(
+    payment: Pick<LedgerPayment, 'id' | 'device_id'>,
+    payout: {
+      transferId: string;
+      kind: 'reward' | 'cargo_fee';
+      amount: number | string;
+      recipientUserId: string | null;
+      reference: string;
+    },
+    paidBy: string,
+  ): Promise<void> {
+    const isReward = payout.kind === 'reward';
+    await this.post(
+      payment,
+      [
+        {
+          type: isReward ? 'payout_reward' : 'payout_cargo_fee',
+          debit: isReward ? 'finder_payable' : 'carrier_payable',
+          credit: 'provider_balance',
+          amount: Money.fromMajor(payout.amount),
+          description: `Payout sent (${payout.reference})`,
+          toUserId: payout.recipientUserId,
+          reference: payout.transferId,
+        },
+      ],
+      paidBy,
+    );
+  }
+
+  /**
+   * Chargeback lost: the provider debited the full amount back to the card
+   * holder. From a still-held escrow that is a refund; after release the
+   * money was already split, so it is a loss.
+   */
+  async postChargebackLost(
+    payment: LedgerPayment,
+    escrowHeld: boolean,
+    chargebackId: string,
+    resolvedBy: string,
+  ): Promise<void> {
+    await this.post(
+      payment,
+      [
+        {
+          type: 'chargeback',
+          debit: escrowHeld ? 'escrow_held' : 'chargeback_losses',
+          credit: 'provider_balance',
+          amount: Money.fromMajor(payment.total_amount),
+          description: `Chargeback lost (${chargebackId})`,
+          toUserId: payment.payer_id,
+          reference: chargebackId,
+        },
+      ],
+      resolvedBy,
+    );
+  }
+
+  /**
+   * A finder reward cancelled after a lost chargeback is no longer owed
+   */
+  async postRewardReversed(
+    payment: Pick<LedgerPayment, 'id' | 'device_id'>,
+    reversal: { transferId: string; amount: number | string },
+    reversedBy: string,
+  ): Promise<void> {
+    await this.post(
+      payment,
+      [
+        {
+          type: 'chargeback_reward_reversal',
+          debit: 'finder_payable',
+          credit: 'chargeback_losses',
+          amount: Money.fromMajor(reversal.amount),
+          description: 'Finder reward cancelled after a lost chargeback',
+          reference: reversal.transferId,
+        },
+      ],
+      reversedBy,
+    );
+  }
+
+  async getPaymentEntries(paymentId: string): Promise<LedgerEntryDto[]> {
+    const { data, error } = await this.supabase
+      .from('financial_transactions')
+      .select(
+        'id, transaction_type, debit_account, credit_account, amount, description, created_at',
+      )
+      .eq('payment_id', paymentId)
+      .not('debit_account', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      this.logger.error(`Failed to load ledger entries for ${paymentId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to load ledger entries');
+    }
+
+    return (data || []).map((row) => ({
+      id: row.id,
+      transactionType: row.transaction_type,
+      debitAccount: row.debit_account,
+      creditAccount: row.credit_account,
+      amount: Number(row.amount),
+      description: row.description ?? undefined,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Debit and credit totals per account. Every entry debits and credits the
+   * same amount, so the net of all accounts must be exactly zero.
+   */
+  async getTrialBalance(asOf?: string): Promise<TrialBalanceDto> {
+    const debits = new Map<string, Money>();
+    const credits = new Map<string, Money>();
+    let entryCount = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = this.supabase
+        .from('financial_transactions')
+        .select('debit_account, credit_account, amount')
+        .not('debit_account', 'is', null)
+        .not('credit_account', 'is', null)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (asOf) {
+        query = query.lte('created_at', asOf);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        this.logger.error(`Failed to load ledger entries: ${error.message}`, error);
+        throw new BadRequestException('Failed to load ledger entries');
+      }
+
+      for (const row of data || []) {
+        const amount = Money.fromMajor(row.amount);
+        debits.set(row.debit_account, (debits.get(row.debit_account) ?? Money.ZERO).add(amount));
+        credits.set(
+          row.credit_account,
+          (credits.get(row.credit_account) ?? Money.ZERO).add(amount),
+        );
+      }
+      entryCount += data?.length ?? 0;
+
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    // Known accounts first, then anything unexpected so it shows up
+    const accounts = [
+      ...LEDGER_ACCOUNTS,
+      ...[...new Set([...debits.keys(), ...credits.keys()])].filter(
+        (account) => !(LEDGER_ACCOUNTS as readonly string[]).includes(account),
+      ),
+    ];
+
+    let totalDebit = Money.ZERO;
+    let totalCredit = Money.ZERO;
+    const rows = accounts.map((account) => {
+      const debit = debits.get(account) ?? Money.ZERO;
+      const credit = credits.get(account) ?? Money.ZERO;
+      totalDebit = totalDebit.add(debit);
+      totalCredit = totalCredit.add(credit);
+      return {
+        account,
+        accountType: LEDGER_ACCOUNT_TYPES[account as LedgerAccount] ?? 'unknown',
+        debit: debit.toMajor(),
+        credit: credit.toMajor(),
+        balance: debit.subtract(credit).toMajor(),
+      };
+    });
+
+    const netBalance = totalDebit.subtract(totalCredit);
+    if (!netBalance.equals(Money.ZERO)) {
+      this.logger.error(`Trial balance is off by ${netBalance}`);
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      asOf,
+      entryCount,
+      accounts: rows,
+      totalDebit: totalDebit.toMajor(),
+      totalCredit: totalCredit.toMajor(),
+      netBalance: netBalance.toMajor(),
+      balanced: netBalance.equals(Money.ZERO),
+    };
+  }
+
+  private async post(
+    payment: Pick<LedgerPayment, 'id' | 'device_id'>,
+    entries: LedgerEntry[],
+    createdBy?: string,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const rows = entries
+      .filter((entry) => entry.amount.minor !== 0)
+      // A negative amount is the same movement in the other direction
+      .map((entry) =>
+        entry.amount.isNegative()
+          ? {
+              ...entry,
+              debit: entry.credit,
+              credit: entry.debit,
+              amount: Money.ZERO.subtract(entry.amount),
+            }
+          : entry,
+      )
+      .map((entry) => ({
+        entry_key: [payment.id, entry.type, entry.reference].filter(Boolean).join(':'),
+        payment_id: payment.id,
+        device_id: payment.device_id,
+        from_user_id: entry.fromUserId ?? null,
+        to_user_id: entry.toUserId ?? null,
+        transaction_type: entry.type,
+        debit_account: entry.debit,
+        credit_account: entry.credit,
+        amount: entry.amount.toMajor(),
+        currency: 'TRY',
+        status: 'completed',
+        description: entry.description,
+        external_reference: entry.reference ?? null,
+        created_by: createdBy ?? null,
+        processed_at: now,
+        completed_at: now,
+      }));
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    // One request = one statement, so a step's entries post all or nothing
+    const { error } = await this.supabase
+      .from('financial_transactions')
+      .upsert(rows, { onConflict: 'entry_key', ignoreDuplicates: true });
+
+    if (error) {
+      this.logger.error(
+        `Failed to post ledger entries ${rows.map((row) => row.entry_key).join(', ')}: ${error.message}`,
+        error,
+      );
+      return;
+    }
+
+    this.logger.log(
+      `Ledger entries posted for payment ${payment.id}: ${entries.map((e) => e.type).join(', ')}`,
+    );
+  }
+}
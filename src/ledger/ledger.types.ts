@@ -0,0 +1,71 @@
+/**
+ * Chart of accounts for financial_transactions.debit_account/credit_account.
+ *
+ * provider_balance  - asset: money sitting at the payment provider
+ * payer_clearing    - liability: captured from the payer, not yet in escrow
+ * escrow_held       - liability: held in escrow until release or refund
+ * gateway_fees      - expense: provider commission; the payer's share is
+ *                     credited back on release
+ * finder_payable    - liability: reward owed to the finder
+ * carrier_payable   - liability: cargo fee owed to the carrier
+ * service_revenue   - revenue: platform service fee
+ * chargeback_losses - expense: money the card holder's bank took back after
+ *                     escrow was released, less rewards that were not sent
+ */
+export const LEDGER_ACCOUNTS = [
+  'provider_balance',
+  'payer_clearing',
+  'escrow_held',
+  'gateway_fees',
+  'finder_payable',
+  'carrier_payable',
+  'service_revenue',
+  'chargeback_losses',
+] as const;
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number];
+
+export const LEDGER_ACCOUNT_TYPES: Record<
+  LedgerAccount,
+  'asset' | 'liability' | 'expense' | 'revenue'
+> = {
+  provider_balance: 'asset',
+  payer_clearing: 'liability',
+  escrow_held: 'liability',
+  gateway_fees: 'expense',
+  finder_payable: 'liability',
+  carrier_payable: 'liability',
+  service_revenue: 'revenue',
+  chargeback_losses: 'expense',
+};
+
+export const LEDGER_TRANSACTION_TYPES = [
+  'payment_capture',
+  'escrow_hold',
+  'gateway_fee',
+  'release_reward',
+  'release_cargo_fee',
+  'release_service_fee',
+  'release_gateway_fee',
+  'escrow_refund',
+  'partial_refund',
+  'payout_reward',
+  'payout_cargo_fee',
+  'chargeback',
+  'chargeback_reward_reversal',
+] as const;
+export type LedgerTransactionType = (typeof LEDGER_TRANSACTION_TYPES)[number];
+
+/**
+ * Payment fields the ledger posts from (a payments row)
+ */
+export interface LedgerPayment {
+  id: string;
+  device_id: string;
+  payer_id: string;
+  receiver_id: string | null;
+  total_amount: number | string;
+  reward_amount: number | string;
+  cargo_fee: number | string;
+  service_fee: number | string;
+  payment_gateway_fee: number | string;
+}
@@ -6,7 +6,8 @@ import helmet from 'helmet';
 import { AppModule } from './app.module';
 
 async function bootstrap(): Promise<void> {
-  const app = await NestFactory.create(AppModule, { cors: true });
+  // rawBody: webhook signatures are computed over the body exactly as sent
+  const app = await NestFactory.create(AppModule, { cors: true, rawBody: true });
   const logger = new Logger('Bootstrap');
 
   app.use(helmet());
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { OUTBOX_STATUSES, OUTBOX_TOPICS, OutboxStatus, OutboxTopic } from '../outbox.types';
+
+export class ListOutboxMessagesQueryDto {
+  @ApiProperty({
+    description:
+      'Only messages with this status. Default: stuck messages (dead, or pending after a failed attempt)',
+    enum: OUTBOX_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(OUTBOX_STATUSES)
+  status?: OutboxStatus;
+
+  @ApiProperty({ description: 'Only messages of this topic', enum: OUTBOX_TOPICS, required: false })
+  @IsOptional()
+  @IsIn(OUTBOX_TOPICS)
+  topic?: OutboxTopic;
+}
+
+export class OutboxMessageDto {
+  @ApiProperty({ description: 'Message ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Where the message is delivered', enum: OUTBOX_TOPICS })
+  topic: OutboxTopic;
+
+  @ApiProperty({ description: 'Row inserted on delivery (notifications or audit_logs)' })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Payment or device the message belongs to', required: false })
+  aggregateId?: string;
+
+  @ApiProperty({ description: 'Delivery status', enum: OUTBOX_STATUSES })
+  status: OutboxStatus;
+
+  @ApiProperty({ description: 'Failed delivery attempts so far' })
+  attempts: number;
+
+  @ApiProperty({ description: 'Next delivery attempt (ISO 8601)' })
+  nextAttemptAt: string;
+
+  @ApiProperty({ description: 'Error of the last failed attempt', required: false })
+  lastError?: string;
+
+  @ApiProperty({ description: 'Created at (ISO 8601)' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Delivered at (ISO 8601)', required: false })
+  deliveredAt?: string;
+
+  @ApiProperty({ description: 'Dead-lettered at (ISO 8601)', required: false })
+  deadAt?: string;
+}
@@ -0,0 +1,197 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppConfiguration, OutboxConfig } from '../config/configuration';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OutboxMessageRecord, OutboxTopic } from './outbox.types';
+
+const BATCH_SIZE = 50;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A message still 'processing' after this long belongs to a crashed run
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+// Table each topic's payload is inserted into
+const TOPIC_TABLES: Record<OutboxTopic, string> = {
+  notification: 'notifications',
+  audit_log: 'audit_logs',
+};
+
+/**
+ * Delivers outbox_messages: claims due pending messages one by one,
+ * inserts the payload into the topic's table and marks them delivered.
+ * A failed delivery is retried with exponential backoff (30s doubling up
+ * to 1h); after OUTBOX_MAX_ATTEMPTS the message is dead-lettered and an
+ * admin alert is raised. Delivery is at-least-once: a crash between the
+ * insert and the 'delivered' update delivers the message again.
+ */
+@Injectable()
+export class OutboxDispatcherService {
+  private readonly logger = new Logger(OutboxDispatcherService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly config: OutboxConfig;
+  private running = false;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+    this.config = this.configService.get<OutboxConfig>('outbox', { infer: true });
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async dispatchDueMessages(): Promise<void> {
+    // The previous run is still delivering a large batch
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const { data: messages, error } = await this.supabase
+        .from('outbox_messages')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('next_attempt_at', new Date().toISOString())
+        .order('next_attempt_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (error) {
+        this.logger.error(`Failed to fetch due outbox messages: ${error.message}`, error);
+        return;
+      }
+
+      for (const message of (messages || []) as OutboxMessageRecord[]) {
+        await this.dispatch(message);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async dispatch(message: OutboxMessageRecord): Promise<void> {
+    // Claim it, so a second instance doesn't deliver it as well
+    const { data: claimed } = await this.supabase
+      .from('outbox_messages')
+      .update({ status: 'processing', locked_at: new Date().toISOString() })
+      .eq('id', message.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      return;
+    }
+
+    const table = TOPIC_TABLES[message.topic];
+    const { error } = table
+      ? await this.supabase.from(table).insert(this.toRow(message))
+      : { error: { message: `Unknown outbox topic: ${message.topic}` } };
+
+    if (!error) {
+      await this.supabase
+        .from('outbox_messages')
+        .update({
+          status: 'delivered',
+          delivered_at: new Date().toISOString(),
+          locked_at: null,
+          last_error: null,
+        })
+        .eq('id', message.id);
+      return;
+    }
+
+    await this.recordFailure(message, error.message);
+  }
+
+  private async recordFailure(message: OutboxMessageRecord, errorMessage: string): Promise<void> {
+    const attempts = message.attempts + 1;
+    const dead = attempts >= this.config.maxAttempts;
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    const now = new Date();
+
+    const { error } = await this.supabase
+      .from('outbox_messages')
+      .update({
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        last_error: errorMessage,
+        locked_at: null,
+        next_attempt_at: new Date(now.getTime() + delay).toISOString(),
+        dead_at: dead ? now.toISOString() : null,
+      })
+      .eq('id', message.id);
+
+    if (error) {
+      this.logger.error(
+        `Failed to record delivery failure of outbox message ${message.id}: ${error.message}`,
+      );
+    }
+
+    if (!dead) {
+      this.logger.warn(
+        `Outbox message ${message.id} (${message.topic}) failed attempt ${attempts}, retrying in ${delay / 1000}s: ${errorMessage}`,
+      );
+      return;
+    }
+
+    this.logger.error(
+      `Outbox message ${message.id} (${message.topic}) dead-lettered after ${attempts} attempts: ${errorMessage}`,
+    );
+    await this.alertDeadLetter(message, attempts, errorMessage);
+  }
+
+  /**
+   * Critical audit log entry - the admin alert channel. Written directly:
+   * if audit_logs itself is what fails, the error log is all that's left.
+   */
+  private async alertDeadLetter(
+    message: OutboxMessageRecord,
+    attempts: number,
+    errorMessage: string,
+  ): Promise<void> {
+    const { error } = await this.supabase.from('audit_logs').insert({
+      event_type: 'outbox_message_dead',
+      event_category: 'system',
+      event_action: 'alert',
+      event_severity: 'critical',
+      resource_type: 'outbox_message',
+      resource_id: message.id,
+      event_description: `Outbox ${message.topic} could not be delivered after ${attempts} attempts; retry it from the outbox admin view: ${errorMessage}`,
+      event_data: {
+        outbox_message_id: message.id,
+        topic: message.topic,
+        aggregate_id: message.aggregate_id,
+      },
+    });
+
+    if (error) {
+      this.logger.error(
+        `Failed to alert about dead outbox message ${message.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async releaseStaleLocks(): Promise<void> {
+    const { error } = await this.supabase
+      .from('outbox_messages')
+      .update({ status: 'pending', locked_at: null })
+      .eq('status', 'processing')
+      .lt('locked_at', new Date(Date.now() - STALE_LOCK_MS).toISOString());
+
+    if (error) {
+      this.logger.error(`Failed to release stale outbox locks: ${error.message}`);
+    }
+  }
+
+  private toRow(message: OutboxMessageRecord): Record<string, unknown> {
+    if (message.topic === 'notification') {
+      return { ...message.payload, is_read: false };
+    }
+    return message.payload;
+  }
+}
@@ -0,0 +1,39 @@
+import { Controller, Get, Param, ParseUUIDPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { ListOutboxMessagesQueryDto, OutboxMessageDto } from './dto/outbox-message.dto';
+import { OutboxService } from './outbox.service';
+
+@ApiTags('outbox')
+@Controller('outbox')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class OutboxController {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @ApiOperation({
+    summary: 'List outbox messages (Admin only)',
+    description:
+      'Without a status filter: stuck messages - dead-lettered, or pending after a failed delivery attempt. Newest first, at most 200.',
+  })
+  @ApiResponse({ status: 200, description: 'Outbox messages', type: [OutboxMessageDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('messages')
+  async list(@Query() query: ListOutboxMessagesQueryDto): Promise<OutboxMessageDto[]> {
+    return this.outboxService.list(query);
+  }
+
+  @ApiOperation({
+    summary: 'Retry a dead-lettered outbox message (Admin only)',
+    description: 'Re-queues the message for immediate delivery with a fresh attempt budget.',
+  })
+  @ApiParam({ name: 'id', description: 'Outbox message ID' })
+  @ApiResponse({ status: 201, description: 'Re-queued message', type: OutboxMessageDto })
+  @ApiResponse({ status: 400, description: 'Message is not dead-lettered' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Message not found' })
+  @Post('messages/:id/retry')
+  async retry(@Param('id', ParseUUIDPipe) id: string): Promise<OutboxMessageDto> {
+    return this.outboxService.retry(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+import { OutboxController } from './outbox.controller';
+import { OutboxService } from './outbox.service';
+
+@Module({
+  imports: [SupabaseModule, ScheduleModule.forRoot()],
+  controllers: [OutboxController],
+  providers: [OutboxService, OutboxDispatcherService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
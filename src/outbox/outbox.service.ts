@@ -0,0 +1,137 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ListOutboxMessagesQueryDto, OutboxMessageDto } from './dto/outbox-message.dto';
+import { OutboxMessage, OutboxMessageRecord } from './outbox.types';
+
+/**
+ * Side effects of payment and cargo flows (notifications, audit log
+ * entries) recorded in outbox_messages instead of written directly, so a
+ * failed insert is retried by OutboxDispatcherService instead of lost.
+ *
+ * Flows that change state through a transition function pass their
+ * messages as p_outbox (toRpcParam) and they commit in the same
+ * transaction; other flows enqueue() right after their own update.
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  /**
+   * outbox_messages rows, as enqueue_outbox_messages() expects them
+   */
+  static toRpcParam(messages: OutboxMessage[]): Record<string, unknown>[] {
+    return messages.map((message) => ({
+      topic: message.topic,
+      payload: message.payload,
+      aggregate_id: message.aggregateId ?? null,
+    }));
+  }
+
+  async enqueue(messages: OutboxMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('outbox_messages')
+      .insert(OutboxService.toRpcParam(messages));
+
+    if (error) {
+      // Nothing left to fall back to; keep the content in the logs for ops
+      this.logger.error(
+        `Failed to enqueue ${messages.length} outbox messages: ${error.message} - ${JSON.stringify(messages)}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Without a status: messages that need attention (dead, or pending after
+   * a failed attempt)
+   */
+  async list(query: ListOutboxMessagesQueryDto): Promise<OutboxMessageDto[]> {
+    let request = this.supabase
+      .from('outbox_messages')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (query.status) {
+      request = request.eq('status', query.status);
+    } else {
+      request = request.or('status.eq.dead,and(status.eq.pending,attempts.gt.0)');
+    }
+    if (query.topic) {
+      request = request.eq('topic', query.topic);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      this.logger.error(`Failed to list outbox messages: ${error.message}`, error);
+      throw new BadRequestException('Failed to list outbox messages');
+    }
+
+    return ((data || []) as OutboxMessageRecord[]).map((record) => this.toDto(record));
+  }
+
+  /**
+   * Puts a dead message back in the queue with a fresh attempt budget
+   */
+  async retry(messageId: string): Promise<OutboxMessageDto> {
+    const { data, error } = await this.supabase
+      .from('outbox_messages')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        dead_at: null,
+      })
+      .eq('id', messageId)
+      .eq('status', 'dead')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to retry outbox message ${messageId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to retry outbox message');
+    }
+    if (!data) {
+      const { data: existing } = await this.supabase
+        .from('outbox_messages')
+        .select('status')
+        .eq('id', messageId)
+        .maybeSingle();
+      if (!existing) {
+        throw new NotFoundException(`Outbox message not found: ${messageId}`);
+      }
+      throw new BadRequestException(
+        `Only dead messages can be retried, this one is ${existing.status}`,
+      );
+    }
+
+    this.logger.log(`Outbox message ${messageId} re-queued`);
+    return this.toDto(data as OutboxMessageRecord);
+  }
+
+  private toDto(record: OutboxMessageRecord): OutboxMessageDto {
+    return {
+      id: record.id,
+      topic: record.topic,
+      payload: record.payload,
+      aggregateId: record.aggregate_id ?? undefined,
+      status: record.status,
+      attempts: record.attempts,
+      nextAttemptAt: record.next_attempt_at,
+      lastError: record.last_error ?? undefined,
+      createdAt: record.created_at,
+      deliveredAt: record.delivered_at ?? undefined,
+      deadAt: record.dead_at ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+// What the dispatcher does with a message: insert it into notifications or audit_logs
+export const OUTBOX_TOPICS = ['notification', 'audit_log'] as const;
+export type OutboxTopic = (typeof OUTBOX_TOPICS)[number];
+
+// processing = claimed by a dispatcher run; dead = gave up after
+// OUTBOX_MAX_ATTEMPTS, waits for an admin to retry it
+export const OUTBOX_STATUSES = ['pending', 'processing', 'delivered', 'dead'] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+/**
+ * notifications row
+ */
+export interface NotificationPayload {
+  user_id: string;
+  message_key: string;
+  type: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * audit_logs row
+ */
+export interface AuditLogPayload {
+  event_type: string;
+  event_category: string;
+  event_action: string;
+  event_severity: 'info' | 'warning' | 'critical';
+  user_id?: string | null;
+  resource_type: string;
+  resource_id: string;
+  event_description: string;
+  event_data?: Record<string, unknown>;
+}
+
+export type OutboxMessage =
+  | { topic: 'notification'; payload: NotificationPayload; aggregateId?: string }
+  | { topic: 'audit_log'; payload: AuditLogPayload; aggregateId?: string };
+
+export interface OutboxMessageRecord {
+  id: string;
+  topic: OutboxTopic;
+  payload: Record<string, unknown>;
+  aggregate_id: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+  dead_at: string | null;
+}
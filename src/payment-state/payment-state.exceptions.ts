@@ -0,0 +1,29 @@
+import { ConflictException } from '@nestjs/common';
+import { PaymentStateMachineName } from './payment-state.types';
+
+/**
+ * The requested status move is not in the transition table, e.g. releasing
+ * a refunded escrow
+ */
+export class IllegalPaymentTransitionException extends ConflictException {
+  constructor(
+    readonly paymentId: string,
+    readonly machine: PaymentStateMachineName,
+    readonly from: string | null,
+    readonly to: string,
+  ) {
+    super(
+      `Illegal ${machine} status transition for payment ${paymentId}: ${from ?? 'none'} -> ${to}`,
+    );
+  }
+}
+
+/**
+ * The payment's status changed between reading and updating it; the other
+ * writer won and the transition was not applied
+ */
+export class StalePaymentStateException extends ConflictException {
+  constructor(readonly paymentId: string) {
+    super(`Payment ${paymentId} was updated concurrently, reload and retry`);
+  }
+}
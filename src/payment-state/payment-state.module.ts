@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { PaymentStateService } from './payment-state.service';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [PaymentStateService],
+  exports: [PaymentStateService],
+})
+export class PaymentStateModule {}
@@ -0,0 +1,291 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Observable, Subject } from 'rxjs';
+import { OutboxService } from '../outbox/outbox.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  IllegalPaymentTransitionException,
+  StalePaymentStateException,
+} from './payment-state.exceptions';
+import {
+  AtomicPaymentTransitionOptions,
+  ESCROW_TRANSITIONS,
+  EscrowStatus,
+  PAYMENT_TRANSITIONS,
+  PaymentState,
+  PaymentStateTarget,
+  PaymentStatus,
+  PaymentTransitionEvent,
+  PaymentTransitionOptions,
+  PaymentTransitionResult,
+} from './payment-state.types';
+
+// Raised by the transition functions when the row no longer has the
+// expected statuses
+const STALE_STATE_ERROR_CODE = 'PT409';
+
+/**
+ * Payment and escrow state machine (payments.payment_status and
+ * payments.escrow_status).
+ *
+ * Every status change goes through transition(): the move is checked
+ * against PAYMENT_TRANSITIONS / ESCROW_TRANSITIONS, and the update only
+ * applies while the row still has the statuses it was read with, so two
+ * writers racing on one payment (webhook vs 3D completion, release vs
+ * chargeback freeze) cannot both win. A payment already in the target
+ * state is a no-op, which keeps webhook retries harmless.
+ * syncEscrowAccount() moves escrow_accounts.status along. Committed
+ * transitions are published on transitions$.
+ *
+ * Completion, release and refund touch several tables at once; they go
+ * through transitionAtomically(), which runs a database function
+ * (docs/sql_migrations/create_payment_transition_functions.sql, with
+ * p_outbox from add_outbox_to_payment_transition_functions.sql) that
+ * applies the whole transition in one transaction.
+ */
+@Injectable()
+export class PaymentStateService {
+  private readonly logger = new Logger(PaymentStateService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly transitions = new Subject<PaymentTransitionEvent>();
+
+  readonly transitions$: Observable<PaymentTransitionEvent> = this.transitions.asObservable();
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  static canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+    return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  static canTransitionEscrow(from: EscrowStatus | null, to: EscrowStatus): boolean {
+    return ESCROW_TRANSITIONS[from ?? 'pending']?.includes(to) ?? false;
+  }
+
+  /**
+   * Throws IllegalPaymentTransitionException unless every status in target
+   * is either unchanged or an allowed move from the current state
+   */
+  static assertTransition(
+    paymentId: string,
+    current: PaymentState,
+    target: PaymentStateTarget,
+  ): void {
+    const { paymentStatus, escrowStatus } = target;
+    if (
+      paymentStatus &&
+      paymentStatus !== current.paymentStatus &&
+      !PaymentStateService.canTransitionPayment(current.paymentStatus, paymentStatus)
+    ) {
+      throw new IllegalPaymentTransitionException(
+        paymentId,
+        'payment',
+        current.paymentStatus,
+        paymentStatus,
+      );
+    }
+    if (
+      escrowStatus &&
+      escrowStatus !== current.escrowStatus &&
+      !PaymentStateService.canTransitionEscrow(current.escrowStatus, escrowStatus)
+    ) {
+      throw new IllegalPaymentTransitionException(
+        paymentId,
+        'escrow',
+        current.escrowStatus,
+        escrowStatus,
+      );
+    }
+  }
+
+  async getState(paymentId: string): Promise<PaymentState> {
+    const { data, error } = await this.supabase
+      .from('payments')
+      .select('payment_status, escrow_status')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to read state of payment ${paymentId}: ${error.message}`, error);
+      throw new InternalServerErrorException('Failed to read payment status');
+    }
+    if (!data) {
+      throw new NotFoundException(`Payment not found: ${paymentId}`);
+    }
+
+    return {
+      paymentStatus: data.payment_status as PaymentStatus,
+      escrowStatus: (data.escrow_status as EscrowStatus | null) ?? null,
+    };
+  }
+
+  /**
+   * Moves the payment to target, writing options.fields in the same
+   * update. Throws IllegalPaymentTransitionException for a move the
+   * tables do not allow and StalePaymentStateException when another
+   * writer changed the statuses first.
+   */
+  async transition(
+    paymentId: string,
+    target: PaymentStateTarget,
+    options: PaymentTransitionOptions = {},
+  ): Promise<PaymentTransitionResult> {
+    const { from, to, changed } = await this.plan(paymentId, target);
+    if (!changed) {
+      return { changed, from, to };
+    }
+
+    const now = new Date().toISOString();
+    let update = this.supabase
+      .from('payments')
+      .update({
+        ...options.fields,
+        payment_status: to.paymentStatus,
+        escrow_status: to.escrowStatus,
+        updated_at: now,
+      })
+      .eq('id', paymentId)
+      .eq('payment_status', from.paymentStatus);
+    update =
+      from.escrowStatus === null
+        ? update.is('escrow_status', null)
+        : update.eq('escrow_status', from.escrowStatus);
+
+    const { data, error } = await update.select('id').maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to update status of payment ${paymentId}: ${error.message}`, error);
+      throw new InternalServerErrorException('Failed to update payment status');
+    }
+    if (!data) {
+      throw new StalePaymentStateException(paymentId);
+    }
+
+    this.publish(paymentId, from, to, options, now);
+    return { changed: true, from, to };
+  }
+
+  /**
+   * Same checks as transition(), but the change is applied by the database
+   * function `fn` in one transaction. The function receives params plus
+   * p_payment_id and the validated statuses as p_expected_payment_status /
+   * p_expected_escrow_status, moves the payment to target itself and
+   * raises PT409 if the statuses changed in the meantime. options.outbox
+   * is passed as p_outbox and written to outbox_messages in the same
+   * transaction.
+   */
+  async transitionAtomically(
+    paymentId: string,
+    target: PaymentStateTarget,
+    fn: string,
+    params: Record<string, unknown>,
+    options: AtomicPaymentTransitionOptions = {},
+  ): Promise<PaymentTransitionResult> {
+    const { from, to, changed } = await this.plan(paymentId, target);
+    if (!changed) {
+      return { changed, from, to };
+    }
+
+    const { error } = await this.supabase.rpc(fn, {
+      ...params,
+      p_payment_id: paymentId,
+      p_expected_payment_status: from.paymentStatus,
+      p_expected_escrow_status: from.escrowStatus,
+      p_outbox: OutboxService.toRpcParam(options.outbox ?? []),
+    });
+
+    if (error) {
+      if (error.code === STALE_STATE_ERROR_CODE) {
+        throw new StalePaymentStateException(paymentId);
+      }
+      this.logger.error(`${fn} failed for payment ${paymentId}: ${error.message}`, error);
+      throw new InternalServerErrorException(`Failed to apply ${fn} for payment ${paymentId}`);
+    }
+
+    this.publish(paymentId, from, to, options, new Date().toISOString());
+    return { changed: true, from, to };
+  }
+
+  private async plan(
+    paymentId: string,
+    target: PaymentStateTarget,
+  ): Promise<PaymentTransitionResult> {
+    const from = await this.getState(paymentId);
+    const to: PaymentState = {
+      paymentStatus: target.paymentStatus ?? from.paymentStatus,
+      escrowStatus: target.escrowStatus ?? from.escrowStatus,
+    };
+
+    if (to.paymentStatus === from.paymentStatus && to.escrowStatus === from.escrowStatus) {
+      this.logger.debug(
+        `Payment ${paymentId} already ${to.paymentStatus}/${to.escrowStatus ?? 'none'}`,
+      );
+      return { changed: false, from, to };
+    }
+
+    PaymentStateService.assertTransition(paymentId, from, target);
+    return { changed: true, from, to };
+  }
+
+  private publish(
+    paymentId: string,
+    from: PaymentState,
+    to: PaymentState,
+    options: Pick<PaymentTransitionOptions, 'actor' | 'reason'>,
+    at: string,
+  ): void {
+    const event: PaymentTransitionEvent = {
+      paymentId,
+      from,
+      to,
+      actor: options.actor ?? 'system',
+      reason: options.reason ?? null,
+      at,
+    };
+    this.logger.log(
+      `Payment ${paymentId}: ${from.paymentStatus}/${from.escrowStatus ?? 'none'} -> ${to.paymentStatus}/${to.escrowStatus ?? 'none'} by ${event.actor}`,
+    );
+    this.transitions.next(event);
+  }
+
+  /**
+   * Updates escrow_accounts after the payment's escrow status moved from
+   * `from` to `to`, again only while the account still has `from`. The
+   * payment row is the source of truth and is already committed, so this
+   * only logs and returns false when the account could not be updated.
+   */
+  async syncEscrowAccount(
+    paymentId: string,
+    from: EscrowStatus | null,
+    to: EscrowStatus,
+    fields: Record<string, unknown> = {},
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('escrow_accounts')
+      .update({ ...fields, status: to, updated_at: new Date().toISOString() })
+      .eq('payment_id', paymentId)
+      .eq('status', from ?? 'pending')
+      .select('id');
+
+    if (error) {
+      this.logger.error(
+        `Failed to update escrow account of payment ${paymentId} to ${to}: ${error.message}`,
+        error,
+      );
+      return false;
+    }
+    if (!data || data.length === 0) {
+      this.logger.warn(
+        `No escrow account of payment ${paymentId} in status ${from ?? 'pending'} to move to ${to}`,
+      );
+      return false;
+    }
+    return true;
+  }
+}
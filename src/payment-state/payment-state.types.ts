@@ -0,0 +1,92 @@
+import { OutboxMessage } from '../outbox/outbox.types';
+
+// payments.payment_status
+export const PAYMENT_STATUSES = [
+  'pending',
+  'completed',
+  'failed',
+  'cancelled',
+  'charged_back',
+] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+// payments.escrow_status, mirrored by escrow_accounts.status
+export const ESCROW_STATUSES = [
+  'pending',
+  'held',
+  'released',
+  'refunded',
+  'frozen',
+  'charged_back',
+] as const;
+export type EscrowStatus = (typeof ESCROW_STATUSES)[number];
+
+/**
+ * Allowed payment status moves. A failed payment may still complete: the
+ * provider can confirm a charge after we timed the payment out.
+ */
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  pending: ['completed', 'failed'],
+  failed: ['completed'],
+  completed: ['cancelled', 'charged_back'],
+  cancelled: ['charged_back'],
+  charged_back: [],
+};
+
+/**
+ * Allowed escrow status moves. frozen = held while a chargeback is open;
+ * released and refunded are final unless the bank takes the money back.
+ */
+export const ESCROW_TRANSITIONS: Record<EscrowStatus, readonly EscrowStatus[]> = {
+  pending: ['held'],
+  held: ['released', 'refunded', 'frozen'],
+  frozen: ['held', 'charged_back'],
+  released: ['charged_back'],
+  refunded: [],
+  charged_back: [],
+};
+
+export type PaymentStateMachineName = 'payment' | 'escrow';
+
+export interface PaymentState {
+  paymentStatus: PaymentStatus;
+  escrowStatus: EscrowStatus | null;
+}
+
+export interface PaymentStateTarget {
+  paymentStatus?: PaymentStatus;
+  escrowStatus?: EscrowStatus;
+}
+
+export interface PaymentTransitionOptions {
+  // Other payments columns written in the same update (timestamps, provider data)
+  fields?: Record<string, unknown>;
+  // User id, 'system' or 'webhook'
+  actor?: string;
+  reason?: string;
+}
+
+export interface AtomicPaymentTransitionOptions
+  extends Pick<PaymentTransitionOptions, 'actor' | 'reason'> {
+  // Notifications / audit entries committed with the transition (p_outbox)
+  outbox?: OutboxMessage[];
+}
+
+/**
+ * Emitted after a transition was committed
+ */
+export interface PaymentTransitionEvent {
+  paymentId: string;
+  from: PaymentState;
+  to: PaymentState;
+  actor: string;
+  reason: string | null;
+  at: string;
+}
+
+export interface PaymentTransitionResult {
+  // false when the payment was already in the target state
+  changed: boolean;
+  from: PaymentState;
+  to: PaymentState;
+}
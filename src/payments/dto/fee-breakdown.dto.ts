@@ -1,9 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNumber, IsNotEmpty } from 'class-validator';
+import { IsNumber, IsNotEmpty, IsOptional, IsString, IsInt } from 'class-validator';
 
 export class FeeBreakdownDto {
   @ApiProperty({
-    description: 'Reward amount for finder (20% of total)',
+    description: 'Reward amount for finder (fee schedule reward rate of total, within its min/max)',
     example: 400.0,
   })
   @IsNotEmpty()
@@ -11,7 +11,7 @@ export class FeeBreakdownDto {
   rewardAmount: number;
 
   @ApiProperty({
-    description: 'Cargo fee (fixed 250.00 TL)',
+    description: 'Cargo fee (cargo company base fee from the fee schedule)',
     example: 250.0,
   })
   @IsNotEmpty()
@@ -27,7 +27,8 @@ export class FeeBreakdownDto {
   serviceFee: number;
 
   @ApiProperty({
-    description: 'Gateway commission fee (3.43% of total)',
+    description:
+      'Gateway commission fee (3.43% of total for a single charge, the installment rate otherwise)',
     example: 68.6,
   })
   @IsNotEmpty()
@@ -49,5 +50,21 @@ export class FeeBreakdownDto {
   @IsNotEmpty()
   @IsNumber()
   netPayout: number;
-}
 
+  @ApiProperty({
+    description: 'Fee schedule that priced the breakdown',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  feeScheduleId?: string;
+
+  @ApiProperty({
+    description: 'Version of the fee schedule',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  feeScheduleVersion?: number;
+}
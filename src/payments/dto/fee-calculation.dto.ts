@@ -5,6 +5,8 @@ export interface FeeCalculationResult {
   rewardAmount: number;
   serviceFee: number;
   netPayout: number;
+  feeScheduleId: string;
+  feeScheduleVersion: number;
 }
 
 export class FeeCalculationDto {
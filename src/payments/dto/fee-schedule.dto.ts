@@ -0,0 +1,142 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Body for creating a new fee schedule version. Schedules are immutable;
+ * changing a policy means creating the next version for the same scope.
+ * Set at most one of deviceModelName / deviceCategory; neither means the
+ * default schedule for every device.
+ */
+export class CreateFeeScheduleDto {
+  @ApiProperty({
+    description: 'Device model scope (device_models.model_name)',
+    example: 'iPhone 15 Pro',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  deviceModelName?: string;
+
+  @ApiProperty({
+    description: 'Device category scope (device_models.category)',
+    example: 'iPhone',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  deviceCategory?: string;
+
+  @ApiProperty({
+    description:
+      'Finder reward as a fraction of the total. Omit to use the device model fee_percentage',
+    example: 0.2,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  rewardRate?: number;
+
+  @ApiProperty({ description: 'Minimum reward (TRY)', example: 200, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minReward?: number;
+
+  @ApiProperty({ description: 'Maximum reward (TRY)', example: 5000, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxReward?: number;
+
+  @ApiProperty({
+    description:
+      'Cargo company code whose base_fee is charged as the cargo fee. Omit to use the highest active base_fee',
+    example: 'ARAS',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  cargoCompanyCode?: string;
+
+  @ApiProperty({
+    description: 'When the version takes effect (ISO 8601), defaults to now',
+    example: '2026-11-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @ApiProperty({
+    description: 'When the version stops applying (ISO 8601), open-ended if omitted',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveTo?: string;
+
+  @ApiProperty({ description: 'Why this version was created', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class FeeScheduleDto {
+  @ApiProperty({ description: 'Fee schedule ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Device model scope', required: false })
+  deviceModelName?: string;
+
+  @ApiProperty({ description: 'Device category scope', required: false })
+  deviceCategory?: string;
+
+  @ApiProperty({ description: 'Version within the scope', example: 1 })
+  version: number;
+
+  @ApiProperty({
+    description: 'Finder reward rate; absent = device model fee_percentage',
+    example: 0.2,
+    required: false,
+  })
+  rewardRate?: number;
+
+  @ApiProperty({ description: 'Minimum reward (TRY)', required: false })
+  minReward?: number;
+
+  @ApiProperty({ description: 'Maximum reward (TRY)', required: false })
+  maxReward?: number;
+
+  @ApiProperty({ description: 'Cargo company the cargo fee is taken from', required: false })
+  cargoCompanyCode?: string;
+
+  @ApiProperty({ description: 'Effective from (ISO 8601)' })
+  effectiveFrom: string;
+
+  @ApiProperty({ description: 'Effective until (ISO 8601), absent = open-ended', required: false })
+  effectiveTo?: string;
+
+  @ApiProperty({ description: 'Notes', required: false })
+  notes?: string;
+
+  @ApiProperty({ description: 'Created at (ISO 8601)' })
+  createdAt: string;
+}
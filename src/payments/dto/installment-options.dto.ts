@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsUUID, Matches } from 'class-validator';
+import { FeeBreakdownDto } from './fee-breakdown.dto';
+
+export const MAX_INSTALLMENTS = 12;
+
+export class InstallmentOptionsQueryDto {
+  @ApiProperty({
+    description: 'Device ID the payment is for (the amount is taken from its model fee)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsNotEmpty()
+  @IsUUID()
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Card BIN - first 6 or 8 digits of the card number',
+    example: '450634',
+  })
+  @IsNotEmpty()
+  @Matches(/^(\d{6}|\d{8})$/, { message: 'bin must be the first 6 or 8 digits of the card' })
+  bin: string;
+}
+
+export class InstallmentOptionDto {
+  @ApiProperty({ description: 'Number of installments, 1 = single charge', example: 3 })
+  installments: number;
+
+  @ApiProperty({ description: 'Gateway commission rate (fraction of total)', example: 0.069 })
+  commissionRate: number;
+
+  @ApiProperty({ description: 'Amount of each installment after the first', example: 666.66 })
+  installmentAmount: number;
+
+  @ApiProperty({
+    description: 'Amount of the first installment - carries the kuruş that do not divide evenly',
+    example: 666.68,
+  })
+  firstInstallmentAmount: number;
+
+  @ApiProperty({ description: 'Fee breakdown with this commission rate', type: FeeBreakdownDto })
+  feeBreakdown: FeeBreakdownDto;
+}
+
+export class InstallmentOptionsResponseDto {
+  @ApiProperty({ description: 'Card BIN the options are for', example: '450634' })
+  bin: string;
+
+  @ApiProperty({ description: 'Payment provider that quoted the options', example: 'paynet' })
+  provider: string;
+
+  @ApiProperty({ description: 'Issuing bank', required: false })
+  bankName?: string;
+
+  @ApiProperty({ description: 'Card brand / program', required: false })
+  cardBrand?: string;
+
+  @ApiProperty({ description: 'Available installment options', type: [InstallmentOptionDto] })
+  options: InstallmentOptionDto[];
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+/**
+ * Body for refunding part of a held escrow to the owner. The rest is
+ * released as usual (finder reward, cargo fee, service fee minus what was
+ * refunded of each).
+ */
+export class PartialRefundDto {
+  @ApiProperty({
+    description: "Part of the finder's reward refunded to the owner (TRY)",
+    example: 500,
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  rewardRefund?: number;
+
+  @ApiProperty({
+    description: 'Part of the cargo fee refunded to the owner (TRY)',
+    example: 0,
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  cargoFeeRefund?: number;
+
+  @ApiProperty({
+    description: 'Part of the service fee refunded to the owner (TRY)',
+    example: 150,
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  serviceFeeRefund?: number;
+
+  @ApiProperty({
+    description: 'Why part of the payment is refunded',
+    example: 'Cihaz ekranı hasarlı teslim edildi, ödülün yarısı iade',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { PAYMENT_3D_ATTEMPT_STATUSES, Payment3DAttemptStatus } from '../payments.types';
+
+export class Payment3DResultQueryDto {
+  @ApiProperty({ description: 'The `result` query parameter of the callback redirect' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(512)
+  token: string;
+}
+
+export class Payment3DResultDto {
+  @ApiProperty({ description: 'Payment ID' })
+  paymentId: string;
+
+  @ApiProperty({
+    description: 'Outcome of the 3D Secure completion - processing until the provider answered',
+    enum: PAYMENT_3D_ATTEMPT_STATUSES,
+  })
+  status: Payment3DAttemptStatus;
+
+  @ApiProperty({ description: 'Current payment status', example: 'completed' })
+  paymentStatus: string;
+
+  @ApiProperty({ description: 'Current escrow status', example: 'held' })
+  escrowStatus: string;
+
+  @ApiProperty({ description: 'Outcome message (failure reason when failed)', required: false })
+  message?: string;
+
+  @ApiProperty({ description: 'When the outcome was recorded (ISO 8601)', required: false })
+  completedAt?: string;
+}
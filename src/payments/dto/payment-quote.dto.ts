@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsUUID, Matches, Max, Min } from 'class-validator';
+import { FeeBreakdownDto } from './fee-breakdown.dto';
+import { MAX_INSTALLMENTS } from './installment-options.dto';
+
+export class PaymentQuoteQueryDto {
+  @ApiProperty({
+    description: 'Number of installments to quote, 1 = single charge',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INSTALLMENTS)
+  installments?: number;
+
+  @ApiProperty({
+    description: 'Card BIN (first 6 or 8 digits) - required when installments > 1',
+    example: '450634',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^(\d{6}|\d{8})$/, { message: 'bin must be the first 6 or 8 digits of the card' })
+  bin?: string;
+
+  @ApiProperty({
+    description:
+      'Saved card to pay with - the quote is priced for the provider that stored it and its BIN',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  savedCardId?: string;
+}
+
+export class PaymentQuoteDto {
+  @ApiProperty({
+    description: 'Signed quote ID - send as quoteId in POST /payments/process before it expires',
+  })
+  quoteId: string;
+
+  @ApiProperty({ description: 'Device ID the quote is for' })
+  deviceId: string;
+
+  @ApiProperty({ description: 'Quote expiry (ISO 8601)', example: '2025-01-15T10:45:00.000Z' })
+  expiresAt: string;
+
+  @ApiProperty({
+    description: 'Payment provider the quote is priced for - the payment must use it',
+    example: 'paynet',
+  })
+  provider: string;
+
+  @ApiProperty({ description: 'Number of installments the quote is for', example: 1 })
+  installments: number;
+
+  @ApiProperty({ description: 'Gateway commission rate (fraction of total)', example: 0.0343 })
+  commissionRate: number;
+
+  @ApiProperty({ description: 'Currency', example: 'TRY' })
+  currency: string;
+
+  @ApiProperty({ description: 'Authoritative fee breakdown', type: FeeBreakdownDto })
+  feeBreakdown: FeeBreakdownDto;
+}
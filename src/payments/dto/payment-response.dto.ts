@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { FeeBreakdownDto } from './fee-breakdown.dto';
+import { PAYMENT_MODES, PaymentMode } from '../payments.types';
 
 export class PaymentResponseDto {
   @ApiProperty({ description: 'Payment ID (UUID generated by backend)' })
@@ -23,6 +24,13 @@ export class PaymentResponseDto {
   @ApiProperty({ description: 'PAYNET publishable key for frontend integration' })
   publishableKey?: string;
 
+  @ApiProperty({
+    description:
+      'direct_3ds: paymentUrl is the 3D Secure page. hosted_page: paymentUrl is the provider payment page; the result arrives by webhook (poll the status endpoint)',
+    enum: PAYMENT_MODES,
+  })
+  paymentMode: PaymentMode;
+
   @ApiProperty({ description: 'Payment URL for redirect (if available)' })
   paymentUrl?: string;
 
@@ -33,4 +41,3 @@ export class PaymentResponseDto {
   })
   feeBreakdown?: FeeBreakdownDto;
 }
-
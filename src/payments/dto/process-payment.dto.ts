@@ -1,7 +1,23 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsUUID, IsNumber, ValidateNested, IsString, Matches, Length } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsUUID,
+  IsNumber,
+  ValidateNested,
+  IsString,
+  Matches,
+  Length,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { FeeBreakdownDto } from './fee-breakdown.dto';
+import { MAX_INSTALLMENTS } from './installment-options.dto';
+import { CLIENT_PLATFORMS, ClientPlatform } from '../payments.types';
 
 export class ProcessPaymentDto {
   @ApiProperty({
@@ -13,60 +29,125 @@ export class ProcessPaymentDto {
   deviceId: string;
 
   @ApiProperty({
-    description: 'Total amount (will be validated against device_models.ifoundanapple_fee)',
-    example: 2000.0,
+    description:
+      'Signed quote ID from GET /payments/quote/:deviceId. The stored amount and fee breakdown come from the quote.',
+    required: false,
   })
+  @IsOptional()
+  @IsString()
   @IsNotEmpty()
+  quoteId?: string;
+
+  @ApiProperty({
+    description:
+      'Deprecated - use quoteId. Total amount (will be validated against device_models.ifoundanapple_fee); required without quoteId',
+    example: 2000.0,
+    required: false,
+    deprecated: true,
+  })
+  @IsOptional()
   @IsNumber()
-  totalAmount: number;
+  totalAmount?: number;
 
   @ApiProperty({
-    description: 'Fee breakdown calculated by frontend/iOS',
+    description:
+      'Deprecated - use quoteId. Fee breakdown calculated by frontend/iOS (ignored - the stored breakdown is always server-side)',
     type: FeeBreakdownDto,
+    required: false,
+    deprecated: true,
   })
-  @IsNotEmpty()
+  @IsOptional()
   @ValidateNested()
   @Type(() => FeeBreakdownDto)
-  feeBreakdown: FeeBreakdownDto;
+  feeBreakdown?: FeeBreakdownDto;
+
+  @ApiProperty({
+    description:
+      'Client platform. Selects the payment mode (PAYMENT_MODE_WEB / PAYMENT_MODE_IOS); in hosted_page mode no card data is sent',
+    enum: CLIENT_PLATFORMS,
+    default: 'web',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(CLIENT_PLATFORMS)
+  platform?: ClientPlatform;
+
+  @ApiProperty({
+    description:
+      'Number of installments (taksit), 1 = single charge. Must be offered for the card (GET /payments/installments); the gateway commission in the fee breakdown follows the installment rate',
+    example: 1,
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_INSTALLMENTS)
+  installments?: number;
 
   @ApiProperty({
-    description: 'Card number (PAN) - Required for Paynet 3D Secure payment',
+    description: 'Saved card to charge (from GET /payments/cards). Replaces the raw card fields.',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  savedCardId?: string;
+
+  @ApiProperty({
+    description:
+      'Store the new card at the payment provider for later payments (raw card mode only)',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  saveCard?: boolean;
+
+  @ApiProperty({
+    description: 'Card number (PAN) - direct_3ds mode without savedCardId (raw card mode only)',
+    required: false,
     example: '4506341234567890',
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @Matches(/^\d{13,19}$/, {
     message: 'Card number must be 13-19 digits',
   })
-  pan: string;
+  pan?: string;
 
   @ApiProperty({
-    description: 'Card expiration month (MM format) - Required for Paynet 3D Secure payment',
+    description:
+      'Card expiration month (MM format) - direct_3ds mode without savedCardId (raw card mode only)',
+    required: false,
     example: '12',
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @Matches(/^(0[1-9]|1[0-2])$/, {
     message: 'Month must be in MM format (01-12)',
   })
-  month: string;
+  month?: string;
 
   @ApiProperty({
-    description: 'Card expiration year (YY or YYYY format) - Required for Paynet 3D Secure payment',
+    description:
+      'Card expiration year (YY or YYYY format) - direct_3ds mode without savedCardId (raw card mode only)',
+    required: false,
     example: '2025',
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @Matches(/^(\d{2}|\d{4})$/, {
     message: 'Year must be in YY or YYYY format',
   })
-  year: string;
+  year?: string;
 
   @ApiProperty({
-    description: 'Card CVV/CVC code - Required for Paynet 3D Secure payment',
+    description: 'Card CVV/CVC code - direct_3ds mode without savedCardId (raw card mode only)',
+    required: false,
     example: '123',
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @Length(3, 4, {
     message: 'CVV must be 3 or 4 digits',
@@ -74,14 +155,15 @@ export class ProcessPaymentDto {
   @Matches(/^\d{3,4}$/, {
     message: 'CVV must contain only digits',
   })
-  cvc: string;
+  cvc?: string;
 
   @ApiProperty({
-    description: 'Card holder name - Required for Paynet 3D Secure payment',
+    description: 'Card holder name - direct_3ds mode without savedCardId (raw card mode only)',
+    required: false,
     example: 'John Doe',
   })
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
-  cardHolder: string;
+  cardHolder?: string;
 }
 
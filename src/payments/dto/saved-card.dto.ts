@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SavedCardDto {
+  @ApiProperty({ description: 'Saved card ID, sent as savedCardId in ProcessPaymentDto' })
+  id: string;
+
+  @ApiProperty({ description: 'Payment provider the card is stored at', example: 'paynet' })
+  provider: string;
+
+  @ApiProperty({
+    description: 'First 6 digits of the card number',
+    example: '450634',
+    required: false,
+  })
+  cardBin?: string;
+
+  @ApiProperty({
+    description: 'Last 4 digits of the card number',
+    example: '7890',
+    required: false,
+  })
+  cardLastFour?: string;
+
+  @ApiProperty({ description: 'Card brand', example: 'VISA', required: false })
+  cardBrand?: string;
+
+  @ApiProperty({ description: 'Card type (credit/debit)', required: false })
+  cardType?: string;
+
+  @ApiProperty({ description: 'When the card was last used for a payment', required: false })
+  lastUsedAt?: string;
+
+  @ApiProperty({ description: 'When the card was saved' })
+  createdAt: string;
+}
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { CreateFeeScheduleDto, FeeScheduleDto } from './dto/fee-schedule.dto';
+import { FeeSchedulesService } from './services/fee-schedules.service';
+
+@ApiTags('fee-schedules')
+@Controller('fee-schedules')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class FeeSchedulesController {
+  constructor(private readonly feeSchedulesService: FeeSchedulesService) {}
+
+  @ApiOperation({
+    summary: 'List fee schedule versions (Admin only)',
+    description: 'Every version, including retired and future ones, newest first.',
+  })
+  @ApiResponse({ status: 200, description: 'Fee schedules', type: [FeeScheduleDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get()
+  async list(): Promise<FeeScheduleDto[]> {
+    return this.feeSchedulesService.list();
+  }
+
+  @ApiOperation({ summary: 'Get a fee schedule version (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fee schedule ID (payments.fee_schedule_id)' })
+  @ApiResponse({ status: 200, description: 'Fee schedule', type: FeeScheduleDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Fee schedule not found' })
+  @Get(':id')
+  async get(@Param('id', ParseUUIDPipe) id: string): Promise<FeeScheduleDto> {
+    return this.feeSchedulesService.getById(id);
+  }
+
+  @ApiOperation({
+    summary: 'Create a fee schedule version (Admin only)',
+    description:
+      'Creates the next version for the model, category or default scope. Existing versions are never edited; the newest version in effect prices new payments and quotes.',
+  })
+  @ApiResponse({ status: 201, description: 'Fee schedule created', type: FeeScheduleDto })
+  @ApiResponse({ status: 400, description: 'Invalid scope, reward bounds or effective dates' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Cargo company not found or inactive' })
+  @ApiResponse({ status: 409, description: 'Another version was created concurrently' })
+  @Post()
+  async create(
+    @Body() dto: CreateFeeScheduleDto,
+    @Req() request: Request,
+  ): Promise<FeeScheduleDto> {
+    const user = request.user as RequestUser;
+    return this.feeSchedulesService.create(dto, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Retire a fee schedule version (Admin only)',
+    description:
+      'Ends the version now. Payments priced with it keep their reference; the next most specific schedule in effect takes over.',
+  })
+  @ApiParam({ name: 'id', description: 'Fee schedule ID' })
+  @ApiResponse({ status: 200, description: 'Fee schedule retired', type: FeeScheduleDto })
+  @ApiResponse({ status: 400, description: 'Fee schedule is already retired' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Fee schedule not found' })
+  @Patch(':id/retire')
+  async retire(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: Request,
+  ): Promise<FeeScheduleDto> {
+    const user = request.user as RequestUser;
+    return this.feeSchedulesService.retire(id, user.id);
+  }
+}
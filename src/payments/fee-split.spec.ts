@@ -0,0 +1,41 @@
+import { applyProviderCommission } from './fee-split';
+
+describe('applyProviderCommission', () => {
+  const payment = { service_fee: '120.00', payment_gateway_fee: '34.30' };
+
+  it('keeps the stored fees without a reported commission', () => {
+    for (const commission of [null, undefined, '', 0, '0.00']) {
+      expect(applyProviderCommission(payment, commission)).toEqual({
+        payment_gateway_fee: 34.3,
+        service_fee: 120,
+      });
+    }
+  });
+
+  it('takes a higher commission out of the service fee', () => {
+    expect(applyProviderCommission(payment, '40.15')).toEqual({
+      payment_gateway_fee: 40.15,
+      service_fee: 114.15,
+    });
+  });
+
+  it('gives a lower commission back to the service fee', () => {
+    expect(applyProviderCommission(payment, 30.01)).toEqual({
+      payment_gateway_fee: 30.01,
+      service_fee: 124.29,
+    });
+  });
+
+  it('keeps the sum of the two fees exact to the kuruş', () => {
+    const result = applyProviderCommission({ service_fee: 0.1, payment_gateway_fee: 0.2 }, 0.07);
+
+    expect(result).toEqual({ payment_gateway_fee: 0.07, service_fee: 0.23 });
+  });
+
+  it('leaves a negative service fee when the commission exceeds both fees', () => {
+    expect(applyProviderCommission(payment, '160.00')).toEqual({
+      payment_gateway_fee: 160,
+      service_fee: -5.7,
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { Money } from '../common/money/money';
+
+/**
+ * Fee columns of a payments row (numeric columns may come back as strings)
+ */
+export interface StoredFeeSplit {
+  service_fee: number | string;
+  payment_gateway_fee: number | string;
+}
+
+/**
+ * Replace the quoted gateway fee with the commission the provider actually
+ * charged. The difference comes out of (or goes back into) the service fee,
+ * never the reward or the cargo fee, so the split still adds up to the
+ * total exactly. Without a reported commission the stored fees are kept.
+ */
+export function applyProviderCommission(
+  payment: StoredFeeSplit,
+  commission: number | string | null | undefined,
+): { payment_gateway_fee: number; service_fee: number } {
+  const quotedGatewayFee = Money.fromMajor(payment.payment_gateway_fee);
+  const serviceFee = Money.fromMajor(payment.service_fee);
+
+  if (
+    commission === null ||
+    commission === undefined ||
+    commission === '' ||
+    Number(commission) === 0
+  ) {
+    return {
+      payment_gateway_fee: quotedGatewayFee.toMajor(),
+      service_fee: serviceFee.toMajor(),
+    };
+  }
+
+  const actualGatewayFee = Money.fromMajor(commission);
+  return {
+    payment_gateway_fee: actualGatewayFee.toMajor(),
+    service_fee: serviceFee.add(quotedGatewayFee).subtract(actualGatewayFee).toMajor(),
+  };
+}
@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+import { planPartialRefund } from './partial-refund';
+
+describe('planPartialRefund', () => {
+  const escrow = {
+    total_amount: '1234.30',
+    reward_amount: '1000.00',
+    cargo_fee: '80.00',
+    service_fee: '120.00',
+  };
+
+  it('splits the escrow into refunded and released parts', () => {
+    const plan = planPartialRefund(escrow, { reward: 250.5, cargoFee: 0, serviceFee: 10.25 });
+
+    expect(plan.refund.total.toString()).toBe('260.75');
+    expect(plan.released.reward.toString()).toBe('749.50');
+    expect(plan.released.cargoFee.toString()).toBe('80.00');
+    expect(plan.released.serviceFee.toString()).toBe('109.75');
+    // The gateway fee stays in the released total
+    expect(plan.released.total.toString()).toBe('973.55');
+  });
+
+  it('adds refunded and released totals up to the held total', () => {
+    const plan = planPartialRefund(escrow, { reward: 0.1, cargoFee: 0.2, serviceFee: 0.3 });
+
+    expect(plan.refund.total.add(plan.released.total).toString()).toBe('1234.30');
+  });
+
+  it('rejects a negative part', () => {
+    expect(() => planPartialRefund(escrow, { reward: -1, cargoFee: 0, serviceFee: 0 })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects a part that exceeds what is held for it', () => {
+    expect(() => planPartialRefund(escrow, { reward: 0, cargoFee: 80.01, serviceFee: 0 })).toThrow(
+      'Refund of cargoFee (80.01) exceeds the held cargoFee (80.00)',
+    );
+  });
+
+  it('rejects refunding nothing', () => {
+    expect(() => planPartialRefund(escrow, { reward: 0, cargoFee: 0, serviceFee: 0 })).toThrow(
+      'Nothing to refund',
+    );
+  });
+
+  it('rejects refunding every part, which is a cancellation', () => {
+    expect(() =>
+      planPartialRefund(escrow, { reward: 1000, cargoFee: 80, serviceFee: 120 }),
+    ).toThrow('cancel the payment');
+  });
+});
@@ -0,0 +1,82 @@
+import { BadRequestException } from '@nestjs/common';
+import { Money } from '../common/money/money';
+
+/**
+ * Held amounts of an escrowed payment (numeric columns may come back as strings)
+ */
+export interface HeldEscrowSplit {
+  total_amount: number | string;
+  reward_amount: number | string;
+  cargo_fee: number | string;
+  service_fee: number | string;
+}
+
+/**
+ * How much of each part of the escrow goes back to the payer
+ */
+export interface PartialRefundAmounts {
+  reward: number;
+  cargoFee: number;
+  serviceFee: number;
+}
+
+export interface PartialRefundPlan {
+  refund: { reward: Money; cargoFee: Money; serviceFee: Money; total: Money };
+  // What is released afterwards; the gateway fee is never refunded partially
+  released: { reward: Money; cargoFee: Money; serviceFee: Money; total: Money };
+}
+
+/**
+ * Split a held escrow into the part refunded to the payer and the part
+ * released to the finder, carrier and platform. Each refunded part must
+ * fit in what is held for it, and something has to be refunded and
+ * something released - refunding everything is a cancellation.
+ */
+export function planPartialRefund(
+  escrow: HeldEscrowSplit,
+  amounts: PartialRefundAmounts,
+): PartialRefundPlan {
+  const held = {
+    reward: Money.fromMajor(escrow.reward_amount),
+    cargoFee: Money.fromMajor(escrow.cargo_fee),
+    serviceFee: Money.fromMajor(escrow.service_fee),
+  };
+  const refund = {
+    reward: Money.fromMajor(amounts.reward),
+    cargoFee: Money.fromMajor(amounts.cargoFee),
+    serviceFee: Money.fromMajor(amounts.serviceFee),
+  };
+
+  for (const part of ['reward', 'cargoFee', 'serviceFee'] as const) {
+    if (refund[part].isNegative()) {
+      throw new BadRequestException(`Refund of ${part} cannot be negative`);
+    }
+    if (held[part].subtract(refund[part]).isNegative()) {
+      throw new BadRequestException(
+        `Refund of ${part} (${refund[part]}) exceeds the held ${part} (${held[part]})`,
+      );
+    }
+  }
+
+  const refundTotal = refund.reward.add(refund.cargoFee).add(refund.serviceFee);
+  const released = {
+    reward: held.reward.subtract(refund.reward),
+    cargoFee: held.cargoFee.subtract(refund.cargoFee),
+    serviceFee: held.serviceFee.subtract(refund.serviceFee),
+  };
+  const releasedParts = released.reward.add(released.cargoFee).add(released.serviceFee);
+
+  if (refundTotal.minor === 0) {
+    throw new BadRequestException('Nothing to refund');
+  }
+  if (releasedParts.minor === 0) {
+    throw new BadRequestException(
+      'The whole escrow would be refunded; cancel the payment for a full refund instead',
+    );
+  }
+
+  return {
+    refund: { ...refund, total: refundTotal },
+    released: { ...released, total: Money.fromMajor(escrow.total_amount).subtract(refundTotal) },
+  };
+}
@@ -0,0 +1,59 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { ShipmentDeliveredEvent } from '../domain-events/domain-events.types';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PaymentsService } from './services/payments.service';
+
+/**
+ * Releases the held payment once the delivery is confirmed.
+ *
+ * Paynet settles escrowed funds to our merchant account, not directly to
+ * the finder's IBAN - the finder's payout follows from EscrowReleased. A
+ * failed release does not undo the receipt confirmation; ops can retry it
+ * via the admin "Escrow Serbest Bırak" button.
+ */
+@Injectable()
+export class PaymentEventsSubscriber implements OnModuleInit {
+  private readonly logger = new Logger(PaymentEventsSubscriber.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly eventBus: DomainEventBus,
+    private readonly paymentsService: PaymentsService,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  onModuleInit(): void {
+    this.eventBus.subscribe('ShipmentDelivered', PaymentEventsSubscriber.name, (event) =>
+      this.releaseEscrow(event),
+    );
+  }
+
+  private async releaseEscrow(event: ShipmentDeliveredEvent): Promise<void> {
+    const { data: payment } = await this.supabase
+      .from('payments')
+      .select('id')
+      .eq('device_id', event.deviceId)
+      .eq('payment_status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!payment) {
+      this.logger.error(
+        `No completed payment found for device ${event.deviceId} — cannot auto-release escrow`,
+      );
+      return;
+    }
+
+    await this.paymentsService.releaseEscrow(
+      payment.id,
+      event.deviceId,
+      event.reason,
+      event.ownerUserId,
+    );
+  }
+}
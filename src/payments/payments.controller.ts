@@ -1,16 +1,45 @@
-import { BadRequestException, Body, Controller, Get, Logger, Param, Post, Req, Res } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags, ApiParam } from '@nestjs/swagger';
 import { Request, Response } from 'express';
 import { firstValueFrom } from 'rxjs';
+import { AdminGuard } from '../auth/guards/admin.guard';
 import { RequestUser } from '../auth/interfaces/request-user.interface';
 import { Public } from '../auth/decorators/public.decorator';
 import { ProcessPaymentDto } from './dto/process-payment.dto';
 import { PaymentResponseDto } from './dto/payment-response.dto';
+import { SavedCardDto } from './dto/saved-card.dto';
+import {
+  InstallmentOptionsQueryDto,
+  InstallmentOptionsResponseDto,
+} from './dto/installment-options.dto';
+import { PaymentQuoteDto, PaymentQuoteQueryDto } from './dto/payment-quote.dto';
 import { Complete3DPaymentDto } from './dto/complete-3d-payment.dto';
+import { PartialRefundDto } from './dto/partial-refund.dto';
+import { Payment3DResultDto, Payment3DResultQueryDto } from './dto/payment-3d-result.dto';
 import { PaymentsService } from './services/payments.service';
+import { SavedCardsService } from './services/saved-cards.service';
+import { InstallmentsService } from './services/installments.service';
+import { PaymentQuoteService } from './services/payment-quote.service';
+import { Payment3DAttemptsService } from './services/payment-3d-attempts.service';
 import { PaynetProvider } from './providers/paynet.provider';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
 import { WebhooksService } from '../webhooks/webhooks.service';
+import { Idempotent } from '../idempotency/idempotent.decorator';
 
 @ApiTags('payments')
 @Controller('payments')
@@ -21,13 +50,19 @@ export class PaymentsController {
   constructor(
     private readonly paymentsService: PaymentsService,
     private readonly paynetProvider: PaynetProvider,
+    private readonly providerRegistry: PaymentProviderRegistry,
     private readonly httpService: HttpService,
     private readonly webhooksService: WebhooksService,
+    private readonly savedCardsService: SavedCardsService,
+    private readonly installmentsService: InstallmentsService,
+    private readonly paymentQuoteService: PaymentQuoteService,
+    private readonly payment3DAttemptsService: Payment3DAttemptsService,
   ) {}
 
   @ApiOperation({ 
     summary: 'Process payment with Paynet',
-    description: 'Backend initiates Paynet 3D Secure payment. Creates payment record in database and returns payment URL for 3D Secure verification. Device must exist and be in "payment_pending" status. Card information (pan, cvc, month, year, cardHolder) is required for Paynet 3D Secure payment.',
+    description:
+      'Backend initiates Paynet 3D Secure payment. Creates payment record in database and returns payment URL for 3D Secure verification. Device must exist and be in "payment_pending" status. Pay with a saved card via savedCardId; raw card information (pan, cvc, month, year, cardHolder) is only accepted when PAYMENTS_RAW_CARD_ENABLED is set.',
   })
   @ApiResponse({
     status: 201,
@@ -37,6 +72,7 @@ export class PaymentsController {
   @ApiResponse({ status: 400, description: 'Invalid payment request, device not in payment_pending status, amount validation failed, or no matched finder found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Device not found or device does not belong to the user' })
+  @Idempotent()
   @Post('process')
   async processPayment(
     @Body() dto: ProcessPaymentDto,
@@ -47,7 +83,121 @@ export class PaymentsController {
       throw new Error('User not found in request');
     }
 
-    return this.paymentsService.processPayment(dto, user.id);
+    return this.paymentsService.processPayment(dto, user.id, user.email);
+  }
+
+  @ApiOperation({
+    summary: 'Get a payment quote for a device',
+    description:
+      "Returns the authoritative fee breakdown for the device's payment with a signed, expiring quoteId. Send the quoteId to POST /payments/process; the stored amount and fees come from the quote.",
+  })
+  @ApiParam({
+    name: 'deviceId',
+    description: 'Device ID (UUID)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({ status: 200, description: 'Payment quote', type: PaymentQuoteDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Installments not available for the card, or BIN missing for an installment quote',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 404,
+    description:
+      'Device or saved card not found, not owned by the user, or model fee not configured',
+  })
+  @Get('quote/:deviceId')
+  async getPaymentQuote(
+    @Param('deviceId', ParseUUIDPipe) deviceId: string,
+    @Query() query: PaymentQuoteQueryDto,
+    @Req() request: Request,
+  ): Promise<PaymentQuoteDto> {
+    const user = request.user as RequestUser;
+    if (!user) {
+      throw new Error('User not found in request');
+    }
+
+    return this.paymentQuoteService.createQuote(
+      deviceId,
+      user.id,
+      query.installments ?? 1,
+      query.bin,
+      query.savedCardId,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Get installment options for a card',
+    description:
+      "Installment (taksit) counts the card BIN supports for this device's payment, with the commission rate and the resulting fee breakdown for each. Send the chosen count as installments in POST /payments/process.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Installment options',
+    type: InstallmentOptionsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid device ID or BIN' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Device or device model fee not found' })
+  @Get('installments')
+  async getInstallmentOptions(
+    @Query() query: InstallmentOptionsQueryDto,
+  ): Promise<InstallmentOptionsResponseDto> {
+    return this.installmentsService.getOptions(query.deviceId, query.bin);
+  }
+
+  @ApiOperation({
+    summary: 'List saved cards',
+    description:
+      'Cards the user stored at the payment provider (saveCard). Only display fields are returned; the card token never leaves the backend.',
+  })
+  @ApiResponse({ status: 200, description: 'Saved cards', type: [SavedCardDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @Get('cards')
+  async listSavedCards(@Req() request: Request): Promise<SavedCardDto[]> {
+    const user = request.user as RequestUser;
+    if (!user) {
+      throw new Error('User not found in request');
+    }
+
+    return this.savedCardsService.listForUser(user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Delete a saved card',
+    description:
+      "Deletes the card from the payment provider card vault and removes it from the user's saved cards.",
+  })
+  @ApiParam({
+    name: 'cardId',
+    description: 'Saved card ID (UUID)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saved card deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: 'Saved card deleted successfully' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Saved card not found or does not belong to the user' })
+  @Delete('cards/:cardId')
+  async deleteSavedCard(
+    @Param('cardId', ParseUUIDPipe) cardId: string,
+    @Req() request: Request,
+  ): Promise<{ success: boolean; message: string }> {
+    const user = request.user as RequestUser;
+    if (!user) {
+      throw new Error('User not found in request');
+    }
+
+    return this.savedCardsService.deleteForUser(cardId, user.id);
   }
 
   @ApiOperation({
@@ -85,26 +235,36 @@ export class PaymentsController {
 
   @ApiOperation({
     summary: 'Paynet return_url callback handler',
-    description: 'Handles Paynet return_url callback after 3D Secure verification. This endpoint is public and receives session_id and token_id from Paynet. Automatically starts complete-3d process and redirects user to frontend processing page.',
+    description:
+      "Handles the payment provider return_url callback after 3D Secure verification. This endpoint is public and receives the 3D session identifiers from the provider (session_id and token_id for Paynet). Automatically starts complete-3d process and redirects user to the processing page of the payment's client platform (PAYMENT_RETURN_URL_WEB / PAYMENT_RETURN_URL_IOS) with a short-lived signed result token; exchange it via GET /payments/3d-result.",
   })
-  @ApiResponse({ status: 302, description: 'Redirects to frontend processing page' })
+  @ApiResponse({ status: 302, description: 'Redirects to the client platform processing page' })
   @Public() // Paynet'ten geldiği için public olmalı
   @Post('callback')
   async handlePaynetCallback(
-    @Body() body: { session_id?: string; token_id?: string },
+    @Body() body: Record<string, any>,
+    @Query('provider') providerName: string | undefined,
     @Res() res: Response,
   ): Promise<void> {
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    
-    // Paynet'ten gelen session_id ve token_id'yi al
-    const sessionId = body.session_id;
-    const tokenId = body.token_id;
+    // return_url carries ?provider=<name>; callbacks for payments started
+    // before that was added are always Paynet's
+    let callbackParams: { session_id: string; token_id: string } | null = null;
+    try {
+      callbackParams = this.providerRegistry.get(providerName || 'paynet').parse3DCallback(body);
+    } catch (error: any) {
+      this.logger.error(`Callback for unknown provider '${providerName}': ${error.message}`);
+    }
 
-    if (!sessionId || !tokenId) {
+    if (!callbackParams) {
       // Frontend'e error sayfasına yönlendir
-      return res.redirect(`${frontendUrl}/payment/error?reason=missing_params`);
+      return res.redirect(
+        this.payment3DAttemptsService.redirectUrl(null, 'error', { reason: 'missing_params' }),
+      );
     }
 
+    const sessionId = callbackParams.session_id;
+    const tokenId = callbackParams.token_id;
+
     try {
       // 1. Find payment_id using session_id
       const payment = await this.paymentsService.findPaymentBySessionId(
@@ -114,12 +274,17 @@ export class PaymentsController {
       if (!payment) {
         this.logger.error(`Payment not found for session_id: ${sessionId}`);
         return res.redirect(
-          `${frontendUrl}/payment/error?reason=payment_not_found`,
+          this.payment3DAttemptsService.redirectUrl(null, 'error', { reason: 'payment_not_found' }),
         );
       }
 
-      // 2. Automatically start complete-3d process (async, don't wait)
-      // This will send tds_charge request to Paynet
+      // 2. Record the attempt, then start complete-3d (async, don't wait);
+      // its outcome is stored on the attempt for GET /payments/3d-result
+      const attempt = await this.payment3DAttemptsService.start(
+        payment.id,
+        payment.client_platform,
+      );
+
       this.paymentsService
         .complete3DPayment(
           {
@@ -129,33 +294,71 @@ export class PaymentsController {
           },
           undefined, // userId not needed - callback handler is system-initiated
         )
-        .then(() => {
+        .then(async (result) => {
           this.logger.log(
             `Successfully initiated complete-3d for payment: ${payment.id}`,
           );
+          if (attempt) {
+            await this.payment3DAttemptsService.finish(attempt.id, 'succeeded', result.message);
+          }
         })
-        .catch((error) => {
+        .catch(async (error) => {
           // Log error but don't block redirect
           this.logger.error(
             `Failed to complete 3D payment: ${error.message}`,
             error.stack,
           );
+          if (attempt) {
+            await this.payment3DAttemptsService.finish(attempt.id, 'failed', error.message);
+          }
         });
 
-      // 3. Redirect to frontend processing page
-      // Frontend will poll payment status endpoint to check webhook result
+      // 3. Redirect to the platform's processing page. Only the signed
+      // attempt token leaves the backend - never the provider's session or
+      // token ids. Without a stored attempt the page polls the status endpoint.
       return res.redirect(
-        `${frontendUrl}/payment/processing?payment_id=${payment.id}&session_id=${encodeURIComponent(sessionId)}&token_id=${encodeURIComponent(tokenId)}`,
+        this.payment3DAttemptsService.redirectUrl(
+          payment.client_platform,
+          'processing',
+          attempt ? { result: attempt.token } : { payment_id: payment.id },
+        ),
       );
     } catch (error: any) {
       this.logger.error(
         `Callback handler error: ${error.message}`,
         error.stack,
       );
-      return res.redirect(`${frontendUrl}/payment/error?reason=callback_failed`);
+      return res.redirect(
+        this.payment3DAttemptsService.redirectUrl(null, 'error', { reason: 'callback_failed' }),
+      );
     }
   }
 
+  @ApiOperation({
+    summary: 'Get the outcome of a 3D Secure callback',
+    description:
+      'Exchanges the result token from the callback redirect (?result=...) for the outcome of the complete-3d attempt and the current payment and escrow status. Only the payer can read it; tokens expire after PAYMENT_RESULT_TOKEN_TTL_SECONDS.',
+  })
+  @ApiResponse({ status: 200, description: '3D Secure attempt outcome', type: Payment3DResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid or expired result token' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 404,
+    description: 'Attempt not found or payment does not belong to the user',
+  })
+  @Get('3d-result')
+  async get3DResult(
+    @Query() query: Payment3DResultQueryDto,
+    @Req() request: Request,
+  ): Promise<Payment3DResultDto> {
+    const user = request.user as RequestUser;
+    if (!user) {
+      throw new Error('User not found in request');
+    }
+
+    return this.payment3DAttemptsService.getResult(query.token, user.id);
+  }
+
   @ApiOperation({ summary: 'Test PAYNET API connection and configuration' })
   @ApiResponse({ status: 200, description: 'PAYNET connection test result' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -409,6 +612,7 @@ export class PaymentsController {
   @ApiResponse({ status: 400, description: 'Invalid request, payment not in valid state for escrow release, or missing required fields (paymentId, deviceId, releaseReason)' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Payment not found or payment does not belong to the user' })
+  @Idempotent()
   @Post('release-escrow')
   async releaseEscrow(
     @Body() body: { paymentId: string; deviceId: string; releaseReason: string },
@@ -434,6 +638,58 @@ export class PaymentsController {
     );
   }
 
+  @ApiOperation({
+    summary: 'Refund part of a held escrow (Admin only)',
+    description:
+      'Refunds the given parts of the reward, cargo fee and service fee to the owner and releases the rest (payouts are created for the released amounts). Each part is limited to what the escrow holds for it; refunding everything is a cancellation, not a partial refund. If the provider approves the escrow but the refund fails, the split is kept and an admin alert asks ops to refund manually.',
+  })
+  @ApiParam({ name: 'paymentId', description: 'Payment ID (UUID)' })
+  @ApiResponse({
+    status: 201,
+    description: 'Escrow partially refunded and released',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: { type: 'string', example: 'Escrow partially refunded and released successfully' },
+        refundedAmount: { type: 'number', example: 650 },
+        releasedAmount: { type: 'number', example: 4100 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Escrow is not held, amounts exceed the held escrow, or the provider rejected the approval',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  @UseGuards(AdminGuard)
+  @Idempotent()
+  @Post(':paymentId/partial-refund')
+  async refundEscrowPartially(
+    @Param('paymentId', ParseUUIDPipe) paymentId: string,
+    @Body() dto: PartialRefundDto,
+    @Req() request: Request,
+  ): Promise<{
+    success: boolean;
+    message: string;
+    refundedAmount: number;
+    releasedAmount: number;
+  }> {
+    const user = request.user as RequestUser;
+    return this.paymentsService.refundEscrowPartially(
+      paymentId,
+      {
+        reward: dto.rewardRefund ?? 0,
+        cargoFee: dto.cargoFeeRefund ?? 0,
+        serviceFee: dto.serviceFeeRefund ?? 0,
+      },
+      dto.reason,
+      user.id,
+    );
+  }
+
   @ApiOperation({
     summary: 'Check for pending payment for a device',
     description: 'Check if there is an existing pending payment for a specific device. Frontend can use this to inform users about ongoing payment attempts.',
@@ -498,6 +754,7 @@ export class PaymentsController {
   @ApiResponse({ status: 400, description: 'Invalid request, payment not in pending status, or payment does not belong to the user' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Payment not found' })
+  @Idempotent()
   @Post(':paymentId/cancel')
   async cancelPendingPayment(
     @Param('paymentId') paymentId: string,
@@ -1,27 +1,63 @@
 import { HttpModule } from '@nestjs/axios';
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { PaymentStateModule } from '../payment-state/payment-state.module';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { WebhooksModule } from '../webhooks/webhooks.module';
+import { FeeSchedulesController } from './fee-schedules.controller';
+import { PaymentEventsSubscriber } from './payment-events.subscriber';
 import { PaymentsController } from './payments.controller';
+import { IyzicoProvider } from './providers/iyzico.provider';
+import { PAYMENT_PROVIDERS, PaymentProvider } from './providers/payment-provider.interface';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
 import { PaynetProvider } from './providers/paynet.provider';
+import { FeeSchedulesService } from './services/fee-schedules.service';
 import { FeeValidationService } from './services/fee-validation.service';
+import { InstallmentsService } from './services/installments.service';
+import { PaymentQuoteService } from './services/payment-quote.service';
+import { Payment3DAttemptsService } from './services/payment-3d-attempts.service';
 import { PaymentReconciliationService } from './services/payment-reconciliation.service';
 import { PaymentsService } from './services/payments.service';
+import { SavedCardsService } from './services/saved-cards.service';
 
 @Module({
   imports: [
     HttpModule,
     SupabaseModule,
     WebhooksModule,
+    DomainEventsModule,
+    LedgerModule,
+    IdempotencyModule,
+    PaymentStateModule,
+    OutboxModule,
     ScheduleModule.forRoot(),
   ],
-  controllers: [PaymentsController],
+  controllers: [PaymentsController, FeeSchedulesController],
   providers: [
     PaymentsService,
     FeeValidationService,
+    FeeSchedulesService,
     PaynetProvider,
+    IyzicoProvider,
+    {
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (paynet: PaynetProvider, iyzico: IyzicoProvider): PaymentProvider[] => [
+        paynet,
+        iyzico,
+      ],
+      inject: [PaynetProvider, IyzicoProvider],
+    },
+    PaymentProviderRegistry,
     PaymentReconciliationService,
+    SavedCardsService,
+    InstallmentsService,
+    PaymentQuoteService,
+    Payment3DAttemptsService,
+    PaymentEventsSubscriber,
   ],
   exports: [PaymentsService],
 })
@@ -0,0 +1,19 @@
+/**
+ * How the card is collected:
+ * - direct_3ds: the client sends card data (or a saved card) to us and we
+ *   start the provider's 3D Secure flow
+ * - hosted_page: the provider's common payment page collects the card; we
+ *   only create the order and learn the result from the confirmation webhook
+ */
+export const PAYMENT_MODES = ['direct_3ds', 'hosted_page'] as const;
+
+export type PaymentMode = (typeof PAYMENT_MODES)[number];
+
+export const CLIENT_PLATFORMS = ['web', 'ios'] as const;
+
+export type ClientPlatform = (typeof CLIENT_PLATFORMS)[number];
+
+// payment_3d_attempts.status: outcome of the complete-3d run a return_url callback started
+export const PAYMENT_3D_ATTEMPT_STATUSES = ['processing', 'succeeded', 'failed'] as const;
+
+export type Payment3DAttemptStatus = (typeof PAYMENT_3D_ATTEMPT_STATUSES)[number];
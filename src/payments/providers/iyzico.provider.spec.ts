@@ -0,0 +1,80 @@
+import { of } from 'rxjs';
+import { Money } from '../../common/money/money';
+import { findAmountMismatches } from '../../webhooks/webhook-amount-check';
+import { FeeValidationService } from '../services/fee-validation.service';
+import { IyzicoProvider } from './iyzico.provider';
+
+describe('IyzicoProvider single charge commission', () => {
+  const tolerance = Money.fromMajor('0.05');
+  const schedule = {
+    id: 'schedule-1',
+    version: 1,
+    rewardRate: 0.2,
+    minReward: null,
+    maxReward: null,
+    cargoFee: 25,
+  };
+  const feeValidation = new FeeValidationService(
+    { getClient: () => ({}) } as any,
+    {} as any,
+    {} as any,
+  );
+
+  function createProvider(authResponse: Record<string, unknown>): IyzicoProvider {
+    const httpService = { request: jest.fn(() => of({ data: authResponse })) };
+    const configService = {
+      get: () => ({
+        apiUrl: 'http://iyzico.test',
+        apiKey: 'api-key',
+        secretKey: 'secret-key',
+        commissionRate: 0.0299,
+        commissionFee: 0.25,
+      }),
+    };
+    return new IyzicoProvider(httpService as any, configService as any);
+  }
+
+  // What iyzico's /payment/3dsecure/auth reports for a charge of `price`:
+  // the rate part unrounded, plus the fixed fee
+  function authResponse(price: number): Record<string, unknown> {
+    return {
+      status: 'success',
+      paymentId: '24180000',
+      price,
+      paidPrice: price,
+      iyziCommissionRateAmount: price * 0.0299,
+      iyziCommissionFee: 0.25,
+      binNumber: '552608',
+      lastFourDigits: '0006',
+    };
+  }
+
+  it('quotes rate plus the fixed fee folded into the rate', () => {
+    const provider = createProvider({});
+
+    expect(provider.singleChargeCommissionRate(1000)).toBeCloseTo(0.03015, 10);
+  });
+
+  it('passes the amount check with the commission iyzico reports', async () => {
+    for (const total of [249.9, 1154.3, 2000, 7499.99]) {
+      const provider = createProvider(authResponse(total));
+      const fees = feeValidation.buildBreakdown(
+        { totalAmount: total, schedule },
+        provider.singleChargeCommissionRate(total),
+      );
+      const payment = {
+        total_amount: fees.totalAmount,
+        payment_gateway_fee: fees.gatewayFee,
+        service_fee: fees.serviceFee,
+        installment_count: 1,
+      };
+
+      const response = await provider.complete3DPayment({
+        session_id: 'payment-1',
+        token_id: '24180000',
+      });
+
+      expect(findAmountMismatches(payment, response, tolerance)).toEqual([]);
+    }
+  });
+});
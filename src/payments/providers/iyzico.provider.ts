@@ -0,0 +1,475 @@
+import { HttpService } from '@nestjs/axios';
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { Money } from '../../common/money/money';
+import { AppConfiguration, IyzicoConfig } from '../../config/configuration';
+import {
+  PaymentProvider,
+  PaymentProviderName,
+  Provider3DCallbackParams,
+  Provider3DCompleteRequest,
+  Provider3DPaymentRequest,
+  Provider3DPaymentResponse,
+  ProviderHostedPageResponse,
+  ProviderInstallmentResponse,
+  ProviderPaymentResponse,
+} from './payment-provider.interface';
+
+/**
+ * iyzico API response envelope. Every endpoint returns `status` plus
+ * endpoint-specific fields.
+ */
+interface IyzicoResponse {
+  status: 'success' | 'failure';
+  errorCode?: string;
+  errorMessage?: string;
+  conversationId?: string;
+  [key: string]: any;
+}
+
+interface IyzicoItemTransaction {
+  paymentTransactionId: string;
+  itemId: string;
+  paidPrice: number;
+}
+
+/**
+ * iyzico marketplace adapter (3DS + escrow-style item approval)
+ * Based on: https://docs.iyzico.com/en/payment-methods/api/3ds
+ *
+ * Translates the provider-agnostic (PAYNET-shaped) request/response objects
+ * to iyzico's camelCase API. Escrow maps onto iyzico's marketplace "item
+ * approval": an approved item is settled to the merchant, an unapproved
+ * payment can still be cancelled back to the card holder.
+ *
+ * Point IYZICO_API_URL at a local stub to run the full flow without the
+ * iyzico sandbox.
+ */
+@Injectable()
+export class IyzicoProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'iyzico';
+  // iyzico reports 3DS results through callbackUrl (the 3D callback); its
+  // merchant panel notifications are not wired up
+  readonly confirmationPath = null;
+  readonly requiresBuyerProfile = true;
+  private readonly logger = new Logger(IyzicoProvider.name);
+  private readonly config: IyzicoConfig;
+  private readonly requestTimeout: number = 30000; // 30 seconds
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.config = this.configService.get<IyzicoConfig>('iyzico', { infer: true });
+
+    if (!this.config.apiUrl || !this.config.apiKey || !this.config.secretKey) {
+      this.logger.warn('iyzico configuration incomplete. iyzico payments will fail.');
+    }
+  }
+
+  async initiate3DPayment(request: Provider3DPaymentRequest): Promise<Provider3DPaymentResponse> {
+    const buyer = request.buyer;
+    if (!buyer) {
+      // PaymentsService loads it for requiresBuyerProfile providers
+      throw new BadRequestException('iyzico payments require the payer profile');
+    }
+
+    const price = request.amount.toFixed(2);
+
+    const response = await this.request('/payment/3dsecure/initialize', {
+      locale: 'tr',
+      conversationId: request.reference_no,
+      price,
+      paidPrice: price,
+      currency: 'TRY',
+      installment: request.instalment || 1,
+      basketId: request.reference_no,
+      paymentChannel: 'WEB',
+      paymentGroup: 'PRODUCT',
+      callbackUrl: request.return_url,
+      paymentCard: this.toPaymentCard(request),
+      // iyzico requires buyer/address blocks, filled from the payer's userprofile
+      buyer: {
+        id: request.reference_no,
+        name: buyer.first_name,
+        surname: buyer.last_name,
+        email: buyer.email,
+        identityNumber: buyer.identity_number,
+        gsmNumber: buyer.phone,
+        registrationAddress: buyer.address,
+        city: buyer.city,
+        country: 'Turkey',
+      },
+      billingAddress: {
+        contactName: request.card_holder || `${buyer.first_name} ${buyer.last_name}`,
+        city: buyer.city,
+        country: 'Turkey',
+        address: buyer.address,
+      },
+      basketItems: [
+        {
+          id: request.reference_no,
+          name: request.description || 'iFoundAnApple',
+          category1: 'Service',
+          itemType: 'VIRTUAL',
+          price,
+        },
+      ],
+    });
+
+    if (response.status !== 'success') {
+      throw new InternalServerErrorException(
+        `Payment initiation failed: ${response.errorMessage || 'Unknown error'}`,
+      );
+    }
+
+    return {
+      success: true,
+      // iyzico identifies the 3D session by our conversationId
+      session_id: request.reference_no,
+      html_content: response.threeDSHtmlContent
+        ? Buffer.from(response.threeDSHtmlContent, 'base64').toString('utf8')
+        : undefined,
+    };
+  }
+
+  parse3DCallback(body: Record<string, any>): Provider3DCallbackParams | null {
+    if (!body.conversationId || !body.paymentId) {
+      return null;
+    }
+
+    return { session_id: body.conversationId, token_id: body.paymentId };
+  }
+
+  async complete3DPayment(request: Provider3DCompleteRequest): Promise<ProviderPaymentResponse> {
+    const response = await this.request('/payment/3dsecure/auth', {
+      locale: 'tr',
+      conversationId: request.session_id,
+      paymentId: request.token_id,
+    });
+
+    if (response.status !== 'success') {
+      return {
+        success: false,
+        is_succeed: false,
+        error: response.errorCode,
+        message: response.errorMessage || 'Payment was not successful',
+      };
+    }
+
+    return this.toPaymentResponse(response, new Date().toISOString());
+  }
+
+  /**
+   * iyzico finds a payment by the conversationId we sent (our reference_no)
+   */
+  async findTransaction(referenceNo: string): Promise<ProviderPaymentResponse | null> {
+    const response = await this.request('/payment/detail', {
+      locale: 'tr',
+      conversationId: referenceNo,
+      paymentConversationId: referenceNo,
+    });
+
+    // iyzico answers "failure" when it has no payment for the conversation
+    if (response.status !== 'success' || !response.paymentId) {
+      return null;
+    }
+
+    if (response.paymentStatus !== 'SUCCESS') {
+      return {
+        success: false,
+        is_succeed: false,
+        transaction_id: response.paymentId,
+        xact_id: response.paymentId,
+        status: response.paymentStatus,
+        message: `iyzico payment status: ${response.paymentStatus}`,
+      };
+    }
+
+    return this.toPaymentResponse(
+      response,
+      response.systemTime ? new Date(response.systemTime).toISOString() : new Date().toISOString(),
+    );
+  }
+
+  /**
+   * iyzico's hosted checkout form reports its result through a token that
+   * must be retrieved server-side, not through a PAYNET-style confirmation
+   * webhook, so hosted_page mode isn't available on iyzico yet.
+   */
+  async createHostedPaymentPage(): Promise<ProviderHostedPageResponse> {
+    throw new InternalServerErrorException(
+      'Hosted payment page is not supported by the iyzico provider. Use direct_3ds mode.',
+    );
+  }
+
+  async releaseEscrowPayment(
+    transactionId: string,
+    note?: string,
+  ): Promise<ProviderPaymentResponse> {
+    this.logger.log(`Approving iyzico payment items: paymentId=${transactionId}`);
+    const items = await this.getItemTransactions(transactionId);
+
+    for (const item of items) {
+      const response = await this.request('/payment/iyzipos/item/approve', {
+        locale: 'tr',
+        conversationId: transactionId,
+        paymentTransactionId: item.paymentTransactionId,
+      });
+
+      if (response.status !== 'success') {
+        throw new InternalServerErrorException(
+          `Escrow release failed: ${response.errorMessage || 'Unknown error'}`,
+        );
+      }
+    }
+
+    return { success: true, transaction_id: transactionId, message: note };
+  }
+
+  async rejectEscrowPayment(
+    transactionId: string,
+    note?: string,
+  ): Promise<ProviderPaymentResponse> {
+    this.logger.log(`Cancelling iyzico payment: paymentId=${transactionId}`);
+    const response = await this.request('/payment/cancel', {
+      locale: 'tr',
+      conversationId: transactionId,
+      paymentId: transactionId,
+      description: note,
+    });
+
+    if (response.status !== 'success') {
+      throw new InternalServerErrorException(
+        `Escrow rejection failed: ${response.errorMessage || 'Unknown error'}`,
+      );
+    }
+
+    return { success: true, transaction_id: transactionId };
+  }
+
+  /**
+   * iyzico refunds per item transaction; the amount is taken from the
+   * items in order
+   */
+  async refundPayment(
+    transactionId: string,
+    amount: number,
+    note?: string,
+  ): Promise<ProviderPaymentResponse> {
+    this.logger.log(`Refunding iyzico payment: paymentId=${transactionId}, amount=${amount}`);
+    const items = await this.getItemTransactions(transactionId);
+
+    let remaining = Money.fromMajor(amount);
+    for (const item of items) {
+      if (remaining.minor <= 0) {
+        break;
+      }
+      const paid = Money.fromMajor(item.paidPrice);
+      const price = remaining.subtract(paid).isNegative() ? remaining : paid;
+      const response = await this.request('/payment/refund', {
+        locale: 'tr',
+        conversationId: transactionId,
+        paymentTransactionId: item.paymentTransactionId,
+        price: price.toString(),
+        currency: 'TRY',
+        description: note,
+      });
+
+      if (response.status !== 'success') {
+        throw new InternalServerErrorException(
+          `Refund failed: ${response.errorMessage || 'Unknown error'}`,
+        );
+      }
+      remaining = remaining.subtract(price);
+    }
+
+    if (remaining.minor > 0) {
+      throw new InternalServerErrorException(
+        `Refund failed: ${remaining} TRY more than the payment's items`,
+      );
+    }
+
+    return { success: true, transaction_id: transactionId, message: note };
+  }
+
+  async getPaymentStatus(transactionId: string): Promise<any> {
+    return this.request('/payment/detail', {
+      locale: 'tr',
+      conversationId: transactionId,
+      paymentId: transactionId,
+    });
+  }
+
+  /**
+   * iyzico charges a rate plus a fixed fee per transaction
+   * (iyziCommissionRateAmount + iyziCommissionFee); the fee is folded into
+   * the rate for this amount
+   */
+  singleChargeCommissionRate(amount: number): number {
+    return this.config.commissionRate + this.config.commissionFee / amount;
+  }
+
+  /**
+   * iyzico quotes installments as the total the card holder pays; the
+   * surcharge over the base price stands in for the commission rate.
+   */
+  async getInstallmentOptions(bin: string, amount: number): Promise<ProviderInstallmentResponse> {
+    const price = amount.toFixed(2);
+    const response = await this.request('/payment/iyzipos/installment', {
+      locale: 'tr',
+      binNumber: bin,
+      price,
+    });
+
+    const detail = response.installmentDetails?.[0];
+    if (response.status !== 'success' || !detail) {
+      throw new InternalServerErrorException(
+        `Installment options query failed: ${response.errorMessage || 'no installment details'}`,
+      );
+    }
+
+    return {
+      bank_name: detail.bankName,
+      card_brand: detail.cardAssociation,
+      options: detail.installmentPrices.map(
+        (installmentPrice: { installmentNumber: number; totalPrice: number }) => ({
+          instalment: Number(installmentPrice.installmentNumber),
+          commission_rate: Math.max(Number(installmentPrice.totalPrice) / amount - 1, 0),
+        }),
+      ),
+    };
+  }
+
+  async deleteStoredCard(userUniqueId: string, cardHash: string): Promise<void> {
+    const response = await this.request(
+      '/cardstorage/card',
+      { locale: 'tr', cardUserKey: userUniqueId, cardToken: cardHash },
+      'DELETE',
+    );
+
+    if (response.status !== 'success') {
+      throw new InternalServerErrorException(
+        `Stored card deletion failed: ${response.errorMessage || 'Unknown error'}`,
+      );
+    }
+  }
+
+  getPublishableKey(): string {
+    // iyzico has no client-side key - the checkout is fully server-driven
+    return '';
+  }
+
+  /**
+   * iyzico takes either a stored card (cardUserKey + cardToken) or the raw
+   * card, optionally registered to the card owner key with registerCard
+   */
+  private toPaymentCard(request: Provider3DPaymentRequest): Record<string, unknown> {
+    if (request.card_hash) {
+      return { cardUserKey: request.user_unique_id, cardToken: request.card_hash };
+    }
+
+    return {
+      cardHolderName: request.card_holder,
+      cardNumber: request.pan,
+      expireMonth: request.month,
+      expireYear: request.year,
+      cvc: request.cvc,
+      registerCard: request.save_card ? 1 : 0,
+      // Only an existing iyzico cardUserKey may be passed; iyzico issues one on first save
+      ...(request.save_card && request.user_unique_id
+        ? { cardUserKey: request.user_unique_id }
+        : {}),
+    };
+  }
+
+  private toPaymentResponse(response: IyzicoResponse, xactDate: string): ProviderPaymentResponse {
+    const paidPrice = Number(response.paidPrice);
+    const comission =
+      Number(response.iyziCommissionFee || 0) + Number(response.iyziCommissionRateAmount || 0);
+
+    return {
+      success: true,
+      is_succeed: true,
+      transaction_id: response.paymentId,
+      xact_id: response.paymentId,
+      xact_date: xactDate,
+      amount: paidPrice,
+      comission,
+      net_amount: paidPrice - comission,
+      bank_authorization_code: response.authCode,
+      bank_order_id: response.hostReference,
+      card_no_masked: `${response.binNumber}******${response.lastFourDigits}`,
+      card_brand_name: response.cardAssociation,
+      card_type: response.cardType,
+      card_hash: response.cardToken,
+      user_unique_id: response.cardUserKey,
+    };
+  }
+
+  private async getItemTransactions(paymentId: string): Promise<IyzicoItemTransaction[]> {
+    const detail = await this.getPaymentStatus(paymentId);
+    if (detail.status !== 'success' || !Array.isArray(detail.itemTransactions)) {
+      throw new InternalServerErrorException(
+        `Could not load iyzico payment ${paymentId}: ${detail.errorMessage || 'no item transactions'}`,
+      );
+    }
+    return detail.itemTransactions;
+  }
+
+  /**
+   * Call iyzico with IYZWSv2 authentication:
+   * HMAC-SHA256(secretKey, randomKey + uriPath + body), wrapped with the
+   * API key and random key in a base64 Authorization header.
+   */
+  private async request(
+    path: string,
+    body: Record<string, any>,
+    method: 'POST' | 'DELETE' = 'POST',
+  ): Promise<IyzicoResponse> {
+    const randomKey = `${Date.now()}${randomBytes(4).toString('hex')}`;
+    const payload = JSON.stringify(body);
+    const signature = createHmac('sha256', this.config.secretKey)
+      .update(randomKey + path + payload)
+      .digest('hex');
+    const authorization = Buffer.from(
+      `apiKey:${this.config.apiKey}&randomKey:${randomKey}&signature:${signature}`,
+    ).toString('base64');
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.request<IyzicoResponse>({
+          method,
+          url: `${this.config.apiUrl}${path}`,
+          data: payload,
+          headers: {
+            Authorization: `IYZWSv2 ${authorization}`,
+            'x-iyzi-rnd': randomKey,
+            'Content-Type': 'application/json',
+          },
+          timeout: this.requestTimeout,
+        }),
+      );
+
+      if (response.data.status !== 'success') {
+        this.logger.warn(
+          `iyzico ${path} failed: ${response.data.errorCode} ${response.data.errorMessage}`,
+        );
+      }
+
+      return response.data;
+    } catch (error: any) {
+      this.logger.error(`iyzico API error on ${path}: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(
+        `Payment provider error: ${error.response?.data?.errorMessage || error.message}`,
+      );
+    }
+  }
+}
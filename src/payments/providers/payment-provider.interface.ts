@@ -0,0 +1,231 @@
+/**
+ * Provider-agnostic payment contract.
+ *
+ * Request/response shapes deliberately mirror PAYNET's snake_case wire
+ * format: PAYNET was the first provider and PaymentsService was written
+ * against those field names. Other providers translate to and from this
+ * shape inside their own adapter so the payment state logic never has to
+ * know which provider it is talking to.
+ */
+
+export const PAYMENT_PROVIDERS = Symbol('PAYMENT_PROVIDERS');
+
+export type PaymentProviderName = 'paynet' | 'iyzico';
+
+/**
+ * 3D Secure payment initiation request
+ */
+export interface Provider3DPaymentRequest {
+  amount: number; // Çekilecek tutar
+  reference_no: string; // Our payment ID, used as the provider's order reference
+  return_url: string; // 3D doğrulama sonucunun post edileceği URL
+  confirmation_url?: string; // Server-to-server confirmation (webhook) URL
+  domain: string; // Domain of the application initiating the payment
+  is_escrow?: boolean; // Funds are held until we approve or reject them
+  // Raw card data - only sent when paying with a new card
+  card_holder?: string;
+  pan?: string;
+  month?: string; // MM
+  year?: string; // YY or YYYY
+  cvc?: string;
+  // Stored card - replaces the raw card fields
+  card_hash?: string; // Provider token of a saved card
+  user_unique_id?: string; // Provider-side card owner key the saved cards belong to
+  save_card?: boolean; // Ask the provider to store the new card under user_unique_id
+  description?: string;
+  instalment?: number; // Taksit sayısı, 1 = tek çekim
+  customer_email?: string;
+  customer_name?: string;
+  customer_phone?: string;
+  buyer?: ProviderBuyer; // Set for providers with requiresBuyerProfile
+}
+
+/**
+ * Payer identity and address from userprofile (email from the auth
+ * account), for providers that must send them with the charge (iyzico)
+ */
+export interface ProviderBuyer {
+  first_name: string;
+  last_name: string;
+  email: string;
+  identity_number: string; // TC Kimlik No
+  address: string;
+  city: string;
+  phone?: string;
+}
+
+/**
+ * 3D Secure payment initiation response
+ */
+export interface Provider3DPaymentResponse {
+  success: boolean;
+  transaction_id?: string;
+  session_id?: string; // Identifies the 3D session when the provider posts back to return_url
+  post_url?: string; // 3D doğrulama sayfası URL'i
+  html_content?: string; // 3D doğrulama HTML içeriği
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Identifiers a provider posts back to return_url after 3D verification
+ */
+export interface Provider3DCallbackParams {
+  session_id: string; // Matched against payments.session_id
+  token_id: string;
+}
+
+/**
+ * Installment (taksit) option the provider offers for a card BIN
+ */
+export interface ProviderInstallmentOption {
+  instalment: number; // Taksit sayısı, 1 = tek çekim
+  commission_rate: number; // Gateway commission as a fraction of the amount (0.0343 = 3.43%)
+}
+
+export interface ProviderInstallmentResponse {
+  bank_name?: string;
+  card_brand?: string;
+  options: ProviderInstallmentOption[];
+}
+
+/**
+ * Hosted (common) payment page order request. The provider collects the
+ * card on its own page, so there are no card fields.
+ */
+export interface ProviderHostedPageRequest {
+  amount: number;
+  reference_no: string; // Our payment ID, used as the provider's order reference
+  return_url: string; // Where the provider sends the browser after the payment
+  confirmation_url?: string; // Server-to-server confirmation (webhook) URL
+  domain: string;
+  is_escrow?: boolean;
+  description?: string;
+}
+
+export interface ProviderHostedPageResponse {
+  success: boolean;
+  url?: string; // Payment page the client opens
+  transaction_id?: string; // Provider ID of the payment order
+  error?: string;
+  message?: string;
+}
+
+/**
+ * 3D Secure completion request, built from the return_url callback
+ */
+export interface Provider3DCompleteRequest {
+  session_id: string;
+  token_id: string;
+  transaction_type?: number; // 1 = Satış, 3 = Ön provizyon
+}
+
+/**
+ * Charge / escrow operation response. The optional transaction detail
+ * fields are only present on a completed charge.
+ */
+export interface ProviderPaymentResponse {
+  success: boolean;
+  transaction_id?: string;
+  status?: string;
+  error?: string;
+  message?: string;
+  is_succeed?: boolean;
+  xact_id?: string;
+  xact_date?: string;
+  amount?: number;
+  net_amount?: number;
+  comission?: number;
+  bank_authorization_code?: string;
+  bank_order_id?: string;
+  bank_reference_code?: string;
+  bank_name?: string;
+  card_no_masked?: string;
+  card_brand_name?: string;
+  card_type?: string;
+  card_hash?: string; // Set when the card was stored (save_card)
+  user_unique_id?: string; // Card owner key the stored card belongs to
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * Our route (below /v1) the provider posts server-to-server payment
+   * confirmations to, or null when the provider has none wired up - its
+   * payments are confirmed by the 3D callback and reconciliation only, and
+   * hosted_page mode is unavailable.
+   */
+  readonly confirmationPath: string | null;
+
+  /**
+   * The provider needs the payer's identity number and address (buyer)
+   */
+  readonly requiresBuyerProfile: boolean;
+
+  initiate3DPayment(request: Provider3DPaymentRequest): Promise<Provider3DPaymentResponse>;
+
+  /**
+   * Extract the 3D session identifiers from the provider's return_url POST
+   * body. Returns null when the body doesn't carry them.
+   */
+  parse3DCallback(body: Record<string, any>): Provider3DCallbackParams | null;
+
+  complete3DPayment(request: Provider3DCompleteRequest): Promise<ProviderPaymentResponse>;
+
+  /**
+   * Create a payment order on the provider's hosted payment page. The
+   * result arrives through the confirmation_url webhook, not complete3DPayment.
+   */
+  createHostedPaymentPage(request: ProviderHostedPageRequest): Promise<ProviderHostedPageResponse>;
+
+  /**
+   * Approve an escrowed transaction so the provider settles it to us
+   */
+  releaseEscrowPayment(transactionId: string, note?: string): Promise<ProviderPaymentResponse>;
+
+  /**
+   * Reject an escrowed transaction so the provider refunds the card holder
+   */
+  rejectEscrowPayment(transactionId: string, note?: string): Promise<ProviderPaymentResponse>;
+
+  /**
+   * Refund part of an approved (released) transaction to the card holder
+   */
+  refundPayment(
+    transactionId: string,
+    amount: number,
+    note?: string,
+  ): Promise<ProviderPaymentResponse>;
+
+  getPaymentStatus(transactionId: string): Promise<any>;
+
+  /**
+   * Look up the charge for our reference_no at the provider. Returns null
+   * when the provider has no transaction for it (the charge never ran);
+   * throws when the provider can't be asked.
+   */
+  findTransaction(referenceNo: string): Promise<ProviderPaymentResponse | null>;
+
+  /**
+   * Commission rate of a single charge (tek çekim) of `amount`, as a
+   * fraction of the amount; what the provider reports as its commission
+   * must match it within the commission tolerance
+   */
+  singleChargeCommissionRate(amount: number): number;
+
+  /**
+   * Installment options and their commission rates for a card BIN
+   */
+  getInstallmentOptions(bin: string, amount: number): Promise<ProviderInstallmentResponse>;
+
+  /**
+   * Remove a stored card from the provider's card vault
+   */
+  deleteStoredCard(userUniqueId: string, cardHash: string): Promise<void>;
+
+  /**
+   * Key the frontend may use for provider-side widgets, if the provider has one
+   */
+  getPublishableKey(): string;
+}
@@ -0,0 +1,71 @@
+import { Inject, Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfiguration, PaymentsConfig } from '../../config/configuration';
+import { PAYMENT_PROVIDERS, PaymentProvider } from './payment-provider.interface';
+
+/**
+ * Resolves the PaymentProvider implementation for a payment.
+ *
+ * New payments use the provider selected by PAYMENT_PROVIDER and record its
+ * name in payments.payment_provider; every later step (3D completion,
+ * escrow release/refund) resolves the provider from that column so a
+ * payment always finishes on the provider it started on, even if the
+ * default is switched in between.
+ */
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly logger = new Logger(PaymentProviderRegistry.name);
+  private readonly providers = new Map<string, PaymentProvider>();
+  private readonly defaultProviderName: string;
+
+  constructor(
+    @Inject(PAYMENT_PROVIDERS) providers: PaymentProvider[],
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+
+    this.defaultProviderName = this.configService.get<PaymentsConfig>('payments', {
+      infer: true,
+    }).provider;
+
+    if (!this.providers.has(this.defaultProviderName)) {
+      this.logger.error(
+        `PAYMENT_PROVIDER '${this.defaultProviderName}' is not registered. Available: ${[
+          ...this.providers.keys(),
+        ].join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Provider used for newly created payments
+   */
+  getDefault(): PaymentProvider {
+    return this.get(this.defaultProviderName);
+  }
+
+  /**
+   * Provider for an existing payment, by payments.payment_provider.
+   * Falls back to PAYNET for rows without a registered provider name - every
+   * payment created before the registry existed went through PAYNET.
+   */
+  getForPayment(payment: { payment_provider?: string | null }): PaymentProvider {
+    const name = payment.payment_provider;
+    if (name && this.providers.has(name)) {
+      return this.providers.get(name)!;
+    }
+
+    return this.get('paynet');
+  }
+
+  get(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new InternalServerErrorException(`Payment provider not configured: ${name}`);
+    }
+
+    return provider;
+  }
+}
@@ -7,6 +7,19 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { AppConfiguration } from '../../config/configuration';
+import { SINGLE_CHARGE_COMMISSION_RATE } from '../services/fee-validation.service';
+import {
+  PaymentProvider,
+  PaymentProviderName,
+  Provider3DCallbackParams,
+  Provider3DCompleteRequest,
+  Provider3DPaymentRequest,
+  Provider3DPaymentResponse,
+  ProviderHostedPageRequest,
+  ProviderHostedPageResponse,
+  ProviderInstallmentResponse,
+  ProviderPaymentResponse,
+} from './payment-provider.interface';
 
 interface PaynetConfig {
   apiUrl: string;
@@ -18,72 +31,55 @@ interface PaynetConfig {
 /**
  * PAYNET 3D ile Ödeme Request (3D Secure payment)
  * Based on: https://doc.paynet.com.tr/oedeme-metotlari/api-entegrasyonu/3d-ile-odeme
- * 
+ *
  * Endpoint: POST /v2/transaction/tds_initial
- * 
- * Field names use snake_case format (PAYNET standard)
+ *
+ * Field names use snake_case format (PAYNET standard) - the provider-agnostic
+ * request shape in payment-provider.interface.ts is PAYNET's wire format, so
+ * it is posted as-is.
  */
-interface Paynet3DPaymentRequest {
-  amount: number; // Çekilecek tutar
-  reference_no: string; // İşleme ait benzersiz referans numarası (order_id)
-  return_url: string; // 3D doğrulama sonucunun post edileceği URL - ZORUNLU
-  confirmation_url?: string; // Ödeme işlemi tamamlandığında webhook gönderilecek URL - OPSİYONEL ama önerilir
-  domain: string; // İşlemin yapıldığı uygulamanın domain bilgisi - ZORUNLU
-  is_escrow?: boolean; // PAYNET escrow özelliği - ödeme ana firma onayına tabi olur
-  // Kart bilgileri (saklı kart kullanılmıyorsa zorunlu)
-  card_holder?: string; // Kart sahibi bilgisi
-  pan?: string; // Kart numarası
-  month?: string; // Son kullanma tarihi ay bilgisi (MM formatında)
-  year?: string; // Son kullanma tarihi yıl bilgisi (YY veya YYYY formatında)
-  cvc?: string; // CVV/CVC kodu
-  // Opsiyonel parametreler
-  description?: string;
-  installments?: number; // Taksit sayısı
-  customer_email?: string;
-  customer_name?: string;
-  customer_phone?: string;
-}
+type Paynet3DPaymentRequest = Provider3DPaymentRequest;
 
 /**
  * PAYNET 3D Ödeme Başlatma Response
  */
-interface Paynet3DPaymentResponse {
-  success: boolean;
-  transaction_id?: string;
-  session_id?: string;
-  post_url?: string; // 3D doğrulama sayfası URL'i
-  html_content?: string; // 3D doğrulama HTML içeriği
-  error?: string;
-  message?: string;
-}
+type Paynet3DPaymentResponse = Provider3DPaymentResponse;
 
 /**
  * PAYNET 3D Ödeme Tamamlama Request
  * 3D doğrulama sonrası return_url'den gelen session_id ve token_id ile
- * 
+ *
  * Endpoint: POST /v2/transaction/tds_charge
- * 
- * Field names use snake_case format (PAYNET standard)
  */
-interface Paynet3DCompleteRequest {
-  session_id: string; // 3D ödeme akışının oturum bilgisi - ZORUNLU
-  token_id: string; // İşlemin token bilgisi - ZORUNLU
-  transaction_type?: number; // İşlem tipi: 1 = Satış, 3 = Ön provizyon (varsayılan: 1)
-}
+type Paynet3DCompleteRequest = Provider3DCompleteRequest;
 
 /**
  * PAYNET Ödeme Response (3D'siz veya 3D tamamlama sonrası)
  */
-interface PaynetPaymentResponse {
-  success: boolean;
-  transaction_id?: string;
-  status?: string;
-  error?: string;
+type PaynetPaymentResponse = ProviderPaymentResponse;
+
+/**
+ * PAYNET Taksit Oranları Response
+ *
+ * Endpoint: POST /v1/ratio/get
+ * One entry per bank; ratio is the merchant commission as a fraction.
+ */
+interface PaynetRatioResponse {
+  code?: number;
   message?: string;
+  data?: Array<{
+    bank_id: string;
+    bank_name: string;
+    card_brand?: string;
+    ratio: Array<{ instalment: number; ratio: number }>;
+  }>;
 }
 
 @Injectable()
-export class PaynetProvider {
+export class PaynetProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'paynet';
+  readonly confirmationPath = 'webhooks/paynet-callback';
+  readonly requiresBuyerProfile = false;
   private readonly logger = new Logger(PaynetProvider.name);
   private readonly config: PaynetConfig;
   private readonly requestTimeout: number = 30000; // 30 seconds
@@ -298,6 +294,17 @@ export class PaynetProvider {
     }
   }
 
+  /**
+   * PAYNET posts session_id and token_id to return_url after 3D verification
+   */
+  parse3DCallback(body: Record<string, any>): Provider3DCallbackParams | null {
+    if (!body.session_id || !body.token_id) {
+      return null;
+    }
+
+    return { session_id: body.session_id, token_id: body.token_id };
+  }
+
   /**
    * Complete 3D Secure payment after verification
    * Called after user completes 3D verification on bank's page
@@ -397,28 +404,64 @@ export class PaynetProvider {
   }
 
   /**
-   * Get publishable key for frontend integration
-   * This key can be safely exposed to frontend
+   * Create a payment order on PAYNET's common payment page (Ortak Ödeme Sayfası)
+   * Based on: https://doc.paynet.com.tr/oedeme-metotlari/ortak-odeme-sayfasi/odeme-emri-olusturma
+   *
+   * Endpoint: POST /v1/paylink/create
+   * The card is entered on PAYNET's page; PAYNET posts the result to
+   * confirmation_url (same payload as the 3D flow) and redirects the
+   * browser to return_url.
    */
-  getPublishableKey(): string {
-    return this.config.publishableKey;
+  async createHostedPaymentPage(
+    request: ProviderHostedPageRequest,
+  ): Promise<ProviderHostedPageResponse> {
+    const baseUrl = this.config.apiUrl.replace(/\/v[12]\/?$/, '');
+    const endpoint = `${baseUrl}/v1/paylink/create`;
+
+    this.logger.log(`Creating hosted payment page: reference_no=${request.reference_no}`);
+
+    try {
+      // Retrying with the same reference_no returns the existing order
+      const response = await this.executeWithRetry<{ data: ProviderHostedPageResponse }>(
+        () =>
+          firstValueFrom(
+            this.httpService.post<ProviderHostedPageResponse>(endpoint, request, {
+              headers: {
+                Authorization: `Basic ${this.config.secretKey}`,
+                'Content-Type': 'application/json',
+              },
+              timeout: this.requestTimeout,
+            }),
+          ),
+        'Hosted Payment Page Creation',
+      );
+
+      if (!response.data.url || response.data.success === false) {
+        const errorMessage = response.data.error || response.data.message || 'Unknown error';
+        throw new InternalServerErrorException(`Payment page creation failed: ${errorMessage}`);
+      }
+
+      this.logger.log(`Hosted payment page created: reference_no=${request.reference_no}`);
+      return response.data;
+    } catch (error: any) {
+      this.logger.error(`PAYNET hosted page error: ${error.message}`, error.stack);
+
+      if (error instanceof InternalServerErrorException) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(
+        `Payment provider error: ${error.response?.data?.message || error.message}`,
+      );
+    }
   }
 
   /**
-   * Verify webhook signature from PAYNET
-   * Uses Secret Key for HMAC-SHA256 signature verification
+   * Get publishable key for frontend integration
+   * This key can be safely exposed to frontend
    */
-  verifyWebhookSignature(
-    payload: string,
-    signature: string,
-    timestamp: string,
-  ): boolean {
-    // TODO: Implement PAYNET signature verification
-    // This is CRITICAL for security - never skip this step
-    // PAYNET typically uses HMAC-SHA256 with secret key
-    // Example: HMAC-SHA256(payload + timestamp, secretKey) === signature
-    this.logger.warn('Webhook signature verification not yet implemented');
-    return true; // Temporary - MUST be implemented before production
+  getPublishableKey(): string {
+    return this.config.publishableKey;
   }
 
   /**
@@ -570,6 +613,67 @@ export class PaynetProvider {
     }
   }
 
+  /**
+   * Refund part of an approved transaction (İade)
+   * Based on: https://doc.paynet.com.tr/servisler/islem/iade
+   *
+   * Not retried: a refund whose response was lost may still have run, and
+   * a second request would refund twice.
+   */
+  async refundPayment(
+    xactId: string,
+    amount: number,
+    note?: string,
+  ): Promise<PaynetPaymentResponse> {
+    try {
+      const baseUrl = this.config.apiUrl.replace(/\/v1\/?$/, '');
+      const endpoint = `${baseUrl}/v1/transaction/reversed_request`;
+
+      this.logger.log(`Refunding payment: xact_id=${xactId}, amount=${amount}`);
+
+      const requestBody: {
+        xact_id: string;
+        amount: number;
+        note?: string;
+      } = {
+        xact_id: xactId,
+        amount,
+      };
+
+      if (note && note.length <= 256) {
+        requestBody.note = note;
+      }
+
+      const response = await this.executeWithRetry<{ data: PaynetPaymentResponse }>(
+        () =>
+          firstValueFrom(
+            this.httpService.post<PaynetPaymentResponse>(endpoint, requestBody, {
+              headers: {
+                Authorization: `Basic ${this.config.secretKey}`,
+                'Content-Type': 'application/json',
+              },
+              timeout: this.requestTimeout,
+            }),
+          ),
+        'Refund',
+        1,
+      );
+
+      if (!response.data.success) {
+        this.logger.error(`PAYNET refund failed: ${response.data.error || response.data.message}`);
+        throw new InternalServerErrorException(
+          `Refund failed: ${response.data.error || response.data.message}`,
+        );
+      }
+
+      this.logger.log(`Payment refunded: xact_id=${xactId}, amount=${amount}`);
+      return response.data;
+    } catch (error: any) {
+      this.logger.error(`PAYNET refund error: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(`Refund error: ${error.message}`);
+    }
+  }
+
   /**
    * Get payment status from PAYNET
    * Based on PAYNET API documentation
@@ -604,6 +708,11 @@ export class PaynetProvider {
 
       return response.data;
     } catch (error: any) {
+      // PAYNET has no transaction with this ID
+      if (error.response?.status === 404) {
+        return null;
+      }
+
       this.logger.error(
         `PAYNET status check error: ${error.message}`,
         error.stack,
@@ -618,5 +727,113 @@ export class PaynetProvider {
       );
     }
   }
-}
 
+  /**
+   * Transaction for our reference_no. The transaction query accepts the
+   * reference_no as well as the xact_id, so this also finds charges whose
+   * tds_charge response or webhook never reached us.
+   */
+  async findTransaction(referenceNo: string): Promise<PaynetPaymentResponse | null> {
+    const status = await this.getPaymentStatus(referenceNo);
+    // Query responses may list the transaction under data
+    const detail = Array.isArray(status?.data) ? status.data[0] : status;
+    if (!detail?.xact_id && !detail?.transaction_id) {
+      return null;
+    }
+
+    const isSucceed = detail.is_succeed === true || detail.is_succeed === 'true';
+    return { ...detail, success: isSucceed, is_succeed: isSucceed };
+  }
+
+  singleChargeCommissionRate(): number {
+    return SINGLE_CHARGE_COMMISSION_RATE;
+  }
+
+  /**
+   * Get installment (taksit) commission rates for a card BIN
+   * Endpoint: POST /v1/ratio/get
+   */
+  async getInstallmentOptions(bin: string, amount: number): Promise<ProviderInstallmentResponse> {
+    const baseUrl = this.config.apiUrl.replace(/\/v[12]\/?$/, '');
+    const endpoint = `${baseUrl}/v1/ratio/get`;
+
+    try {
+      const response = await this.executeWithRetry<{ data: PaynetRatioResponse }>(
+        () =>
+          firstValueFrom(
+            this.httpService.post<PaynetRatioResponse>(
+              endpoint,
+              { bin, amount },
+              {
+                headers: {
+                  Authorization: `Basic ${this.config.secretKey}`,
+                  'Content-Type': 'application/json',
+                },
+                timeout: this.requestTimeout,
+              },
+            ),
+          ),
+        'Installment Ratio Query',
+      );
+
+      const bank = response.data.data?.[0];
+      if (!bank) {
+        throw new Error(response.data.message || `No installment ratios for BIN ${bin}`);
+      }
+
+      return {
+        bank_name: bank.bank_name,
+        card_brand: bank.card_brand,
+        options: bank.ratio.map((ratio) => ({
+          instalment: Number(ratio.instalment),
+          commission_rate: Number(ratio.ratio),
+        })),
+      };
+    } catch (error: any) {
+      this.logger.error(`PAYNET ratio query error: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(
+        `Installment options query failed: ${error.response?.data?.message || error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Delete a card stored with save_card from PAYNET's card vault
+   * Endpoint: POST /v1/card/delete
+   */
+  async deleteStoredCard(userUniqueId: string, cardHash: string): Promise<void> {
+    const baseUrl = this.config.apiUrl.replace(/\/v[12]\/?$/, '');
+    const endpoint = `${baseUrl}/v1/card/delete`;
+
+    this.logger.log(`Deleting stored card: user_unique_id=${userUniqueId}`);
+
+    try {
+      const response = await this.executeWithRetry<{ data: PaynetPaymentResponse }>(
+        () =>
+          firstValueFrom(
+            this.httpService.post<PaynetPaymentResponse>(
+              endpoint,
+              { user_unique_id: userUniqueId, card_hash: cardHash },
+              {
+                headers: {
+                  Authorization: `Basic ${this.config.secretKey}`,
+                  'Content-Type': 'application/json',
+                },
+                timeout: this.requestTimeout,
+              },
+            ),
+          ),
+        'Stored Card Deletion',
+      );
+
+      if (response.data.success === false) {
+        throw new Error(response.data.message || response.data.error || 'Unknown error');
+      }
+    } catch (error: any) {
+      this.logger.error(`PAYNET card deletion error: ${error.message}`, error.stack);
+      throw new InternalServerErrorException(
+        `Stored card deletion failed: ${error.response?.data?.message || error.message}`,
+      );
+    }
+  }
+}
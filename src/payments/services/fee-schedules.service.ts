@@ -0,0 +1,306 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { CreateFeeScheduleDto, FeeScheduleDto } from '../dto/fee-schedule.dto';
+
+interface FeeScheduleRecord {
+  id: string;
+  device_model_name: string | null;
+  device_category: string | null;
+  version: number;
+  reward_rate: number | string | null;
+  min_reward: number | string | null;
+  max_reward: number | string | null;
+  cargo_company_code: string | null;
+  effective_from: string;
+  effective_to: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+/**
+ * Device model fields a fee schedule is matched and priced against
+ */
+export interface FeeScheduleSubject {
+  modelName: string;
+  category: string | null;
+  feePercentage: number | null; // device_models.fee_percentage, in percent
+}
+
+/**
+ * A fee schedule with every input resolved to a number, ready for
+ * FeeValidationService.buildBreakdown
+ */
+export interface ResolvedFeeSchedule {
+  id: string;
+  version: number;
+  rewardRate: number;
+  minReward: number | null;
+  maxReward: number | null;
+  cargoFee: number;
+}
+
+/**
+ * Versioned fee policies (fee_schedules table).
+ *
+ * Versions are immutable: a policy change is a new version for the same
+ * scope, and a version stops applying when its effective_to passes. For a
+ * device the most specific schedule in effect wins - model, then
+ * category, then the default schedule.
+ */
+@Injectable()
+export class FeeSchedulesService {
+  private readonly logger = new Logger(FeeSchedulesService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  async list(): Promise<FeeScheduleDto[]> {
+    const { data, error } = await this.supabase
+      .from('fee_schedules')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      this.logger.error(`Failed to list fee schedules: ${error.message}`, error);
+      throw new BadRequestException('Failed to list fee schedules');
+    }
+
+    return (data as FeeScheduleRecord[]).map((schedule) => this.toDto(schedule));
+  }
+
+  async getById(id: string): Promise<FeeScheduleDto> {
+    return this.toDto(await this.findRecord(id));
+  }
+
+  async create(dto: CreateFeeScheduleDto, adminUserId: string): Promise<FeeScheduleDto> {
+    if (dto.deviceModelName && dto.deviceCategory) {
+      throw new BadRequestException('Set either deviceModelName or deviceCategory, not both');
+    }
+    if (
+      dto.minReward !== undefined &&
+      dto.maxReward !== undefined &&
+      dto.minReward > dto.maxReward
+    ) {
+      throw new BadRequestException('minReward cannot be greater than maxReward');
+    }
+
+    const effectiveFrom = dto.effectiveFrom ?? new Date().toISOString();
+    if (dto.effectiveTo && new Date(dto.effectiveTo) <= new Date(effectiveFrom)) {
+      throw new BadRequestException('effectiveTo must be after effectiveFrom');
+    }
+
+    if (dto.cargoCompanyCode) {
+      // Fail now rather than on the first payment priced with this version
+      await this.getCargoFee(dto.cargoCompanyCode);
+    }
+
+    let versionQuery = this.supabase
+      .from('fee_schedules')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1);
+    versionQuery = dto.deviceModelName
+      ? versionQuery.eq('device_model_name', dto.deviceModelName)
+      : versionQuery.is('device_model_name', null);
+    versionQuery = dto.deviceCategory
+      ? versionQuery.eq('device_category', dto.deviceCategory)
+      : versionQuery.is('device_category', null);
+    const { data: latest } = await versionQuery.maybeSingle();
+    const version = (latest?.version ?? 0) + 1;
+
+    const { data, error } = await this.supabase
+      .from('fee_schedules')
+      .insert({
+        device_model_name: dto.deviceModelName ?? null,
+        device_category: dto.deviceCategory ?? null,
+        version,
+        reward_rate: dto.rewardRate ?? null,
+        min_reward: dto.minReward ?? null,
+        max_reward: dto.maxReward ?? null,
+        cargo_company_code: dto.cargoCompanyCode ?? null,
+        effective_from: effectiveFrom,
+        effective_to: dto.effectiveTo ?? null,
+        notes: dto.notes ?? null,
+        created_by: adminUserId,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Unique (scope, version): another admin created a version concurrently
+      if (error.code === '23505') {
+        throw new ConflictException('A new version of this fee schedule was just created, retry');
+      }
+      this.logger.error(`Failed to create fee schedule: ${error.message}`, error);
+      throw new BadRequestException('Failed to create fee schedule');
+    }
+
+    this.logger.log(
+      `Fee schedule created: ${data.id} (${this.describeScope(data)} v${version}) by ${adminUserId}`,
+    );
+    return this.toDto(data as FeeScheduleRecord);
+  }
+
+  /**
+   * End a version now. Payments already priced with it keep referencing it.
+   */
+  async retire(id: string, adminUserId: string): Promise<FeeScheduleDto> {
+    const schedule = await this.findRecord(id);
+    const now = new Date().toISOString();
+
+    if (schedule.effective_to && new Date(schedule.effective_to) <= new Date()) {
+      throw new BadRequestException('Fee schedule is already retired');
+    }
+
+    // A version that never took effect can't end before it started
+    const effectiveTo =
+      new Date(schedule.effective_from) > new Date() ? schedule.effective_from : now;
+    const { data, error } = await this.supabase
+      .from('fee_schedules')
+      .update({ effective_to: effectiveTo })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to retire fee schedule ${id}: ${error.message}`, error);
+      throw new BadRequestException('Failed to retire fee schedule');
+    }
+
+    this.logger.log(`Fee schedule retired: ${id} by ${adminUserId}`);
+    return this.toDto(data as FeeScheduleRecord);
+  }
+
+  /**
+   * Pick the schedule in effect for a device model and resolve its reward
+   * rate and cargo fee
+   */
+  async resolve(subject: FeeScheduleSubject): Promise<ResolvedFeeSchedule> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('fee_schedules')
+      .select('*')
+      .lte('effective_from', now)
+      .or(`effective_to.is.null,effective_to.gt.${now}`);
+
+    if (error) {
+      this.logger.error(`Failed to load fee schedules: ${error.message}`, error);
+      throw new BadRequestException('Failed to load fee schedules');
+    }
+
+    const schedules = data as FeeScheduleRecord[];
+    const tiers = [
+      schedules.filter((s) => s.device_model_name === subject.modelName),
+      schedules.filter((s) => !!subject.category && s.device_category === subject.category),
+      schedules.filter((s) => !s.device_model_name && !s.device_category),
+    ];
+    const candidates = tiers.find((tier) => tier.length > 0);
+    if (!candidates) {
+      this.logger.error(`No fee schedule in effect for model ${subject.modelName}`);
+      throw new NotFoundException(`Fee schedule not configured for: ${subject.modelName}`);
+    }
+
+    // Within a scope the newest version in effect applies
+    const schedule = candidates.sort(
+      (a, b) =>
+        new Date(b.effective_from).getTime() - new Date(a.effective_from).getTime() ||
+        b.version - a.version,
+    )[0];
+
+    let rewardRate = this.toNumber(schedule.reward_rate);
+    if (rewardRate === null) {
+      if (subject.feePercentage === null) {
+        throw new NotFoundException(
+          `Fee schedule ${schedule.id} has no reward rate and device model ${subject.modelName} has no fee_percentage`,
+        );
+      }
+      rewardRate = subject.feePercentage / 100;
+    }
+
+    return {
+      id: schedule.id,
+      version: schedule.version,
+      rewardRate,
+      minReward: this.toNumber(schedule.min_reward),
+      maxReward: this.toNumber(schedule.max_reward),
+      cargoFee: await this.getCargoFee(schedule.cargo_company_code),
+    };
+  }
+
+  /**
+   * Cargo fee from cargo_companies.base_fee. Without a company code ops
+   * may book any carrier, so the highest active base fee is charged.
+   */
+  private async getCargoFee(cargoCompanyCode: string | null): Promise<number> {
+    let query = this.supabase
+      .from('cargo_companies')
+      .select('code, base_fee')
+      .eq('is_active', true);
+    query = cargoCompanyCode
+      ? query.eq('code', cargoCompanyCode)
+      : query.not('base_fee', 'is', null).order('base_fee', { ascending: false }).limit(1);
+
+    const { data: company, error } = await query.maybeSingle();
+    if (error || !company || company.base_fee === null) {
+      this.logger.error(`Cargo fee not found for company ${cargoCompanyCode ?? '(any)'}`, error);
+      throw new NotFoundException(
+        cargoCompanyCode
+          ? `Cargo company not found or inactive: ${cargoCompanyCode}`
+          : 'No active cargo company with a base fee',
+      );
+    }
+
+    return Number(company.base_fee);
+  }
+
+  private async findRecord(id: string): Promise<FeeScheduleRecord> {
+    const { data, error } = await this.supabase
+      .from('fee_schedules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Fee schedule not found: ${id}`);
+    }
+
+    return data as FeeScheduleRecord;
+  }
+
+  private describeScope(schedule: FeeScheduleRecord): string {
+    if (schedule.device_model_name) {
+      return `model ${schedule.device_model_name}`;
+    }
+    return schedule.device_category ? `category ${schedule.device_category}` : 'default';
+  }
+
+  private toNumber(value: number | string | null): number | null {
+    return value === null ? null : Number(value);
+  }
+
+  private toDto(schedule: FeeScheduleRecord): FeeScheduleDto {
+    return {
+      id: schedule.id,
+      deviceModelName: schedule.device_model_name ?? undefined,
+      deviceCategory: schedule.device_category ?? undefined,
+      version: schedule.version,
+      rewardRate: this.toNumber(schedule.reward_rate) ?? undefined,
+      minReward: this.toNumber(schedule.min_reward) ?? undefined,
+      maxReward: this.toNumber(schedule.max_reward) ?? undefined,
+      cargoCompanyCode: schedule.cargo_company_code ?? undefined,
+      effectiveFrom: schedule.effective_from,
+      effectiveTo: schedule.effective_to ?? undefined,
+      notes: schedule.notes ?? undefined,
+      createdAt: schedule.created_at,
+    };
+  }
+}
@@ -6,9 +6,20 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { Money, RoundingMode } from '../../common/money/money';
 import { AppConfiguration } from '../../config/configuration';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { FeeCalculationResult } from '../dto/fee-calculation.dto';
+import { FeeSchedulesService, ResolvedFeeSchedule } from './fee-schedules.service';
+
+// PAYNET gateway commission for a single charge (tek çekim); installments use the
+// provider's per-installment rate instead
+export const SINGLE_CHARGE_COMMISSION_RATE = 0.0343;
+
+// Rounding per component. The service fee is never rounded: it is the
+// remainder, so the components always add up to the total exactly.
+const GATEWAY_FEE_ROUNDING: RoundingMode = 'half_up'; // How the provider rounds its commission
+const REWARD_ROUNDING: RoundingMode = 'half_even';
 
 interface DeviceWithModel {
   id: string;
@@ -17,9 +28,19 @@ interface DeviceWithModel {
   userId: string;
   device_models?: {
     ifoundanapple_fee: number;
+    category: string | null;
+    fee_percentage: number | null;
   };
 }
 
+/**
+ * A device's total amount and the fee schedule that splits it
+ */
+export interface FeePricing {
+  totalAmount: number;
+  schedule: ResolvedFeeSchedule;
+}
+
 @Injectable()
 export class FeeValidationService {
   private readonly logger = new Logger(FeeValidationService.name);
@@ -28,6 +49,7 @@ export class FeeValidationService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly configService: ConfigService<AppConfiguration, true>,
+    private readonly feeSchedulesService: FeeSchedulesService,
   ) {
     this.supabase = this.supabaseService.getClient();
   }
@@ -35,8 +57,21 @@ export class FeeValidationService {
   /**
    * Calculate fees based on device model's ifoundanapple_fee from database
    * This is the CRITICAL security step - never trust frontend amounts
+   *
+   * The payer always pays the model fee; a higher installment commission
+   * comes out of our service fee, never out of the finder's reward.
+   */
+  async calculateFees(
+    deviceId: string,
+    gatewayCommissionRate: number = SINGLE_CHARGE_COMMISSION_RATE,
+  ): Promise<FeeCalculationResult> {
+    return this.buildBreakdown(await this.getPricing(deviceId), gatewayCommissionRate);
+  }
+
+  /**
+   * Total amount and fee schedule in effect for a device
    */
-  async calculateFees(deviceId: string): Promise<FeeCalculationResult> {
+  async getPricing(deviceId: string): Promise<FeePricing> {
     const device = await this.getDeviceWithModel(deviceId);
 
     if (!device.device_models?.ifoundanapple_fee) {
@@ -45,20 +80,52 @@ export class FeeValidationService {
       );
     }
 
-    const totalAmount = Number(device.device_models.ifoundanapple_fee);
-    const gatewayFee = totalAmount * 0.0343;
-    const cargoFee = 250.0;
-    const rewardAmount = totalAmount * 0.2;
-    const serviceFee = totalAmount - gatewayFee - cargoFee - rewardAmount;
-    const netPayout = rewardAmount;
+    const schedule = await this.feeSchedulesService.resolve({
+      modelName: device.model,
+      category: device.device_models.category,
+      feePercentage: device.device_models.fee_percentage,
+    });
 
     return {
-      totalAmount,
-      gatewayFee,
-      cargoFee,
-      rewardAmount,
-      serviceFee,
-      netPayout,
+      totalAmount: Number(device.device_models.ifoundanapple_fee),
+      schedule,
+    };
+  }
+
+  /**
+   * Split a total amount into the fee breakdown for a gateway commission
+   * rate. The reward follows the fee schedule's rate and bounds; the
+   * service fee is what remains. All arithmetic is in kuruş, so
+   * reward + cargo + service + gateway equals the total exactly.
+   */
+  buildBreakdown(pricing: FeePricing, gatewayCommissionRate: number): FeeCalculationResult {
+    const { schedule } = pricing;
+    const total = Money.fromMajor(pricing.totalAmount);
+    const gatewayFee = total.multiply(gatewayCommissionRate, GATEWAY_FEE_ROUNDING);
+    const cargoFee = Money.fromMajor(schedule.cargoFee);
+    const reward = total
+      .multiply(schedule.rewardRate, REWARD_ROUNDING)
+      .clamp(
+        schedule.minReward === null ? null : Money.fromMajor(schedule.minReward),
+        schedule.maxReward === null ? null : Money.fromMajor(schedule.maxReward),
+      );
+    const serviceFee = total.subtract(gatewayFee).subtract(cargoFee).subtract(reward);
+
+    if (serviceFee.isNegative()) {
+      this.logger.warn(
+        `Fee schedule ${schedule.id} v${schedule.version} leaves a negative service fee for total ${total}`,
+      );
+    }
+
+    return {
+      totalAmount: total.toMajor(),
+      gatewayFee: gatewayFee.toMajor(),
+      cargoFee: cargoFee.toMajor(),
+      rewardAmount: reward.toMajor(),
+      serviceFee: serviceFee.toMajor(),
+      netPayout: reward.toMajor(),
+      feeScheduleId: schedule.id,
+      feeScheduleVersion: schedule.version,
     };
   }
 
@@ -69,15 +136,12 @@ export class FeeValidationService {
   async validateAmount(
     deviceId: string,
     frontendAmount: number,
+    gatewayCommissionRate: number = SINGLE_CHARGE_COMMISSION_RATE,
   ): Promise<FeeCalculationResult> {
-    const calculatedFees = await this.calculateFees(deviceId);
-
-    const tolerance = 0.01;
-    const amountDifference = Math.abs(
-      calculatedFees.totalAmount - frontendAmount,
-    );
+    const calculatedFees = await this.calculateFees(deviceId, gatewayCommissionRate);
 
-    if (amountDifference > tolerance) {
+    // Exact to the kuruş - no float tolerance
+    if (!Money.fromMajor(frontendAmount).equals(Money.fromMajor(calculatedFees.totalAmount))) {
       this.logger.warn(
         `Amount mismatch for device ${deviceId}: frontend=${frontendAmount}, calculated=${calculatedFees.totalAmount}`,
       );
@@ -107,7 +171,7 @@ export class FeeValidationService {
     // - Schema has: name (unique), model_name, ifoundanapple_fee, is_active
     const { data: deviceModel, error: modelError } = await this.supabase
       .from('device_models')
-      .select('ifoundanapple_fee, name, model_name')
+      .select('ifoundanapple_fee, name, model_name, category, fee_percentage')
       .eq('model_name', device.model)
       .eq('is_active', true)
       .single();
@@ -130,6 +194,11 @@ export class FeeValidationService {
       ...device,
       device_models: {
         ifoundanapple_fee: Number(deviceModel.ifoundanapple_fee),
+        category: deviceModel.category ?? null,
+        fee_percentage:
+          deviceModel.fee_percentage === null || deviceModel.fee_percentage === undefined
+            ? null
+            : Number(deviceModel.fee_percentage),
       },
     };
   }
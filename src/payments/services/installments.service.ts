@@ -0,0 +1,87 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Money } from '../../common/money/money';
+import { InstallmentOptionsResponseDto, MAX_INSTALLMENTS } from '../dto/installment-options.dto';
+import { PaymentProvider } from '../providers/payment-provider.interface';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry';
+import { FeeValidationService } from './fee-validation.service';
+
+/**
+ * Installment (taksit) options and commission rates.
+ *
+ * The provider quotes a commission rate per installment count for a card
+ * BIN. A single charge uses the provider's own single charge rate, which
+ * doesn't depend on the card.
+ */
+@Injectable()
+export class InstallmentsService {
+  private readonly logger = new Logger(InstallmentsService.name);
+
+  constructor(
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly feeValidationService: FeeValidationService,
+  ) {}
+
+  async getOptions(deviceId: string, bin: string): Promise<InstallmentOptionsResponseDto> {
+    const provider = this.providerRegistry.getDefault();
+    const pricing = await this.feeValidationService.getPricing(deviceId);
+    const { totalAmount } = pricing;
+    const quote = await provider.getInstallmentOptions(bin, totalAmount);
+
+    const rates = new Map<number, number>([[1, provider.singleChargeCommissionRate(totalAmount)]]);
+    for (const option of quote.options) {
+      if (option.instalment > 1 && option.instalment <= MAX_INSTALLMENTS) {
+        rates.set(option.instalment, option.commission_rate);
+      }
+    }
+
+    return {
+      bin,
+      provider: provider.name,
+      bankName: quote.bank_name,
+      cardBrand: quote.card_brand,
+      options: [...rates.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([installments, commissionRate]) => {
+          // The installments must add up to the total to the kuruş
+          const [first, rest = first] = Money.fromMajor(totalAmount).allocate(installments);
+          return {
+            installments,
+            commissionRate,
+            installmentAmount: rest.toMajor(),
+            firstInstallmentAmount: first.toMajor(),
+            feeBreakdown: this.feeValidationService.buildBreakdown(pricing, commissionRate),
+          };
+        }),
+    };
+  }
+
+  /**
+   * Commission rate for charging `amount` in `installments` on a card.
+   * Throws BadRequestException when the card doesn't offer that count.
+   */
+  async resolveCommissionRate(
+    provider: PaymentProvider,
+    bin: string | undefined,
+    amount: number,
+    installments: number,
+  ): Promise<number> {
+    if (installments === 1) {
+      return provider.singleChargeCommissionRate(amount);
+    }
+
+    if (!bin) {
+      throw new BadRequestException('Card BIN is required for installment payments');
+    }
+
+    const quote = await provider.getInstallmentOptions(bin, amount);
+    const option = quote.options.find((candidate) => candidate.instalment === installments);
+    if (!option) {
+      this.logger.warn(`Card BIN ${bin} does not offer ${installments} installments`);
+      throw new BadRequestException(
+        `${installments} taksit bu kart için kullanılamıyor. Lütfen taksit seçeneklerini kontrol edin.`,
+      );
+    }
+
+    return option.commission_rate;
+  }
+}
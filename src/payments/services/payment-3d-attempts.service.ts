@@ -0,0 +1,166 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes } from 'crypto';
+import { signToken, verifyToken } from '../../common/tokens/signed-token';
+import { AppConfiguration, PaymentsConfig } from '../../config/configuration';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { Payment3DResultDto } from '../dto/payment-3d-result.dto';
+import { ClientPlatform, CLIENT_PLATFORMS, Payment3DAttemptStatus } from '../payments.types';
+
+/**
+ * Contents of a signed 3D Secure result token
+ */
+interface Payment3DResultToken extends Record<string, unknown> {
+  aid: string; // payment_3d_attempts.id
+}
+
+/**
+ * payment_3d_attempts row with its payment embedded (many-to-one, so an
+ * object rather than an array)
+ */
+interface Payment3DAttemptResultRow {
+  id: string;
+  status: Payment3DAttemptStatus;
+  message: string | null;
+  completed_at: string | null;
+  payments: {
+    id: string;
+    payer_id: string;
+    payment_status: string | null;
+    escrow_status: string | null;
+  } | null;
+}
+
+/**
+ * 3D Secure callback attempts (payment_3d_attempts) and where the payer is
+ * sent afterwards.
+ *
+ * The return_url callback records an attempt, starts complete-3d and
+ * redirects to the client platform's return URL with a short-lived signed
+ * token carrying only the attempt id - no provider session or token ids.
+ * The client exchanges the token for the outcome via getResult().
+ */
+@Injectable()
+export class Payment3DAttemptsService {
+  private readonly logger = new Logger(Payment3DAttemptsService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+  private readonly returnUrls: Record<ClientPlatform, string>;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+
+    const config = this.configService.get<PaymentsConfig>('payments', { infer: true });
+    this.ttlSeconds = config.resultTokenTtlSeconds;
+    this.returnUrls = config.returnUrls;
+    this.secret = config.resultTokenSecret;
+    if (!this.secret) {
+      // Validation requires the secret in production; elsewhere result
+      // tokens just don't survive a restart
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn('PAYMENT_RESULT_TOKEN_SECRET not set. Using a per-process secret.');
+    }
+  }
+
+  /**
+   * `${return URL of the platform}/${page}?${params}`; unknown or missing
+   * platforms (payments from before client_platform existed) use web's
+   */
+  redirectUrl(
+    platform: string | null | undefined,
+    page: 'processing' | 'error',
+    params: Record<string, string>,
+  ): string {
+    const base = CLIENT_PLATFORMS.includes(platform as ClientPlatform)
+      ? this.returnUrls[platform as ClientPlatform]
+      : this.returnUrls.web;
+    return `${base.replace(/\/+$/, '')}/${page}?${new URLSearchParams(params).toString()}`;
+  }
+
+  /**
+   * Records a 'processing' attempt and returns its result token, or null
+   * when the attempt could not be stored
+   */
+  async start(
+    paymentId: string,
+    platform: string | null,
+  ): Promise<{ id: string; token: string } | null> {
+    const { data, error } = await this.supabase
+      .from('payment_3d_attempts')
+      .insert({
+        payment_id: paymentId,
+        client_platform: CLIENT_PLATFORMS.includes(platform as ClientPlatform) ? platform : 'web',
+        status: 'processing',
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      this.logger.error(
+        `Failed to record 3D attempt for payment ${paymentId}: ${error?.message}`,
+        error,
+      );
+      return null;
+    }
+
+    const payload: Payment3DResultToken = { aid: data.id };
+    return { id: data.id, token: signToken(payload, this.secret, this.ttlSeconds) };
+  }
+
+  async finish(
+    attemptId: string,
+    status: Exclude<Payment3DAttemptStatus, 'processing'>,
+    message: string,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_3d_attempts')
+      .update({ status, message, completed_at: new Date().toISOString() })
+      .eq('id', attemptId)
+      .eq('status', 'processing');
+
+    if (error) {
+      this.logger.error(
+        `Failed to record outcome of 3D attempt ${attemptId}: ${error.message}`,
+        error,
+      );
+    }
+  }
+
+  async getResult(token: string, userId: string): Promise<Payment3DResultDto> {
+    const result = verifyToken<Payment3DResultToken>(token, this.secret);
+    if (!result.valid) {
+      this.logger.warn(`Rejected 3D result token: ${result.error}`);
+      throw new BadRequestException(
+        result.error === 'expired' ? 'Result token expired' : 'Invalid result token',
+      );
+    }
+
+    const { data: attempt } = await this.supabase
+      .from('payment_3d_attempts')
+      .select(
+        'id, status, message, completed_at, payments(id, payer_id, payment_status, escrow_status)',
+      )
+      .eq('id', result.payload.aid)
+      .maybeSingle<Payment3DAttemptResultRow>();
+
+    const payment = attempt?.payments;
+    // Someone else's token is reported like a missing one
+    if (!attempt || !payment || payment.payer_id !== userId) {
+      throw new NotFoundException('3D Secure attempt not found');
+    }
+
+    return {
+      paymentId: payment.id,
+      status: attempt.status,
+      paymentStatus: payment.payment_status || 'pending',
+      escrowStatus: payment.escrow_status || 'pending',
+      message: attempt.message ?? undefined,
+      completedAt: attempt.completed_at ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { randomBytes, randomUUID } from 'crypto';
+import { signToken, verifyToken } from '../../common/tokens/signed-token';
+import { AppConfiguration, PaymentsConfig } from '../../config/configuration';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { FeeCalculationResult } from '../dto/fee-calculation.dto';
+import { PaymentQuoteDto } from '../dto/payment-quote.dto';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry';
+import { FeeValidationService } from './fee-validation.service';
+import { InstallmentsService } from './installments.service';
+import { SavedCardsService } from './saved-cards.service';
+
+/**
+ * Contents of a signed quote ID
+ */
+export interface PaymentQuote extends Record<string, unknown> {
+  qid: string; // Stored as payments.quote_id
+  deviceId: string;
+  userId: string;
+  provider: string; // The commission rate is the provider's
+  installments: number;
+  bin?: string;
+  commissionRate: number;
+  feeBreakdown: FeeCalculationResult;
+}
+
+/**
+ * Server-computed payment quotes.
+ *
+ * The quote ID is an HMAC-signed, expiring token carrying the full fee
+ * breakdown, bound to the device and the payer. processPayment stores the
+ * breakdown from the verified token, so no client-supplied fee ever reaches
+ * the payments table. The commission is priced for one provider, so the
+ * quote is bound to it: a saved card is quoted with the provider that
+ * stored it, everything else with the default provider.
+ */
+@Injectable()
+export class PaymentQuoteService {
+  private readonly logger = new Logger(PaymentQuoteService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly feeValidationService: FeeValidationService,
+    private readonly installmentsService: InstallmentsService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly savedCardsService: SavedCardsService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+
+    const config = this.configService.get<PaymentsConfig>('payments', { infer: true });
+    this.ttlSeconds = config.quoteTtlSeconds;
+    this.secret = config.quoteSecret;
+    if (!this.secret) {
+      // Validation requires the secret in production; elsewhere quotes just
+      // don't survive a restart
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn('PAYMENT_QUOTE_SECRET not set. Using a per-process secret.');
+    }
+  }
+
+  async createQuote(
+    deviceId: string,
+    userId: string,
+    installments: number = 1,
+    bin?: string,
+    savedCardId?: string,
+  ): Promise<PaymentQuoteDto> {
+    const { data: device, error } = await this.supabase
+      .from('devices')
+      .select('id, userId')
+      .eq('id', deviceId)
+      .single();
+
+    if (error || !device || device.userId !== userId) {
+      throw new NotFoundException(`Device not found: ${deviceId}`);
+    }
+
+    const savedCard = savedCardId
+      ? await this.savedCardsService.getForUser(savedCardId, userId)
+      : null;
+    const provider = savedCard
+      ? this.providerRegistry.get(savedCard.provider)
+      : this.providerRegistry.getDefault();
+    if (savedCard && bin && savedCard.card_bin && !bin.startsWith(savedCard.card_bin)) {
+      throw new BadRequestException('bin does not match the saved card');
+    }
+    const cardBin = bin ?? savedCard?.card_bin ?? undefined;
+
+    const pricing = await this.feeValidationService.getPricing(deviceId);
+    const commissionRate = await this.installmentsService.resolveCommissionRate(
+      provider,
+      cardBin,
+      pricing.totalAmount,
+      installments,
+    );
+    const feeBreakdown = this.feeValidationService.buildBreakdown(pricing, commissionRate);
+
+    const quote: PaymentQuote = {
+      qid: randomUUID(),
+      deviceId,
+      userId,
+      provider: provider.name,
+      installments,
+      // The BIN only matters for installment rates
+      ...(installments > 1 ? { bin: cardBin } : {}),
+      commissionRate,
+      feeBreakdown,
+    };
+
+    return {
+      quoteId: signToken(quote, this.secret, this.ttlSeconds),
+      deviceId,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000).toISOString(),
+      provider: provider.name,
+      installments,
+      commissionRate,
+      currency: 'TRY',
+      feeBreakdown,
+    };
+  }
+
+  /**
+   * Verify a quote ID for a payment. Throws BadRequestException when the
+   * quote is tampered with, expired, or issued for another device or user.
+   */
+  verifyQuote(quoteId: string, deviceId: string, userId: string): PaymentQuote {
+    const result = verifyToken<PaymentQuote>(quoteId, this.secret);
+
+    if (!result.valid) {
+      this.logger.warn(`Rejected payment quote for device ${deviceId}: ${result.error}`);
+      throw new BadRequestException(
+        result.error === 'expired'
+          ? 'Ödeme teklifinin süresi doldu. Lütfen yeni bir teklif alın.'
+          : 'Invalid payment quote',
+      );
+    }
+
+    if (result.payload.deviceId !== deviceId || result.payload.userId !== userId) {
+      this.logger.warn(`Payment quote ${result.payload.qid} used for another device or user`);
+      throw new BadRequestException('Payment quote does not belong to this device');
+    }
+
+    return result.payload;
+  }
+}
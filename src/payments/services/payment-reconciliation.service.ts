@@ -1,8 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { OutboxService } from '../../outbox/outbox.service';
+import { PaymentStateService } from '../../payment-state/payment-state.service';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { WebhooksService } from '../../webhooks/webhooks.service';
+import { WEBHOOK_MAX_RETRIES } from '../../webhooks/webhooks.types';
+import { ProviderPaymentResponse } from '../providers/payment-provider.interface';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry';
 
 /**
  * Payment Reconciliation Service - Sadeleştirilmiş Versiyon
@@ -20,12 +25,15 @@ import { WebhooksService } from '../../webhooks/webhooks.service';
 export class PaymentReconciliationService {
   private readonly logger = new Logger(PaymentReconciliationService.name);
   private readonly supabase: SupabaseClient;
-  private readonly maxRetries = 3; // Maksimum 3 retry
+  private readonly maxRetries = WEBHOOK_MAX_RETRIES; // Maksimum 3 retry
   private readonly retryDelays = [60000, 300000, 900000]; // 1 dakika, 5 dakika, 15 dakika
 
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly webhooksService: WebhooksService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly paymentStateService: PaymentStateService,
+    private readonly outboxService: OutboxService,
   ) {
     this.supabase = this.supabaseService.getClient();
   }
@@ -51,6 +59,8 @@ export class PaymentReconciliationService {
         .from('webhook_storage')
         .select('*')
         .is('processed_at', null) // Not processed yet
+        .is('quarantined_at', null) // Waiting for admin review, not for a retry
+        .is('dead_lettered_at', null) // Taken out of processing by an admin
         .lt('retry_count', this.maxRetries) // Max 3 retries
         .limit(10); // Process max 10 at a time
 
@@ -111,10 +121,10 @@ export class PaymentReconciliationService {
           );
 
           // Retry processing webhook
+          // Authenticated when it was received - only processing failed
           await this.webhooksService.handlePaynetWebhook(
             webhook.webhook_payload,
-            webhook.signature || '',
-            webhook.received_at,
+            webhook.signature ?? null,
           );
 
           this.logger.log(
@@ -171,22 +181,29 @@ export class PaymentReconciliationService {
       }
 
       // Create critical audit log
-      await this.supabase.from('audit_logs').insert({
-        event_type: 'webhook_max_retry_exceeded',
-        event_category: 'payment',
-        event_action: 'alert',
-        event_severity: 'critical',
-        user_id: payment?.payer_id || null,
-        resource_type: 'payment',
-        resource_id: webhook.reference_no,
-        event_description: `Webhook failed after ${this.maxRetries} retries - requires manual intervention`,
-        event_data: {
-          payment_id: webhook.reference_no,
-          webhook_id: webhook.id,
-          retry_count: webhook.retry_count,
-          error_message: webhook.error_message,
+      await this.outboxService.enqueue([
+        {
+          topic: 'audit_log',
+          // aggregate_id is a UUID; only a found payment proves reference_no is one
+          aggregateId: payment ? webhook.reference_no : undefined,
+          payload: {
+            event_type: 'webhook_max_retry_exceeded',
+            event_category: 'payment',
+            event_action: 'alert',
+            event_severity: 'critical',
+            user_id: payment?.payer_id || null,
+            resource_type: 'payment',
+            resource_id: webhook.reference_no,
+            event_description: `Webhook failed after ${this.maxRetries} retries - requires manual intervention`,
+            event_data: {
+              payment_id: webhook.reference_no,
+              webhook_id: webhook.id,
+              retry_count: webhook.retry_count,
+              error_message: webhook.error_message,
+            },
+          },
         },
-      });
+      ]);
 
       this.logger.error(
         `🚨 CRITICAL: Webhook processing failed after ${this.maxRetries} retries. Payment ID: ${webhook.reference_no}`,
@@ -203,6 +220,11 @@ export class PaymentReconciliationService {
    * Check for stale pending payments and mark them as failed
    * If a payment has been pending for more than 3 minutes without webhook or complete-3d call,
    * mark it as failed to prevent infinite pending state
+   *
+   * The provider is asked first: if it charged the card and only the webhook
+   * (or our tds_charge response) was lost, the payment is completed through
+   * the webhook success path instead. If the provider can't be reached the
+   * payment stays pending until the next run.
    * 
    * Based on Paynet documentation:
    * - If connection timeout occurs, retry with same reference_no
@@ -223,7 +245,7 @@ export class PaymentReconciliationService {
       // Find pending payments older than threshold
       const { data: stalePayments, error } = await this.supabase
         .from('payments')
-        .select('id, device_id, payer_id, created_at')
+        .select('id, device_id, payer_id, payment_provider, created_at')
         .eq('payment_status', 'pending')
         .lt('created_at', staleThreshold.toISOString())
         .limit(50); // Process max 50 at a time
@@ -260,21 +282,43 @@ export class PaymentReconciliationService {
             continue;
           }
 
-          // No webhook received - mark payment as failed
-          const { error: updateError } = await this.supabase
-            .from('payments')
-            .update({
-              payment_status: 'failed',
-              failure_reason: 'Ödeme işlemi zaman aşımına uğradı. 3D Secure doğrulama tamamlanmadı veya webhook alınamadı.',
-              failed_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', payment.id);
+          // No webhook received - ask the provider whether it charged the card
+          let transaction: ProviderPaymentResponse | null;
+          try {
+            transaction = await this.providerRegistry
+              .getForPayment(payment)
+              .findTransaction(payment.id);
+          } catch (queryError: any) {
+            this.logger.warn(
+              `Could not query provider status of stale payment ${payment.id}, will retry: ${queryError.message}`,
+            );
+            continue;
+          }
 
-          if (updateError) {
+          if (transaction?.is_succeed) {
+            await this.recoverPaidPayment(payment, transaction);
+            continue;
+          }
+
+          // Not charged - mark payment as failed (unless a webhook just completed it)
+          const failureReason = transaction
+            ? `Ödeme sağlayıcı işlemi başarısız: ${transaction.message || transaction.error || 'bilinmeyen hata'}`
+            : 'Ödeme işlemi zaman aşımına uğradı. 3D Secure doğrulama tamamlanmadı veya webhook alınamadı.';
+          try {
+            await this.paymentStateService.transition(
+              payment.id,
+              { paymentStatus: 'failed' },
+              {
+                reason: failureReason,
+                fields: {
+                  failure_reason: failureReason,
+                  failed_at: new Date().toISOString(),
+                },
+              },
+            );
+          } catch (transitionError: any) {
             this.logger.error(
-              `Failed to mark stale payment as failed: ${updateError.message}`,
-              updateError,
+              `Failed to mark stale payment as failed: ${transitionError.message}`,
             );
             continue;
           }
@@ -289,21 +333,28 @@ export class PaymentReconciliationService {
             .eq('id', payment.device_id);
 
           // Create audit log
-          await this.supabase.from('audit_logs').insert({
-            event_type: 'payment_timeout',
-            event_category: 'payment',
-            event_action: 'timeout',
-            event_severity: 'warning',
-            user_id: payment.payer_id,
-            resource_type: 'payment',
-            resource_id: payment.id,
-            event_description: `Payment timed out after ${staleThresholdMinutes} minutes without webhook`,
-            event_data: {
-              payment_id: payment.id,
-              device_id: payment.device_id,
-              timeout_minutes: staleThresholdMinutes,
+          await this.outboxService.enqueue([
+            {
+              topic: 'audit_log',
+              aggregateId: payment.id,
+              payload: {
+                event_type: 'payment_timeout',
+                event_category: 'payment',
+                event_action: 'timeout',
+                event_severity: 'warning',
+                user_id: payment.payer_id,
+                resource_type: 'payment',
+                resource_id: payment.id,
+                event_description: `Payment timed out after ${staleThresholdMinutes} minutes without webhook`,
+                event_data: {
+                  payment_id: payment.id,
+                  device_id: payment.device_id,
+                  timeout_minutes: staleThresholdMinutes,
+                  provider_status: transaction ? 'failed' : 'not_found',
+                },
+              },
             },
-          });
+          ]);
 
           this.logger.log(
             `Marked stale payment ${payment.id} as failed (no webhook received after ${staleThresholdMinutes} minutes)`,
@@ -318,5 +369,61 @@ export class PaymentReconciliationService {
       this.logger.error(`Stale payment check error: ${error.message}`, error.stack);
     }
   }
-}
 
+  /**
+   * The provider charged a payment whose webhook never arrived: replay its
+   * transaction through the webhook success path (payment, escrow, devices,
+   * cargo shipment, notifications). If that fails, the stored webhook is
+   * picked up by retryFailedWebhooks like any other.
+   */
+  private async recoverPaidPayment(
+    payment: { id: string; payer_id: string; device_id: string; payment_provider: string | null },
+    transaction: ProviderPaymentResponse,
+  ): Promise<void> {
+    const provider = payment.payment_provider || 'paynet';
+    this.logger.warn(
+      `Stale payment ${payment.id} was charged at ${provider} but never confirmed - completing it`,
+    );
+
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: payment.id,
+        payload: {
+          event_type: 'payment_recovered',
+          event_category: 'payment',
+          event_action: 'recover',
+          event_severity: 'warning',
+          user_id: payment.payer_id,
+          resource_type: 'payment',
+          resource_id: payment.id,
+          event_description:
+            'Pending payment completed from the provider transaction status (webhook was not received)',
+          event_data: {
+            payment_id: payment.id,
+            device_id: payment.device_id,
+            provider,
+            xact_id: transaction.xact_id || transaction.transaction_id,
+          },
+        },
+      },
+    ]);
+
+    // Same fields PAYNET posts to confirmation_url
+    await this.webhooksService.handleRecoveredTransaction(
+      {
+        reference_no: payment.id,
+        xact_id: transaction.xact_id || transaction.transaction_id,
+        xact_date: transaction.xact_date,
+        amount: transaction.amount,
+        netAmount: transaction.net_amount,
+        comission: transaction.comission,
+        authorization_code: transaction.bank_authorization_code,
+        order_id: transaction.bank_order_id,
+        card_number: transaction.card_no_masked,
+        is_succeed: true,
+      },
+      provider,
+    );
+  }
+}
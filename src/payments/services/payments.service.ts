@@ -4,12 +4,28 @@ import {
   Logger,
   NotFoundException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { randomUUID } from 'crypto';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { AppConfiguration, PaymentsConfig, PaynetWebhookConfig } from '../../config/configuration';
+import { Money } from '../../common/money/money';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { FeeValidationService } from './fee-validation.service';
-import { PaynetProvider } from '../providers/paynet.provider';
+import { InstallmentsService } from './installments.service';
+import { PaymentQuoteService } from './payment-quote.service';
+import { FeeCalculationResult } from '../dto/fee-calculation.dto';
+import { applyProviderCommission } from '../fee-split';
+import { PartialRefundAmounts, PartialRefundPlan, planPartialRefund } from '../partial-refund';
+import { SavedCardRecord, SavedCardsService } from './saved-cards.service';
+import { ProviderBuyer } from '../providers/payment-provider.interface';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry';
 import { WebhooksService } from '../../webhooks/webhooks.service';
+import { findAmountMismatches } from '../../webhooks/webhook-amount-check';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import { LedgerService } from '../../ledger/ledger.service';
+import { StalePaymentStateException } from '../../payment-state/payment-state.exceptions';
+import { PaymentStateService } from '../../payment-state/payment-state.service';
+import { NotificationPayload, OutboxMessage } from '../../outbox/outbox.types';
 import { ProcessPaymentDto } from '../dto/process-payment.dto';
 import { PaymentResponseDto } from '../dto/payment-response.dto';
 import { Complete3DPaymentDto } from '../dto/complete-3d-payment.dto';
@@ -26,14 +42,26 @@ interface DeviceInfo {
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
   private readonly supabase: SupabaseClient;
+  private readonly commissionTolerance: Money;
 
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly feeValidationService: FeeValidationService,
-    private readonly paynetProvider: PaynetProvider,
+    private readonly providerRegistry: PaymentProviderRegistry,
     private readonly webhooksService: WebhooksService,
+    private readonly savedCardsService: SavedCardsService,
+    private readonly installmentsService: InstallmentsService,
+    private readonly paymentQuoteService: PaymentQuoteService,
+    private readonly eventBus: DomainEventBus,
+    private readonly ledgerService: LedgerService,
+    private readonly paymentStateService: PaymentStateService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
   ) {
     this.supabase = this.supabaseService.getClient();
+    this.commissionTolerance = Money.fromMajor(
+      this.configService.get<PaynetWebhookConfig>('paynetWebhooks', { infer: true })
+        .commissionTolerance,
+    );
   }
 
   /**
@@ -47,12 +75,14 @@ export class PaymentsService {
    * 4. Find matched finder user_id
    * 5. Generate payment ID (UUID)
    * 6. Create payment record in database with 'pending' status
-   * 7. Initiate PAYNET 3D Secure payment
+   * 7. Initiate PAYNET 3D Secure payment (direct_3ds) or create the
+   *    provider's hosted payment page order (hosted_page)
    * 8. Return payment info
    */
   async processPayment(
     dto: ProcessPaymentDto,
     payerUserId: string,
+    payerEmail?: string,
   ): Promise<PaymentResponseDto> {
     this.logger.log(`Processing payment for device ${dto.deviceId} by user ${payerUserId}`);
 
@@ -89,12 +119,101 @@ export class PaymentsService {
       );
     }
 
-    // 4. Validate amount (security check - never trust frontend)
-    // Frontend might have sent wrong amount, so we validate against database
-    const calculatedFees = await this.feeValidationService.validateAmount(
-      dto.deviceId,
-      dto.totalAmount,
-    );
+    // 3.6. Resolve payment mode for the client platform, then the card: a
+    // saved card, or raw card data when this environment still allows it
+    // (raw PAN/CVC puts us in PCI scope). In hosted_page mode the provider's
+    // page collects the card, so no card data may be sent.
+    const paymentsConfig = this.configService.get<PaymentsConfig>('payments', { infer: true });
+    const platform = dto.platform ?? 'web';
+    const paymentMode = paymentsConfig.modes[platform];
+
+    // A quote fixes the installment count its fee breakdown was priced with
+    const quote = dto.quoteId
+      ? this.paymentQuoteService.verifyQuote(dto.quoteId, dto.deviceId, payerUserId)
+      : null;
+    if (quote && dto.installments !== undefined && dto.installments !== quote.installments) {
+      throw new BadRequestException(
+        `Quote is for ${quote.installments} installments, not ${dto.installments}. Request a new quote.`,
+      );
+    }
+
+    let savedCard: SavedCardRecord | null = null;
+    const installments = quote?.installments ?? dto.installments ?? 1;
+    if (paymentMode === 'hosted_page') {
+      if (dto.savedCardId || dto.pan || installments > 1) {
+        throw new BadRequestException(
+          `Card details and installments are chosen on the payment page for ${platform} payments. Do not send savedCardId, card fields or installments.`,
+        );
+      }
+    } else if (dto.savedCardId) {
+      savedCard = await this.savedCardsService.getForUser(dto.savedCardId, payerUserId);
+    } else {
+      if (!paymentsConfig.rawCardEnabled) {
+        throw new BadRequestException(
+          'Raw card payments are disabled. Pay with a saved card (savedCardId).',
+        );
+      }
+      if (!dto.pan || !dto.month || !dto.year || !dto.cvc || !dto.cardHolder) {
+        throw new BadRequestException(
+          'Card details (pan, month, year, cvc, cardHolder) are required when paying with a new card.',
+        );
+      }
+    }
+
+    // A saved card can only be charged by the provider that stored it
+    const provider = savedCard
+      ? this.providerRegistry.get(savedCard.provider)
+      : this.providerRegistry.getDefault();
+
+    // Without a confirmation endpoint the hosted page result never reaches us
+    if (paymentMode === 'hosted_page' && !provider.confirmationPath) {
+      throw new BadRequestException(
+        `Hosted payment page is not available with ${provider.name}. Use direct_3ds mode.`,
+      );
+    }
+    const buyer = provider.requiresBuyerProfile
+      ? await this.getBuyerProfile(payerUserId, payerEmail)
+      : undefined;
+
+    const cardBin = savedCard?.card_bin ?? dto.pan?.slice(0, 6);
+
+    // 3.7 / 4. Fee breakdown (security check - never trust frontend).
+    // With a quote, the signed breakdown is stored as-is; installment quotes
+    // were priced for one card BIN, so the card must match. The legacy path
+    // validates totalAmount and recalculates - installments change the
+    // gateway commission, so the rate comes from the provider for this BIN.
+    let calculatedFees: FeeCalculationResult;
+    let gatewayCommissionRate: number;
+    if (quote) {
+      // The quoted commission is the quoting provider's; charging another
+      // provider would store the wrong gateway fee
+      if (quote.provider !== provider.name) {
+        throw new BadRequestException(
+          `Quote was priced for ${quote.provider}, but this card is charged by ${provider.name}. Request a new quote with savedCardId.`,
+        );
+      }
+      if (quote.installments > 1 && (!cardBin || !quote.bin?.startsWith(cardBin))) {
+        throw new BadRequestException('Installment quote was issued for a different card');
+      }
+      calculatedFees = quote.feeBreakdown;
+      gatewayCommissionRate = quote.commissionRate;
+    } else {
+      if (dto.totalAmount === undefined) {
+        throw new BadRequestException('quoteId is required');
+      }
+      gatewayCommissionRate = await this.installmentsService.resolveCommissionRate(
+        provider,
+        cardBin,
+        dto.totalAmount,
+        installments,
+      );
+      calculatedFees = await this.feeValidationService.validateAmount(
+        dto.deviceId,
+        dto.totalAmount,
+        gatewayCommissionRate,
+      );
+    }
+    const totalAmount = calculatedFees.totalAmount;
 
     // 4.5. Check for existing completed payment for this device
     // If a payment is already completed, prevent creating a new one
@@ -168,6 +287,7 @@ export class PaymentsService {
 
     // 7. Generate payment ID (UUID) - this will be used as reference_no in Paynet
     const paymentId = randomUUID();
+    const saveCard = !savedCard && dto.saveCard === true;
 
     // 8. Create payment record in database with 'pending' status
     const { error: paymentError } = await this.supabase.from('payments').insert({
@@ -175,13 +295,22 @@ export class PaymentsService {
       device_id: dto.deviceId,
       payer_id: payerUserId,
       receiver_id: finderUserId,
-      total_amount: dto.totalAmount,
-      reward_amount: dto.feeBreakdown.rewardAmount,
-      cargo_fee: dto.feeBreakdown.cargoFee,
-      payment_gateway_fee: dto.feeBreakdown.gatewayFee,
-      service_fee: dto.feeBreakdown.serviceFee,
-      net_payout: dto.feeBreakdown.netPayout,
-      payment_provider: 'paynet',
+      total_amount: totalAmount,
+      reward_amount: calculatedFees.rewardAmount,
+      cargo_fee: calculatedFees.cargoFee,
+      payment_gateway_fee: calculatedFees.gatewayFee,
+      service_fee: calculatedFees.serviceFee,
+      net_payout: calculatedFees.netPayout,
+      installment_count: installments,
+      gateway_commission_rate: gatewayCommissionRate,
+      quote_id: quote?.qid ?? null,
+      fee_schedule_id: calculatedFees.feeScheduleId ?? null,
+      fee_schedule_version: calculatedFees.feeScheduleVersion ?? null,
+      payment_provider: provider.name,
+      save_card: saveCard,
+      saved_card_id: savedCard?.id ?? null,
+      payment_mode: paymentMode,
+      client_platform: platform,
       payment_status: 'pending',
       escrow_status: 'pending',
       currency: 'TRY',
@@ -194,31 +323,85 @@ export class PaymentsService {
 
     this.logger.log(`Payment record created: ${paymentId} with status 'pending'`);
 
-    // 9. Initiate 3D Secure payment with PAYNET
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
     const backendUrl = process.env.BACKEND_URL || 'http://localhost:3000';
+    const confirmationUrl = provider.confirmationPath
+      ? `${backendUrl}/v1/${provider.confirmationPath}`
+      : undefined;
+
+    // 8.5. Hosted page mode: create the provider's payment page order. There
+    // is no complete-3d step - the confirmation webhook finalizes the payment.
+    if (paymentMode === 'hosted_page') {
+      const hostedPage = await provider.createHostedPaymentPage({
+        amount: totalAmount,
+        reference_no: paymentId,
+        // Provider sends the browser straight to the processing page, which polls the status endpoint
+        return_url: `${paymentsConfig.returnUrls[platform]}/processing?payment_id=${paymentId}`,
+        confirmation_url: confirmationUrl,
+        domain: new URL(backendUrl).hostname,
+        is_escrow: true,
+        description: `Payment for device ${device.model}`,
+      });
+
+      if (hostedPage.transaction_id) {
+        await this.supabase
+          .from('payments')
+          .update({ provider_transaction_id: hostedPage.transaction_id })
+          .eq('id', paymentId);
+      }
+
+      return {
+        id: paymentId,
+        deviceId: dto.deviceId,
+        paymentStatus: 'pending',
+        escrowStatus: 'pending',
+        totalAmount,
+        providerTransactionId: hostedPage.transaction_id,
+        paymentMode,
+        paymentUrl: hostedPage.url,
+        feeBreakdown: calculatedFees,
+      };
+    }
+
+    // 9. Initiate 3D Secure payment with PAYNET
     
     // Prepare Paynet 3D Secure payment request with card information
     // According to Paynet docs: card info is required when not using saved card
     // Reference: https://doc.paynet.com.tr/oedeme-metotlari/api-entegrasyonu/3d-ile-odeme
     // confirmation_url: Ödeme tamamlandığında webhook gönderilecek URL
     // Reference: https://doc.paynet.com.tr/oedeme-metotlari/ortak-odeme-sayfasi/odeme-emri-olusturma/confirmation-url-adresine-post-edilen-parametreler
-    const paynetResponse = await this.paynetProvider.initiate3DPayment({
-      amount: dto.totalAmount,
+    const paynetResponse = await provider.initiate3DPayment({
+      amount: totalAmount,
       reference_no: paymentId, // Use generated payment ID as reference_no
-      return_url: `${backendUrl}/v1/payments/callback`, // Backend callback URL - Paynet buraya POST eder (v1 prefix gerekli)
-      confirmation_url: `${backendUrl}/v1/webhooks/paynet-callback`, // Backend webhook URL (v1 prefix gerekli)
+      return_url: `${backendUrl}/v1/payments/callback?provider=${provider.name}`, // Backend callback URL - provider buraya POST eder (v1 prefix gerekli)
+      confirmation_url: confirmationUrl, // Provider's webhook route, if it has one
       domain: new URL(backendUrl).hostname,
       is_escrow: true,
       description: `Payment for device ${device.model}`,
-      // Card information - Required for Paynet 3D Secure payment
-      pan: dto.pan, // Card number
-      month: dto.month, // Expiration month (MM format)
-      year: dto.year, // Expiration year (YY or YYYY format)
-      cvc: dto.cvc, // CVV/CVC code
-      card_holder: dto.cardHolder, // Card holder name
+      instalment: installments,
+      buyer,
+      ...(savedCard
+        ? {
+            // Saved card - the provider charges its stored card, no raw card data
+            card_hash: savedCard.card_hash,
+            user_unique_id: savedCard.user_unique_id,
+          }
+        : {
+            pan: dto.pan, // Card number
+            month: dto.month, // Expiration month (MM format)
+            year: dto.year, // Expiration year (YY or YYYY format)
+            cvc: dto.cvc, // CVV/CVC code
+            card_holder: dto.cardHolder, // Card holder name
+            save_card: saveCard,
+            user_unique_id: saveCard
+              ? await this.savedCardsService.getOwnerKey(payerUserId, provider.name)
+              : undefined,
+          }),
     });
 
+    if (savedCard) {
+      await this.savedCardsService.markUsed(savedCard.id);
+    }
+
     // 9.5. Update payment record with session_id and transaction_id from Paynet
     // This is critical for callback handler to find payment_id from session_id
     if (paynetResponse.session_id || paynetResponse.transaction_id) {
@@ -254,11 +437,53 @@ export class PaymentsService {
       deviceId: dto.deviceId,
       paymentStatus: 'pending',
       escrowStatus: 'pending',
-      totalAmount: dto.totalAmount,
+      totalAmount,
       providerTransactionId: paynetResponse.transaction_id,
-      publishableKey: this.paynetProvider.getPublishableKey(),
+      publishableKey: provider.getPublishableKey(),
+      paymentMode,
       paymentUrl: paynetResponse.post_url || paynetResponse.html_content,
-      feeBreakdown: dto.feeBreakdown,
+      feeBreakdown: calculatedFees,
+    };
+  }
+
+  /**
+   * Payer identity and address for providers that require them (iyzico),
+   * from userprofile. Missing fields are reported instead of made up.
+   */
+  private async getBuyerProfile(
+    payerUserId: string,
+    payerEmail: string | undefined,
+  ): Promise<ProviderBuyer> {
+    const { data: profile, error } = await this.supabase
+      .from('userprofile')
+      .select('first_name, last_name, tc_kimlik_no, address, city, phone_number')
+      .eq('user_id', payerUserId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load profile of payer ${payerUserId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to load payer profile');
+    }
+
+    const required = ['first_name', 'last_name', 'tc_kimlik_no', 'address', 'city'] as const;
+    const missing: string[] = required.filter((field) => !profile?.[field]?.toString().trim());
+    if (!payerEmail?.trim()) {
+      missing.push('email');
+    }
+    if (!profile || !payerEmail || missing.length > 0) {
+      throw new BadRequestException(
+        `Complete your profile before paying: ${missing.join(', ')} missing`,
+      );
+    }
+
+    return {
+      first_name: profile.first_name,
+      last_name: profile.last_name,
+      email: payerEmail,
+      identity_number: profile.tc_kimlik_no,
+      address: profile.address,
+      city: profile.city,
+      phone: profile.phone_number || undefined,
     };
   }
 
@@ -442,7 +667,7 @@ export class PaymentsService {
     // 1. Validate payment exists and is in pending status
     const { data: payment, error: paymentError } = await this.supabase
       .from('payments')
-      .select('id, payer_id, payment_status')
+      .select('id, payer_id, payment_status, payment_provider')
       .eq('id', dto.paymentId)
       .single();
 
@@ -473,7 +698,7 @@ export class PaymentsService {
 
     // 4. Complete 3D payment with PAYNET
     try {
-      const paynetResponse = await this.paynetProvider.complete3DPayment({
+      const paynetResponse = await this.providerRegistry.getForPayment(payment).complete3DPayment({
         session_id: dto.sessionId,
         token_id: dto.tokenId,
         transaction_type: 1, // 1 = Satış (Sale)
@@ -502,6 +727,28 @@ export class PaymentsService {
           throw new Error(`Failed to fetch payment record: ${paymentFetchError?.message}`);
         }
 
+        // Same check as the webhook: a charge that doesn't match the payment
+        // is not applied. The charge is stored in the webhook inbox, where
+        // the webhook path quarantines it (critical alert) and the payment
+        // stays pending until an admin reviews it.
+        const mismatches = findAmountMismatches(
+          fullPayment,
+          responseData,
+          this.commissionTolerance,
+        );
+        if (mismatches.length > 0) {
+          this.logger.error(
+            `3D Secure charge does not match payment ${dto.paymentId}: ${mismatches.join('; ')}`,
+          );
+          await this.quarantineCharge(fullPayment, responseData);
+          throw new BadRequestException(
+            'Payment amounts do not match the charge; the payment is under review',
+          );
+        }
+
+        // The provider's actual commission replaces the quoted gateway fee
+        const fees = applyProviderCommission(fullPayment, responseData.comission);
+
         // Update payments table
         // Provider response'u JSON olarak sakla
         const providerResponseData = {
@@ -519,173 +766,109 @@ export class PaymentsService {
           bank_name: responseData.bank_name,
         };
 
-        const { error: updateError } = await this.supabase
-          .from('payments')
-          .update({
-            payment_status: 'completed',
-            escrow_status: 'held',
-            provider_payment_id: responseData.bank_order_id,
-            provider_transaction_id: responseData.xact_id,
-            provider_status: 'success',
-            provider_response: JSON.stringify(providerResponseData),
-            completed_at: responseData.xact_date || new Date().toISOString(),
-            payment_gateway_fee: responseData.comission || fullPayment.payment_gateway_fee,
-            card_last_four: responseData.card_no_masked?.slice(-4),
-            card_brand: responseData.card_brand_name,
-            gross_amount: responseData.amount,
-            net_amount: responseData.net_amount,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', dto.paymentId);
-
-        if (updateError) {
-          this.logger.error(`Failed to update payment: ${updateError.message}`, updateError);
-          throw updateError;
-        }
-
-        // Create escrow_accounts record
-        const { error: escrowError } = await this.supabase
-          .from('escrow_accounts')
-          .insert({
-            payment_id: dto.paymentId,
-            device_id: fullPayment.device_id,
-            holder_user_id: fullPayment.payer_id,
-            beneficiary_user_id: fullPayment.receiver_id,
-            total_amount: fullPayment.total_amount,
-            reward_amount: fullPayment.reward_amount,
-            service_fee: fullPayment.service_fee,
-            gateway_fee: fullPayment.payment_gateway_fee,
-            cargo_fee: fullPayment.cargo_fee,
-            net_payout: fullPayment.net_payout,
-            status: 'held',
-            escrow_type: 'standard',
-            auto_release_days: 30,
-            release_conditions: [],
-            confirmations: [],
-            currency: 'TRY',
-            held_at: new Date().toISOString(),
-          });
-
-        if (escrowError) {
-          this.logger.error(`Failed to create escrow account: ${escrowError.message}`, escrowError);
-        }
-
-        // Update device status
-        await this.supabase
-          .from('devices')
-          .update({
-            status: 'payment_completed',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', fullPayment.device_id);
-
-        // Update matched finder device status to 'payment_completed'
-        const { data: ownerDevice } = await this.supabase
-          .from('devices')
-          .select('serialNumber, model')
-          .eq('id', fullPayment.device_id)
-          .single();
-
-        if (ownerDevice) {
-          const { data: finderDevice } = await this.supabase
-            .from('devices')
-            .select('id')
-            .eq('serialNumber', ownerDevice.serialNumber)
-            .eq('model', ownerDevice.model)
-            .eq('device_role', 'finder')
-            .maybeSingle();
-
-          if (finderDevice) {
-            await this.supabase
-              .from('devices')
-              .update({
-                status: 'payment_completed',
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', finderDevice.id);
-
-            this.logger.log(`Finder device status updated to payment_completed: ${finderDevice.id}`);
-          }
-        }
-
-        // Create audit log for payment completion
-        const { error: auditError } = await this.supabase
-          .from('audit_logs')
-          .insert({
-            event_type: 'payment_completed',
-            event_category: 'payment',
-            event_action: 'complete',
-            event_severity: 'info',
-            user_id: fullPayment.payer_id,
-            resource_type: 'payment',
-            resource_id: dto.paymentId,
-            event_description: 'Payment completed successfully via 3D Secure',
-            event_data: {
-              amount: fullPayment.total_amount,
-              provider: 'paynet',
-              transaction_id: responseData.xact_id,
-              authorization_code: responseData.bank_authorization_code,
-              order_id: responseData.bank_order_id,
-              device_id: fullPayment.device_id,
+        // Payment, escrow account, both devices, the audit entry and the
+        // notifications (outbox) in one transaction
+        const { changed } = await this.paymentStateService.transitionAtomically(
+          dto.paymentId,
+          { paymentStatus: 'completed', escrowStatus: 'held' },
+          'complete_payment',
+          {
+            p_payment: {
+              provider_payment_id: responseData.bank_order_id,
+              provider_transaction_id: responseData.xact_id,
+              provider_status: 'success',
+              provider_response: JSON.stringify(providerResponseData),
+              completed_at: responseData.xact_date || new Date().toISOString(),
+              payment_gateway_fee: fees.payment_gateway_fee,
+              service_fee: fees.service_fee,
+              card_last_four: responseData.card_no_masked?.slice(-4),
+              card_bin: responseData.card_no_masked?.slice(0, 6),
+              card_brand: responseData.card_brand_name,
+              gross_amount: responseData.amount,
+              net_amount: responseData.net_amount,
             },
-          });
-
-        if (auditError) {
-          this.logger.error(
-            `Failed to create audit log: ${auditError.message}`,
-            auditError,
-          );
-          // Don't throw - audit logs are not critical for payment flow
-        }
-
-        // Create notification for owner (payer)
-        const { error: ownerNotifError } = await this.supabase
-          .from('notifications')
-          .insert({
-            user_id: fullPayment.payer_id,
-            message_key: 'payment_completed_owner',
-            type: 'success',
-            is_read: false,
-            metadata: {
-              payment_id: dto.paymentId,
-              device_id: fullPayment.device_id,
-              amount: fullPayment.total_amount,
+            p_audit: {
+              event_type: 'payment_completed',
+              user_id: fullPayment.payer_id,
+              event_description: 'Payment completed successfully via 3D Secure',
+              event_data: {
+                amount: fullPayment.total_amount,
+                provider: fullPayment.payment_provider,
+                transaction_id: responseData.xact_id,
+                authorization_code: responseData.bank_authorization_code,
+                order_id: responseData.bank_order_id,
+                device_id: fullPayment.device_id,
+              },
             },
-          });
+          },
+          {
+            actor: userId || 'system',
+            outbox: [
+              {
+                topic: 'notification',
+                aggregateId: dto.paymentId,
+                payload: {
+                  user_id: fullPayment.payer_id,
+                  message_key: 'payment_completed_owner',
+                  type: 'success',
+                  metadata: {
+                    payment_id: dto.paymentId,
+                    device_id: fullPayment.device_id,
+                    amount: fullPayment.total_amount,
+                  },
+                },
+              },
+              ...(fullPayment.receiver_id
+                ? [
+                    {
+                      topic: 'notification' as const,
+                      aggregateId: dto.paymentId,
+                      payload: {
+                        user_id: fullPayment.receiver_id,
+                        message_key: 'payment_received_finder',
+                        type: 'payment_success',
+                        metadata: {
+                          payment_id: dto.paymentId,
+                          device_id: fullPayment.device_id,
+                          reward_amount: fullPayment.reward_amount,
+                        },
+                      },
+                    },
+                  ]
+                : []),
+            ],
+          },
+        );
 
-        if (ownerNotifError) {
-          this.logger.error(
-            `Failed to create owner notification: ${ownerNotifError.message}`,
-            ownerNotifError,
-          );
-          // Don't throw - notifications are not critical for payment flow
+        // Everything below is idempotent (card upsert, ledger entry keys, one
+        // shipment per payment) and also runs when the payment was already
+        // completed - by the webhook, or by an attempt that died before
+        // getting here - so nothing is lost if the first run didn't finish
+        if (!changed) {
+          this.logger.log(`Payment ${dto.paymentId} was already completed`);
         }
 
-        // Create notification for finder (receiver)
-        if (fullPayment.receiver_id) {
-          const { error: finderNotifError } = await this.supabase
-            .from('notifications')
-            .insert({
-              user_id: fullPayment.receiver_id,
-              message_key: 'payment_received_finder',
-              type: 'payment_success',
-              is_read: false,
-              metadata: {
-                payment_id: dto.paymentId,
-                device_id: fullPayment.device_id,
-                reward_amount: fullPayment.reward_amount,
-              },
-            });
-
-          if (finderNotifError) {
-            this.logger.error(
-              `Failed to create finder notification: ${finderNotifError.message}`,
-              finderNotifError,
-            );
-            // Don't throw - notifications are not critical for payment flow
-          }
+        if (fullPayment.save_card) {
+          await this.savedCardsService.saveFromCharge(fullPayment, paynetResponse);
         }
 
+        await this.ledgerService.postPaymentCompleted(fullPayment, fees.payment_gateway_fee);
+
+        await this.eventBus.publish({
+          type: 'PaymentCompleted',
+          paymentId: dto.paymentId,
+          deviceId: fullPayment.device_id,
+          payerId: fullPayment.payer_id,
+          receiverId: fullPayment.receiver_id ?? null,
+          cargoFee: fullPayment.cargo_fee,
+          source: '3d_secure',
+        });
+        await this.eventBus.publish({
+          type: 'EscrowHeld',
+          paymentId: dto.paymentId,
+          deviceId: fullPayment.device_id,
+        });
+
         this.logger.log(`Payment processed successfully: ${dto.paymentId}`);
 
         return {
@@ -697,21 +880,38 @@ export class PaymentsService {
         // Payment failed
         this.logger.warn(`Payment failed: ${dto.paymentId}`);
         
-        await this.supabase
-          .from('payments')
-          .update({
-            payment_status: 'failed',
-            failure_reason: responseData.message || 'Payment failed',
-            failed_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', dto.paymentId);
+        await this.paymentStateService.transition(
+          dto.paymentId,
+          { paymentStatus: 'failed' },
+          {
+            actor: userId || 'system',
+            reason: responseData.message || 'Payment failed',
+            fields: {
+              failure_reason: responseData.message || 'Payment failed',
+              failed_at: new Date().toISOString(),
+            },
+          },
+        );
 
         throw new BadRequestException(
           `Payment failed: ${responseData.message || 'Payment was not successful'}`,
         );
       }
     } catch (error: any) {
+      // Lost the race with the webhook: it completed the payment while we
+      // waited for the provider, so the payment did go through
+      if (error instanceof StalePaymentStateException) {
+        const current = await this.paymentStateService.getState(dto.paymentId);
+        if (current.paymentStatus === 'completed' && current.escrowStatus === 'held') {
+          this.logger.log(`Payment ${dto.paymentId} was completed by the webhook`);
+          return {
+            success: true,
+            paymentId: dto.paymentId,
+            message: 'Payment completed successfully.',
+          };
+        }
+      }
+
       this.logger.error(
         `Failed to complete 3D payment: ${error.message}`,
         error.stack,
@@ -727,16 +927,42 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Hand a 3D Secure charge that doesn't match its payment to the webhook
+   * path, webhook-shaped like recoverPaidPayment does: it is stored in
+   * webhook_storage and quarantined there, so it shows in the webhook inbox
+   * and can be replayed (or force-replayed) by an admin
+   */
+  private async quarantineCharge(payment: any, responseData: any): Promise<void> {
+    await this.webhooksService.handleRecoveredTransaction(
+      {
+        reference_no: payment.id,
+        xact_id: responseData.xact_id,
+        xact_date: responseData.xact_date,
+        amount: responseData.amount,
+        netAmount: responseData.net_amount,
+        comission: responseData.comission,
+        currency: responseData.currency,
+        instalment: responseData.instalment,
+        authorization_code: responseData.bank_authorization_code,
+        order_id: responseData.bank_order_id,
+        card_number: responseData.card_no_masked,
+        is_succeed: true,
+      },
+      payment.payment_provider || 'paynet',
+    );
+  }
+
   /**
    * Find payment by session_id
    * Used by callback handler to find payment_id from Paynet session_id
    */
   async findPaymentBySessionId(
     sessionId: string,
-  ): Promise<{ id: string; payment_status: string } | null> {
+  ): Promise<{ id: string; payment_status: string; client_platform: string | null } | null> {
     const { data: payment, error } = await this.supabase
       .from('payments')
-      .select('id, payment_status')
+      .select('id, payment_status, client_platform')
       .eq('session_id', sessionId)
       .eq('payment_status', 'pending')
       .single();
@@ -876,13 +1102,24 @@ export class PaymentsService {
 
     // Release escrow via Paynet API
     try {
-      await this.paynetProvider.releaseEscrowPayment(paynetTransactionId, releaseReason);
+      const provider = this.providerRegistry.getForPayment(payment);
+      await provider.releaseEscrowPayment(paynetTransactionId, releaseReason);
 
-      this.logger.log(`Escrow released successfully via Paynet: paymentId=${paymentId}`);
+      this.logger.log(`Escrow released successfully via ${provider.name}: paymentId=${paymentId}`);
 
       // Update database after successful Paynet API call
       await this.updateDatabaseAfterEscrowRelease(payment, deviceId, releaseReason, userId);
 
+      // Payouts and the finder's device row follow from the event
+      await this.eventBus.publish({
+        type: 'EscrowReleased',
+        paymentId,
+        deviceId,
+        releasedBy: userId,
+        reason: releaseReason,
+        partialRefund: false,
+      });
+
       return {
         success: true,
         message: 'Escrow released successfully',
@@ -941,12 +1178,23 @@ export class PaymentsService {
       payment.provider_transaction_id || payment.provider_payment_id || paymentId;
 
     try {
-      await this.paynetProvider.rejectEscrowPayment(paynetTransactionId, cancelReason);
+      const provider = this.providerRegistry.getForPayment(payment);
+      await provider.rejectEscrowPayment(paynetTransactionId, cancelReason);
 
-      this.logger.log(`Escrow rejected (refunded) successfully via Paynet: paymentId=${paymentId}`);
+      this.logger.log(
+        `Escrow rejected (refunded) successfully via ${provider.name}: paymentId=${paymentId}`,
+      );
 
       await this.updateDatabaseAfterEscrowRefund(payment, deviceId, cancelReason, userId);
 
+      await this.eventBus.publish({
+        type: 'EscrowRefunded',
+        paymentId,
+        deviceId,
+        refundedBy: userId,
+        reason: cancelReason,
+      });
+
       return {
         success: true,
         message: 'Payment cancelled and refunded successfully',
@@ -958,6 +1206,93 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Refund part of a held escrow to the payer and release the rest - admin
+   * decisions like refunding only the service fee, or splitting the reward
+   * between owner and finder after a damaged-device dispute. PAYNET can
+   * only approve or reject an escrowed transaction as a whole, so it is
+   * approved and the refund runs against the approved transaction.
+   */
+  async refundEscrowPartially(
+    paymentId: string,
+    amounts: PartialRefundAmounts,
+    reason: string,
+    adminUserId: string,
+  ): Promise<{
+    success: boolean;
+    message: string;
+    refundedAmount: number;
+    releasedAmount: number;
+  }> {
+    this.logger.log(
+      `Partially refunding escrow: paymentId=${paymentId}, reward=${amounts.reward}, cargoFee=${amounts.cargoFee}, serviceFee=${amounts.serviceFee}, admin=${adminUserId}`,
+    );
+
+    const { data: payment, error: paymentError } = await this.supabase
+      .from('payments')
+      .select('*')
+      .eq('id', paymentId)
+      .single();
+
+    if (paymentError || !payment) {
+      throw new NotFoundException(`Payment not found: ${paymentId}`);
+    }
+
+    if (payment.payment_status !== 'completed' || payment.escrow_status !== 'held') {
+      throw new BadRequestException(
+        `Payment is not in a refundable state. Status: ${payment.payment_status}, Escrow: ${payment.escrow_status}`,
+      );
+    }
+
+    const plan = planPartialRefund(payment, amounts);
+    const providerTransactionId =
+      payment.provider_transaction_id || payment.provider_payment_id || paymentId;
+    const provider = this.providerRegistry.getForPayment(payment);
+
+    try {
+      await provider.releaseEscrowPayment(providerTransactionId, reason);
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to approve escrow for partial refund: ${error.message}`,
+        error.stack,
+      );
+      throw new BadRequestException(`Partial refund failed: ${error.message}`);
+    }
+
+    // The escrow is approved at this point; a failed refund doesn't undo
+    // the split, ops completes the refund in the provider panel
+    let refundError: string | null = null;
+    try {
+      await provider.refundPayment(providerTransactionId, plan.refund.total.toMajor(), reason);
+    } catch (error: any) {
+      refundError = error.message;
+      this.logger.error(
+        `Escrow of payment ${paymentId} approved but the partial refund failed: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    await this.updateDatabaseAfterPartialRefund(payment, plan, reason, adminUserId, refundError);
+
+    await this.eventBus.publish({
+      type: 'EscrowReleased',
+      paymentId,
+      deviceId: payment.device_id,
+      releasedBy: adminUserId,
+      reason,
+      partialRefund: true,
+    });
+
+    return {
+      success: true,
+      message: refundError
+        ? `Escrow released, but the refund failed at ${provider.name} and must be completed manually: ${refundError}`
+        : 'Escrow partially refunded and released successfully',
+      refundedAmount: plan.refund.total.toMajor(),
+      releasedAmount: plan.released.total.toMajor(),
+    };
+  }
+
   /**
    * Update database after successful escrow refund (rejection)
    */
@@ -969,106 +1304,42 @@ export class PaymentsService {
   ): Promise<void> {
     const now = new Date().toISOString();
     try {
-      // 1. Update escrow_accounts table
-      const { error: escrowError } = await this.supabase
-        .from('escrow_accounts')
-        .update({
-          status: 'refunded',
-          refunded_at: now,
-          notes: cancelReason,
-          updated_at: now,
-        })
-        .eq('payment_id', payment.id);
-
-      if (escrowError) {
-        this.logger.error(`Failed to update escrow account: ${escrowError.message}`, escrowError);
-        throw escrowError;
-      }
-
-      // 2. Update payments table
-      const { error: paymentError } = await this.supabase
-        .from('payments')
-        .update({
-          payment_status: 'cancelled',
-          escrow_status: 'refunded',
-          escrow_refunded_at: now,
-          updated_at: now,
-        })
-        .eq('id', payment.id);
-
-      if (paymentError) {
-        this.logger.error(`Failed to update payment: ${paymentError.message}`, paymentError);
-        throw paymentError;
-      }
-
-      // 3. Update devices table (owner's row — cargo.service.ts mirrors this
-      // onto the finder's paired row)
-      const { error: deviceError } = await this.supabase
-        .from('devices')
-        .update({
-          status: 'cancelled',
-          updated_at: now,
-        })
-        .eq('id', deviceId);
-
-      if (deviceError) {
-        this.logger.error(`Failed to update device status: ${deviceError.message}`, deviceError);
-        throw deviceError;
-      }
-
-      // 4. Create audit_logs record
-      const { error: auditError } = await this.supabase
-        .from('audit_logs')
-        .insert({
-          event_type: 'payment_cancelled',
-          event_category: 'payment',
-          event_action: 'cancel',
-          event_severity: 'info',
-          user_id: userId,
-          resource_type: 'payment',
-          resource_id: payment.id,
-          event_description: 'Payment cancelled by owner before shipment, escrow refunded',
-          event_data: {
-            payment_id: payment.id,
-            device_id: deviceId,
-            refunded_amount: payment.total_amount,
-            refunded_at: now,
-            cancel_reason: cancelReason,
+      // 1. Payment, escrow account, owner's device (cargo.service.ts mirrors
+      // it onto the finder's paired row), the audit entry and the
+      // notifications (outbox) in one transaction
+      await this.paymentStateService.transitionAtomically(
+        payment.id,
+        { paymentStatus: 'cancelled', escrowStatus: 'refunded' },
+        'refund_escrow',
+        {
+          p_device_id: deviceId,
+          p_reason: cancelReason,
+          p_audit: {
+            event_type: 'payment_cancelled',
+            user_id: userId,
+            event_description: 'Payment cancelled by owner before shipment, escrow refunded',
+            event_data: {
+              payment_id: payment.id,
+              device_id: deviceId,
+              refunded_amount: payment.total_amount,
+              refunded_at: now,
+              cancel_reason: cancelReason,
+            },
           },
-        });
-
-      if (auditError) {
-        this.logger.error(`Failed to create audit log: ${auditError.message}`, auditError);
-      }
-
-      // 5. Notifications
-      const { error: ownerNotifError } = await this.supabase
-        .from('notifications')
-        .insert({
-          user_id: payment.payer_id,
-          message_key: 'payment_cancelled_refunded',
-          type: 'info',
-          is_read: false,
-        });
-
-      if (ownerNotifError) {
-        this.logger.error(`Failed to create owner notification: ${ownerNotifError.message}`, ownerNotifError);
-      }
+        },
+        {
+          actor: userId,
+          reason: cancelReason,
+          outbox: this.partyNotifications(
+            payment,
+            { message_key: 'payment_cancelled_refunded', type: 'info' },
+            { message_key: 'shipment_cancelled_by_owner', type: 'warning' },
+          ),
+        },
+      );
 
-      if (payment.receiver_id) {
-        const { error: finderNotifError } = await this.supabase
-          .from('notifications')
-          .insert({
-            user_id: payment.receiver_id,
-            message_key: 'shipment_cancelled_by_owner',
-            type: 'warning',
-            is_read: false,
-          });
-
-        if (finderNotifError) {
-          this.logger.error(`Failed to create finder notification: ${finderNotifError.message}`, finderNotifError);
-        }
-      }
+      // 2. Ledger: held amount goes back to the payer
+      await this.ledgerService.postEscrowRefunded(payment, userId);
 
       this.logger.log(`Successfully updated database after escrow refund: ${payment.id}`);
     } catch (error: any) {
@@ -1087,116 +1358,154 @@ export class PaymentsService {
     userId: string,
   ): Promise<void> {
     try {
-      // 1. Update escrow_accounts table
-      const { error: escrowError } = await this.supabase
-        .from('escrow_accounts')
-        .update({
-          status: 'released',
-          released_at: new Date().toISOString(),
-          released_by: userId,
-          release_reason: releaseReason,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('payment_id', payment.id);
-
-      if (escrowError) {
-        this.logger.error(`Failed to update escrow account: ${escrowError.message}`, escrowError);
-        throw escrowError;
-      }
+      const now = new Date().toISOString();
+
+      // 1. Payment, escrow account, owner's device, the audit entry and the
+      // notifications (outbox) in one transaction
+      await this.paymentStateService.transitionAtomically(
+        payment.id,
+        { escrowStatus: 'released' },
+        'release_escrow',
+        {
+          p_device_id: deviceId,
+          p_released_by: userId,
+          p_reason: releaseReason,
+          p_audit: {
+            event_type: 'escrow_released',
+            user_id: userId,
+            event_description: 'Escrow released after device confirmation',
+            event_data: {
+              payment_id: payment.id,
+              device_id: deviceId,
+              net_payout: payment.net_payout,
+              released_at: now,
+              release_reason: releaseReason,
+            },
+          },
+        },
+        {
+          actor: userId,
+          reason: releaseReason,
+          outbox: this.partyNotifications(
+            payment,
+            { message_key: 'escrow_released_owner', type: 'success' },
+            { message_key: 'escrow_released_finder', type: 'payment_success' },
+          ),
+        },
+      );
 
-      // 2. Update payments table
-      const { error: paymentError } = await this.supabase
-        .from('payments')
-        .update({
-          escrow_status: 'released',
-          escrow_released_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', payment.id);
-
-      if (paymentError) {
-        this.logger.error(`Failed to update payment: ${paymentError.message}`, paymentError);
-        throw paymentError;
-      }
+      // 2. Ledger: split the held amount into what each party is owed
+      await this.ledgerService.postEscrowReleased(payment, userId);
 
-      // 3. Update devices table
-      const { error: deviceError } = await this.supabase
-        .from('devices')
-        .update({
-          status: 'completed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', deviceId);
-
-      if (deviceError) {
-        this.logger.error(`Failed to update device status: ${deviceError.message}`, deviceError);
-        throw deviceError;
-      }
+      this.logger.log(`Successfully updated database after escrow release: ${payment.id}`);
+    } catch (error: any) {
+      this.logger.error(`Error updating database after escrow release: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
 
-      // 4. Create audit_logs record
-      const { error: auditError } = await this.supabase
-        .from('audit_logs')
-        .insert({
-          event_type: 'escrow_released',
-          event_category: 'payment',
-          event_action: 'release',
-          event_severity: 'info',
-          user_id: userId,
-          resource_type: 'payment',
-          resource_id: payment.id,
-          event_description: 'Escrow released after device confirmation',
+  /**
+   * Update database after a partial refund: the escrow keeps only the
+   * released amounts (what payouts split) and records what was refunded
+   */
+  private async updateDatabaseAfterPartialRefund(
+    payment: any,
+    plan: PartialRefundPlan,
+    reason: string,
+    adminUserId: string,
+    refundError: string | null,
+  ): Promise<void> {
+    const { refund, released } = plan;
+
+    // 1. Payment, escrow account, owner's device, the audit entry and the
+    // notifications (outbox) in one transaction - the audit entry is critical
+    // when the refund itself failed
+    await this.paymentStateService.transitionAtomically(
+      payment.id,
+      { escrowStatus: 'released' },
+      'release_escrow',
+      {
+        p_device_id: payment.device_id,
+        p_released_by: adminUserId,
+        p_reason: reason,
+        p_partial_refund: {
+          refunded_amount: refund.total.toMajor(),
+          refund_breakdown: {
+            reward: refund.reward.toMajor(),
+            cargo_fee: refund.cargoFee.toMajor(),
+            service_fee: refund.serviceFee.toMajor(),
+          },
+          released: {
+            total_amount: released.total.toMajor(),
+            reward_amount: released.reward.toMajor(),
+            cargo_fee: released.cargoFee.toMajor(),
+            service_fee: released.serviceFee.toMajor(),
+          },
+        },
+        p_audit: {
+          event_type: refundError ? 'escrow_partial_refund_failed' : 'escrow_partially_refunded',
+          event_action: refundError ? 'alert' : 'refund',
+          event_severity: refundError ? 'critical' : 'info',
+          user_id: adminUserId,
+          event_description: refundError
+            ? `Escrow released but the partial refund of ${refund.total} TRY failed at the provider; refund it manually: ${refundError}`
+            : `Escrow partially refunded (${refund.total} TRY) and the rest released`,
           event_data: {
             payment_id: payment.id,
-            device_id: deviceId,
-            net_payout: payment.net_payout,
-            released_at: new Date().toISOString(),
-            release_reason: releaseReason,
+            device_id: payment.device_id,
+            refunded_amount: refund.total.toMajor(),
+            refunded_reward: refund.reward.toMajor(),
+            refunded_cargo_fee: refund.cargoFee.toMajor(),
+            refunded_service_fee: refund.serviceFee.toMajor(),
+            released_amount: released.total.toMajor(),
+            reason,
           },
-        });
-
-      if (auditError) {
-        this.logger.error(`Failed to create audit log: ${auditError.message}`, auditError);
-        // Don't throw - audit logs are not critical
-      }
-
-      // 5. Create notifications records
-      // Notification for owner (payer)
-      const { error: ownerNotifError } = await this.supabase
-        .from('notifications')
-        .insert({
-          user_id: payment.payer_id,
-          message_key: 'escrow_released_owner',
-          type: 'success',
-          is_read: false,
-        });
+        },
+      },
+      {
+        actor: adminUserId,
+        reason,
+        outbox: this.partyNotifications(
+          payment,
+          { message_key: 'escrow_partially_refunded_owner', type: 'success' },
+          { message_key: 'escrow_partially_refunded_finder', type: 'payment_success' },
+        ),
+      },
+    );
 
-      if (ownerNotifError) {
-        this.logger.error(`Failed to create owner notification: ${ownerNotifError.message}`, ownerNotifError);
-        // Don't throw - notifications are not critical
-      }
+    // 2. Ledger: refunded part back to the payer, the rest split as a release
+    await this.ledgerService.postPartialRefund(payment, refund.total, reason, adminUserId);
+    await this.ledgerService.postEscrowReleased(
+      {
+        ...payment,
+        total_amount: released.total.toMajor(),
+        reward_amount: released.reward.toMajor(),
+        cargo_fee: released.cargoFee.toMajor(),
+        service_fee: released.serviceFee.toMajor(),
+      },
+      adminUserId,
+    );
 
-      // Notification for finder (receiver)
-      if (payment.receiver_id) {
-        const { error: finderNotifError } = await this.supabase
-          .from('notifications')
-          .insert({
-            user_id: payment.receiver_id,
-            message_key: 'escrow_released_finder',
-            type: 'payment_success',
-            is_read: false,
-          });
-
-        if (finderNotifError) {
-          this.logger.error(`Failed to create finder notification: ${finderNotifError.message}`, finderNotifError);
-          // Don't throw - notifications are not critical
-        }
-      }
+    this.logger.log(`Successfully updated database after partial refund: ${payment.id}`);
+  }
 
-      this.logger.log(`Successfully updated database after escrow release: ${payment.id}`);
-    } catch (error: any) {
-      this.logger.error(`Error updating database after escrow release: ${error.message}`, error.stack);
-      throw error;
+  /**
+   * Outbox notifications for the owner (payer) and, if matched, the finder (receiver)
+   */
+  private partyNotifications(
+    payment: any,
+    owner: Pick<NotificationPayload, 'message_key' | 'type'>,
+    finder: Pick<NotificationPayload, 'message_key' | 'type'>,
+  ): OutboxMessage[] {
+    const recipients = [{ user_id: payment.payer_id, ...owner }];
+    if (payment.receiver_id) {
+      recipients.push({ user_id: payment.receiver_id, ...finder });
     }
+    return recipients.map((payload) => ({
+      topic: 'notification',
+      aggregateId: payment.id,
+      payload,
+    }));
   }
 
   /**
@@ -1297,26 +1606,19 @@ export class PaymentsService {
       );
     }
 
-    // Update payment status to failed
-    const { error: updateError } = await this.supabase
-      .from('payments')
-      .update({
-        payment_status: 'failed',
-        failure_reason: reason,
-        failed_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', paymentId);
-
-    if (updateError) {
-      this.logger.error(
-        `Failed to cancel payment: ${updateError.message}`,
-        updateError,
-      );
-      throw new BadRequestException(
-        `Failed to cancel payment: ${updateError.message}`,
-      );
-    }
+    // Update payment status to failed; a webhook completing it first wins
+    await this.paymentStateService.transition(
+      paymentId,
+      { paymentStatus: 'failed' },
+      {
+        actor: userId,
+        reason,
+        fields: {
+          failure_reason: reason,
+          failed_at: new Date().toISOString(),
+        },
+      },
+    );
 
     this.logger.log(`Payment cancelled successfully: ${paymentId}`);
 
@@ -0,0 +1,196 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { SavedCardDto } from '../dto/saved-card.dto';
+import { ProviderPaymentResponse } from '../providers/payment-provider.interface';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry';
+
+export interface SavedCardRecord {
+  id: string;
+  user_id: string;
+  provider: string;
+  card_hash: string;
+  user_unique_id: string;
+  card_bin: string | null;
+  card_last_four: string | null;
+  card_brand: string | null;
+  card_type: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/**
+ * User-scoped store of provider card-vault tokens.
+ *
+ * Cards are stored by the provider during a successful charge (save_card);
+ * we only keep the token plus display fields. A saved card can only be
+ * charged through the provider that stored it.
+ */
+@Injectable()
+export class SavedCardsService {
+  private readonly logger = new Logger(SavedCardsService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  async listForUser(userId: string): Promise<SavedCardDto[]> {
+    const { data, error } = await this.supabase
+      .from('saved_cards')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      this.logger.error(`Failed to list saved cards for user ${userId}: ${error.message}`);
+      throw new Error(`Failed to list saved cards: ${error.message}`);
+    }
+
+    return (data as SavedCardRecord[]).map((card) => this.toDto(card));
+  }
+
+  /**
+   * Load a saved card owned by the user. Throws NotFoundException for cards
+   * of other users so card IDs can't be probed.
+   */
+  async getForUser(cardId: string, userId: string): Promise<SavedCardRecord> {
+    const { data, error } = await this.supabase
+      .from('saved_cards')
+      .select('*')
+      .eq('id', cardId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Saved card not found: ${cardId}`);
+    }
+
+    return data as SavedCardRecord;
+  }
+
+  /**
+   * Provider-side card owner key to save a new card under.
+   *
+   * All cards of a user at one provider share a key. PAYNET lets the merchant
+   * choose user_unique_id, so we use our user ID; iyzico issues its own
+   * cardUserKey with the first saved card, so there is none until then.
+   */
+  async getOwnerKey(userId: string, providerName: string): Promise<string | undefined> {
+    const { data } = await this.supabase
+      .from('saved_cards')
+      .select('user_unique_id')
+      .eq('user_id', userId)
+      .eq('provider', providerName)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data?.user_unique_id) {
+      return data.user_unique_id;
+    }
+
+    return providerName === 'paynet' ? userId : undefined;
+  }
+
+  /**
+   * Persist the card the provider stored during a successful charge.
+   * Never throws - a card that failed to save must not fail the payment.
+   */
+  async saveFromCharge(
+    payment: { id: string; payer_id: string; payment_provider: string },
+    response: ProviderPaymentResponse,
+  ): Promise<void> {
+    if (!response.card_hash || !response.user_unique_id) {
+      this.logger.warn(`Payment ${payment.id} asked to save the card but provider returned none`);
+      return;
+    }
+
+    const masked = response.card_no_masked || '';
+    const { data, error } = await this.supabase
+      .from('saved_cards')
+      .upsert(
+        {
+          user_id: payment.payer_id,
+          provider: payment.payment_provider,
+          card_hash: response.card_hash,
+          user_unique_id: response.user_unique_id,
+          card_bin: masked.slice(0, 6) || null,
+          card_last_four: masked.slice(-4) || null,
+          card_brand: response.card_brand_name || null,
+          card_type: response.card_type || null,
+          source_payment_id: payment.id,
+          last_used_at: new Date().toISOString(),
+          deleted_at: null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'provider,card_hash' },
+      )
+      .select('id')
+      .single();
+
+    if (error) {
+      this.logger.error(`Failed to save card for payment ${payment.id}: ${error.message}`, error);
+      return;
+    }
+
+    this.logger.log(`Card saved for user ${payment.payer_id}: ${data.id}`);
+  }
+
+  async markUsed(cardId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('saved_cards')
+      .update({ last_used_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', cardId);
+
+    if (error) {
+      this.logger.warn(`Failed to update last_used_at for saved card ${cardId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete the card at the provider first, then soft-delete our record so a
+   * provider failure leaves the card visible and retryable.
+   */
+  async deleteForUser(
+    cardId: string,
+    userId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    const card = await this.getForUser(cardId, userId);
+
+    await this.providerRegistry
+      .get(card.provider)
+      .deleteStoredCard(card.user_unique_id, card.card_hash);
+
+    const { error } = await this.supabase
+      .from('saved_cards')
+      .update({ deleted_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', cardId);
+
+    if (error) {
+      this.logger.error(`Failed to delete saved card ${cardId}: ${error.message}`, error);
+      throw new Error(`Failed to delete saved card: ${error.message}`);
+    }
+
+    this.logger.log(`Saved card deleted: ${cardId} (user ${userId})`);
+    return { success: true, message: 'Saved card deleted successfully' };
+  }
+
+  private toDto(card: SavedCardRecord): SavedCardDto {
+    return {
+      id: card.id,
+      provider: card.provider,
+      cardBin: card.card_bin ?? undefined,
+      cardLastFour: card.card_last_four ?? undefined,
+      cardBrand: card.card_brand ?? undefined,
+      cardType: card.card_type ?? undefined,
+      lastUsedAt: card.last_used_at ?? undefined,
+      createdAt: card.created_at,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import {
+  SANDBOX_FAILURE_MODES,
+  SANDBOX_OPERATIONS,
+  SandboxFailureMode,
+  SandboxOperation,
+} from '../paynet-sandbox.types';
+
+/**
+ * Queues a failure mode for the next N calls of one sandbox operation.
+ * Scenarios are consumed in the order they were queued; once a scenario's
+ * count is used up the operation goes back to succeeding.
+ */
+export class SandboxScenarioDto {
+  @ApiProperty({ description: 'Sandbox operation to script', enum: SANDBOX_OPERATIONS })
+  @IsIn(SANDBOX_OPERATIONS)
+  operation: SandboxOperation;
+
+  @ApiProperty({ description: 'Failure mode to apply', enum: SANDBOX_FAILURE_MODES })
+  @IsIn(SANDBOX_FAILURE_MODES)
+  mode: SandboxFailureMode;
+
+  @ApiPropertyOptional({ description: 'How many calls the scenario applies to', example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  times?: number;
+
+  @ApiPropertyOptional({
+    description: "Delay for 'timeout' and 'delayed' modes in milliseconds",
+    example: 35000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120000)
+  delayMs?: number;
+}
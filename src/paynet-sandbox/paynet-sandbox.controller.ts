@@ -0,0 +1,188 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { ApiExcludeEndpoint, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { Public } from '../auth/decorators/public.decorator';
+import { SandboxScenarioDto } from './dto/sandbox-scenario.dto';
+import { PaynetSandboxService } from './paynet-sandbox.service';
+import { SandboxScenario, SandboxTransaction } from './paynet-sandbox.types';
+
+/**
+ * PAYNET API simulator. Only mounted when PAYNET_SANDBOX_ENABLED=true,
+ * which validation refuses in production.
+ *
+ * The PAYNET-shaped routes take raw bodies: the sandbox must accept exactly
+ * what PaynetProvider sends, so it doesn't run them through DTO validation.
+ */
+@ApiTags('paynet-sandbox')
+@Public() // Called by PaynetProvider with PAYNET's Basic auth, not a user JWT
+@Controller('paynet-sandbox')
+export class PaynetSandboxController {
+  constructor(private readonly sandboxService: PaynetSandboxService) {}
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v2/transaction/tds_initial')
+  async tdsInitial(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+    @Req() request: Request,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    // post_url must point back at this sandbox, wherever it's mounted
+    const sandboxPath = request.originalUrl.replace(/\/v2\/transaction\/tds_initial.*$/, '');
+    return this.sandboxService.initiate3D(
+      body,
+      `${request.protocol}://${request.get('host')}${sandboxPath}`,
+    );
+  }
+
+  @ApiExcludeEndpoint()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  @Get('v2/3d/:sessionId')
+  render3DPage(@Param('sessionId') sessionId: string): string {
+    return this.sandboxService.render3DPage(sessionId);
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v2/transaction/tds_charge')
+  async tdsCharge(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.charge3D(body);
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v1/paylink/create')
+  async createPaylink(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+    @Req() request: Request,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    const sandboxPath = request.originalUrl.replace(/\/v1\/paylink\/create.*$/, '');
+    return this.sandboxService.createPaylink(
+      body,
+      `${request.protocol}://${request.get('host')}${sandboxPath}`,
+    );
+  }
+
+  @ApiExcludeEndpoint()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  @Get('v1/paylink/:paylinkId')
+  renderPaylinkPage(@Param('paylinkId') paylinkId: string): string {
+    return this.sandboxService.renderPaylinkPage(paylinkId);
+  }
+
+  @ApiExcludeEndpoint()
+  @Post('v1/paylink/:paylinkId/pay')
+  payPaylink(
+    @Param('paylinkId') paylinkId: string,
+    @Body() body: Record<string, any>,
+    @Res() res: Response,
+  ): void {
+    res.redirect(303, this.sandboxService.payPaylink(paylinkId, body));
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v1/transaction/escrow_status_update')
+  async escrowStatusUpdate(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.updateEscrowStatus(body);
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v1/transaction/reversed_request')
+  async refund(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.refund(body);
+  }
+
+  @ApiExcludeEndpoint()
+  @Get('v1/transaction/:xactId')
+  async getTransaction(
+    @Param('xactId') xactId: string,
+    @Headers('authorization') authorization: string | undefined,
+  ): Promise<object> {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.getTransaction(xactId);
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v1/ratio/get')
+  getInstallmentRatios(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+  ): object {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.getInstallmentRatios(body);
+  }
+
+  @ApiExcludeEndpoint()
+  @HttpCode(200)
+  @Post('v1/card/delete')
+  deleteStoredCard(
+    @Body() body: Record<string, any>,
+    @Headers('authorization') authorization: string | undefined,
+  ): object {
+    this.sandboxService.assertAuthorized(authorization);
+    return this.sandboxService.deleteStoredCard(body);
+  }
+
+  @ApiOperation({
+    summary: 'Queue a sandbox failure scenario',
+    description:
+      'Makes the next N calls of an operation fail in the given way (server error, timeout, declined card, duplicate/lost/delayed webhook).',
+  })
+  @ApiResponse({ status: 201, description: 'Scenario queued; returns the current queue' })
+  @Post('scenarios')
+  queueScenario(@Body() dto: SandboxScenarioDto): SandboxScenario[] {
+    return this.sandboxService.queueScenario(dto);
+  }
+
+  @ApiOperation({ summary: 'List queued sandbox scenarios' })
+  @ApiResponse({ status: 200, description: 'Queued scenarios' })
+  @Get('scenarios')
+  getScenarios(): SandboxScenario[] {
+    return this.sandboxService.getScenarios();
+  }
+
+  @ApiOperation({ summary: 'Clear scenarios, sessions and transactions' })
+  @ApiResponse({ status: 200, description: 'Sandbox state cleared' })
+  @Delete('scenarios')
+  reset(): { reset: boolean } {
+    this.sandboxService.reset();
+    return { reset: true };
+  }
+
+  @ApiOperation({ summary: 'List transactions charged through the sandbox' })
+  @ApiResponse({ status: 200, description: 'Sandbox transactions' })
+  @Get('transactions')
+  listTransactions(): SandboxTransaction[] {
+    return this.sandboxService.listTransactions();
+  }
+}
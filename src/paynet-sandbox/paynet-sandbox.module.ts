@@ -0,0 +1,11 @@
+import { HttpModule } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { PaynetSandboxController } from './paynet-sandbox.controller';
+import { PaynetSandboxService } from './paynet-sandbox.service';
+
+@Module({
+  imports: [HttpModule],
+  controllers: [PaynetSandboxController],
+  providers: [PaynetSandboxService],
+})
+export class PaynetSandboxModule {}
@@ -0,0 +1,569 @@
+import { HttpService } from '@nestjs/axios';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { AppConfiguration, PaynetWebhookConfig } from '../config/configuration';
+import { SandboxScenarioDto } from './dto/sandbox-scenario.dto';
+import {
+  SandboxFailureMode,
+  SandboxOperation,
+  SandboxScenario,
+  SandboxSession,
+  SandboxStoredCard,
+  SandboxTransaction,
+} from './paynet-sandbox.types';
+
+// Cards the sandbox always declines, mirroring PAYNET's test card list
+const DECLINED_TEST_PANS = new Set(['4000000000000002', '5400000000000005']);
+
+// Commission rate per installment count quoted by the sandbox for every BIN
+const SANDBOX_INSTALLMENT_RATES: Record<number, number> = {
+  1: 0.0343,
+  2: 0.055,
+  3: 0.069,
+  6: 0.109,
+  9: 0.149,
+  12: 0.189,
+};
+
+/**
+ * In-memory PAYNET simulator.
+ *
+ * Implements the subset of the PAYNET API this backend uses so the full
+ * tds_initial → 3D page → return_url callback → tds_charge →
+ * confirmation_url webhook → escrow_status_update flow can run locally.
+ * Point PAYNET_API_URL at `${BACKEND_URL}/v1/paynet-sandbox` to use it.
+ *
+ * State lives in memory and is lost on restart - this is a test double,
+ * never a source of truth.
+ */
+@Injectable()
+export class PaynetSandboxService {
+  private readonly logger = new Logger(PaynetSandboxService.name);
+  private readonly sessions = new Map<string, SandboxSession>();
+  private readonly transactions = new Map<string, SandboxTransaction>();
+  private readonly storedCards = new Map<string, SandboxStoredCard>();
+  private scenarios: SandboxScenario[] = [];
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService<AppConfiguration, true>,
+  ) {}
+
+  queueScenario(dto: SandboxScenarioDto): SandboxScenario[] {
+    this.scenarios.push({
+      operation: dto.operation,
+      mode: dto.mode,
+      remaining: dto.times ?? 1,
+      delayMs: dto.delayMs,
+    });
+    return this.scenarios;
+  }
+
+  getScenarios(): SandboxScenario[] {
+    return this.scenarios;
+  }
+
+  reset(): void {
+    this.scenarios = [];
+    this.sessions.clear();
+    this.transactions.clear();
+    this.storedCards.clear();
+  }
+
+  listTransactions(): SandboxTransaction[] {
+    return [...this.transactions.values()];
+  }
+
+  /**
+   * PAYNET authenticates with `Authorization: Basic <secret key>`. The
+   * sandbox only checks it when a secret is configured so it also works
+   * with an empty local .env.
+   */
+  assertAuthorized(authorization: string | undefined): void {
+    const secretKey = process.env.PAYNET_SECRET_KEY;
+    if (secretKey && authorization !== `Basic ${secretKey}`) {
+      throw new UnauthorizedException('Invalid PAYNET secret key');
+    }
+  }
+
+  async initiate3D(body: Record<string, any>, sandboxBaseUrl: string): Promise<object> {
+    await this.applyTransportScenario('tds_initial');
+
+    if (!body.reference_no || !body.amount || !body.return_url) {
+      throw new BadRequestException('reference_no, amount and return_url are required');
+    }
+
+    const storedCard = body.card_hash ? this.storedCards.get(body.card_hash) : undefined;
+    if (body.card_hash && (!storedCard || storedCard.userUniqueId !== body.user_unique_id)) {
+      return { success: false, code: 1, message: 'Kayıtlı kart bulunamadı' };
+    }
+
+    const session: SandboxSession = {
+      sessionId: `sbx_ses_${randomBytes(12).toString('hex')}`,
+      tokenId: `sbx_tok_${randomBytes(12).toString('hex')}`,
+      referenceNo: String(body.reference_no),
+      amount: Number(body.amount),
+      returnUrl: body.return_url,
+      confirmationUrl: body.confirmation_url,
+      isEscrow: body.is_escrow === true,
+      instalment: Number(body.instalment) || 1,
+      cardHolder: storedCard?.cardHolder ?? body.card_holder,
+      maskedPan: storedCard?.maskedPan ?? this.maskPan(body.pan),
+      // Declined cards still get a session: the bank only refuses at tds_charge
+      declinedCard: storedCard?.declinedCard ?? DECLINED_TEST_PANS.has(body.pan),
+      saveCardFor: !storedCard && body.save_card === true ? body.user_unique_id : undefined,
+      createdAt: new Date().toISOString(),
+    };
+    this.sessions.set(session.sessionId, session);
+
+    return {
+      success: true,
+      code: 0,
+      message: 'Başarılı İşlem',
+      session_id: session.sessionId,
+      transaction_id: `sbx_init_${randomBytes(8).toString('hex')}`,
+      post_url: `${sandboxBaseUrl}/v2/3d/${session.sessionId}`,
+    };
+  }
+
+  /**
+   * Stand-in for the bank's 3D verification page: immediately posts
+   * session_id and token_id back to the merchant's return_url, the way
+   * PAYNET does after a successful SMS verification.
+   */
+  render3DPage(sessionId: string): string {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(`Unknown sandbox session: ${sessionId}`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>PAYNET Sandbox 3D Secure</title></head>
+  <body onload="document.forms[0].submit()">
+    <p>PAYNET sandbox: 3D Secure doğrulaması simüle ediliyor...</p>
+    <form method="POST" action="${this.escapeHtml(session.returnUrl)}">
+      <input type="hidden" name="session_id" value="${this.escapeHtml(session.sessionId)}">
+      <input type="hidden" name="token_id" value="${this.escapeHtml(session.tokenId)}">
+      <noscript><button type="submit">Devam</button></noscript>
+    </form>
+  </body>
+</html>`;
+  }
+
+  async charge3D(body: Record<string, any>): Promise<object> {
+    await this.applyTransportScenario('tds_charge');
+
+    const session = this.sessions.get(body.session_id);
+    if (!session || session.tokenId !== body.token_id) {
+      return { success: false, code: 1, is_succeed: false, message: 'Geçersiz oturum bilgisi' };
+    }
+
+    return this.toChargeResponse(this.charge(session));
+  }
+
+  async createPaylink(body: Record<string, any>, sandboxBaseUrl: string): Promise<object> {
+    await this.applyTransportScenario('paylink_create');
+
+    if (!body.reference_no || !body.amount || !body.return_url) {
+      throw new BadRequestException('reference_no, amount and return_url are required');
+    }
+
+    // Retrying with the same reference_no returns the existing order
+    const existing = [...this.sessions.values()].find(
+      (session) => session.referenceNo === String(body.reference_no),
+    );
+    const session: SandboxSession = existing ?? {
+      sessionId: `sbx_pl_${randomBytes(12).toString('hex')}`,
+      tokenId: '',
+      referenceNo: String(body.reference_no),
+      amount: Number(body.amount),
+      returnUrl: body.return_url,
+      confirmationUrl: body.confirmation_url,
+      isEscrow: body.is_escrow === true,
+      instalment: 1,
+      maskedPan: '',
+      declinedCard: false,
+      createdAt: new Date().toISOString(),
+    };
+    this.sessions.set(session.sessionId, session);
+
+    return {
+      success: true,
+      code: 0,
+      message: 'Başarılı İşlem',
+      transaction_id: session.sessionId,
+      url: `${sandboxBaseUrl}/v1/paylink/${session.sessionId}`,
+    };
+  }
+
+  /**
+   * Stand-in for PAYNET's common payment page: a card form prefilled with a
+   * test card. Use 4000000000000002 to get a declined payment.
+   */
+  renderPaylinkPage(paylinkId: string): string {
+    const session = this.sessions.get(paylinkId);
+    if (!session) {
+      throw new NotFoundException(`Unknown sandbox payment page: ${paylinkId}`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>PAYNET Sandbox Ödeme Sayfası</title></head>
+  <body>
+    <h1>PAYNET Sandbox</h1>
+    <p>Tutar: ${session.amount.toFixed(2)} TRY (${this.escapeHtml(session.referenceNo)})</p>
+    <form method="POST" action="${this.escapeHtml(session.sessionId)}/pay">
+      <input name="card_holder" value="Test Kart">
+      <input name="pan" value="4506349116543211">
+      <button type="submit">Öde</button>
+    </form>
+  </body>
+</html>`;
+  }
+
+  /**
+   * Charge the card entered on the sandbox payment page and return the URL
+   * to send the browser to (the merchant's return_url)
+   */
+  payPaylink(paylinkId: string, body: Record<string, any>): string {
+    const session = this.sessions.get(paylinkId);
+    if (!session) {
+      throw new NotFoundException(`Unknown sandbox payment page: ${paylinkId}`);
+    }
+
+    session.cardHolder = body.card_holder;
+    session.maskedPan = this.maskPan(body.pan);
+    session.declinedCard = DECLINED_TEST_PANS.has(body.pan);
+    this.charge(session);
+
+    return session.returnUrl;
+  }
+
+  private charge(session: SandboxSession): SandboxTransaction {
+    // PAYNET answers a repeated charge for the same reference_no with the
+    // original transaction instead of charging twice
+    const existing = [...this.transactions.values()].find(
+      (transaction) => transaction.session.referenceNo === session.referenceNo,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const declined = session.declinedCard || this.takeScenario('tds_charge', ['decline']) !== null;
+
+    const rate = SANDBOX_INSTALLMENT_RATES[session.instalment] ?? SANDBOX_INSTALLMENT_RATES[1];
+    const comission = Math.round(session.amount * rate * 100) / 100;
+    const transaction: SandboxTransaction = {
+      xactId: `sbx_xact_${randomBytes(10).toString('hex')}`,
+      session,
+      isSucceed: !declined,
+      escrowStatus: 1,
+      refundedAmount: 0,
+      authorizationCode: declined ? '' : String(Math.floor(100000 + Math.random() * 900000)),
+      orderId: `SBX${Date.now()}`,
+      comission,
+      xactDate: new Date().toISOString(),
+      message: declined ? 'Kart limiti yetersiz' : 'Başarılı İşlem',
+    };
+    if (transaction.isSucceed && session.saveCardFor) {
+      transaction.storedCard = {
+        cardHash: `sbx_card_${randomBytes(12).toString('hex')}`,
+        userUniqueId: session.saveCardFor,
+        cardHolder: session.cardHolder,
+        maskedPan: session.maskedPan,
+        declinedCard: session.declinedCard,
+      };
+      this.storedCards.set(transaction.storedCard.cardHash, transaction.storedCard);
+    }
+    this.transactions.set(transaction.xactId, transaction);
+
+    void this.deliverWebhook(transaction);
+
+    return transaction;
+  }
+
+  async updateEscrowStatus(body: Record<string, any>): Promise<object> {
+    await this.applyTransportScenario('escrow_status_update');
+
+    const transaction = this.findTransaction(body.xact_id);
+    if (!transaction) {
+      return { success: false, code: 1, message: `İşlem bulunamadı: ${body.xact_id}` };
+    }
+    if (![2, 3].includes(Number(body.status))) {
+      return { success: false, code: 1, message: 'status 2 (onay) veya 3 (red) olmalıdır' };
+    }
+    if (transaction.escrowStatus !== 1) {
+      return { success: false, code: 1, message: 'Escrow durumu zaten güncellenmiş' };
+    }
+
+    transaction.escrowStatus = Number(body.status) as 2 | 3;
+    return { success: true, code: 0, message: 'Başarılı İşlem', xact_id: transaction.xactId };
+  }
+
+  async refund(body: Record<string, any>): Promise<object> {
+    await this.applyTransportScenario('reversed_request');
+
+    const transaction = this.findTransaction(body.xact_id);
+    if (!transaction || !transaction.isSucceed) {
+      return { success: false, code: 1, message: `İşlem bulunamadı: ${body.xact_id}` };
+    }
+    if (transaction.session.isEscrow && transaction.escrowStatus !== 2) {
+      return { success: false, code: 1, message: 'Onaylanmamış escrow işlemi iade edilemez' };
+    }
+
+    const amount = Number(body.amount);
+    const refundable =
+      Math.round((transaction.session.amount - transaction.refundedAmount) * 100) / 100;
+    if (!(amount > 0) || amount > refundable) {
+      return {
+        success: false,
+        code: 1,
+        message: `İade tutarı 0 ile ${refundable} arasında olmalıdır`,
+      };
+    }
+
+    transaction.refundedAmount = Math.round((transaction.refundedAmount + amount) * 100) / 100;
+    return { success: true, code: 0, message: 'Başarılı İşlem', xact_id: transaction.xactId };
+  }
+
+  async getTransaction(xactId: string): Promise<object> {
+    await this.applyTransportScenario('transaction_query');
+
+    const transaction = this.findTransaction(xactId);
+    if (!transaction) {
+      throw new NotFoundException(`İşlem bulunamadı: ${xactId}`);
+    }
+
+    return this.toChargeResponse(transaction);
+  }
+
+  getInstallmentRatios(body: Record<string, any>): object {
+    if (!/^\d{6,8}$/.test(String(body.bin ?? ''))) {
+      return { success: false, code: 1, message: 'Geçersiz BIN' };
+    }
+
+    return {
+      success: true,
+      code: 0,
+      message: 'Başarılı İşlem',
+      data: [
+        {
+          bank_id: '0062',
+          bank_name: 'Sandbox Bank',
+          card_brand: 'Bonus',
+          ratio: Object.entries(SANDBOX_INSTALLMENT_RATES).map(([instalment, ratio]) => ({
+            instalment: Number(instalment),
+            ratio,
+          })),
+        },
+      ],
+    };
+  }
+
+  deleteStoredCard(body: Record<string, any>): object {
+    const storedCard = this.storedCards.get(body.card_hash);
+    if (!storedCard || storedCard.userUniqueId !== body.user_unique_id) {
+      return { success: false, code: 1, message: 'Kayıtlı kart bulunamadı' };
+    }
+
+    this.storedCards.delete(storedCard.cardHash);
+    return { success: true, code: 0, message: 'Başarılı İşlem' };
+  }
+
+  /**
+   * Hosted page payments reach us only through the webhook, which carries
+   * reference_no but no xact_id, so lookups also accept our reference_no
+   * and the payment page order ID.
+   */
+  private findTransaction(id: string): SandboxTransaction | undefined {
+    return (
+      this.transactions.get(id) ??
+      [...this.transactions.values()].find(
+        (transaction) =>
+          transaction.session.referenceNo === id || transaction.session.sessionId === id,
+      )
+    );
+  }
+
+  private async deliverWebhook(transaction: SandboxTransaction): Promise<void> {
+    const confirmationUrl = transaction.session.confirmationUrl;
+    if (!confirmationUrl) {
+      return;
+    }
+
+    const scenario = this.takeScenario('webhook', ['duplicate', 'lost', 'delayed']);
+    if (scenario?.mode === 'lost') {
+      this.logger.warn(`Dropping webhook for ${transaction.session.referenceNo} (scenario: lost)`);
+      return;
+    }
+
+    if (scenario?.mode === 'delayed') {
+      await this.sleep(scenario.delayMs ?? 10000);
+    }
+
+    const deliveries = scenario?.mode === 'duplicate' ? 2 : 1;
+    for (let attempt = 0; attempt < deliveries; attempt++) {
+      if (attempt > 0) {
+        // A redelivery is signed with a later timestamp; one in the same
+        // second would carry the same signature and be rejected as a replay
+        await this.sleep(1000);
+      }
+      await this.postWebhook(confirmationUrl, this.toWebhookPayload(transaction));
+    }
+  }
+
+  /**
+   * Sign the way PAYNET does: HMAC-SHA256(payload + timestamp), hex
+   * encoded, sent in x-paynet-signature / x-paynet-timestamp. The secret is
+   * the first one PaynetWebhookGuard accepts (PAYNET_WEBHOOK_SECRETS, else
+   * PAYNET_SECRET_KEY).
+   */
+  private async postWebhook(url: string, payload: Record<string, unknown>): Promise<void> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const [secret = ''] = this.configService.get<PaynetWebhookConfig>('paynetWebhooks', {
+      infer: true,
+    }).secrets;
+    const signature = createHmac('sha256', secret)
+      .update(body + timestamp)
+      .digest('hex');
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-paynet-signature': signature,
+            'x-paynet-timestamp': timestamp,
+          },
+          timeout: 10000,
+          validateStatus: () => true,
+        }),
+      );
+      this.logger.log(`Webhook delivered to ${url}: HTTP ${response.status}`);
+    } catch (error: any) {
+      this.logger.error(`Webhook delivery to ${url} failed: ${error.message}`);
+    }
+  }
+
+  private toWebhookPayload(transaction: SandboxTransaction): Record<string, unknown> {
+    const { session } = transaction;
+    return {
+      reference_no: session.referenceNo,
+      xact_date: transaction.xactDate,
+      agent_id: '',
+      bank_id: '0062',
+      instalment: session.instalment,
+      card_holder: session.cardHolder ?? '',
+      card_number: session.maskedPan,
+      amount: session.amount,
+      netAmount: Math.round((session.amount - transaction.comission) * 100) / 100,
+      comission: transaction.comission,
+      comission_tax: 0,
+      currency: 'TRY',
+      authorization_code: transaction.authorizationCode,
+      order_id: transaction.orderId,
+      is_succeed: transaction.isSucceed,
+      ...(transaction.isSucceed ? {} : { error_message: transaction.message }),
+    };
+  }
+
+  private toChargeResponse(transaction: SandboxTransaction): object {
+    const { session } = transaction;
+    return {
+      success: transaction.isSucceed,
+      code: transaction.isSucceed ? 0 : 1,
+      message: transaction.message,
+      is_succeed: transaction.isSucceed,
+      xact_id: transaction.xactId,
+      transaction_id: transaction.xactId,
+      xact_date: transaction.xactDate,
+      reference_no: session.referenceNo,
+      amount: session.amount,
+      net_amount: Math.round((session.amount - transaction.comission) * 100) / 100,
+      comission: transaction.comission,
+      bank_authorization_code: transaction.authorizationCode,
+      bank_order_id: transaction.orderId,
+      bank_reference_code: transaction.orderId,
+      bank_name: 'Sandbox Bank',
+      card_no_masked: session.maskedPan,
+      card_brand_name: 'VISA',
+      card_type: 'credit',
+      is_escrow: session.isEscrow,
+      escrow_status: transaction.escrowStatus,
+      refunded_amount: transaction.refundedAmount,
+      ...(transaction.storedCard
+        ? {
+            card_hash: transaction.storedCard.cardHash,
+            user_unique_id: transaction.storedCard.userUniqueId,
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Apply a queued server_error/timeout scenario for an HTTP-level operation
+   */
+  private async applyTransportScenario(operation: SandboxOperation): Promise<void> {
+    const scenario = this.takeScenario(operation, ['server_error', 'timeout']);
+    if (!scenario) {
+      return;
+    }
+
+    if (scenario.mode === 'timeout') {
+      this.logger.warn(`Sandbox ${operation}: holding response (scenario: timeout)`);
+      await this.sleep(scenario.delayMs ?? 35000);
+      return;
+    }
+
+    this.logger.warn(`Sandbox ${operation}: returning 503 (scenario: server_error)`);
+    throw new ServiceUnavailableException('PAYNET sandbox scripted server error');
+  }
+
+  private takeScenario(
+    operation: SandboxOperation,
+    modes: SandboxFailureMode[],
+  ): SandboxScenario | null {
+    const scenario = this.scenarios.find(
+      (candidate) => candidate.operation === operation && modes.includes(candidate.mode),
+    );
+    if (!scenario) {
+      return null;
+    }
+
+    scenario.remaining -= 1;
+    if (scenario.remaining <= 0) {
+      this.scenarios = this.scenarios.filter((candidate) => candidate !== scenario);
+    }
+    return scenario;
+  }
+
+  private maskPan(pan?: string): string {
+    if (!pan || pan.length < 10) {
+      return '';
+    }
+    return `${pan.slice(0, 6)}${'*'.repeat(pan.length - 10)}${pan.slice(-4)}`;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,77 @@
+export const SANDBOX_OPERATIONS = [
+  'tds_initial',
+  'tds_charge',
+  'paylink_create',
+  'escrow_status_update',
+  'reversed_request',
+  'transaction_query',
+  'webhook',
+] as const;
+
+export type SandboxOperation = (typeof SANDBOX_OPERATIONS)[number];
+
+/**
+ * Failure modes the sandbox can be scripted with:
+ * - server_error: respond 503 (PaynetProvider retries these)
+ * - timeout: hold the response past the provider's 30s request timeout
+ * - decline: tds_charge only (also hosted page payments), bank declines the card
+ * - duplicate: webhook only, deliver the same confirmation twice
+ * - lost: webhook only, never deliver the confirmation
+ * - delayed: webhook only, deliver after `delayMs`
+ */
+export const SANDBOX_FAILURE_MODES = [
+  'server_error',
+  'timeout',
+  'decline',
+  'duplicate',
+  'lost',
+  'delayed',
+] as const;
+
+export type SandboxFailureMode = (typeof SANDBOX_FAILURE_MODES)[number];
+
+export interface SandboxScenario {
+  operation: SandboxOperation;
+  mode: SandboxFailureMode;
+  remaining: number;
+  delayMs?: number;
+}
+
+export interface SandboxSession {
+  sessionId: string;
+  tokenId: string;
+  referenceNo: string;
+  amount: number;
+  returnUrl: string;
+  confirmationUrl?: string;
+  isEscrow: boolean;
+  instalment: number;
+  cardHolder?: string;
+  maskedPan: string;
+  declinedCard: boolean;
+  saveCardFor?: string; // user_unique_id to store the card under after a successful charge
+  createdAt: string;
+}
+
+export interface SandboxStoredCard {
+  cardHash: string;
+  userUniqueId: string;
+  cardHolder?: string;
+  maskedPan: string;
+  declinedCard: boolean;
+}
+
+export interface SandboxTransaction {
+  xactId: string;
+  session: SandboxSession;
+  isSucceed: boolean;
+  // 1 = bekliyor, 2 = onaylandı, 3 = reddedildi (escrow_status_update values)
+  escrowStatus: 1 | 2 | 3;
+  refundedAmount: number; // Total of reversed_request refunds
+  authorizationCode: string;
+  orderId: string;
+  comission: number;
+  xactDate: string;
+  message: string;
+  storedCard?: SandboxStoredCard;
+}
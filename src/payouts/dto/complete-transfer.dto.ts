@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Body for ops confirming a transfer they sent outside this system - the
+ * bank's transaction reference for an IBAN transfer, or the carrier's
+ * invoice number for a cargo fee.
+ */
+export class CompleteTransferDto {
+  @ApiProperty({ description: 'Bank or invoice reference', example: 'EFT-20261019-000123' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  transferReference: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Body for ops reporting that a transfer could not be sent or bounced. The
+ * transfer is retried automatically with the recipient's current details.
+ */
+export class FailTransferDto {
+  @ApiProperty({
+    description: 'Why the transfer failed',
+    example: 'IBAN hesap sahibi adı ile eşleşmiyor',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,125 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import {
+  DISTRIBUTION_STATUSES,
+  DistributionStatus,
+  RECIPIENT_TYPES,
+  RecipientType,
+  TRANSFER_METHODS,
+  TRANSFER_STATUSES,
+  TRANSFER_TYPES,
+  TransferMethod,
+  TransferStatus,
+  TransferType,
+} from '../payouts.types';
+
+export class ListPayoutsQueryDto {
+  @ApiProperty({
+    description: 'Only distributions with this status',
+    enum: DISTRIBUTION_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(DISTRIBUTION_STATUSES)
+  status?: DistributionStatus;
+}
+
+export class PayoutTransferDto {
+  @ApiProperty({ description: 'Transfer ID (payment_transfers.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'What the transfer pays out', enum: TRANSFER_TYPES })
+  transferType: TransferType;
+
+  @ApiProperty({ description: 'Who receives the transfer', enum: RECIPIENT_TYPES })
+  recipientType: RecipientType;
+
+  @ApiProperty({ description: 'Recipient user (finder transfers only)', required: false })
+  recipientUserId?: string;
+
+  @ApiProperty({ description: 'Recipient name', example: 'Ayşe Yılmaz' })
+  recipientName: string;
+
+  @ApiProperty({
+    description: 'IBAN the transfer is sent to (finder transfers, once validated)',
+    required: false,
+  })
+  recipientIban?: string;
+
+  @ApiProperty({ description: 'Amount (TRY)', example: 950.0 })
+  amount: number;
+
+  @ApiProperty({ description: 'How the money is moved', enum: TRANSFER_METHODS })
+  transferMethod: TransferMethod;
+
+  @ApiProperty({
+    description: 'Bank / invoice reference entered when the transfer was completed',
+    required: false,
+  })
+  transferReference?: string;
+
+  @ApiProperty({
+    description: 'processing = validated and waiting for ops to send it',
+    enum: TRANSFER_STATUSES,
+  })
+  status: TransferStatus;
+
+  @ApiProperty({ description: 'Why the last attempt failed', required: false })
+  failedReason?: string;
+
+  @ApiProperty({ description: 'Failed attempts so far', example: 0 })
+  retryCount: number;
+
+  @ApiProperty({ description: 'When the next automatic retry runs (ISO 8601)', required: false })
+  nextRetryAt?: string;
+
+  @ApiProperty({ description: 'When the transfer completed (ISO 8601)', required: false })
+  processedAt?: string;
+}
+
+export class PayoutDistributionDto {
+  @ApiProperty({ description: 'Distribution ID (final_payment_distributions.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'Payment ID' })
+  paymentId: string;
+
+  @ApiProperty({ description: 'Device ID' })
+  deviceId: string;
+
+  @ApiProperty({ description: 'Distribution status', enum: DISTRIBUTION_STATUSES })
+  status: DistributionStatus;
+
+  @ApiProperty({
+    description: 'automatic = created on escrow release, manual = created by an admin',
+    enum: ['automatic', 'manual'],
+  })
+  distributionType: 'automatic' | 'manual';
+
+  @ApiProperty({ description: 'Amount the payer paid (TRY)', example: 4750.0 })
+  totalAmount: number;
+
+  @ApiProperty({ description: 'Amount left after the gateway fee (TRY)', example: 4587.07 })
+  netAmount: number;
+
+  @ApiProperty({ description: 'Finder reward (TRY)', example: 950.0 })
+  rewardAmount: number;
+
+  @ApiProperty({ description: 'Cargo fee (TRY)', example: 250.0 })
+  cargoFee: number;
+
+  @ApiProperty({ description: 'Platform service fee (TRY)', example: 3387.07 })
+  serviceFee: number;
+
+  @ApiProperty({ description: 'Why the distribution failed', required: false })
+  failedReason?: string;
+
+  @ApiProperty({ description: 'When every transfer completed (ISO 8601)', required: false })
+  processedAt?: string;
+
+  @ApiProperty({ description: 'Created at (ISO 8601)' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Per-recipient transfers', type: [PayoutTransferDto] })
+  transfers: PayoutTransferDto[];
+}
@@ -0,0 +1,36 @@
+/**
+ * ISO 13616 IBAN check: country code, check digits and mod-97 checksum.
+ * Turkish IBANs (TR) must also be exactly 26 characters.
+ */
+export function isValidIban(value: string): boolean {
+  const iban = normalizeIban(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+  if (iban.startsWith('TR') && iban.length !== 26) {
+    return false;
+  }
+
+  // Move the first four characters to the end, letters become 10..35
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * "TR12 **** 3456" style, for logs
+ */
+export function maskIban(value: string): string {
+  const iban = normalizeIban(value);
+  return `${iban.slice(0, 4)} **** ${iban.slice(-4)}`;
+}
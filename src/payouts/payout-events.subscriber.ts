@@ -0,0 +1,27 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { EscrowReleasedEvent } from '../domain-events/domain-events.types';
+import { PayoutsService } from './payouts.service';
+
+/**
+ * Splits a released escrow into finder/carrier/platform transfers. A
+ * failure here never fails the release - the payouts job creates missing
+ * distributions.
+ */
+@Injectable()
+export class PayoutEventsSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly payoutsService: PayoutsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe('EscrowReleased', PayoutEventsSubscriber.name, (event) =>
+      this.createPayouts(event),
+    );
+  }
+
+  private async createPayouts(event: EscrowReleasedEvent): Promise<void> {
+    await this.payoutsService.createForReleasedPayment(event.paymentId);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { CompleteTransferDto } from './dto/complete-transfer.dto';
+import { FailTransferDto } from './dto/fail-transfer.dto';
+import { ListPayoutsQueryDto, PayoutDistributionDto } from './dto/payout-distribution.dto';
+import { PayoutsService } from './payouts.service';
+
+@ApiTags('payouts')
+@Controller('payouts')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class PayoutsController {
+  constructor(private readonly payoutsService: PayoutsService) {}
+
+  @ApiOperation({
+    summary: 'List payout distributions (Admin only)',
+    description:
+      'Distributions created on escrow release, newest first, with their per-recipient transfers. Transfers in processing are validated and waiting for ops to send them.',
+  })
+  @ApiResponse({ status: 200, description: 'Distributions', type: [PayoutDistributionDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get()
+  async list(@Query() query: ListPayoutsQueryDto): Promise<PayoutDistributionDto[]> {
+    return this.payoutsService.list(query.status);
+  }
+
+  @ApiOperation({ summary: 'Get a payout distribution (Admin only)' })
+  @ApiParam({ name: 'distributionId', description: 'Distribution ID' })
+  @ApiResponse({ status: 200, description: 'Distribution', type: PayoutDistributionDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Distribution not found' })
+  @Get(':distributionId')
+  async get(
+    @Param('distributionId', ParseUUIDPipe) distributionId: string,
+  ): Promise<PayoutDistributionDto> {
+    return this.payoutsService.getById(distributionId);
+  }
+
+  @ApiOperation({
+    summary: 'Create payouts for a released payment (Admin only)',
+    description:
+      'For released payments without a distribution (e.g. released before payouts existed). Returns the existing distribution if there is one.',
+  })
+  @ApiParam({ name: 'paymentId', description: 'Payment ID' })
+  @ApiResponse({ status: 201, description: 'Distribution', type: PayoutDistributionDto })
+  @ApiResponse({ status: 400, description: 'Escrow is not released' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Payment or escrow account not found' })
+  @Post('payment/:paymentId')
+  async createForPayment(
+    @Param('paymentId', ParseUUIDPipe) paymentId: string,
+  ): Promise<PayoutDistributionDto> {
+    return this.payoutsService.createForReleasedPayment(paymentId, 'manual');
+  }
+
+  @ApiOperation({
+    summary: 'Re-run the open transfers of a distribution (Admin only)',
+    description:
+      'Re-validates pending and failed transfers now, ignoring the retry schedule and limit - e.g. after the finder entered their IBAN.',
+  })
+  @ApiParam({ name: 'distributionId', description: 'Distribution ID' })
+  @ApiResponse({ status: 201, description: 'Distribution', type: PayoutDistributionDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Distribution not found' })
+  @Post(':distributionId/rerun')
+  async rerun(
+    @Param('distributionId', ParseUUIDPipe) distributionId: string,
+    @Req() request: Request,
+  ): Promise<PayoutDistributionDto> {
+    const user = request.user as RequestUser;
+    return this.payoutsService.rerunDistribution(distributionId, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Mark a transfer as sent (Admin only)',
+    description:
+      'Ops sent the money outside this system (IBAN transfer or carrier invoice payment) and enters the reference.',
+  })
+  @ApiParam({ name: 'transferId', description: 'Transfer ID' })
+  @ApiResponse({ status: 200, description: 'Distribution', type: PayoutDistributionDto })
+  @ApiResponse({ status: 400, description: 'Transfer is not in processing' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  @Patch('transfers/:transferId/complete')
+  async completeTransfer(
+    @Param('transferId', ParseUUIDPipe) transferId: string,
+    @Body() dto: CompleteTransferDto,
+    @Req() request: Request,
+  ): Promise<PayoutDistributionDto> {
+    const user = request.user as RequestUser;
+    return this.payoutsService.completeTransfer(transferId, dto.transferReference, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Mark a transfer as failed (Admin only)',
+    description:
+      "The transfer could not be sent or bounced. It is retried automatically with the recipient's current details.",
+  })
+  @ApiParam({ name: 'transferId', description: 'Transfer ID' })
+  @ApiResponse({ status: 200, description: 'Distribution', type: PayoutDistributionDto })
+  @ApiResponse({ status: 400, description: 'Transfer is not in processing' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  @Patch('transfers/:transferId/fail')
+  async failTransfer(
+    @Param('transferId', ParseUUIDPipe) transferId: string,
+    @Body() dto: FailTransferDto,
+    @Req() request: Request,
+  ): Promise<PayoutDistributionDto> {
+    const user = request.user as RequestUser;
+    return this.payoutsService.failTransfer(transferId, dto.reason, user.id);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { PayoutEventsSubscriber } from './payout-events.subscriber';
+import { PayoutsController } from './payouts.controller';
+import { PayoutsService } from './payouts.service';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    LedgerModule,
+    OutboxModule,
+    DomainEventsModule,
+    ScheduleModule.forRoot(),
+  ],
+  controllers: [PayoutsController],
+  providers: [PayoutsService, PayoutEventsSubscriber],
+  exports: [PayoutsService],
+})
+export class PayoutsModule {}
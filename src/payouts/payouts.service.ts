@@ -0,0 +1,676 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Money } from '../common/money/money';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { PayoutDistributionDto, PayoutTransferDto } from './dto/payout-distribution.dto';
+import { isValidIban, maskIban, normalizeIban } from './iban';
+import {
+  DistributionStatus,
+  PaymentDistributionRecord,
+  PaymentTransferRecord,
+  RecipientType,
+  TransferMethod,
+  TransferType,
+} from './payouts.types';
+
+const PLATFORM_RECIPIENT_NAME = 'iFoundAnApple';
+
+interface PlannedTransfer {
+  transferType: TransferType;
+  recipientType: RecipientType;
+  recipientUserId: string | null;
+  recipientName: string;
+  transferMethod: TransferMethod;
+  amount: Money;
+}
+
+/**
+ * Payouts after escrow release (final_payment_distributions +
+ * payment_transfers).
+ *
+ * No bank API is integrated: ops sends the finder's reward to the IBAN in
+ * their profile and pays carriers against their invoices, outside this
+ * system. This service splits a released escrow into one transfer per
+ * recipient, validates each one ('processing' = ready for ops to send),
+ * records the reference ops enters when it's done, and retries transfers
+ * that failed - usually a finder who hasn't entered a valid IBAN yet.
+ */
+@Injectable()
+export class PayoutsService {
+  private readonly logger = new Logger(PayoutsService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly maxRetries = 5;
+  private readonly retryDelays = [3600000, 21600000, 86400000, 86400000, 86400000]; // 1 saat, 6 saat, sonra günde bir
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly ledgerService: LedgerService,
+    private readonly outboxService: OutboxService,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  /**
+   * Create the distribution and transfers for a payment whose escrow was
+   * released, then validate the transfers. Idempotent: a payment that
+   * already has a distribution gets it back unchanged.
+   */
+  async createForReleasedPayment(
+    paymentId: string,
+    distributionType: 'automatic' | 'manual' = 'automatic',
+  ): Promise<PayoutDistributionDto> {
+    const existing = await this.findDistributionByPayment(paymentId);
+    if (existing) {
+      return this.getById(existing.id);
+    }
+
+    const { data: payment, error: paymentError } = await this.supabase
+      .from('payments')
+      .select('id, device_id, receiver_id, escrow_status')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (paymentError || !payment) {
+      throw new NotFoundException(`Payment not found: ${paymentId}`);
+    }
+    if (payment.escrow_status !== 'released') {
+      throw new BadRequestException(
+        `Payouts can only be created after escrow release. Escrow: ${payment.escrow_status}`,
+      );
+    }
+
+    const { data: escrow, error: escrowError } = await this.supabase
+      .from('escrow_accounts')
+      .select('id, total_amount, reward_amount, cargo_fee, service_fee, gateway_fee')
+      .eq('payment_id', paymentId)
+      .maybeSingle();
+
+    if (escrowError || !escrow) {
+      throw new NotFoundException(`Escrow account not found for payment: ${paymentId}`);
+    }
+
+    const total = Money.fromMajor(escrow.total_amount);
+    const gatewayFee = Money.fromMajor(escrow.gateway_fee ?? 0);
+    const reward = Money.fromMajor(escrow.reward_amount);
+    const cargoFee = Money.fromMajor(escrow.cargo_fee);
+    const serviceFee = Money.fromMajor(escrow.service_fee);
+    if (!reward.add(cargoFee).add(serviceFee).add(gatewayFee).equals(total)) {
+      this.logger.warn(
+        `Escrow split for payment ${paymentId} does not add up to the total ${total}`,
+      );
+    }
+
+    const { data: shipment } = await this.supabase
+      .from('cargo_shipments')
+      .select('cargo_company')
+      .eq('payment_id', paymentId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const planned: PlannedTransfer[] = [
+      {
+        transferType: 'reward',
+        recipientType: 'finder',
+        recipientUserId: payment.receiver_id,
+        recipientName: 'Finder',
+        transferMethod: 'bank_transfer',
+        amount: reward,
+      },
+      {
+        transferType: 'cargo_fee',
+        recipientType: 'carrier',
+        recipientUserId: null,
+        recipientName: shipment?.cargo_company || 'pending',
+        transferMethod: 'manual',
+        amount: cargoFee,
+      },
+      {
+        transferType: 'service_fee',
+        recipientType: 'platform',
+        recipientUserId: null,
+        recipientName: PLATFORM_RECIPIENT_NAME,
+        transferMethod: 'internal',
+        amount: serviceFee,
+      },
+    ];
+
+    const { data: distribution, error: distributionError } = await this.supabase
+      .from('final_payment_distributions')
+      .insert({
+        device_id: payment.device_id,
+        payment_id: paymentId,
+        escrow_account_id: escrow.id,
+        total_amount: total.toMajor(),
+        gross_amount: total.toMajor(),
+        net_amount: total.subtract(gatewayFee).toMajor(),
+        reward_amount: reward.toMajor(),
+        cargo_fee: cargoFee.toMajor(),
+        service_fee: serviceFee.toMajor(),
+        status: 'pending',
+        distribution_type: distributionType,
+      })
+      .select('*')
+      .single();
+
+    if (distributionError) {
+      // Unique payment_id: a concurrent release already created it
+      if (distributionError.code === '23505') {
+        const concurrent = await this.findDistributionByPayment(paymentId);
+        if (concurrent) {
+          return this.getById(concurrent.id);
+        }
+      }
+      this.logger.error(
+        `Failed to create distribution for payment ${paymentId}: ${distributionError.message}`,
+        distributionError,
+      );
+      throw new BadRequestException('Failed to create payout distribution');
+    }
+
+    // Zero amounts (e.g. a schedule without a cargo fee) need no transfer
+    const { data: transfers, error: transfersError } = await this.supabase
+      .from('payment_transfers')
+      .insert(
+        planned
+          .filter((transfer) => transfer.amount.minor > 0)
+          .map((transfer) => ({
+            distribution_id: distribution.id,
+            transfer_type: transfer.transferType,
+            recipient_type: transfer.recipientType,
+            recipient_user_id: transfer.recipientUserId,
+            recipient_name: transfer.recipientName,
+            amount: transfer.amount.toMajor(),
+            transfer_method: transfer.transferMethod,
+            status: 'pending',
+            retry_count: 0,
+          })),
+      )
+      .select('*');
+
+    if (transfersError) {
+      this.logger.error(
+        `Failed to create transfers for distribution ${distribution.id}: ${transfersError.message}`,
+        transfersError,
+      );
+      await this.updateDistribution(distribution.id, {
+        status: 'failed',
+        failed_reason: `Transfers could not be created: ${transfersError.message}`,
+      });
+      throw new BadRequestException('Failed to create payout transfers');
+    }
+
+    const transferRecords = transfers as PaymentTransferRecord[];
+    const idOf = (type: TransferType) =>
+      transferRecords.find((transfer) => transfer.transfer_type === type)?.id ?? null;
+    await this.updateDistribution(distribution.id, {
+      reward_transfer_id: idOf('reward'),
+      cargo_transfer_id: idOf('cargo_fee'),
+      service_transfer_id: idOf('service_fee'),
+    });
+
+    this.logger.log(
+      `Payout distribution created: ${distribution.id} for payment ${paymentId} (${transferRecords.length} transfers)`,
+    );
+
+    for (const transfer of transferRecords) {
+      await this.processTransfer(transfer);
+    }
+    await this.refreshDistributionStatus(distribution.id);
+
+    return this.getById(distribution.id);
+  }
+
+  async list(status?: DistributionStatus): Promise<PayoutDistributionDto[]> {
+    let query = this.supabase
+      .from('final_payment_distributions')
+      .select('*, payment_transfers(*)')
+      .order('created_at', { ascending: false })
+      .limit(200);
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      this.logger.error(`Failed to list payout distributions: ${error.message}`, error);
+      throw new BadRequestException('Failed to list payout distributions');
+    }
+
+    return (
+      data as (PaymentDistributionRecord & { payment_transfers: PaymentTransferRecord[] })[]
+    ).map((distribution) => this.toDto(distribution, distribution.payment_transfers));
+  }
+
+  async getById(distributionId: string): Promise<PayoutDistributionDto> {
+    const { data, error } = await this.supabase
+      .from('final_payment_distributions')
+      .select('*, payment_transfers(*)')
+      .eq('id', distributionId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Payout distribution not found: ${distributionId}`);
+    }
+
+    return this.toDto(data, data.payment_transfers as PaymentTransferRecord[]);
+  }
+
+  /**
+   * Re-run every transfer of a distribution that isn't done yet, ignoring
+   * the retry schedule and limit
+   */
+  async rerunDistribution(
+    distributionId: string,
+    adminUserId: string,
+  ): Promise<PayoutDistributionDto> {
+    const distribution = await this.getById(distributionId);
+    const { data: transfers } = await this.supabase
+      .from('payment_transfers')
+      .select('*')
+      .eq('distribution_id', distributionId)
+      .in('status', ['pending', 'failed']);
+
+    this.logger.log(
+      `Re-running ${transfers?.length ?? 0} transfers of distribution ${distribution.id} (admin ${adminUserId})`,
+    );
+    for (const transfer of (transfers || []) as PaymentTransferRecord[]) {
+      await this.processTransfer(transfer);
+    }
+    await this.refreshDistributionStatus(distributionId);
+
+    return this.getById(distributionId);
+  }
+
+  /**
+   * Ops sent the money: record the bank/invoice reference
+   */
+  async completeTransfer(
+    transferId: string,
+    transferReference: string,
+    adminUserId: string,
+  ): Promise<PayoutDistributionDto> {
+    const transfer = await this.findTransfer(transferId);
+    if (transfer.status !== 'processing') {
+      throw new BadRequestException(
+        `Only validated transfers can be completed. Status: ${transfer.status}`,
+      );
+    }
+
+    await this.updateTransfer(transferId, {
+      status: 'completed',
+      transfer_reference: transferReference,
+      processed_at: new Date().toISOString(),
+      failed_reason: null,
+      next_retry_at: null,
+      notes: `Completed by admin ${adminUserId}`,
+    });
+    this.logger.log(`Transfer completed: ${transferId} (${transferReference}) by ${adminUserId}`);
+
+    const { data: distribution } = await this.supabase
+      .from('final_payment_distributions')
+      .select('payment_id, device_id')
+      .eq('id', transfer.distribution_id)
+      .single();
+    if (distribution && transfer.transfer_type !== 'service_fee') {
+      await this.ledgerService.postPayout(
+        { id: distribution.payment_id, device_id: distribution.device_id },
+        {
+          transferId,
+          kind: transfer.transfer_type,
+          amount: transfer.amount,
+          recipientUserId: transfer.recipient_user_id,
+          reference: transferReference,
+        },
+        adminUserId,
+      );
+    }
+
+    if (transfer.transfer_type === 'reward' && transfer.recipient_user_id) {
+      await this.notify(transfer.recipient_user_id, 'payout_completed_finder', 'payment_success');
+    }
+
+    await this.refreshDistributionStatus(transfer.distribution_id);
+    return this.getById(transfer.distribution_id);
+  }
+
+  /**
+   * Ops couldn't send the money or it bounced. The transfer is retried on
+   * the normal schedule with the recipient's then-current details.
+   */
+  async failTransfer(
+    transferId: string,
+    reason: string,
+    adminUserId: string,
+  ): Promise<PayoutDistributionDto> {
+    const transfer = await this.findTransfer(transferId);
+    if (transfer.status !== 'processing') {
+      throw new BadRequestException(
+        `Only validated transfers can be marked failed. Status: ${transfer.status}`,
+      );
+    }
+
+    this.logger.warn(`Transfer ${transferId} marked failed by admin ${adminUserId}: ${reason}`);
+    await this.markFailed(transfer, reason);
+    await this.refreshDistributionStatus(transfer.distribution_id);
+    return this.getById(transfer.distribution_id);
+  }
+
+  /**
+   * Stop the finder's reward of a payment from being sent (a lost
+   * chargeback). A reward ops already sent can't be undone here:
+   * 'already_paid' tells the caller it has to be recovered from the finder.
+   */
+  async cancelRewardTransfer(
+    paymentId: string,
+    reason: string,
+    cancelledBy: string,
+  ): Promise<{ result: 'cancelled' | 'already_paid' | 'none'; transfer?: PaymentTransferRecord }> {
+    const distribution = await this.findDistributionByPayment(paymentId);
+    if (!distribution) {
+      return { result: 'none' };
+    }
+
+    const { data: transfer } = await this.supabase
+      .from('payment_transfers')
+      .select('*')
+      .eq('distribution_id', distribution.id)
+      .eq('transfer_type', 'reward')
+      .maybeSingle();
+
+    if (!transfer || transfer.status === 'cancelled') {
+      return { result: 'none' };
+    }
+    if (transfer.status === 'completed') {
+      return { result: 'already_paid', transfer: transfer as PaymentTransferRecord };
+    }
+
+    await this.updateTransfer(transfer.id, {
+      status: 'cancelled',
+      failed_reason: reason,
+      next_retry_at: null,
+      notes: `Cancelled by ${cancelledBy}`,
+    });
+    await this.refreshDistributionStatus(distribution.id);
+    this.logger.warn(`Reward transfer ${transfer.id} of payment ${paymentId} cancelled: ${reason}`);
+
+    return { result: 'cancelled', transfer: transfer as PaymentTransferRecord };
+  }
+
+  /**
+   * Retry failed transfers whose retry time has come, and create
+   * distributions for recently released payments that don't have one
+   * (the release itself never fails on a payout error).
+   */
+  @Cron(CronExpression.EVERY_30_MINUTES)
+  async retryFailedPayouts(): Promise<void> {
+    const { data: dueTransfers, error } = await this.supabase
+      .from('payment_transfers')
+      .select('*')
+      .eq('status', 'failed')
+      .lt('retry_count', this.maxRetries)
+      .lte('next_retry_at', new Date().toISOString())
+      .limit(20);
+
+    if (error) {
+      this.logger.error(`Failed to fetch failed transfers: ${error.message}`, error);
+      return;
+    }
+
+    for (const transfer of (dueTransfers || []) as PaymentTransferRecord[]) {
+      try {
+        await this.processTransfer(transfer);
+        await this.refreshDistributionStatus(transfer.distribution_id);
+      } catch (retryError: any) {
+        this.logger.error(`Transfer retry failed: ${transfer.id}: ${retryError.message}`);
+      }
+    }
+
+    const releasedSince = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const { data: missing } = await this.supabase
+      .from('payments')
+      .select('id, final_payment_distributions!left(id)')
+      .eq('escrow_status', 'released')
+      .gte('escrow_released_at', releasedSince)
+      .is('final_payment_distributions', null)
+      .limit(20);
+
+    for (const payment of missing || []) {
+      try {
+        await this.createForReleasedPayment(payment.id);
+      } catch (createError: any) {
+        this.logger.error(
+          `Failed to create payouts for released payment ${payment.id}: ${createError.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate a transfer and move it to 'processing' (ready for ops) or
+   * 'completed' (internal); recipient problems mark it failed for retry
+   */
+  private async processTransfer(transfer: PaymentTransferRecord): Promise<void> {
+    if (transfer.transfer_method === 'internal') {
+      await this.updateTransfer(transfer.id, {
+        status: 'completed',
+        processed_at: new Date().toISOString(),
+        failed_reason: null,
+        next_retry_at: null,
+      });
+      return;
+    }
+
+    if (transfer.recipient_type === 'finder') {
+      const { data: profile } = await this.supabase
+        .from('userprofile')
+        .select('iban, first_name, last_name')
+        .eq('user_id', transfer.recipient_user_id)
+        .maybeSingle();
+
+      if (!profile?.iban || !isValidIban(profile.iban)) {
+        await this.markFailed(transfer, profile?.iban ? 'invalid_iban' : 'missing_iban');
+        if (transfer.retry_count === 0 && transfer.recipient_user_id) {
+          await this.notify(transfer.recipient_user_id, 'payout_iban_required', 'warning');
+        }
+        return;
+      }
+
+      const iban = normalizeIban(profile.iban);
+      const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+      await this.updateTransfer(transfer.id, {
+        status: 'processing',
+        recipient_name: name || transfer.recipient_name,
+        failed_reason: null,
+        next_retry_at: null,
+        metadata: { ...(transfer.metadata || {}), iban },
+      });
+      this.logger.log(`Reward transfer ${transfer.id} ready for IBAN ${maskIban(iban)}`);
+      return;
+    }
+
+    // Carrier: ops pays the carrier named on the shipment
+    let carrier = transfer.recipient_name;
+    if (!carrier || carrier === 'pending') {
+      const { data: distribution } = await this.supabase
+        .from('final_payment_distributions')
+        .select('payment_id')
+        .eq('id', transfer.distribution_id)
+        .single();
+      const { data: shipment } = await this.supabase
+        .from('cargo_shipments')
+        .select('cargo_company')
+        .eq('payment_id', distribution?.payment_id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      carrier = shipment?.cargo_company || 'pending';
+    }
+
+    if (carrier === 'pending') {
+      await this.markFailed(transfer, 'carrier_unknown');
+      return;
+    }
+
+    await this.updateTransfer(transfer.id, {
+      status: 'processing',
+      recipient_name: carrier,
+      failed_reason: null,
+      next_retry_at: null,
+    });
+  }
+
+  private async markFailed(transfer: PaymentTransferRecord, reason: string): Promise<void> {
+    const retryCount = (transfer.retry_count || 0) + 1;
+    const delayMs = this.retryDelays[Math.min(retryCount, this.retryDelays.length) - 1];
+
+    await this.updateTransfer(transfer.id, {
+      status: 'failed',
+      failed_reason: reason,
+      retry_count: retryCount,
+      next_retry_at:
+        retryCount < this.maxRetries ? new Date(Date.now() + delayMs).toISOString() : null,
+    });
+
+    if (retryCount >= this.maxRetries) {
+      this.logger.error(
+        `Transfer ${transfer.id} failed ${retryCount} times (${reason}). Manual intervention required.`,
+      );
+    } else {
+      this.logger.warn(`Transfer ${transfer.id} failed (${reason}), retry ${retryCount}`);
+    }
+  }
+
+  /**
+   * completed when every transfer is (or was cancelled), failed when any
+   * is, processing otherwise
+   */
+  private async refreshDistributionStatus(distributionId: string): Promise<void> {
+    const { data: transfers } = await this.supabase
+      .from('payment_transfers')
+      .select('status, transfer_type, failed_reason')
+      .eq('distribution_id', distributionId);
+
+    const all = transfers || [];
+    const failed = all.filter((transfer) => transfer.status === 'failed');
+    let status: DistributionStatus = 'processing';
+    if (failed.length > 0) {
+      status = 'failed';
+    } else if (
+      all.every((transfer) => transfer.status === 'completed' || transfer.status === 'cancelled')
+    ) {
+      status = 'completed';
+    }
+
+    await this.updateDistribution(distributionId, {
+      status,
+      failed_reason:
+        failed
+          .map((transfer) => `${transfer.transfer_type}: ${transfer.failed_reason}`)
+          .join('; ') || null,
+      processed_at: status === 'completed' ? new Date().toISOString() : null,
+    });
+  }
+
+  private async findDistributionByPayment(paymentId: string): Promise<{ id: string } | null> {
+    const { data } = await this.supabase
+      .from('final_payment_distributions')
+      .select('id')
+      .eq('payment_id', paymentId)
+      .maybeSingle();
+    return data;
+  }
+
+  private async findTransfer(transferId: string): Promise<PaymentTransferRecord> {
+    const { data, error } = await this.supabase
+      .from('payment_transfers')
+      .select('*')
+      .eq('id', transferId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException(`Transfer not found: ${transferId}`);
+    }
+    return data as PaymentTransferRecord;
+  }
+
+  private async updateTransfer(
+    transferId: string,
+    changes: Partial<PaymentTransferRecord>,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_transfers')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', transferId);
+
+    if (error) {
+      this.logger.error(`Failed to update transfer ${transferId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to update payout transfer');
+    }
+  }
+
+  private async updateDistribution(
+    distributionId: string,
+    changes: Partial<PaymentDistributionRecord>,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('final_payment_distributions')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', distributionId);
+
+    if (error) {
+      this.logger.error(`Failed to update distribution ${distributionId}: ${error.message}`, error);
+    }
+  }
+
+  private async notify(userId: string, messageKey: string, type: string): Promise<void> {
+    await this.outboxService.enqueue([
+      { topic: 'notification', payload: { user_id: userId, message_key: messageKey, type } },
+    ]);
+  }
+
+  private toDto(
+    distribution: PaymentDistributionRecord,
+    transfers: PaymentTransferRecord[] = [],
+  ): PayoutDistributionDto {
+    return {
+      id: distribution.id,
+      paymentId: distribution.payment_id,
+      deviceId: distribution.device_id,
+      status: distribution.status,
+      distributionType: distribution.distribution_type,
+      totalAmount: Number(distribution.total_amount),
+      netAmount: Number(distribution.net_amount),
+      rewardAmount: Number(distribution.reward_amount),
+      cargoFee: Number(distribution.cargo_fee),
+      serviceFee: Number(distribution.service_fee),
+      failedReason: distribution.failed_reason ?? undefined,
+      processedAt: distribution.processed_at ?? undefined,
+      createdAt: distribution.created_at,
+      transfers: transfers.map((transfer) => this.toTransferDto(transfer)),
+    };
+  }
+
+  private toTransferDto(transfer: PaymentTransferRecord): PayoutTransferDto {
+    const iban = transfer.metadata?.iban;
+    return {
+      id: transfer.id,
+      transferType: transfer.transfer_type,
+      recipientType: transfer.recipient_type,
+      recipientUserId: transfer.recipient_user_id ?? undefined,
+      recipientName: transfer.recipient_name,
+      recipientIban: typeof iban === 'string' ? iban : undefined,
+      amount: Number(transfer.amount),
+      transferMethod: transfer.transfer_method,
+      transferReference: transfer.transfer_reference ?? undefined,
+      status: transfer.status,
+      failedReason: transfer.failed_reason ?? undefined,
+      retryCount: transfer.retry_count || 0,
+      nextRetryAt: transfer.next_retry_at ?? undefined,
+      processedAt: transfer.processed_at ?? undefined,
+    };
+  }
+}
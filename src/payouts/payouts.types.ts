@@ -0,0 +1,67 @@
+export const TRANSFER_TYPES = ['reward', 'cargo_fee', 'service_fee'] as const;
+export type TransferType = (typeof TRANSFER_TYPES)[number];
+
+export const RECIPIENT_TYPES = ['finder', 'carrier', 'platform'] as const;
+export type RecipientType = (typeof RECIPIENT_TYPES)[number];
+
+// bank_transfer: ops sends the money to the recipient's IBAN; manual: paid
+// against the carrier's invoice; internal: stays in the merchant account
+export const TRANSFER_METHODS = ['bank_transfer', 'manual', 'internal'] as const;
+export type TransferMethod = (typeof TRANSFER_METHODS)[number];
+
+// processing = validated and waiting for ops to execute it; cancelled = will
+// never be sent (a finder reward reversed by a lost chargeback)
+export const TRANSFER_STATUSES = [
+  'pending',
+  'processing',
+  'completed',
+  'failed',
+  'cancelled',
+] as const;
+export type TransferStatus = (typeof TRANSFER_STATUSES)[number];
+
+export const DISTRIBUTION_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+export type DistributionStatus = (typeof DISTRIBUTION_STATUSES)[number];
+
+export interface PaymentTransferRecord {
+  id: string;
+  distribution_id: string;
+  transfer_type: TransferType;
+  recipient_type: RecipientType;
+  recipient_user_id: string | null;
+  recipient_name: string;
+  amount: number | string;
+  transfer_method: TransferMethod;
+  transfer_reference: string | null;
+  status: TransferStatus;
+  processed_at: string | null;
+  failed_reason: string | null;
+  notes: string | null;
+  metadata: Record<string, unknown> | null;
+  retry_count: number;
+  next_retry_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentDistributionRecord {
+  id: string;
+  device_id: string;
+  payment_id: string;
+  escrow_account_id: string;
+  total_amount: number | string;
+  gross_amount: number | string;
+  net_amount: number | string;
+  reward_amount: number | string;
+  cargo_fee: number | string;
+  service_fee: number | string;
+  reward_transfer_id: string | null;
+  cargo_transfer_id: string | null;
+  service_transfer_id: string | null;
+  status: DistributionStatus;
+  distribution_type: 'automatic' | 'manual';
+  processed_at: string | null;
+  failed_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
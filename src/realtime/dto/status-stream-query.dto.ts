@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class StatusStreamQueryDto {
+  @ApiProperty({
+    description:
+      "Only updates of this payment. The stream then starts with the payment's current status, so nothing is missed between the redirect and connecting",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiProperty({
+    description: 'Supabase JWT, for EventSource clients that cannot send an Authorization header',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  access_token?: string;
+}
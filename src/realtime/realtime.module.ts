@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { PaymentStateModule } from '../payment-state/payment-state.module';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { StatusStreamController } from './status-stream.controller';
+import { StatusStreamService } from './status-stream.service';
+
+@Module({
+  imports: [SupabaseModule, PaymentStateModule, DomainEventsModule],
+  controllers: [StatusStreamController],
+  providers: [StatusStreamService],
+})
+export class RealtimeModule {}
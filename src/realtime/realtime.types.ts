@@ -0,0 +1,26 @@
+// payment = payment/escrow status of a payment; cargo = device pair / shipment status
+export const STATUS_UPDATE_KINDS = ['payment', 'cargo'] as const;
+export type StatusUpdateKind = (typeof STATUS_UPDATE_KINDS)[number];
+
+/**
+ * `data` of a 'status' server-sent event
+ */
+export interface StatusUpdate {
+  kind: StatusUpdateKind;
+  // Owner's device (payments.device_id)
+  deviceId: string;
+  paymentId?: string;
+  paymentStatus?: string;
+  escrowStatus?: string | null;
+  deviceStatus?: string | null;
+  cargoStatus?: string | null;
+  at: string;
+}
+
+/**
+ * A status update and the users allowed to see it
+ */
+export interface AddressedStatusUpdate {
+  userIds: string[];
+  update: StatusUpdate;
+}
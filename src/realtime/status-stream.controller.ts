@@ -0,0 +1,35 @@
+import { Controller, MessageEvent, Query, Req, Sse } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiProduces, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { AllowQueryToken } from '../auth/decorators/allow-query-token.decorator';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { StatusStreamQueryDto } from './dto/status-stream-query.dto';
+import { StatusStreamService } from './status-stream.service';
+
+@ApiTags('realtime')
+@Controller('realtime')
+@ApiBearerAuth('bearer')
+export class StatusStreamController {
+  constructor(private readonly statusStreamService: StatusStreamService) {}
+
+  @ApiOperation({
+    summary: 'Stream payment, escrow and cargo status changes (server-sent events)',
+    description:
+      "Pushes a 'status' event whenever a payment the user pays or receives changes payment/escrow status, or a device pair / shipment of theirs moves; 'heartbeat' events keep the connection open. Authenticate with the Authorization header or, from EventSource, the access_token query parameter. Updates applied by another backend instance may not arrive - keep polling GET /payments/:paymentId/status at a low rate as a fallback.",
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Event stream' })
+  @ApiResponse({ status: 400, description: 'Payment does not belong to this user' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  @AllowQueryToken()
+  @Sse('status')
+  async status(
+    @Query() query: StatusStreamQueryDto,
+    @Req() request: Request,
+  ): Promise<Observable<MessageEvent>> {
+    const user = request.user as RequestUser;
+    return this.statusStreamService.open(user.id, query.paymentId);
+  }
+}
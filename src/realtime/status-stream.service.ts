@@ -0,0 +1,178 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Observable,
+  Subject,
+  Subscription,
+  defer,
+  filter,
+  finalize,
+  interval,
+  map,
+  merge,
+  of,
+} from 'rxjs';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { ShipmentStatusChangedEvent } from '../domain-events/domain-events.types';
+import { PaymentTransitionEvent } from '../payment-state/payment-state.types';
+import { PaymentStateService } from '../payment-state/payment-state.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AddressedStatusUpdate, StatusUpdate } from './realtime.types';
+
+// Keeps proxies and load balancers from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Pushes payment, escrow and cargo status changes to the payer and the
+ * finder over server-sent events, as soon as a payment transition commits
+ * (PaymentStateService.transitions$) or cargo publishes
+ * ShipmentStatusChanged. Streams are per process: an update applied by
+ * another instance reaches clients connected there only, so clients keep
+ * GET /payments/:paymentId/status as a fallback.
+ */
+@Injectable()
+export class StatusStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StatusStreamService.name);
+  private readonly supabase: SupabaseClient;
+  private readonly updates = new Subject<AddressedStatusUpdate>();
+  private transitionSubscription?: Subscription;
+  private connections = 0;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly paymentStateService: PaymentStateService,
+    private readonly eventBus: DomainEventBus,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  onModuleInit(): void {
+    this.transitionSubscription = this.paymentStateService.transitions$.subscribe((event) => {
+      void this.onPaymentTransition(event);
+    });
+    this.eventBus.subscribe('ShipmentStatusChanged', StatusStreamService.name, (event) =>
+      this.onShipmentStatusChanged(event),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.transitionSubscription?.unsubscribe();
+    this.updates.complete();
+  }
+
+  /**
+   * Status events for userId; with paymentId only that payment's, starting
+   * with its current status. Throws before the stream opens when the
+   * payment doesn't exist or isn't the user's.
+   */
+  async open(userId: string, paymentId?: string): Promise<Observable<MessageEvent>> {
+    const initial = paymentId ? [await this.currentPaymentStatus(userId, paymentId)] : [];
+
+    const updates = this.updates.pipe(
+      filter(({ userIds }) => userIds.includes(userId)),
+      map(({ update }) => update),
+      filter((update) => !paymentId || update.paymentId === paymentId),
+    );
+
+    const heartbeats = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map((): MessageEvent => ({ type: 'heartbeat', data: { at: new Date().toISOString() } })),
+    );
+
+    return defer(() => {
+      this.connections++;
+      return merge(
+        merge(of(...initial), updates).pipe(
+          map((update): MessageEvent => ({ type: 'status', data: update })),
+        ),
+        heartbeats,
+      );
+    }).pipe(
+      finalize(() => {
+        this.connections--;
+      }),
+    );
+  }
+
+  private async currentPaymentStatus(userId: string, paymentId: string): Promise<StatusUpdate> {
+    const { data: payment } = await this.supabase
+      .from('payments')
+      .select('id, device_id, payer_id, receiver_id, payment_status, escrow_status')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (!payment) {
+      throw new NotFoundException(`Payment not found: ${paymentId}`);
+    }
+    if (payment.payer_id !== userId && payment.receiver_id !== userId) {
+      throw new BadRequestException('Payment does not belong to this user');
+    }
+
+    return {
+      kind: 'payment',
+      deviceId: payment.device_id,
+      paymentId: payment.id,
+      paymentStatus: payment.payment_status || 'pending',
+      escrowStatus: payment.escrow_status,
+      at: new Date().toISOString(),
+    };
+  }
+
+  private async onPaymentTransition(event: PaymentTransitionEvent): Promise<void> {
+    if (this.connections === 0) {
+      return;
+    }
+
+    const { data: payment, error } = await this.supabase
+      .from('payments')
+      .select('device_id, payer_id, receiver_id')
+      .eq('id', event.paymentId)
+      .maybeSingle();
+
+    if (error || !payment) {
+      this.logger.warn(
+        `Failed to look up payment ${event.paymentId} for a status push: ${error?.message || 'not found'}`,
+      );
+      return;
+    }
+
+    this.updates.next({
+      userIds: [payment.payer_id, payment.receiver_id].filter(Boolean),
+      update: {
+        kind: 'payment',
+        deviceId: payment.device_id,
+        paymentId: event.paymentId,
+        paymentStatus: event.to.paymentStatus,
+        escrowStatus: event.to.escrowStatus,
+        at: event.at,
+      },
+    });
+  }
+
+  private onShipmentStatusChanged(event: ShipmentStatusChangedEvent): void {
+    const userIds = [event.ownerUserId, event.finderUserId].filter(
+      (userId): userId is string => !!userId,
+    );
+    if (this.connections === 0 || userIds.length === 0) {
+      return;
+    }
+
+    this.updates.next({
+      userIds,
+      update: {
+        kind: 'cargo',
+        deviceId: event.deviceId,
+        deviceStatus: event.deviceStatus,
+        cargoStatus: event.cargoStatus,
+        at: new Date().toISOString(),
+      },
+    });
+  }
+}
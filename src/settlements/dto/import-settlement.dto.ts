@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { SETTLEMENT_FORMATS, SettlementFormat } from '../settlements.types';
+
+// The JSON body limit is Express' default 100 kb; larger reports are
+// imported one day at a time
+const MAX_CONTENT_LENGTH = 100_000;
+
+/**
+ * A settlement/transaction report downloaded from the PAYNET panel or
+ * the transaction list API, sent as text
+ */
+export class ImportSettlementDto {
+  @ApiProperty({ description: 'Original file name', example: 'paynet_2026-10-18.csv' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fileName: string;
+
+  @ApiProperty({ description: 'File format', enum: SETTLEMENT_FORMATS, example: 'csv' })
+  @IsIn(SETTLEMENT_FORMATS)
+  format: SettlementFormat;
+
+  @ApiProperty({
+    description:
+      'File content. CSV needs a header row (comma or semicolon separated); JSON is an array of transactions or a PAYNET list response with a Data array.',
+    example:
+      'reference_no;xact_id;xact_date;amount;comission;net_amount;is_succeed\n9f1c...;12345;2026-10-18 14:03:22;4750,00;162,93;4587,07;true',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_CONTENT_LENGTH)
+  content: string;
+}
+
+export class SettlementImportErrorDto {
+  @ApiProperty({ description: 'CSV line or JSON array position (1-based)', example: 12 })
+  line: number;
+
+  @ApiProperty({ description: 'What was wrong with the row', example: 'Invalid amount: 4.750,0,0' })
+  message: string;
+}
+
+export class SettlementImportResultDto {
+  @ApiProperty({ description: 'Import ID (settlement_imports.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'Original file name' })
+  fileName: string;
+
+  @ApiProperty({ description: 'Rows in the file', example: 120 })
+  totalRows: number;
+
+  @ApiProperty({ description: 'Rows stored (new or updated)', example: 118 })
+  importedRows: number;
+
+  @ApiProperty({ description: 'Settlement days the file covers (YYYY-MM-DD)', type: [String] })
+  settlementDates: string[];
+
+  @ApiProperty({ description: 'Rows that could not be parsed', type: [SettlementImportErrorDto] })
+  errors: SettlementImportErrorDto[];
+}
@@ -0,0 +1,147 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import {
+  DISCREPANCY_TYPES,
+  DiscrepancyType,
+  RECONCILIATION_RUN_STATUSES,
+  ReconciliationRunStatus,
+} from '../settlements.types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class RunReconciliationDto {
+  @ApiProperty({ description: 'Settlement day to reconcile (YYYY-MM-DD)', example: '2026-10-18' })
+  @IsISO8601({ strict: true })
+  @Matches(DATE_PATTERN, { message: 'date must be YYYY-MM-DD' })
+  date: string;
+}
+
+export class ListDiscrepanciesQueryDto {
+  @ApiProperty({
+    description: 'open = not resolved yet (default), resolved, or all',
+    enum: ['open', 'resolved', 'all'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['open', 'resolved', 'all'])
+  status?: 'open' | 'resolved' | 'all';
+
+  @ApiProperty({
+    description: 'Only this discrepancy type',
+    enum: DISCREPANCY_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(DISCREPANCY_TYPES)
+  type?: DiscrepancyType;
+
+  @ApiProperty({ description: 'Only this settlement day (YYYY-MM-DD)', required: false })
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  @Matches(DATE_PATTERN, { message: 'date must be YYYY-MM-DD' })
+  date?: string;
+}
+
+export class ResolveDiscrepancyDto {
+  @ApiProperty({
+    description: 'How the discrepancy was resolved',
+    example: 'PAYNET düzeltme kaydı ile kapatıldı',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
+
+export class ReconciliationRunDto {
+  @ApiProperty({ description: 'Run ID (reconciliation_runs.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'Settlement day (YYYY-MM-DD)', example: '2026-10-18' })
+  settlementDate: string;
+
+  @ApiProperty({
+    description: 'no_settlement_data = nothing was imported for the day, so nothing was compared',
+    enum: RECONCILIATION_RUN_STATUSES,
+  })
+  status: ReconciliationRunStatus;
+
+  @ApiProperty({ description: 'Settlement rows compared', example: 118 })
+  settlementRows: number;
+
+  @ApiProperty({ description: 'Payments compared', example: 117 })
+  paymentsChecked: number;
+
+  @ApiProperty({ description: 'Rows and payments that matched exactly', example: 116 })
+  matchedCount: number;
+
+  @ApiProperty({ description: 'Discrepancies found by this run', example: 2 })
+  discrepancyCount: number;
+
+  @ApiProperty({ description: 'cron or the admin who started the run', example: 'cron' })
+  triggeredBy: string;
+
+  @ApiProperty({ description: 'Why the run failed', required: false })
+  errorMessage?: string;
+
+  @ApiProperty({ description: 'Started at (ISO 8601)' })
+  startedAt: string;
+
+  @ApiProperty({ description: 'Finished at (ISO 8601)', required: false })
+  completedAt?: string;
+}
+
+export class DiscrepancyDto {
+  @ApiProperty({ description: 'Discrepancy ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Settlement day (YYYY-MM-DD)', example: '2026-10-18' })
+  settlementDate: string;
+
+  @ApiProperty({ description: 'What does not match', enum: DISCREPANCY_TYPES })
+  discrepancyType: DiscrepancyType;
+
+  @ApiProperty({ description: 'Provider reference (our payment ID)' })
+  referenceNo: string;
+
+  @ApiProperty({ description: 'Payment ID, when we know the reference', required: false })
+  paymentId?: string;
+
+  @ApiProperty({
+    description: 'Settlement record ID, when the provider reported it',
+    required: false,
+  })
+  settlementRecordId?: string;
+
+  @ApiProperty({ description: 'Our value', required: false, example: '4750.00' })
+  expectedValue?: string;
+
+  @ApiProperty({ description: "The provider's value", required: false, example: '4705.00' })
+  actualValue?: string;
+
+  @ApiProperty({ description: 'Human-readable detail' })
+  details: string;
+
+  @ApiProperty({ description: 'Last run that found it' })
+  runId: string;
+
+  @ApiProperty({ description: 'Resolved at (ISO 8601)', required: false })
+  resolvedAt?: string;
+
+  @ApiProperty({ description: 'Admin who resolved it', required: false })
+  resolvedBy?: string;
+
+  @ApiProperty({ description: 'Resolution note', required: false })
+  resolutionNote?: string;
+
+  @ApiProperty({ description: 'First found at (ISO 8601)' })
+  createdAt: string;
+}
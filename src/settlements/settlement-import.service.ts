@@ -0,0 +1,138 @@
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ImportSettlementDto, SettlementImportResultDto } from './dto/import-settlement.dto';
+import { parseSettlementFile } from './settlement-parser';
+
+const PROVIDER = 'paynet';
+const BATCH_SIZE = 500;
+
+/**
+ * Stores PAYNET settlement/transaction reports in settlement_records for
+ * the daily reconciliation.
+ *
+ * A file can only be imported once (by checksum). Rows are keyed by
+ * reference + sale/refund, so a later report covering the same
+ * transactions (e.g. a corrected file) updates them instead of adding
+ * duplicates.
+ */
+@Injectable()
+export class SettlementImportService {
+  private readonly logger = new Logger(SettlementImportService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  async importFile(
+    dto: ImportSettlementDto,
+    importedBy: string,
+  ): Promise<SettlementImportResultDto> {
+    let parsed: ReturnType<typeof parseSettlementFile>;
+    try {
+      parsed = parseSettlementFile(dto.content, dto.format);
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+
+    if (parsed.rows.length === 0) {
+      throw new BadRequestException({
+        message: 'Settlement file has no valid rows',
+        errors: parsed.errors.slice(0, 50),
+      });
+    }
+
+    const checksum = createHash('sha256').update(dto.content).digest('hex');
+    const settlementDates = [...new Set(parsed.rows.map((row) => row.settlementDate))].sort();
+
+    const { data: fileImport, error: importError } = await this.supabase
+      .from('settlement_imports')
+      .insert({
+        provider: PROVIDER,
+        file_name: dto.fileName,
+        file_format: dto.format,
+        checksum,
+        total_rows: parsed.rows.length + parsed.errors.length,
+        imported_rows: 0,
+        error_rows: parsed.errors.length,
+        errors: parsed.errors,
+        settlement_dates: settlementDates,
+        imported_by: importedBy,
+      })
+      .select('id')
+      .single();
+
+    if (importError?.code === '23505') {
+      throw new ConflictException('This settlement file was already imported');
+    }
+    if (importError || !fileImport) {
+      this.logger.error(`Failed to record settlement import: ${importError?.message}`, importError);
+      throw new BadRequestException('Failed to import settlement file');
+    }
+
+    // A reference can appear twice in one file (report pages overlapping);
+    // the last row wins, same as a later import
+    const records = new Map<string, Record<string, unknown>>();
+    for (const row of parsed.rows) {
+      records.set(`${row.referenceNo}:${row.recordType}`, {
+        import_id: fileImport.id,
+        provider: PROVIDER,
+        reference_no: row.referenceNo,
+        xact_id: row.xactId,
+        record_type: row.recordType,
+        status: row.status,
+        amount: row.amount,
+        commission: row.commission,
+        net_amount: row.netAmount,
+        transaction_date: row.transactionDate,
+        settlement_date: row.settlementDate,
+        raw_data: row.raw,
+        updated_at: new Date().toISOString(),
+      });
+    }
+
+    const rows = [...records.values()];
+    let importedRows = 0;
+    for (let from = 0; from < rows.length; from += BATCH_SIZE) {
+      const batch = rows.slice(from, from + BATCH_SIZE);
+      const { error } = await this.supabase
+        .from('settlement_records')
+        .upsert(batch, { onConflict: 'provider,reference_no,record_type' });
+
+      if (error) {
+        this.logger.error(
+          `Failed to store settlement rows of import ${fileImport.id}: ${error.message}`,
+          error,
+        );
+        await this.supabase
+          .from('settlement_imports')
+          .update({ imported_rows: importedRows, failed_reason: error.message })
+          .eq('id', fileImport.id);
+        throw new BadRequestException(
+          `Failed to store settlement rows (${importedRows} of ${rows.length} stored)`,
+        );
+      }
+      importedRows += batch.length;
+    }
+
+    await this.supabase
+      .from('settlement_imports')
+      .update({ imported_rows: importedRows })
+      .eq('id', fileImport.id);
+
+    this.logger.log(
+      `Settlement file ${dto.fileName} imported: ${importedRows} rows for ${settlementDates.join(', ')}, ${parsed.errors.length} invalid`,
+    );
+
+    return {
+      id: fileImport.id,
+      fileName: dto.fileName,
+      totalRows: parsed.rows.length + parsed.errors.length,
+      importedRows,
+      settlementDates,
+      errors: parsed.errors,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { istanbulDate, istanbulDayRange, parseSettlementFile } from './settlement-parser';
+
+describe('parseSettlementFile', () => {
+  describe('csv', () => {
+    it('parses a comma separated report with quoted cells', () => {
+      const csv = [
+        'reference_no,xact_id,amount,comission,xact_type,xact_date,note',
+        'REF-1,X1,"1,234.56",42.10,sales,2026-10-18 14:03:22,"said ""hi"", then left"',
+        'REF-2,X2,100.00,3.43,sales,2026-10-18T09:00:00Z,"two',
+        'lines"',
+      ].join('\r\n');
+
+      const { rows, errors } = parseSettlementFile(csv, 'csv');
+
+      expect(errors).toEqual([]);
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        referenceNo: 'REF-1',
+        xactId: 'X1',
+        recordType: 'sale',
+        status: 'succeeded',
+        amount: 1234.56,
+        commission: 42.1,
+        netAmount: null,
+      });
+      expect(rows[0].raw.note).toBe('said "hi", then left');
+      expect(rows[1].raw.note).toBe('two\r\nlines');
+    });
+
+    it('parses the Turkish panel export with ; delimiter, amounts and dates', () => {
+      const csv = [
+        '﻿Referans No;İşlem No;İşlem Tutarı;Komisyon;Net Tutar;Durum;İşlem Tipi;İşlem Tarihi',
+        'REF-1;X1;1.234,56;42,10;1.192,46;Başarılı;Satış;18.10.2026 14:03:22',
+        'REF-2;X2;99,90;3,43;96,47;Başarısız;Satış;18.10.2026',
+      ].join('\n');
+
+      const { rows, errors } = parseSettlementFile(csv, 'csv');
+
+      expect(errors).toEqual([]);
+      expect(rows[0]).toMatchObject({
+        referenceNo: 'REF-1',
+        amount: 1234.56,
+        commission: 42.1,
+        netAmount: 1192.46,
+        status: 'succeeded',
+        // Istanbul local time
+        transactionDate: '2026-10-18T11:03:22.000Z',
+        settlementDate: '2026-10-18',
+      });
+      expect(rows[1]).toMatchObject({
+        amount: 99.9,
+        status: 'failed',
+        transactionDate: '2026-10-17T21:00:00.000Z',
+        settlementDate: '2026-10-18',
+      });
+    });
+
+    it('reports unparseable rows with their line and keeps the rest', () => {
+      const csv = [
+        'reference_no,amount,xact_date',
+        'REF-1,10.00,2026-10-18',
+        ',10.00,2026-10-18',
+        'REF-3,abc,2026-10-18',
+        'REF-4,10.00,yesterday',
+      ].join('\n');
+
+      const { rows, errors } = parseSettlementFile(csv, 'csv');
+
+      expect(rows.map((row) => row.referenceNo)).toEqual(['REF-1']);
+      expect(errors).toEqual([
+        { line: 3, message: 'reference_no is missing' },
+        { line: 4, message: 'Invalid amount: abc' },
+        { line: 5, message: 'Invalid date: yesterday' },
+      ]);
+    });
+
+    it('rejects an empty file', () => {
+      expect(() => parseSettlementFile('\n\n', 'csv')).toThrow('Settlement CSV is empty');
+    });
+  });
+
+  describe('json', () => {
+    it('reads the Data array of a PAYNET list response', () => {
+      const json = JSON.stringify({
+        Data: [{ reference_no: 'REF-1', amount: 250.5, is_succeed: true, xact_date: '2026-10-18' }],
+      });
+
+      const { rows } = parseSettlementFile(json, 'json');
+
+      expect(rows[0]).toMatchObject({ referenceNo: 'REF-1', amount: 250.5, status: 'succeeded' });
+    });
+
+    it('rejects a body without transactions', () => {
+      expect(() => parseSettlementFile('{"ok":true}', 'json')).toThrow('Data array');
+      expect(() => parseSettlementFile('not json', 'json')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('dates', () => {
+    const parseDate = (date: string) =>
+      parseSettlementFile(
+        JSON.stringify([{ reference_no: 'REF-1', amount: 1, xact_date: date }]),
+        'json',
+      ).rows[0].transactionDate;
+
+    it('treats a date-only ISO value as Istanbul midnight', () => {
+      expect(parseDate('2026-10-18')).toBe('2026-10-17T21:00:00.000Z');
+    });
+
+    it('keeps an explicit zone', () => {
+      expect(parseDate('2026-10-18T01:00:00Z')).toBe('2026-10-18T01:00:00.000Z');
+      expect(parseDate('2026-10-18T01:00:00+00:00')).toBe('2026-10-18T01:00:00.000Z');
+    });
+
+    it('assigns late UTC evenings to the next Istanbul day', () => {
+      expect(istanbulDate(new Date('2026-10-18T21:30:00Z'))).toBe('2026-10-19');
+      expect(istanbulDayRange('2026-10-19')).toEqual({
+        start: '2026-10-18T21:00:00.000Z',
+        end: '2026-10-19T21:00:00.000Z',
+      });
+    });
+  });
+
+  describe('refunds', () => {
+    it('stores a negative refund row as a positive refund amount', () => {
+      const csv = [
+        'reference_no;amount;comission;net_amount;xact_type;xact_date',
+        'REF-1;-150,00;-5,15;-144,85;İade;2026-10-18',
+        'REF-2;-20.00;;;escrow_reject;2026-10-18',
+      ].join('\n');
+
+      const { rows, errors } = parseSettlementFile(csv, 'csv');
+
+      expect(errors).toEqual([]);
+      expect(rows[0]).toMatchObject({
+        recordType: 'refund',
+        amount: 150,
+        commission: 5.15,
+        netAmount: 144.85,
+      });
+      expect(rows[1]).toMatchObject({ recordType: 'refund', amount: 20, commission: null });
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { Money } from '../common/money/money';
+import {
+  ParsedSettlementRow,
+  SettlementFormat,
+  SettlementRecordType,
+  SettlementStatus,
+} from './settlements.types';
+
+// Turkey has been on UTC+3 all year since 2016
+const ISTANBUL_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+// Report column names seen in PAYNET exports (API field names, and the
+// Turkish headers of the panel's Excel/CSV export), lower-cased
+const COLUMN_ALIASES: Record<string, string[]> = {
+  referenceNo: [
+    'reference_no',
+    'referenceno',
+    'referans_no',
+    'referans no',
+    'sipariş no',
+    'siparis_no',
+  ],
+  xactId: ['xact_id', 'xactid', 'işlem no', 'islem_no', 'transaction_id'],
+  amount: ['amount', 'tutar', 'işlem tutarı', 'islem_tutari'],
+  commission: ['comission', 'commission', 'komisyon', 'komisyon tutarı'],
+  netAmount: ['net_amount', 'netamount', 'net tutar', 'net_tutar'],
+  status: ['is_succeed', 'status', 'durum', 'sonuç'],
+  type: ['xact_type', 'transaction_type', 'işlem tipi', 'islem_tipi', 'type'],
+  date: ['xact_date', 'transaction_date', 'işlem tarihi', 'islem_tarihi', 'date', 'tarih'],
+};
+
+const SUCCEEDED_VALUES = [
+  'true',
+  '1',
+  'success',
+  'succeeded',
+  'başarılı',
+  'basarili',
+  'onaylandı',
+  'onaylandi',
+];
+const REFUND_VALUES = ['refund', 'iade', 'reversal', 'cancel', 'iptal', 'escrow_reject'];
+
+export interface SettlementParseResult {
+  rows: ParsedSettlementRow[];
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * Parse a provider settlement/transaction report into normalized rows.
+ * Rows that can't be parsed are reported with their line (CSV) or index
+ * (JSON) instead of failing the whole file.
+ */
+export function parseSettlementFile(
+  content: string,
+  format: SettlementFormat,
+): SettlementParseResult {
+  const records = format === 'json' ? parseJsonRecords(content) : parseCsvRecords(content);
+  const result: SettlementParseResult = { rows: [], errors: [] };
+
+  records.forEach(({ line, fields }) => {
+    try {
+      result.rows.push(toRow(fields));
+    } catch (error: any) {
+      result.errors.push({ line, message: error.message });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * YYYY-MM-DD of an instant in Istanbul time
+ */
+export function istanbulDate(instant: Date): string {
+  return new Date(instant.getTime() + ISTANBUL_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * [start, end) of an Istanbul calendar day as ISO instants
+ */
+export function istanbulDayRange(date: string): { start: string; end: string } {
+  const start = new Date(`${date}T00:00:00.000Z`).getTime() - ISTANBUL_OFFSET_MS;
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(start + 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+function toRow(fields: Record<string, unknown>): ParsedSettlementRow {
+  const normalized = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(fields)) {
+    lowerCased(key.trim()).forEach((name) => normalized.set(name, value));
+  }
+  const pick = (column: string): string | null => {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const value = normalized.get(alias);
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        return String(value).trim();
+      }
+    }
+    return null;
+  };
+
+  const referenceNo = pick('referenceNo');
+  if (!referenceNo) {
+    throw new Error('reference_no is missing');
+  }
+
+  const amount = pick('amount');
+  if (!amount) {
+    throw new Error(`amount is missing for ${referenceNo}`);
+  }
+
+  const date = pick('date');
+  if (!date) {
+    throw new Error(`transaction date is missing for ${referenceNo}`);
+  }
+  const transactionDate = parseDate(date);
+
+  const type = lowerCased(pick('type') ?? '');
+  const recordType: SettlementRecordType = REFUND_VALUES.some((value) =>
+    type.some((text) => text.includes(value)),
+  )
+    ? 'refund'
+    : 'sale';
+  const status = pick('status');
+  // Reports that only list settled transactions have no status column
+  const settled: SettlementStatus =
+    status === null || lowerCased(status).some((text) => SUCCEEDED_VALUES.includes(text))
+      ? 'succeeded'
+      : 'failed';
+
+  const commission = pick('commission');
+  const netAmount = pick('netAmount');
+
+  return {
+    referenceNo,
+    xactId: pick('xactId'),
+    recordType,
+    status: settled,
+    // Refund rows are often negative; the record type carries the direction
+    amount: Math.abs(parseAmount(amount)),
+    commission: commission === null ? null : Math.abs(parseAmount(commission)),
+    netAmount: netAmount === null ? null : Math.abs(parseAmount(netAmount)),
+    transactionDate: transactionDate.toISOString(),
+    settlementDate: istanbulDate(transactionDate),
+    raw: fields,
+  };
+}
+
+/**
+ * Plain and Turkish lower case: "İade" is only "iade" in Turkish, while
+ * "XACT_ID" is only "xact_id" outside it
+ */
+function lowerCased(value: string): string[] {
+  return [value.toLowerCase(), value.toLocaleLowerCase('tr-TR')];
+}
+
+/**
+ * "1234.56", "1.234,56" (Turkish) or "1,234.56" to an exact TL amount
+ */
+function parseAmount(value: string): number {
+  let text = value.replace(/[^\d.,-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  try {
+    return Money.fromMajor(text).toMajor();
+  } catch {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+}
+
+/**
+ * ISO 8601, "2026-10-18 14:03:22" or "18.10.2026 14:03:22". Without a
+ * zone the time is Istanbul local time; without a time it is midnight.
+ */
+function parseDate(value: string): Date {
+  const turkish = /^(\d{2})\.(\d{2})\.(\d{4})(?:\s+(\d{2}:\d{2}(?::\d{2})?))?$/.exec(value);
+  let text = turkish
+    ? `${turkish[3]}-${turkish[2]}-${turkish[1]}T${turkish[4] ?? '00:00:00'}`
+    : value.replace(' ', 'T');
+  // "2026-10-18+03:00" is not a valid date
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    text += 'T00:00:00';
+  }
+  if (!/[zZ]|[+-]\d{2}:?\d{2}$/.test(text)) {
+    text += '+03:00';
+  }
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function parseJsonRecords(content: string): { line: number; fields: Record<string, unknown> }[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Settlement file is not valid JSON');
+  }
+
+  // PAYNET list responses wrap the rows in "Data"
+  const list = Array.isArray(parsed)
+    ? parsed
+    : ((parsed as Record<string, unknown>)?.Data ?? (parsed as Record<string, unknown>)?.data);
+  if (!Array.isArray(list)) {
+    throw new Error('Settlement JSON must be an array of transactions or have a Data array');
+  }
+
+  return list.map((fields, index) => ({
+    line: index + 1,
+    fields: fields as Record<string, unknown>,
+  }));
+}
+
+/**
+ * RFC 4180 CSV with a header row; the delimiter (, or ;) is taken from the
+ * header
+ */
+function parseCsvRecords(content: string): { line: number; fields: Record<string, unknown> }[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter =
+    (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const lines: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      cells.push(cell);
+      lines.push({ line: rowStart, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    lines.push({ line: rowStart, cells });
+  }
+
+  const nonEmpty = lines.filter(({ cells: row }) => row.some((value) => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('Settlement CSV is empty');
+  }
+
+  const [header, ...rows] = nonEmpty;
+  return rows.map(({ line: rowLine, cells: row }) => ({
+    line: rowLine,
+    fields: Object.fromEntries(header.cells.map((name, index) => [name, row[index] ?? ''])),
+  }));
+}
@@ -0,0 +1,558 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Money } from '../common/money/money';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  DiscrepancyDto,
+  ListDiscrepanciesQueryDto,
+  ReconciliationRunDto,
+} from './dto/reconciliation.dto';
+import { istanbulDate, istanbulDayRange } from './settlement-parser';
+import { DiscrepancyType, ReconciliationRunStatus, SettlementRecord } from './settlements.types';
+
+const PROVIDER = 'paynet';
+const PAGE_SIZE = 1000;
+// PostgREST puts .in() lists in the URL, so look payments up in chunks
+const LOOKUP_CHUNK_SIZE = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PAYMENT_FIELDS =
+  'id, total_amount, payment_gateway_fee, refund_amount, payment_status, escrow_status, completed_at';
+
+interface ReconciledPayment {
+  id: string;
+  total_amount: number | string;
+  payment_gateway_fee: number | string | null;
+  refund_amount: number | string | null; // Refunded total of a partial refund
+  payment_status: string;
+  escrow_status: string | null;
+  completed_at: string | null;
+}
+
+interface FoundDiscrepancy {
+  type: DiscrepancyType;
+  referenceNo: string;
+  paymentId: string | null;
+  settlementRecordId: string | null;
+  expected: string | null;
+  actual: string | null;
+  details: string;
+}
+
+/**
+ * Daily reconciliation of PAYNET settlement reports against payments.
+ *
+ * Settlement rows are matched to payments by reference_no (we send the
+ * payment ID as PAYNET's reference_no). Amounts are compared exactly in
+ * kuruş. Discrepancies stay open until an admin resolves them; a re-run
+ * (e.g. after importing a corrected file) does not duplicate open ones and
+ * closes those it no longer finds.
+ */
+@Injectable()
+export class SettlementReconciliationService {
+  private readonly logger = new Logger(SettlementReconciliationService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  /**
+   * PAYNET's report for a day is complete the next morning
+   */
+  @Cron('0 6 * * *', { timeZone: 'Europe/Istanbul' })
+  async reconcileYesterday(): Promise<void> {
+    const yesterday = istanbulDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    try {
+      const run = await this.reconcile(yesterday, 'cron');
+      if (run.status === 'no_settlement_data') {
+        this.logger.warn(`No PAYNET settlement report imported for ${yesterday}`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Daily reconciliation for ${yesterday} failed: ${error.message}`);
+    }
+  }
+
+  async reconcile(settlementDate: string, triggeredBy: string): Promise<ReconciliationRunDto> {
+    const { data: run, error: runError } = await this.supabase
+      .from('reconciliation_runs')
+      .insert({
+        provider: PROVIDER,
+        settlement_date: settlementDate,
+        status: 'running',
+        triggered_by: triggeredBy,
+      })
+      .select('*')
+      .single();
+
+    if (runError || !run) {
+      this.logger.error(`Failed to start reconciliation run: ${runError?.message}`, runError);
+      throw new BadRequestException('Failed to start reconciliation');
+    }
+
+    try {
+      const records = await this.loadSettlementRecords(settlementDate);
+      if (records.length === 0) {
+        return this.finishRun(run.id, 'no_settlement_data', {
+          settlement_rows: 0,
+          payments_checked: 0,
+          matched_count: 0,
+          discrepancy_count: 0,
+        });
+      }
+
+      const { start, end } = istanbulDayRange(settlementDate);
+      const completedThatDay = await this.loadCompletedPayments(start, end);
+      const referenced = await this.loadPayments(records.map((record) => record.reference_no));
+      const payments = new Map<string, ReconciledPayment>();
+      for (const payment of [...completedThatDay, ...referenced]) {
+        payments.set(payment.id, payment);
+      }
+
+      const found: FoundDiscrepancy[] = [];
+      let matchedCount = 0;
+      for (const record of records) {
+        const recordDiscrepancies = this.compare(record, payments.get(record.reference_no) ?? null);
+        found.push(...recordDiscrepancies);
+        if (recordDiscrepancies.length === 0) {
+          matchedCount++;
+        }
+      }
+
+      // Completed payments without a sale row, unless PAYNET settled them on
+      // another day (captures right around midnight)
+      const settledToday = new Set(
+        records.filter((record) => record.record_type === 'sale').map((r) => r.reference_no),
+      );
+      const unsettled = completedThatDay.filter((payment) => !settledToday.has(payment.id));
+      const settledElsewhere = await this.loadSaleReferences(unsettled.map((p) => p.id));
+      for (const payment of unsettled) {
+        if (settledElsewhere.has(payment.id)) {
+          continue;
+        }
+        found.push({
+          type: 'missing_in_settlement',
+          referenceNo: payment.id,
+          paymentId: payment.id,
+          settlementRecordId: null,
+          expected: Money.fromMajor(payment.total_amount).toString(),
+          actual: null,
+          details: `Payment completed at ${payment.completed_at} is not in the PAYNET settlement report`,
+        });
+      }
+
+      await this.saveDiscrepancies(run.id, settlementDate, found);
+
+      return this.finishRun(run.id, 'completed', {
+        settlement_rows: records.length,
+        payments_checked: payments.size,
+        matched_count: matchedCount,
+        discrepancy_count: found.length,
+      });
+    } catch (error: any) {
+      this.logger.error(`Reconciliation of ${settlementDate} failed: ${error.message}`, error);
+      await this.finishRun(run.id, 'failed', { error_message: error.message });
+      throw new BadRequestException(`Reconciliation failed: ${error.message}`);
+    }
+  }
+
+  async listRuns(limit = 30): Promise<ReconciliationRunDto[]> {
+    const { data, error } = await this.supabase
+      .from('reconciliation_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error(`Failed to list reconciliation runs: ${error.message}`, error);
+      throw new BadRequestException('Failed to list reconciliation runs');
+    }
+
+    return (data || []).map((row) => this.toRunDto(row));
+  }
+
+  async listDiscrepancies(query: ListDiscrepanciesQueryDto): Promise<DiscrepancyDto[]> {
+    let request = this.supabase
+      .from('reconciliation_discrepancies')
+      .select('*')
+      .order('settlement_date', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(500);
+
+    const status = query.status ?? 'open';
+    if (status === 'open') {
+      request = request.is('resolved_at', null);
+    } else if (status === 'resolved') {
+      request = request.not('resolved_at', 'is', null);
+    }
+    if (query.type) {
+      request = request.eq('discrepancy_type', query.type);
+    }
+    if (query.date) {
+      request = request.eq('settlement_date', query.date);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      this.logger.error(`Failed to list discrepancies: ${error.message}`, error);
+      throw new BadRequestException('Failed to list discrepancies');
+    }
+
+    return (data || []).map((row) => this.toDiscrepancyDto(row));
+  }
+
+  async resolveDiscrepancy(id: string, note: string, resolvedBy: string): Promise<DiscrepancyDto> {
+    const { data: existing } = await this.supabase
+      .from('reconciliation_discrepancies')
+      .select('id, resolved_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existing) {
+      throw new NotFoundException('Discrepancy not found');
+    }
+    if (existing.resolved_at) {
+      throw new BadRequestException('Discrepancy is already resolved');
+    }
+
+    const { data, error } = await this.supabase
+      .from('reconciliation_discrepancies')
+      .update({
+        resolved_at: new Date().toISOString(),
+        resolved_by: resolvedBy,
+        resolution_note: note,
+      })
+      .eq('id', id)
+      .is('resolved_at', null)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to resolve discrepancy ${id}: ${error?.message}`, error);
+      throw new BadRequestException('Failed to resolve discrepancy');
+    }
+
+    this.logger.log(`Discrepancy ${id} resolved by ${resolvedBy}`);
+    return this.toDiscrepancyDto(data);
+  }
+
+  private compare(record: SettlementRecord, payment: ReconciledPayment | null): FoundDiscrepancy[] {
+    const base = {
+      referenceNo: record.reference_no,
+      paymentId: payment?.id ?? null,
+      settlementRecordId: record.id,
+    };
+
+    if (!payment) {
+      return [
+        {
+          ...base,
+          type: 'missing_in_payments',
+          expected: null,
+          actual: Money.fromMajor(record.amount).toString(),
+          details: `PAYNET reported a ${record.record_type} (${record.status}) for an unknown reference`,
+        },
+      ];
+    }
+
+    const found: FoundDiscrepancy[] = [];
+    const captured = payment.payment_status === 'completed' || payment.completed_at !== null;
+    const refunded = Money.fromMajor(payment.refund_amount ?? 0);
+    const partialRefund =
+      payment.escrow_status === 'released' && refunded.minor > 0 ? refunded : null;
+
+    if (record.record_type === 'sale') {
+      if (record.status === 'succeeded' && !captured) {
+        found.push({
+          ...base,
+          type: 'status_mismatch',
+          expected: payment.payment_status,
+          actual: 'succeeded',
+          details: 'PAYNET settled the sale but the payment is not completed',
+        });
+      } else if (record.status === 'failed' && captured) {
+        found.push({
+          ...base,
+          type: 'status_mismatch',
+          expected: payment.payment_status,
+          actual: 'failed',
+          details: 'Payment is completed but PAYNET reports the sale as failed',
+        });
+      }
+    } else if (
+      record.status === 'succeeded' &&
+      payment.escrow_status !== 'refunded' &&
+      !partialRefund
+    ) {
+      found.push({
+        ...base,
+        type: 'status_mismatch',
+        expected: payment.escrow_status ?? 'none',
+        actual: 'refunded',
+        details: 'PAYNET refunded the payment but escrow is not refunded',
+      });
+    }
+
+    // A partial refund returns refund_amount and releases the rest; a full
+    // refund returns the total
+    const expectedAmount =
+      record.record_type === 'refund' && partialRefund
+        ? partialRefund
+        : Money.fromMajor(payment.total_amount);
+    const actualAmount = Money.fromMajor(record.amount);
+    if (!expectedAmount.equals(actualAmount)) {
+      found.push({
+        ...base,
+        type: 'amount_mismatch',
+        expected: expectedAmount.toString(),
+        actual: actualAmount.toString(),
+        details: `${record.record_type} amount differs by ${actualAmount.subtract(expectedAmount)} TL`,
+      });
+    }
+
+    // Refunds carry no commission of their own
+    if (
+      record.record_type === 'sale' &&
+      record.commission !== null &&
+      payment.payment_gateway_fee !== null
+    ) {
+      const expectedCommission = Money.fromMajor(payment.payment_gateway_fee);
+      const actualCommission = Money.fromMajor(record.commission);
+      if (!expectedCommission.equals(actualCommission)) {
+        found.push({
+          ...base,
+          type: 'commission_mismatch',
+          expected: expectedCommission.toString(),
+          actual: actualCommission.toString(),
+          details: `Commission differs by ${actualCommission.subtract(expectedCommission)} TL`,
+        });
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Insert new discrepancies, move still-open ones to this run and close
+   * the day's open ones this run no longer finds
+   */
+  private async saveDiscrepancies(
+    runId: string,
+    settlementDate: string,
+    found: FoundDiscrepancy[],
+  ): Promise<void> {
+    const { data: open, error } = await this.supabase
+      .from('reconciliation_discrepancies')
+      .select('id, discrepancy_type, reference_no')
+      .eq('settlement_date', settlementDate)
+      .is('resolved_at', null);
+
+    if (error) {
+      throw new Error(`Failed to load open discrepancies: ${error.message}`);
+    }
+
+    const key = (type: string, referenceNo: string) => `${type}:${referenceNo}`;
+    const openByKey = new Map<string, string>(
+      (open || []).map((row) => [key(row.discrepancy_type, row.reference_no), row.id]),
+    );
+    const now = new Date().toISOString();
+
+    const inserts: Record<string, unknown>[] = [];
+    const stillOpen: string[] = [];
+    for (const discrepancy of found) {
+      const fields = {
+        run_id: runId,
+        payment_id: discrepancy.paymentId,
+        settlement_record_id: discrepancy.settlementRecordId,
+        expected_value: discrepancy.expected,
+        actual_value: discrepancy.actual,
+        details: discrepancy.details,
+        updated_at: now,
+      };
+      const openId = openByKey.get(key(discrepancy.type, discrepancy.referenceNo));
+      if (openId) {
+        stillOpen.push(openId);
+        openByKey.delete(key(discrepancy.type, discrepancy.referenceNo));
+        const { error: updateError } = await this.supabase
+          .from('reconciliation_discrepancies')
+          .update(fields)
+          .eq('id', openId);
+        if (updateError) {
+          throw new Error(`Failed to update discrepancy ${openId}: ${updateError.message}`);
+        }
+      } else {
+        inserts.push({
+          ...fields,
+          provider: PROVIDER,
+          settlement_date: settlementDate,
+          discrepancy_type: discrepancy.type,
+          reference_no: discrepancy.referenceNo,
+        });
+      }
+    }
+
+    if (inserts.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from('reconciliation_discrepancies')
+        .insert(inserts);
+      if (insertError) {
+        throw new Error(`Failed to store discrepancies: ${insertError.message}`);
+      }
+    }
+
+    const gone = [...openByKey.values()];
+    if (gone.length > 0) {
+      const { error: closeError } = await this.supabase
+        .from('reconciliation_discrepancies')
+        .update({
+          resolved_at: now,
+          resolved_by: null,
+          resolution_note: `No longer found by reconciliation run ${runId}`,
+          updated_at: now,
+        })
+        .in('id', gone);
+      if (closeError) {
+        throw new Error(`Failed to close resolved discrepancies: ${closeError.message}`);
+      }
+    }
+
+    this.logger.log(
+      `Reconciliation ${settlementDate}: ${inserts.length} new, ${stillOpen.length} still open, ${gone.length} closed`,
+    );
+  }
+
+  private async loadSettlementRecords(settlementDate: string): Promise<SettlementRecord[]> {
+    const records: SettlementRecord[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('settlement_records')
+        .select('*')
+        .eq('provider', PROVIDER)
+        .eq('settlement_date', settlementDate)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load settlement records: ${error.message}`);
+      }
+      records.push(...((data || []) as SettlementRecord[]));
+      if (!data || data.length < PAGE_SIZE) {
+        return records;
+      }
+    }
+  }
+
+  private async loadCompletedPayments(start: string, end: string): Promise<ReconciledPayment[]> {
+    const payments: ReconciledPayment[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('payments')
+        .select(PAYMENT_FIELDS)
+        .eq('payment_provider', PROVIDER)
+        .gte('completed_at', start)
+        .lt('completed_at', end)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load completed payments: ${error.message}`);
+      }
+      payments.push(...((data || []) as ReconciledPayment[]));
+      if (!data || data.length < PAGE_SIZE) {
+        return payments;
+      }
+    }
+  }
+
+  private async loadPayments(referenceNos: string[]): Promise<ReconciledPayment[]> {
+    // Anything that isn't a UUID can't be one of our payments
+    const ids = [...new Set(referenceNos)].filter((ref) => UUID_PATTERN.test(ref));
+    const payments: ReconciledPayment[] = [];
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('payments')
+        .select(PAYMENT_FIELDS)
+        .in('id', ids.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to load payments: ${error.message}`);
+      }
+      payments.push(...((data || []) as ReconciledPayment[]));
+    }
+    return payments;
+  }
+
+  private async loadSaleReferences(paymentIds: string[]): Promise<Set<string>> {
+    const references = new Set<string>();
+    for (let i = 0; i < paymentIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('settlement_records')
+        .select('reference_no')
+        .eq('provider', PROVIDER)
+        .eq('record_type', 'sale')
+        .in('reference_no', paymentIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to load settlement records: ${error.message}`);
+      }
+      (data || []).forEach((row) => references.add(row.reference_no));
+    }
+    return references;
+  }
+
+  private async finishRun(
+    runId: string,
+    status: ReconciliationRunStatus,
+    fields: Record<string, unknown>,
+  ): Promise<ReconciliationRunDto> {
+    const { data, error } = await this.supabase
+      .from('reconciliation_runs')
+      .update({ ...fields, status, completed_at: new Date().toISOString() })
+      .eq('id', runId)
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to finish reconciliation run ${runId}: ${error?.message}`, error);
+      throw new BadRequestException('Failed to record reconciliation run');
+    }
+
+    this.logger.log(`Reconciliation run ${runId} for ${data.settlement_date}: ${status}`);
+    return this.toRunDto(data);
+  }
+
+  private toRunDto(row: any): ReconciliationRunDto {
+    return {
+      id: row.id,
+      settlementDate: row.settlement_date,
+      status: row.status,
+      settlementRows: row.settlement_rows ?? 0,
+      paymentsChecked: row.payments_checked ?? 0,
+      matchedCount: row.matched_count ?? 0,
+      discrepancyCount: row.discrepancy_count ?? 0,
+      triggeredBy: row.triggered_by,
+      errorMessage: row.error_message ?? undefined,
+      startedAt: row.started_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+
+  private toDiscrepancyDto(row: any): DiscrepancyDto {
+    return {
+      id: row.id,
+      settlementDate: row.settlement_date,
+      discrepancyType: row.discrepancy_type,
+      referenceNo: row.reference_no,
+      paymentId: row.payment_id ?? undefined,
+      settlementRecordId: row.settlement_record_id ?? undefined,
+      expectedValue: row.expected_value ?? undefined,
+      actualValue: row.actual_value ?? undefined,
+      details: row.details,
+      runId: row.run_id,
+      resolvedAt: row.resolved_at ?? undefined,
+      resolvedBy: row.resolved_by ?? undefined,
+      resolutionNote: row.resolution_note ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import { ImportSettlementDto, SettlementImportResultDto } from './dto/import-settlement.dto';
+import {
+  DiscrepancyDto,
+  ListDiscrepanciesQueryDto,
+  ReconciliationRunDto,
+  ResolveDiscrepancyDto,
+  RunReconciliationDto,
+} from './dto/reconciliation.dto';
+import { SettlementImportService } from './settlement-import.service';
+import { SettlementReconciliationService } from './settlement-reconciliation.service';
+
+@ApiTags('settlements')
+@Controller('settlements')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class SettlementsController {
+  constructor(
+    private readonly settlementImportService: SettlementImportService,
+    private readonly reconciliationService: SettlementReconciliationService,
+  ) {}
+
+  @ApiOperation({
+    summary: 'Import a PAYNET settlement report (Admin only)',
+    description:
+      'CSV or JSON transaction report from the PAYNET panel or API. Rows are matched to payments by reference_no in the daily reconciliation. The same file cannot be imported twice.',
+  })
+  @ApiResponse({ status: 201, description: 'Import result', type: SettlementImportResultDto })
+  @ApiResponse({ status: 400, description: 'File could not be parsed or has no valid rows' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 409, description: 'File was already imported' })
+  @Post('import')
+  async import(
+    @Body() dto: ImportSettlementDto,
+    @Req() request: Request,
+  ): Promise<SettlementImportResultDto> {
+    const user = request.user as RequestUser;
+    return this.settlementImportService.importFile(dto, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Reconcile a settlement day now (Admin only)',
+    description:
+      'Runs daily at 06:00 (Istanbul) for the previous day; run it by hand after importing a late or corrected report.',
+  })
+  @ApiResponse({ status: 201, description: 'Reconciliation run', type: ReconciliationRunDto })
+  @ApiResponse({ status: 400, description: 'Reconciliation failed' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Post('reconcile')
+  async reconcile(
+    @Body() dto: RunReconciliationDto,
+    @Req() request: Request,
+  ): Promise<ReconciliationRunDto> {
+    const user = request.user as RequestUser;
+    return this.reconciliationService.reconcile(dto.date, user.id);
+  }
+
+  @ApiOperation({ summary: 'Recent reconciliation runs (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Runs, newest first', type: [ReconciliationRunDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('runs')
+  async listRuns(): Promise<ReconciliationRunDto[]> {
+    return this.reconciliationService.listRuns();
+  }
+
+  @ApiOperation({
+    summary: 'List reconciliation discrepancies (Admin only)',
+    description: 'Open discrepancies by default, newest settlement day first.',
+  })
+  @ApiResponse({ status: 200, description: 'Discrepancies', type: [DiscrepancyDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('discrepancies')
+  async listDiscrepancies(@Query() query: ListDiscrepanciesQueryDto): Promise<DiscrepancyDto[]> {
+    return this.reconciliationService.listDiscrepancies(query);
+  }
+
+  @ApiOperation({ summary: 'Resolve a discrepancy (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Discrepancy ID' })
+  @ApiResponse({ status: 200, description: 'Resolved discrepancy', type: DiscrepancyDto })
+  @ApiResponse({ status: 400, description: 'Discrepancy is already resolved' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Discrepancy not found' })
+  @Patch('discrepancies/:id/resolve')
+  async resolveDiscrepancy(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ResolveDiscrepancyDto,
+    @Req() request: Request,
+  ): Promise<DiscrepancyDto> {
+    const user = request.user as RequestUser;
+    return this.reconciliationService.resolveDiscrepancy(id, dto.note, user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SettlementImportService } from './settlement-import.service';
+import { SettlementReconciliationService } from './settlement-reconciliation.service';
+import { SettlementsController } from './settlements.controller';
+
+@Module({
+  imports: [SupabaseModule, ScheduleModule.forRoot()],
+  controllers: [SettlementsController],
+  providers: [SettlementImportService, SettlementReconciliationService],
+})
+export class SettlementsModule {}
@@ -0,0 +1,59 @@
+export const SETTLEMENT_FORMATS = ['csv', 'json'] as const;
+export type SettlementFormat = (typeof SETTLEMENT_FORMATS)[number];
+
+export const SETTLEMENT_RECORD_TYPES = ['sale', 'refund'] as const;
+export type SettlementRecordType = (typeof SETTLEMENT_RECORD_TYPES)[number];
+
+export const SETTLEMENT_STATUSES = ['succeeded', 'failed'] as const;
+export type SettlementStatus = (typeof SETTLEMENT_STATUSES)[number];
+
+// missing_in_settlement: we completed a payment the provider didn't settle
+// missing_in_payments: the provider settled a reference we don't know
+export const DISCREPANCY_TYPES = [
+  'amount_mismatch',
+  'commission_mismatch',
+  'status_mismatch',
+  'missing_in_settlement',
+  'missing_in_payments',
+] as const;
+export type DiscrepancyType = (typeof DISCREPANCY_TYPES)[number];
+
+// no_settlement_data: nothing imported for the day, so nothing was compared
+export const RECONCILIATION_RUN_STATUSES = [
+  'running',
+  'completed',
+  'no_settlement_data',
+  'failed',
+] as const;
+export type ReconciliationRunStatus = (typeof RECONCILIATION_RUN_STATUSES)[number];
+
+/**
+ * One transaction row of a provider settlement report, normalized
+ */
+export interface ParsedSettlementRow {
+  referenceNo: string;
+  xactId: string | null;
+  recordType: SettlementRecordType;
+  status: SettlementStatus;
+  amount: number;
+  commission: number | null;
+  netAmount: number | null;
+  transactionDate: string; // ISO 8601
+  settlementDate: string; // YYYY-MM-DD (Europe/Istanbul)
+  raw: Record<string, unknown>;
+}
+
+export interface SettlementRecord {
+  id: string;
+  import_id: string;
+  provider: string;
+  reference_no: string;
+  xact_id: string | null;
+  record_type: SettlementRecordType;
+  status: SettlementStatus;
+  amount: number | string;
+  commission: number | string | null;
+  net_amount: number | string | null;
+  transaction_date: string;
+  settlement_date: string;
+}
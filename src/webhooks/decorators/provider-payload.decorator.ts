@@ -0,0 +1,18 @@
+import { ExecutionContext, ValidationPipe, createParamDecorator } from '@nestjs/common';
+
+// Body of a provider callback. Providers add fields to their payloads
+// without notice, so unknown fields are stripped rather than rejected. The
+// global pipe (forbidNonWhitelisted) runs before any route-level pipe and
+// skips custom parameter decorators, so the body is read through one and
+// validated by PROVIDER_PAYLOAD_PIPE on the route instead.
+export const ProviderPayload = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => ctx.switchToHttp().getRequest().body,
+);
+
+export const PROVIDER_PAYLOAD_PIPE = new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: false,
+  transform: true,
+  transformOptions: { enableImplicitConversion: true },
+  validateCustomDecorators: true,
+});
@@ -0,0 +1,125 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Fields PAYNET posts to confirmation_url
+ * Based on: https://doc.paynet.com.tr/oedeme-metotlari/ortak-odeme-sayfasi/odeme-emri-olusturma/confirmation-url-adresine-post-edilen-parametreler
+ *
+ * Amounts may arrive as strings (form posts); they are converted to numbers.
+ */
+export class PaynetWebhookDto {
+  @ApiProperty({ description: 'Payment reference (our payment ID)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  reference_no: string;
+
+  @ApiProperty({ description: 'Whether the payment succeeded' })
+  // Boolean('false') is true - map the string forms explicitly. Anything
+  // else (missing, 'yes', 1) is left as is and fails @IsBoolean
+  @Transform(({ obj }) =>
+    obj.is_succeed === 'true' ? true : obj.is_succeed === 'false' ? false : obj.is_succeed,
+  )
+  @IsBoolean()
+  is_succeed: boolean;
+
+  @ApiProperty({ description: 'Gross amount charged (TRY)', example: 2000, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount?: number;
+
+  @ApiProperty({ description: 'Amount after the commission', required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  netAmount?: number;
+
+  @ApiProperty({ description: 'Commission PAYNET charged (hizmet bedeli)', required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  comission?: number;
+
+  @ApiProperty({ description: 'Tax on the commission', required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  comission_tax?: number;
+
+  @ApiProperty({ description: 'Currency code', example: 'TRY', required: false })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({ description: 'Installment count the payer chose', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  instalment?: number;
+
+  @ApiProperty({ description: 'Transaction date', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  xact_date?: string;
+
+  @ApiProperty({ description: 'PAYNET transaction ID', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  xact_id?: string;
+
+  @ApiProperty({ description: 'Agent (bayi) code', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  agent_id?: string;
+
+  @ApiProperty({ description: 'Bank number', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  bank_id?: string;
+
+  @ApiProperty({ description: 'Card holder name', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  card_holder?: string;
+
+  @ApiProperty({ description: 'First 6 and last 4 digits of the card', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(25)
+  card_number?: string;
+
+  @ApiProperty({ description: 'Authorization code from the bank', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  authorization_code?: string;
+
+  @ApiProperty({ description: 'Order ID from the bank', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  order_id?: string;
+
+  @ApiProperty({ description: 'Failure reason of a failed payment', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  error_message?: string;
+}
@@ -0,0 +1,202 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { WEBHOOK_INBOX_STATUSES, WebhookInboxStatus } from '../webhooks.types';
+
+export class ListWebhooksQueryDto {
+  @ApiProperty({
+    description: 'Only webhooks with this status. Default: all',
+    enum: WEBHOOK_INBOX_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_INBOX_STATUSES)
+  status?: WebhookInboxStatus;
+
+  @ApiProperty({ description: 'Only webhooks of this payment', required: false })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiProperty({
+    description: 'Only webhooks of this provider',
+    enum: ['paynet', 'iyzico'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['paynet', 'iyzico'])
+  provider?: string;
+
+  @ApiProperty({ description: 'Received at or after (ISO 8601)', required: false })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiProperty({ description: 'Received before (ISO 8601)', required: false })
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @ApiProperty({
+    description: 'Max results (default 50)',
+    required: false,
+    minimum: 1,
+    maximum: 200,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class DeadLetterWebhookDto {
+  @ApiProperty({
+    description: 'Why the webhook is taken out of processing',
+    example: 'Payload references a payment deleted in the test environment',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class ReplayWebhookDto {
+  @ApiProperty({
+    description:
+      'Apply a quarantined webhook even though its amounts do not match the payment (checked with the provider)',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  @ApiProperty({
+    description: 'Why the amount check is overridden. Required with force',
+    required: false,
+    example: 'Provider confirmed the commission of the 6-installment plan by email',
+  })
+  @ValidateIf((dto: ReplayWebhookDto) => dto.force === true)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class WebhookSummaryDto {
+  @ApiProperty({ description: 'Webhook ID (webhook_storage.id)' })
+  id: string;
+
+  @ApiProperty({ description: 'Payment reference (payment ID)' })
+  referenceNo: string;
+
+  @ApiProperty({ description: 'Provider that sent (or reported) it', example: 'paynet' })
+  provider: string;
+
+  @ApiProperty({ description: 'Processing status', enum: WEBHOOK_INBOX_STATUSES })
+  status: WebhookInboxStatus;
+
+  @ApiProperty({ description: 'Whether the provider reported the payment as successful' })
+  isSucceed: boolean;
+
+  @ApiProperty({ description: 'Failed processing attempts' })
+  retryCount: number;
+
+  @ApiProperty({ description: 'Error of the last failed attempt', required: false })
+  errorMessage?: string;
+
+  @ApiProperty({ description: 'Why it was quarantined', required: false })
+  quarantineReason?: string;
+
+  @ApiProperty({ description: 'Why it was dead-lettered', required: false })
+  deadLetterReason?: string;
+
+  @ApiProperty({ description: 'Received at (ISO 8601)' })
+  receivedAt: string;
+
+  @ApiProperty({ description: 'Processed at (ISO 8601)', required: false })
+  processedAt?: string;
+
+  @ApiProperty({ description: 'Last retry at (ISO 8601)', required: false })
+  lastRetryAt?: string;
+}
+
+export class WebhookAlertDto {
+  @ApiProperty({ description: 'Audit log ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Alert type', example: 'webhook_max_retry_exceeded' })
+  eventType: string;
+
+  @ApiProperty({ description: 'Payment the webhook belongs to' })
+  paymentId: string;
+
+  @ApiProperty({ description: 'Alert text' })
+  description: string;
+
+  @ApiProperty({
+    description: 'State when the alert fired (error_message, retry_count or mismatches)',
+  })
+  data: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Raised at (ISO 8601)' })
+  createdAt: string;
+}
+
+export class WebhookDetailDto extends WebhookSummaryDto {
+  @ApiProperty({ description: 'Raw payload as received' })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Whether the delivery carried a signature' })
+  signed: boolean;
+
+  @ApiProperty({ description: 'Quarantined at (ISO 8601)', required: false })
+  quarantinedAt?: string;
+
+  @ApiProperty({ description: 'Dead-lettered at (ISO 8601)', required: false })
+  deadLetteredAt?: string;
+
+  @ApiProperty({ description: 'Admin who dead-lettered it', required: false })
+  deadLetteredBy?: string;
+
+  @ApiProperty({
+    description: 'Alerts raised about this webhook, newest first',
+    type: [WebhookAlertDto],
+  })
+  alerts: WebhookAlertDto[];
+}
+
+export class ListWebhookAlertsQueryDto {
+  @ApiProperty({
+    description: 'Raised at or after (ISO 8601). Default: last 7 days',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Max results (default 50)',
+    required: false,
+    minimum: 1,
+    maximum: 200,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,137 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { AppConfiguration, PaynetWebhookConfig } from '../../config/configuration';
+import { WebhookReplayStore } from '../webhook-replay-store.service';
+
+const SIGNATURE_HEADER = 'x-paynet-signature';
+const TIMESTAMP_HEADER = 'x-paynet-timestamp';
+
+/**
+ * Authenticates Paynet webhooks before they reach the handler:
+ * 1. Source IP must be in PAYNET_ALLOWED_IPS (when set)
+ * 2. x-paynet-signature must be the hex HMAC-SHA256 of raw body +
+ *    x-paynet-timestamp under one of the active secrets (rotation)
+ * 3. x-paynet-timestamp must be within the tolerance window
+ * 4. The same signature must not have been seen before (replay)
+ *
+ * In 'optional' verification mode unsigned webhooks skip 2-4.
+ */
+@Injectable()
+export class PaynetWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(PaynetWebhookGuard.name);
+  private readonly config: PaynetWebhookConfig;
+
+  constructor(
+    private readonly configService: ConfigService<AppConfiguration, true>,
+    private readonly replayStore: WebhookReplayStore,
+  ) {
+    this.config = this.configService.get<PaynetWebhookConfig>('paynetWebhooks', { infer: true });
+    if (this.config.secrets.length === 0) {
+      this.logger.warn('No Paynet webhook secret configured. Signed webhooks will be rejected.');
+    }
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+
+    const sourceIp = this.normalizeIp(request.ip);
+    if (this.config.allowedIps.length > 0 && !this.config.allowedIps.includes(sourceIp)) {
+      this.logger.warn(`Rejected Paynet webhook from ${sourceIp}: not in allowlist`);
+      throw new ForbiddenException('Webhook source not allowed');
+    }
+
+    const signature = this.header(request, SIGNATURE_HEADER);
+    if (!signature) {
+      if (this.config.verification === 'optional') {
+        this.logger.warn(
+          `Accepting unsigned Paynet webhook from ${sourceIp} (verification optional)`,
+        );
+        return true;
+      }
+      this.logger.warn(`Rejected unsigned Paynet webhook from ${sourceIp}`);
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const timestamp = this.header(request, TIMESTAMP_HEADER);
+    const signedAt = timestamp ? this.parseTimestamp(timestamp) : null;
+    if (signedAt === null) {
+      this.logger.warn(`Rejected Paynet webhook from ${sourceIp}: missing or malformed timestamp`);
+      throw new UnauthorizedException('Invalid webhook timestamp');
+    }
+
+    // The body exactly as sent; re-serializing the parsed body only matches
+    // for JSON the provider serialized the same way
+    const body = request.rawBody
+      ? request.rawBody.toString('utf8')
+      : JSON.stringify(request.body ?? {});
+    if (!this.matchesAnySecret(body + timestamp, signature)) {
+      this.logger.warn(`Rejected Paynet webhook from ${sourceIp}: invalid signature`);
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const toleranceMs = this.config.timestampToleranceSeconds * 1000;
+    if (Math.abs(Date.now() - signedAt) > toleranceMs) {
+      this.logger.warn(
+        `Rejected Paynet webhook from ${sourceIp}: timestamp ${timestamp} outside the ${this.config.timestampToleranceSeconds}s window`,
+      );
+      throw new UnauthorizedException('Webhook timestamp outside the allowed window');
+    }
+
+    // The signature identifies the delivery: it covers body and timestamp,
+    // so a redelivery by Paynet (new timestamp) has a new one while a
+    // captured request sent again can't get one. Any header outside the
+    // signed message, like a nonce, could simply be changed by the sender.
+    const nonce = signature.toLowerCase();
+    const fresh = await this.replayStore.claim('paynet', nonce, new Date(signedAt + toleranceMs));
+    if (!fresh) {
+      this.logger.warn(`Rejected replayed Paynet webhook from ${sourceIp}`);
+      throw new UnauthorizedException('Webhook already received');
+    }
+
+    return true;
+  }
+
+  private matchesAnySecret(message: string, signature: string): boolean {
+    const received = Buffer.from(signature.toLowerCase(), 'utf8');
+    return this.config.secrets.some((secret) => {
+      const expected = Buffer.from(
+        createHmac('sha256', secret).update(message).digest('hex'),
+        'utf8',
+      );
+      return expected.length === received.length && timingSafeEqual(expected, received);
+    });
+  }
+
+  /**
+   * Unix seconds (what Paynet sends), unix milliseconds or ISO 8601;
+   * epoch milliseconds, or null when unparseable
+   */
+  private parseTimestamp(value: string): number | null {
+    if (/^\d+$/.test(value)) {
+      const numeric = parseInt(value, 10);
+      return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  private header(request: Request, name: string): string | undefined {
+    const value = request.headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  }
+
+  // IPv4 clients on a dual-stack socket show up as ::ffff:1.2.3.4
+  private normalizeIp(ip: string | undefined): string {
+    return (ip ?? '').replace(/^::ffff:/, '');
+  }
+}
@@ -0,0 +1,105 @@
+import { Money } from '../common/money/money';
+import { findAmountMismatches } from './webhook-amount-check';
+
+describe('findAmountMismatches', () => {
+  const tolerance = Money.fromMajor('0.05');
+  const payment = {
+    total_amount: '1154.30',
+    payment_gateway_fee: '34.30',
+    service_fee: '120.00',
+    currency: 'TRY',
+    installment_count: 1,
+  };
+
+  it('accepts a webhook that matches the payment', () => {
+    expect(
+      findAmountMismatches(
+        payment,
+        { amount: 1154.3, currency: 'try', comission: '34.30', instalment: 1 },
+        tolerance,
+      ),
+    ).toEqual([]);
+  });
+
+  it('accepts a webhook without a commission or currency', () => {
+    expect(findAmountMismatches(payment, { amount: '1154.30' }, tolerance)).toEqual([]);
+  });
+
+  it('accepts a commission within the tolerance', () => {
+    expect(
+      findAmountMismatches(payment, { amount: '1154.30', comission: '34.35' }, tolerance),
+    ).toEqual([]);
+    expect(
+      findAmountMismatches(payment, { amount: '1154.30', comission: '34.25' }, tolerance),
+    ).toEqual([]);
+  });
+
+  it('rejects a commission just outside the tolerance', () => {
+    expect(
+      findAmountMismatches(payment, { amount: '1154.30', comission: '34.36' }, tolerance),
+    ).toEqual(['comission 34.36 does not match payment_gateway_fee 34.30']);
+  });
+
+  it('accepts another commission when the payer picked another installment count', () => {
+    expect(
+      findAmountMismatches(
+        payment,
+        { amount: '1154.30', comission: '71.90', instalment: '6' },
+        tolerance,
+      ),
+    ).toEqual([]);
+  });
+
+  it('rejects a commission above gateway and service fee even with another installment count', () => {
+    expect(
+      findAmountMismatches(
+        payment,
+        { amount: '1154.30', comission: '154.31', instalment: 12 },
+        tolerance,
+      ),
+    ).toEqual(['comission 154.31 exceeds gateway and service fee']);
+  });
+
+  it('rejects an amount that differs by a kuruş', () => {
+    expect(findAmountMismatches(payment, { amount: '1154.29' }, tolerance)).toEqual([
+      'amount 1154.29 does not match total_amount 1154.30',
+    ]);
+  });
+
+  it('rejects a missing or malformed amount', () => {
+    for (const amount of [null, undefined, '', 'abc', '1.154,30']) {
+      expect(findAmountMismatches(payment, { amount }, tolerance)).toEqual([
+        'amount missing or malformed',
+      ]);
+    }
+  });
+
+  it('rejects a malformed commission', () => {
+    expect(
+      findAmountMismatches(payment, { amount: '1154.30', comission: 'n/a' }, tolerance),
+    ).toEqual(['comission malformed']);
+  });
+
+  it('rejects another currency and defaults the payment currency to TRY', () => {
+    expect(
+      findAmountMismatches(payment, { amount: '1154.30', currency: 'USD' }, tolerance),
+    ).toEqual(['currency USD does not match TRY']);
+    expect(
+      findAmountMismatches(
+        { ...payment, currency: null },
+        { amount: '1154.30', currency: 'EUR' },
+        tolerance,
+      ),
+    ).toEqual(['currency EUR does not match TRY']);
+  });
+
+  it('reports every mismatch at once', () => {
+    expect(
+      findAmountMismatches(
+        payment,
+        { amount: '1000.00', currency: 'USD', comission: '50.00' },
+        tolerance,
+      ),
+    ).toHaveLength(3);
+  });
+});
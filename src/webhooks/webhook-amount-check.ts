@@ -0,0 +1,94 @@
+import { Money } from '../common/money/money';
+
+/**
+ * Amount columns of a payments row (numeric columns may come back as strings)
+ */
+export interface StoredPaymentAmounts {
+  total_amount: number | string;
+  payment_gateway_fee: number | string;
+  service_fee: number | string;
+  currency?: string | null;
+  installment_count?: number | null;
+}
+
+/**
+ * Amount fields of a successful provider webhook
+ */
+export interface ReportedPaymentAmounts {
+  amount?: number | string | null;
+  currency?: string | null;
+  comission?: number | string | null;
+  instalment?: number | string | null;
+}
+
+/**
+ * Compare what the provider says it charged with what we stored when the
+ * payment was created. Returns one line per mismatch; empty when the
+ * webhook can complete the payment.
+ *
+ * - amount must equal total_amount to the kuruş
+ * - currency, when reported, must equal the payment's currency
+ * - comission may differ from the quoted payment_gateway_fee by at most
+ *   commissionTolerance - unless the payer picked another installment
+ *   count on the provider's page, which prices a different commission.
+ *   Either way it must fit in gateway fee + service fee, which is all
+ *   applyProviderCommission can take it from.
+ */
+export function findAmountMismatches(
+  payment: StoredPaymentAmounts,
+  reported: ReportedPaymentAmounts,
+  commissionTolerance: Money,
+): string[] {
+  const mismatches: string[] = [];
+
+  const total = Money.fromMajor(payment.total_amount);
+  const amount = toMoney(reported.amount);
+  if (!amount) {
+    mismatches.push('amount missing or malformed');
+  } else if (!amount.equals(total)) {
+    mismatches.push(`amount ${amount} does not match total_amount ${total}`);
+  }
+
+  const expectedCurrency = (payment.currency || 'TRY').toUpperCase();
+  if (reported.currency && reported.currency.toUpperCase() !== expectedCurrency) {
+    mismatches.push(`currency ${reported.currency} does not match ${expectedCurrency}`);
+  }
+
+  if (
+    reported.comission !== null &&
+    reported.comission !== undefined &&
+    reported.comission !== ''
+  ) {
+    const commission = toMoney(reported.comission);
+    const quotedFee = Money.fromMajor(payment.payment_gateway_fee);
+    const sameInstallments =
+      !reported.instalment ||
+      Number(reported.instalment) === Number(payment.installment_count || 1);
+
+    if (!commission) {
+      mismatches.push('comission malformed');
+    } else if (
+      sameInstallments &&
+      Math.abs(commission.subtract(quotedFee).minor) > commissionTolerance.minor
+    ) {
+      mismatches.push(`comission ${commission} does not match payment_gateway_fee ${quotedFee}`);
+    } else if (
+      quotedFee.add(Money.fromMajor(payment.service_fee)).subtract(commission).isNegative()
+    ) {
+      mismatches.push(`comission ${commission} exceeds gateway and service fee`);
+    }
+  }
+
+  return mismatches;
+}
+
+function toMoney(value: number | string | null | undefined): Money | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  try {
+    return Money.fromMajor(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequestUser } from '../auth/interfaces/request-user.interface';
+import {
+  DeadLetterWebhookDto,
+  ListWebhookAlertsQueryDto,
+  ListWebhooksQueryDto,
+  ReplayWebhookDto,
+  WebhookAlertDto,
+  WebhookDetailDto,
+  WebhookSummaryDto,
+} from './dto/webhook-inbox.dto';
+import { WebhookInboxService } from './webhook-inbox.service';
+
+@ApiTags('webhooks')
+@Controller('webhooks/inbox')
+@ApiBearerAuth('bearer')
+@UseGuards(AdminGuard)
+export class WebhookInboxController {
+  constructor(private readonly webhookInboxService: WebhookInboxService) {}
+
+  @ApiOperation({
+    summary: 'Search stored webhooks (Admin only)',
+    description:
+      'Webhooks in webhook_storage, newest first, filtered by status, payment, provider and receive date.',
+  })
+  @ApiResponse({ status: 200, description: 'Stored webhooks', type: [WebhookSummaryDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get()
+  async list(@Query() query: ListWebhooksQueryDto): Promise<WebhookSummaryDto[]> {
+    return this.webhookInboxService.list(query);
+  }
+
+  @ApiOperation({
+    summary: 'List webhook alerts (Admin only)',
+    description:
+      'webhook_max_retry_exceeded, webhook_quarantined, payment_amount_mismatch and webhook_replay_forced alerts with the error, mismatches or override reason that raised them. Default: last 7 days.',
+  })
+  @ApiResponse({ status: 200, description: 'Webhook alerts', type: [WebhookAlertDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @Get('alerts')
+  async listAlerts(@Query() query: ListWebhookAlertsQueryDto): Promise<WebhookAlertDto[]> {
+    return this.webhookInboxService.listAlerts(query);
+  }
+
+  @ApiOperation({
+    summary: 'Get a stored webhook (Admin only)',
+    description: 'Raw payload, processing state and the alerts raised about the webhook.',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook ID (webhook_storage.id)' })
+  @ApiResponse({ status: 200, description: 'Stored webhook', type: WebhookDetailDto })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @Get(':id')
+  async get(@Param('id', ParseUUIDPipe) id: string): Promise<WebhookDetailDto> {
+    return this.webhookInboxService.get(id);
+  }
+
+  @ApiOperation({
+    summary: 'Replay a stored webhook (Admin only)',
+    description:
+      'Processes the stored payload again through the webhook path with a fresh retry budget; clears quarantine and dead-letter state. The amount check runs again, unless force is set: a quarantined webhook is then applied despite the mismatch (with a required reason, audited as webhook_replay_forced). Processing errors are recorded on the webhook and returned in its state.',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook ID (webhook_storage.id)' })
+  @ApiResponse({ status: 201, description: 'Webhook after the replay', type: WebhookDetailDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Webhook was already processed, force without a reason, or force on a webhook that is not quarantined',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @Post(':id/replay')
+  async replay(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReplayWebhookDto,
+    @Req() request: Request,
+  ): Promise<WebhookDetailDto> {
+    const user = request.user as RequestUser;
+    return this.webhookInboxService.replay(id, dto, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Dead-letter a stored webhook (Admin only)',
+    description:
+      'Takes an unprocessed webhook out of processing: the retry job skips it and further deliveries for the same payment are ignored until it is replayed.',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook ID (webhook_storage.id)' })
+  @ApiResponse({ status: 201, description: 'Dead-lettered webhook', type: WebhookDetailDto })
+  @ApiResponse({ status: 400, description: 'Webhook already processed or dead-lettered' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Admin privileges required' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @Post(':id/dead-letter')
+  async deadLetter(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: DeadLetterWebhookDto,
+    @Req() request: Request,
+  ): Promise<WebhookDetailDto> {
+    const user = request.user as RequestUser;
+    return this.webhookInboxService.deadLetter(id, dto.reason, user.id);
+  }
+}
@@ -0,0 +1,374 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OutboxService } from '../outbox/outbox.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  ListWebhookAlertsQueryDto,
+  ListWebhooksQueryDto,
+  ReplayWebhookDto,
+  WebhookAlertDto,
+  WebhookDetailDto,
+  WebhookSummaryDto,
+} from './dto/webhook-inbox.dto';
+import {
+  WEBHOOK_ALERT_EVENT_TYPES,
+  WEBHOOK_MAX_RETRIES,
+  WebhookInboxStatus,
+  WebhookStorageRecord,
+} from './webhooks.types';
+import { WebhooksService } from './webhooks.service';
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_ALERT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Admin view of webhook_storage: search stored webhooks, inspect the raw
+ * payload and the alerts raised about them, replay one through the normal
+ * webhook path, or dead-letter a poisoned one so nothing processes it.
+ */
+@Injectable()
+export class WebhookInboxService {
+  private readonly logger = new Logger(WebhookInboxService.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly webhooksService: WebhooksService,
+    private readonly outboxService: OutboxService,
+  ) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  static statusOf(record: WebhookStorageRecord): WebhookInboxStatus {
+    if (record.dead_lettered_at) {
+      return 'dead';
+    }
+    if (record.processed_at) {
+      return 'processed';
+    }
+    if (record.quarantined_at) {
+      return 'quarantined';
+    }
+    return record.retry_count >= WEBHOOK_MAX_RETRIES ? 'failed' : 'pending';
+  }
+
+  /**
+   * Newest first
+   */
+  async list(query: ListWebhooksQueryDto): Promise<WebhookSummaryDto[]> {
+    let request = this.supabase
+      .from('webhook_storage')
+      .select('*')
+      .order('received_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_LIMIT);
+
+    // Same precedence as statusOf()
+    switch (query.status) {
+      case 'dead':
+        request = request.not('dead_lettered_at', 'is', null);
+        break;
+      case 'processed':
+        request = request.is('dead_lettered_at', null).not('processed_at', 'is', null);
+        break;
+      case 'quarantined':
+        request = request
+          .is('dead_lettered_at', null)
+          .is('processed_at', null)
+          .not('quarantined_at', 'is', null);
+        break;
+      case 'failed':
+      case 'pending':
+        request = request
+          .is('dead_lettered_at', null)
+          .is('processed_at', null)
+          .is('quarantined_at', null);
+        request =
+          query.status === 'failed'
+            ? request.gte('retry_count', WEBHOOK_MAX_RETRIES)
+            : request.lt('retry_count', WEBHOOK_MAX_RETRIES);
+        break;
+    }
+
+    if (query.paymentId) {
+      request = request.eq('reference_no', query.paymentId);
+    }
+    if (query.provider) {
+      request = request.eq('provider', query.provider);
+    }
+    if (query.from) {
+      request = request.gte('received_at', query.from);
+    }
+    if (query.to) {
+      request = request.lt('received_at', query.to);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      this.logger.error(`Failed to list webhooks: ${error.message}`, error);
+      throw new BadRequestException('Failed to list webhooks');
+    }
+
+    return ((data || []) as WebhookStorageRecord[]).map((record) => this.toSummary(record));
+  }
+
+  async get(webhookId: string): Promise<WebhookDetailDto> {
+    const record = await this.findRecord(webhookId);
+
+    const { data: alerts, error } = await this.supabase
+      .from('audit_logs')
+      .select('id, event_type, resource_id, event_description, event_data, created_at')
+      .in('event_type', [...WEBHOOK_ALERT_EVENT_TYPES])
+      .eq('resource_id', record.reference_no)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      this.logger.error(`Failed to load alerts of webhook ${webhookId}: ${error.message}`, error);
+    }
+
+    return {
+      ...this.toSummary(record),
+      payload: record.webhook_payload,
+      signed: !!record.signature,
+      quarantinedAt: record.quarantined_at ?? undefined,
+      deadLetteredAt: record.dead_lettered_at ?? undefined,
+      deadLetteredBy: record.dead_lettered_by ?? undefined,
+      alerts: (alerts || []).map((alert) => this.toAlert(alert)),
+    };
+  }
+
+  /**
+   * Alerts raised about stored webhooks (retries exhausted, quarantined),
+   * newest first
+   */
+  async listAlerts(query: ListWebhookAlertsQueryDto): Promise<WebhookAlertDto[]> {
+    const from = query.from ?? new Date(Date.now() - DEFAULT_ALERT_WINDOW_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('audit_logs')
+      .select('id, event_type, resource_id, event_description, event_data, created_at')
+      .in('event_type', [...WEBHOOK_ALERT_EVENT_TYPES])
+      .gte('created_at', from)
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_LIMIT);
+
+    if (error) {
+      this.logger.error(`Failed to list webhook alerts: ${error.message}`, error);
+      throw new BadRequestException('Failed to list webhook alerts');
+    }
+
+    return (data || []).map((alert) => this.toAlert(alert));
+  }
+
+  /**
+   * Runs the stored payload through the webhook path again with a clean
+   * slate: retry budget, quarantine and dead-letter state are reset. The
+   * amount check runs again, so a payload that still doesn't match the
+   * payment ends up quarantined again. A processing error is recorded on
+   * the webhook like any failed attempt and shows in the result.
+   *
+   * force skips the amount check for a quarantined webhook, for when an
+   * admin confirmed the charge with the provider; it needs a reason and is
+   * audited as critical. Only this replay skips the check - if processing
+   * fails, the retry job's attempts quarantine the webhook again.
+   */
+  async replay(
+    webhookId: string,
+    dto: ReplayWebhookDto,
+    adminUserId: string,
+  ): Promise<WebhookDetailDto> {
+    const record = await this.findRecord(webhookId);
+    if (WebhookInboxService.statusOf(record) === 'processed') {
+      throw new BadRequestException('Webhook was already processed');
+    }
+    if (dto.force && !record.quarantined_at) {
+      throw new BadRequestException('Only a quarantined webhook can be replayed with force');
+    }
+
+    const { error } = await this.supabase
+      .from('webhook_storage')
+      .update({
+        retry_count: 0,
+        error_message: null,
+        quarantined_at: null,
+        quarantine_reason: null,
+        dead_lettered_at: null,
+        dead_letter_reason: null,
+        dead_lettered_by: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', webhookId)
+      .is('processed_at', null);
+
+    if (error) {
+      this.logger.error(`Failed to reset webhook ${webhookId} for replay: ${error.message}`, error);
+      throw new BadRequestException('Failed to replay webhook');
+    }
+
+    const options = { skipAmountCheck: !!dto.force };
+    if (dto.force) {
+      this.logger.warn(
+        `Admin ${adminUserId} force-replaying quarantined webhook ${webhookId} (${record.reference_no}): ${dto.reason}`,
+      );
+    } else {
+      this.logger.log(
+        `Admin ${adminUserId} replaying webhook ${webhookId} (${record.reference_no})`,
+      );
+    }
+    try {
+      if (record.provider === 'paynet') {
+        await this.webhooksService.handlePaynetWebhook(
+          record.webhook_payload as any,
+          record.signature,
+          options,
+        );
+      } else {
+        await this.webhooksService.handleRecoveredTransaction(
+          record.webhook_payload,
+          record.provider,
+          options,
+        );
+      }
+    } catch (replayError: any) {
+      this.logger.warn(`Replay of webhook ${webhookId} failed: ${replayError.message}`);
+    }
+
+    if (dto.force) {
+      await this.audit(
+        'webhook_replay_forced',
+        record,
+        adminUserId,
+        `Quarantined webhook replayed by admin without the amount check: ${dto.reason}`,
+        { reason: dto.reason, quarantine_reason: record.quarantine_reason },
+      );
+    } else {
+      await this.audit('webhook_replayed', record, adminUserId, 'Webhook replayed by admin');
+    }
+    return this.get(webhookId);
+  }
+
+  /**
+   * Takes an unprocessed webhook out of processing: the retry job skips it
+   * and deliveries for the same reference_no are ignored until a replay
+   */
+  async deadLetter(
+    webhookId: string,
+    reason: string,
+    adminUserId: string,
+  ): Promise<WebhookDetailDto> {
+    const record = await this.findRecord(webhookId);
+    const status = WebhookInboxService.statusOf(record);
+    if (status === 'processed' || status === 'dead') {
+      throw new BadRequestException(
+        `Only unprocessed webhooks can be dead-lettered, this one is ${status}`,
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('webhook_storage')
+      .update({
+        dead_lettered_at: new Date().toISOString(),
+        dead_letter_reason: reason,
+        dead_lettered_by: adminUserId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', webhookId)
+      .is('processed_at', null)
+      .is('dead_lettered_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to dead-letter webhook ${webhookId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to dead-letter webhook');
+    }
+    if (!data) {
+      // Processed or dead-lettered since we read it
+      throw new BadRequestException('Webhook changed meanwhile, reload it');
+    }
+
+    this.logger.warn(`Admin ${adminUserId} dead-lettered webhook ${webhookId}: ${reason}`);
+    await this.audit(
+      'webhook_dead_lettered',
+      record,
+      adminUserId,
+      `Webhook dead-lettered by admin: ${reason}`,
+    );
+    return this.get(webhookId);
+  }
+
+  private async findRecord(webhookId: string): Promise<WebhookStorageRecord> {
+    const { data, error } = await this.supabase
+      .from('webhook_storage')
+      .select('*')
+      .eq('id', webhookId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load webhook ${webhookId}: ${error.message}`, error);
+      throw new BadRequestException('Failed to load webhook');
+    }
+    if (!data) {
+      throw new NotFoundException(`Webhook not found: ${webhookId}`);
+    }
+    return data as WebhookStorageRecord;
+  }
+
+  private async audit(
+    eventType: 'webhook_replayed' | 'webhook_replay_forced' | 'webhook_dead_lettered',
+    record: WebhookStorageRecord,
+    adminUserId: string,
+    description: string,
+    data: Record<string, unknown> = {},
+  ): Promise<void> {
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: record.reference_no,
+        payload: {
+          event_type: eventType,
+          event_category: 'payment',
+          event_action: eventType === 'webhook_dead_lettered' ? 'dead_letter' : 'replay',
+          event_severity: eventType === 'webhook_replay_forced' ? 'critical' : 'warning',
+          user_id: adminUserId,
+          resource_type: 'payment',
+          resource_id: record.reference_no,
+          event_description: description,
+          event_data: {
+            webhook_id: record.id,
+            reference_no: record.reference_no,
+            previous_status: WebhookInboxService.statusOf(record),
+            ...data,
+          },
+        },
+      },
+    ]);
+  }
+
+  private toSummary(record: WebhookStorageRecord): WebhookSummaryDto {
+    return {
+      id: record.id,
+      referenceNo: record.reference_no,
+      provider: record.provider,
+      status: WebhookInboxService.statusOf(record),
+      isSucceed: record.is_succeed,
+      retryCount: record.retry_count,
+      errorMessage: record.error_message ?? undefined,
+      quarantineReason: record.quarantine_reason ?? undefined,
+      deadLetterReason: record.dead_letter_reason ?? undefined,
+      receivedAt: record.received_at,
+      processedAt: record.processed_at ?? undefined,
+      lastRetryAt: record.last_retry_at ?? undefined,
+    };
+  }
+
+  private toAlert(alert: any): WebhookAlertDto {
+    return {
+      id: alert.id,
+      eventType: alert.event_type,
+      paymentId: alert.resource_id,
+      description: alert.event_description,
+      data: alert.event_data || {},
+      createdAt: alert.created_at,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseService } from '../supabase/supabase.service';
+
+/**
+ * Nonces (the signatures) of authenticated webhook deliveries
+ * (webhook_replay_nonces table).
+ * A nonce is only kept for as long as its timestamp would pass the
+ * freshness check; after that the timestamp check rejects a replay.
+ */
+@Injectable()
+export class WebhookReplayStore {
+  private readonly logger = new Logger(WebhookReplayStore.name);
+  private readonly supabase: SupabaseClient;
+
+  constructor(private readonly supabaseService: SupabaseService) {
+    this.supabase = this.supabaseService.getClient();
+  }
+
+  /**
+   * Records the nonce; false when it was already seen (a replay)
+   */
+  async claim(provider: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    const { error } = await this.supabase.from('webhook_replay_nonces').insert({
+      provider,
+      nonce,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (!error) {
+      return true;
+    }
+    if (error.code === '23505') {
+      return false;
+    }
+
+    // Fail closed: the provider retries a webhook we didn't acknowledge
+    this.logger.error(`Failed to record ${provider} webhook nonce: ${error.message}`, error);
+    throw new InternalServerErrorException('Failed to verify webhook');
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredNonces(): Promise<void> {
+    const { error, count } = await this.supabase
+      .from('webhook_replay_nonces')
+      .delete({ count: 'exact' })
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      this.logger.error(`Failed to purge expired webhook nonces: ${error.message}`, error);
+      return;
+    }
+
+    if (count) {
+      this.logger.log(`Purged ${count} expired webhook nonces`);
+    }
+  }
+}
@@ -1,8 +1,11 @@
-import { Body, Controller, Headers, Post, Req } from '@nestjs/common';
+import { Controller, Headers, Post, UseGuards } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { Request } from 'express';
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { Public } from '../auth/decorators/public.decorator';
+import { ChargebackNotificationDto } from '../chargebacks/dto/chargeback-notification.dto';
+import { PROVIDER_PAYLOAD_PIPE, ProviderPayload } from './decorators/provider-payload.decorator';
+import { PaynetWebhookDto } from './dto/paynet-webhook.dto';
+import { PaynetWebhookGuard } from './guards/paynet-webhook.guard';
 import { WebhooksService } from './webhooks.service';
 
 @ApiTags('webhooks')
@@ -15,23 +18,56 @@ export class WebhooksController {
 
   @ApiOperation({ 
     summary: 'PAYNET payment callback webhook (confirmation_url)',
-    description: 'PAYNET sends payment confirmation to this endpoint. Payload includes reference_no, is_succeed, amount, and other transaction details. This endpoint is public and does not require JWT authentication - Paynet authenticates via signature verification.'
+    description:
+      'PAYNET sends payment confirmation to this endpoint. Payload includes reference_no, is_succeed, amount, and other transaction details. A successful payment whose amount, currency or commission does not match the stored payment is quarantined for admin review instead of being completed. This endpoint is public and does not require JWT authentication - Paynet authenticates via the x-paynet-signature HMAC over the body and x-paynet-timestamp, which must be recent; replayed deliveries (same signature) are rejected.',
   })
+  @ApiBody({ type: PaynetWebhookDto })
   @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid webhook signature or payload' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid webhook payload (field types); unknown fields are stripped',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid signature, stale timestamp, or replayed delivery',
+  })
+  @ApiResponse({ status: 403, description: 'Source IP not in PAYNET_ALLOWED_IPS' })
   @Public() // Webhook endpoint must be public - Paynet does not send JWT tokens
+  @UseGuards(PaynetWebhookGuard)
   @Post('paynet-callback')
   async handlePaynetCallback(
-    @Body() payload: any,
-    @Req() request: Request,
+    @ProviderPayload(PROVIDER_PAYLOAD_PIPE) payload: PaynetWebhookDto,
     @Headers('x-paynet-signature') signature?: string,
-    @Headers('x-paynet-timestamp') timestamp?: string,
   ): Promise<{ received: boolean }> {
-    await this.webhooksService.handlePaynetWebhook(
-      payload,
-      signature || '',
-      timestamp || '',
-    );
+    await this.webhooksService.handlePaynetWebhook(payload, signature || null);
+    return { received: true };
+  }
+
+  @ApiOperation({
+    summary: 'PAYNET chargeback notification webhook',
+    description:
+      "PAYNET notifies a chargeback raised by the card holder's bank. Payload includes reference_no (payment ID), chargeback_id, amount, reason_code, reason and due_date (evidence deadline). Opens a chargeback case and freezes a still-held escrow; repeated notifications for the same chargeback_id are ignored.",
+  })
+  @ApiBody({ type: ChargebackNotificationDto })
+  @ApiResponse({ status: 200, description: 'Notification processed successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid webhook payload (missing case number or field types); unknown fields are stripped',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Missing or invalid signature, stale timestamp, or replayed delivery',
+  })
+  @ApiResponse({ status: 403, description: 'Source IP not in PAYNET_ALLOWED_IPS' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  @Public() // Webhook endpoint must be public - Paynet does not send JWT tokens
+  @UseGuards(PaynetWebhookGuard)
+  @Post('paynet-chargeback')
+  async handlePaynetChargeback(
+    @ProviderPayload(PROVIDER_PAYLOAD_PIPE) payload: ChargebackNotificationDto,
+  ): Promise<{ received: boolean }> {
+    await this.webhooksService.handlePaynetChargeback(payload);
     return { received: true };
   }
 }
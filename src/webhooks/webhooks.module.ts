@@ -1,14 +1,28 @@
-import { HttpModule } from '@nestjs/axios';
 import { Module } from '@nestjs/common';
+import { ChargebacksModule } from '../chargebacks/chargebacks.module';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { PaymentStateModule } from '../payment-state/payment-state.module';
 import { SupabaseModule } from '../supabase/supabase.module';
-import { PaynetProvider } from '../payments/providers/paynet.provider';
+import { PaynetWebhookGuard } from './guards/paynet-webhook.guard';
+import { WebhookInboxController } from './webhook-inbox.controller';
+import { WebhookInboxService } from './webhook-inbox.service';
+import { WebhookReplayStore } from './webhook-replay-store.service';
 import { WebhooksController } from './webhooks.controller';
 import { WebhooksService } from './webhooks.service';
 
 @Module({
-  imports: [HttpModule, SupabaseModule],
-  controllers: [WebhooksController],
-  providers: [WebhooksService, PaynetProvider],
+  imports: [
+    SupabaseModule,
+    LedgerModule,
+    PaymentStateModule,
+    ChargebacksModule,
+    OutboxModule,
+    DomainEventsModule,
+  ],
+  controllers: [WebhooksController, WebhookInboxController],
+  providers: [WebhooksService, WebhookReplayStore, PaynetWebhookGuard, WebhookInboxService],
   exports: [WebhooksService],
 })
 export class WebhooksModule {}
@@ -1,7 +1,20 @@
 import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { Money } from '../common/money/money';
+import { AppConfiguration, PaynetWebhookConfig } from '../config/configuration';
 import { SupabaseService } from '../supabase/supabase.service';
-import { PaynetProvider } from '../payments/providers/paynet.provider';
+import { ChargebacksService } from '../chargebacks/chargebacks.service';
+import { ChargebackNotificationDto } from '../chargebacks/dto/chargeback-notification.dto';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { IllegalPaymentTransitionException } from '../payment-state/payment-state.exceptions';
+import { PaymentStateService } from '../payment-state/payment-state.service';
+import { applyProviderCommission } from '../payments/fee-split';
+import { PaynetWebhookDto } from './dto/paynet-webhook.dto';
+import { findAmountMismatches } from './webhook-amount-check';
+import { ProcessWebhookOptions } from './webhooks.types';
 
 interface StoredWebhook {
   payload: any;
@@ -16,12 +29,22 @@ export class WebhooksService {
   private readonly processedWebhooks = new Set<string>();
   // In-memory cache for frequently accessed webhooks (complements database storage)
   private readonly webhookCache = new Map<string, StoredWebhook>();
+  private readonly commissionTolerance: Money;
 
   constructor(
     private readonly supabaseService: SupabaseService,
-    private readonly paynetProvider: PaynetProvider,
+    private readonly ledgerService: LedgerService,
+    private readonly chargebacksService: ChargebacksService,
+    private readonly paymentStateService: PaymentStateService,
+    private readonly outboxService: OutboxService,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AppConfiguration, true>,
   ) {
     this.supabase = this.supabaseService.getClient();
+    this.commissionTolerance = Money.fromMajor(
+      this.configService.get<PaynetWebhookConfig>('paynetWebhooks', { infer: true })
+        .commissionTolerance,
+    );
   }
 
   /**
@@ -47,12 +70,17 @@ export class WebhooksService {
    *   "is_succeed": "boolean"        // Ödemenin başarılı olup olmadığı
    * }
    * 
+   * The signature, timestamp and replay were already checked by
+   * PaynetWebhookGuard; retries of stored webhooks come from
+   * PaymentReconciliationService and are not re-verified.
+   *
    * Steps:
-   * 1. Verify signature (if available)
-   * 2. Check idempotency (using reference_no)
-   * 3. Store webhook payload in memory (for retrieval)
-   * 4. Store webhook payload in database (webhook_storage table if exists)
-   * 5. Find payment record by reference_no
+   * 1. Check idempotency (using reference_no)
+   * 2. Store webhook payload in memory (for retrieval)
+   * 3. Store webhook payload in database (webhook_storage table if exists)
+   * 4. Find payment record by reference_no
+   * 5. If payment successful, check amount, currency and commission against
+   *    the payment - a mismatch quarantines the webhook for admin review
    * 6. If payment successful (is_succeed: true), create all database records:
    *    - Update payments table
    *    - Create escrow_accounts record
@@ -61,18 +89,47 @@ export class WebhooksService {
    *    - Create notifications records
    */
   async handlePaynetWebhook(
-    payload: any,
-    signature: string,
-    timestamp: string,
+    payload: PaynetWebhookDto,
+    signature: string | null,
+    options: ProcessWebhookOptions = {},
   ): Promise<void> {
     this.logger.log(`Received PAYNET webhook: ${JSON.stringify(payload)}`);
 
-    // PAYNET webhook signature verification (if signature is provided)
-    if (signature && !this.paynetProvider.verifyWebhookSignature(payload, signature, timestamp)) {
-      this.logger.error('Invalid webhook signature');
-      throw new BadRequestException('Invalid webhook signature');
-    }
+    await this.processWebhook(payload, signature, 'paynet', options);
+  }
 
+  /**
+   * Handle a PAYNET chargeback notification (authenticated by
+   * PaynetWebhookGuard like the payment callback): open (or find) the
+   * chargeback case
+   */
+  async handlePaynetChargeback(payload: ChargebackNotificationDto): Promise<void> {
+    this.logger.log(`Received PAYNET chargeback notification: ${JSON.stringify(payload)}`);
+
+    await this.chargebacksService.handleProviderNotification(payload, 'paynet');
+  }
+
+  /**
+   * Apply a transaction result we fetched from the provider ourselves
+   * because its webhook never arrived. The payload is webhook-shaped and
+   * takes the same path as a received webhook - stored in webhook_storage
+   * (so failures are retried) and processed idempotently.
+   */
+  async handleRecoveredTransaction(
+    payload: any,
+    provider: string,
+    options: ProcessWebhookOptions = {},
+  ): Promise<void> {
+    this.logger.log(`Applying ${provider} transaction status for ${payload.reference_no}`);
+    await this.processWebhook(payload, null, provider, options);
+  }
+
+  private async processWebhook(
+    payload: any,
+    signature: string | null,
+    provider: string,
+    options: ProcessWebhookOptions,
+  ): Promise<void> {
     // PAYNET uses reference_no as unique identifier for idempotency
     const referenceNo = payload.reference_no;
     if (!referenceNo) {
@@ -85,7 +142,7 @@ export class WebhooksService {
     // Check idempotency using database (webhook_storage table)
     const { data: existingWebhook } = await this.supabase
       .from('webhook_storage')
-      .select('id, processed_at')
+      .select('id, processed_at, dead_lettered_at')
       .eq('reference_no', referenceNo)
       .maybeSingle();
 
@@ -96,6 +153,12 @@ export class WebhooksService {
       return; // Webhook already processed
     }
 
+    if (existingWebhook?.dead_lettered_at) {
+      // An admin took it out of processing; only a replay brings it back
+      this.logger.warn(`Ignoring webhook for dead-lettered reference_no=${referenceNo}`);
+      return;
+    }
+
     // Store webhook in database for idempotency and retry mechanism
     const webhookRecord = {
       payment_id: referenceNo, // payment_id is same as reference_no in our system
@@ -103,8 +166,8 @@ export class WebhooksService {
       webhook_payload: payload,
       is_succeed: isSucceed,
       received_at: new Date().toISOString(),
-      signature: signature || null,
-      provider: 'paynet',
+      signature,
+      provider,
       processed_at: null, // Will be set when processing is complete
       retry_count: 0,
     };
@@ -118,7 +181,7 @@ export class WebhooksService {
           webhook_payload: payload,
           is_succeed: isSucceed,
           received_at: new Date().toISOString(),
-          signature: signature || null,
+          signature,
           retry_count: 0, // Reset retry count for new webhook
         })
         .eq('reference_no', referenceNo);
@@ -168,6 +231,18 @@ export class WebhooksService {
       return;
     }
 
+    if (isSucceed && !options.skipAmountCheck) {
+      const mismatches = findAmountMismatches(payment, payload, this.commissionTolerance);
+      if (mismatches.length > 0) {
+        if (payment.completed_at) {
+          await this.alertCompletedPaymentMismatch(payment, referenceNo, mismatches);
+        } else {
+          await this.quarantineWebhook(payment, referenceNo, mismatches);
+        }
+        return;
+      }
+    }
+
     try {
       if (isSucceed) {
         // Payment successful - create all database records
@@ -214,227 +289,208 @@ export class WebhooksService {
   }
 
   /**
-   * Process successful payment webhook
-   * Creates all required database records
+   * Hold back a success webhook that doesn't match the payment: the payment
+   * stays pending, the retry job skips the webhook and admins are alerted
    */
-  private async processSuccessfulPayment(
+  private async quarantineWebhook(
     payment: any,
-    webhookPayload: any,
     referenceNo: string,
+    mismatches: string[],
   ): Promise<void> {
-    const paymentId = payment.id;
-    this.logger.log(`Processing successful payment: ${paymentId}`);
+    const reason = mismatches.join('; ');
+    this.logger.error(`Quarantined webhook for payment ${payment.id}: ${reason}`);
 
-    try {
-      // 1. Update payments table
-      const { error: updateError } = await this.supabase
-        .from('payments')
-        .update({
-          payment_status: 'completed',
-          escrow_status: 'held',
-          provider_payment_id: webhookPayload.order_id,
-          provider_transaction_id: webhookPayload.reference_no,
-          // 'authorization_code' is not its own column - PAYNET's raw callback
-          // fields are kept here instead so they aren't silently dropped.
-          provider_response: JSON.stringify(webhookPayload),
-          completed_at: webhookPayload.xact_date || new Date().toISOString(),
-          payment_gateway_fee: webhookPayload.comission || payment.payment_gateway_fee,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', paymentId);
-
-      if (updateError) {
-        this.logger.error(`Failed to update payment: ${updateError.message}`, updateError);
-        throw updateError;
-      }
-
-      // 2. Create escrow_accounts record
-      const { error: escrowError } = await this.supabase
-        .from('escrow_accounts')
-        .insert({
-          payment_id: paymentId,
-          device_id: payment.device_id,
-          holder_user_id: payment.payer_id,
-          beneficiary_user_id: payment.receiver_id,
-          total_amount: payment.total_amount,
-          reward_amount: payment.reward_amount,
-          service_fee: payment.service_fee,
-          gateway_fee: payment.payment_gateway_fee,
-          cargo_fee: payment.cargo_fee,
-          net_payout: payment.net_payout,
-          status: 'held',
-          escrow_type: 'standard',
-          auto_release_days: 30,
-          release_conditions: [],
-          confirmations: [],
-          currency: 'TRY',
-          held_at: new Date().toISOString(),
-        });
-
-      if (escrowError) {
-        this.logger.error(`Failed to create escrow account: ${escrowError.message}`, escrowError);
-        throw escrowError;
-      }
-
-      // 3. Update devices table status to 'payment_completed'
-      const { error: deviceError } = await this.supabase
-        .from('devices')
-        .update({
-          status: 'payment_completed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', payment.device_id);
-
-      if (deviceError) {
-        this.logger.error(`Failed to update device status: ${deviceError.message}`, deviceError);
-        throw deviceError;
-      }
+    const { error } = await this.supabase
+      .from('webhook_storage')
+      .update({
+        quarantined_at: new Date().toISOString(),
+        quarantine_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('reference_no', referenceNo);
+
+    if (error) {
+      this.logger.error(`Failed to quarantine webhook ${referenceNo}: ${error.message}`, error);
+    }
 
-      // 3.5. Update matched finder device status to 'payment_completed'
-      // Get owner device details first
-      const { data: ownerDevice } = await this.supabase
-        .from('devices')
-        .select('serialNumber, model')
-        .eq('id', payment.device_id)
-        .single();
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: payment.id,
+        payload: {
+          event_type: 'webhook_quarantined',
+          event_category: 'payment',
+          event_action: 'alert',
+          event_severity: 'critical',
+          user_id: payment.payer_id,
+          resource_type: 'payment',
+          resource_id: payment.id,
+          event_description: `Success webhook does not match the payment and was not applied: ${reason}`,
+          event_data: {
+            payment_id: payment.id,
+            reference_no: referenceNo,
+            mismatches,
+          },
+        },
+      },
+    ]);
+  }
 
-      if (ownerDevice) {
-        // Find and update finder device
-        const { data: finderDevice } = await this.supabase
-          .from('devices')
-          .select('id')
-          .eq('serialNumber', ownerDevice.serialNumber)
-          .eq('model', ownerDevice.model)
-          .eq('device_role', 'finder')
-          .maybeSingle();
-
-        if (finderDevice) {
-          const { error: finderDeviceError } = await this.supabase
-            .from('devices')
-            .update({
-              status: 'payment_completed',
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', finderDevice.id);
-
-          if (finderDeviceError) {
-            this.logger.error(
-              `Failed to update finder device status: ${finderDeviceError.message}`,
-              finderDeviceError,
-            );
-            // Don't throw - owner device update succeeded
-          } else {
-            this.logger.log(`Finder device status updated to payment_completed: ${finderDevice.id}`);
-          }
-        }
-      }
+  /**
+   * A success webhook that doesn't match a payment we already completed
+   * (through 3D Secure): there is nothing left to hold back, so the webhook
+   * is closed with the mismatch recorded and admins get a critical alert to
+   * check the charge with the provider
+   */
+  private async alertCompletedPaymentMismatch(
+    payment: any,
+    referenceNo: string,
+    mismatches: string[],
+  ): Promise<void> {
+    const reason = mismatches.join('; ');
+    this.logger.error(`Webhook does not match completed payment ${payment.id}: ${reason}`);
 
-      // 3.6. Create cargo_shipments record
-      // No real cargo carrier integration exists yet: the finder ships the device
-      // through a carrier of their own choosing and enters the tracking number
-      // manually in the app. We pre-create the shipment row now (with a generated
-      // delivery code) so the finder immediately sees their code after payment.
-      const cargoCode = this.generateCargoCode();
-      const codeExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const { error: cargoError } = await this.supabase
-        .from('cargo_shipments')
-        .insert({
-          device_id: payment.device_id,
-          payment_id: paymentId,
-          cargo_company: 'pending',
-          cargo_service_type: 'standard',
-          sender_anonymous_id: this.generateAnonymousId('FND'),
-          receiver_anonymous_id: this.generateAnonymousId('OWN'),
-          sender_user_id: payment.receiver_id,
-          receiver_user_id: payment.payer_id,
-          status: 'created',
-          cargo_status: 'pending',
-          cargo_fee: payment.cargo_fee,
-          code: cargoCode,
-          generated_by: payment.receiver_id,
-          expires_at: codeExpiresAt,
-        });
-
-      if (cargoError) {
-        this.logger.error(`Failed to create cargo shipment: ${cargoError.message}`, cargoError);
-        // Don't throw - the finder can still be helped manually if this fails
-      } else if (payment.receiver_id) {
-        const { error: cargoNotifError } = await this.supabase
-          .from('notifications')
-          .insert({
-            user_id: payment.receiver_id,
-            message_key: 'delivery_code_ready',
-            type: 'info',
-            is_read: false,
-            link: `device/${payment.device_id}`,
-          });
-
-        if (cargoNotifError) {
-          this.logger.error(
-            `Failed to create delivery code notification: ${cargoNotifError.message}`,
-            cargoNotifError,
-          );
-        }
-      }
+    const { error } = await this.supabase
+      .from('webhook_storage')
+      .update({
+        processed_at: new Date().toISOString(),
+        error_message: `Amount mismatch on completed payment: ${reason}`,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('reference_no', referenceNo);
+
+    if (error) {
+      this.logger.error(`Failed to close webhook ${referenceNo}: ${error.message}`, error);
+    }
 
-      // 4. Create audit_logs record
-      const { error: auditError } = await this.supabase
-        .from('audit_logs')
-        .insert({
-          event_type: 'payment_completed',
+    await this.outboxService.enqueue([
+      {
+        topic: 'audit_log',
+        aggregateId: payment.id,
+        payload: {
+          event_type: 'payment_amount_mismatch',
           event_category: 'payment',
-          event_action: 'complete',
-          event_severity: 'info',
+          event_action: 'alert',
+          event_severity: 'critical',
           user_id: payment.payer_id,
           resource_type: 'payment',
-          resource_id: paymentId,
-          event_description: 'Payment completed successfully via PAYNET',
+          resource_id: payment.id,
+          event_description: `Success webhook does not match the already completed payment: ${reason}`,
           event_data: {
-            amount: payment.total_amount,
-            provider: 'paynet',
-            authorization_code: webhookPayload.authorization_code,
-            order_id: webhookPayload.order_id,
+            payment_id: payment.id,
+            reference_no: referenceNo,
+            source: 'webhook',
+            payment_status: payment.payment_status,
+            mismatches,
           },
-        });
+        },
+      },
+    ]);
+  }
 
-      if (auditError) {
-        this.logger.error(`Failed to create audit log: ${auditError.message}`, auditError);
-        // Don't throw - audit logs are not critical
-      }
+  /**
+   * Process successful payment webhook
+   * Creates all required database records
+   */
+  private async processSuccessfulPayment(
+    payment: any,
+    webhookPayload: any,
+    referenceNo: string,
+  ): Promise<void> {
+    const paymentId = payment.id;
+    this.logger.log(`Processing successful payment: ${paymentId}`);
 
-      // 5. Create notifications records
-      // Notification for owner (payer)
-      const { error: ownerNotifError } = await this.supabase
-        .from('notifications')
-        .insert({
-          user_id: payment.payer_id,
-          message_key: 'payment_completed_owner',
-          type: 'success',
-          is_read: false,
-        });
-
-      if (ownerNotifError) {
-        this.logger.error(`Failed to create owner notification: ${ownerNotifError.message}`, ownerNotifError);
-        // Don't throw - notifications are not critical
-      }
+    try {
+      // The provider's actual commission replaces the quoted gateway fee
+      const fees = applyProviderCommission(payment, webhookPayload.comission);
+
+      // 1. Payment, escrow account, both devices, the audit entry and the
+      // notifications (outbox) in one transaction
+      const { changed } = await this.paymentStateService.transitionAtomically(
+        paymentId,
+        { paymentStatus: 'completed', escrowStatus: 'held' },
+        'complete_payment',
+        {
+          p_payment: {
+            provider_payment_id: webhookPayload.order_id,
+            provider_transaction_id: webhookPayload.reference_no,
+            // 'authorization_code' is not its own column - PAYNET's raw callback
+            // fields are kept here instead so they aren't silently dropped.
+            provider_response: JSON.stringify(webhookPayload),
+            completed_at: webhookPayload.xact_date || new Date().toISOString(),
+            payment_gateway_fee: fees.payment_gateway_fee,
+            service_fee: fees.service_fee,
+            // Hosted page payers pick the installment count on PAYNET's page
+            installment_count: Number(webhookPayload.instalment) || payment.installment_count,
+          },
+          p_audit: {
+            event_type: 'payment_completed',
+            user_id: payment.payer_id,
+            event_description: 'Payment completed successfully via PAYNET',
+            event_data: {
+              amount: payment.total_amount,
+              provider: 'paynet',
+              authorization_code: webhookPayload.authorization_code,
+              order_id: webhookPayload.order_id,
+            },
+          },
+        },
+        {
+          actor: 'webhook',
+          outbox: [
+            {
+              topic: 'notification',
+              aggregateId: paymentId,
+              payload: {
+                user_id: payment.payer_id,
+                message_key: 'payment_completed_owner',
+                type: 'success',
+              },
+            },
+            ...(payment.receiver_id
+              ? [
+                  {
+                    topic: 'notification' as const,
+                    aggregateId: paymentId,
+                    payload: {
+                      user_id: payment.receiver_id,
+                      message_key: 'payment_received_finder',
+                      type: 'payment_success',
+                    },
+                  },
+                ]
+              : []),
+          ],
+        },
+      );
 
-      // Notification for finder (receiver)
-      if (payment.receiver_id) {
-        const { error: finderNotifError } = await this.supabase
-          .from('notifications')
-          .insert({
-            user_id: payment.receiver_id,
-            message_key: 'payment_received_finder',
-            type: 'payment_success',
-            is_read: false,
-          });
-
-        if (finderNotifError) {
-          this.logger.error(`Failed to create finder notification: ${finderNotifError.message}`, finderNotifError);
-          // Don't throw - notifications are not critical
-        }
+      // Steps 2 and 3 are idempotent (ledger entry keys, one shipment per
+      // payment) and also run when the payment was already completed - by
+      // the 3D completion, or by an attempt that died before getting here,
+      // whose webhook is retried because it was never marked processed
+      if (!changed) {
+        this.logger.log(`Payment ${paymentId} was already completed`);
       }
 
+      // 2. Ledger: capture, escrow hold and provider commission
+      await this.ledgerService.postPaymentCompleted(payment, fees.payment_gateway_fee);
+
+      // 3. Subscribers react to the capture (cargo shipment, ...)
+      await this.eventBus.publish({
+        type: 'PaymentCompleted',
+        paymentId,
+        deviceId: payment.device_id,
+        payerId: payment.payer_id,
+        receiverId: payment.receiver_id ?? null,
+        cargoFee: payment.cargo_fee,
+        source: 'webhook',
+      });
+      await this.eventBus.publish({
+        type: 'EscrowHeld',
+        paymentId,
+        deviceId: payment.device_id,
+      });
+
       this.logger.log(`Successfully processed payment webhook: ${paymentId}`);
     } catch (error: any) {
       this.logger.error(`Error processing successful payment: ${error.message}`, error.stack);
@@ -456,22 +512,31 @@ export class WebhooksService {
 
     try {
       // 1. Update payments table with failed status
-      const { error: updateError } = await this.supabase
-        .from('payments')
-        .update({
-          payment_status: 'failed',
-          failure_reason: webhookPayload.error_message || 'Payment failed',
-          failed_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', paymentId);
-
-      if (updateError) {
-        this.logger.error(
-          `Failed to update payment status: ${updateError.message}`,
-          updateError,
+      try {
+        const { changed } = await this.paymentStateService.transition(
+          paymentId,
+          { paymentStatus: 'failed' },
+          {
+            actor: 'webhook',
+            reason: webhookPayload.error_message || 'Payment failed',
+            fields: {
+              failure_reason: webhookPayload.error_message || 'Payment failed',
+              failed_at: new Date().toISOString(),
+            },
+          },
         );
-        throw updateError;
+        if (!changed) {
+          return;
+        }
+      } catch (transitionError) {
+        if (transitionError instanceof IllegalPaymentTransitionException) {
+          // A failed attempt reported after the payment completed another way
+          this.logger.warn(
+            `Ignoring failure notification for payment ${paymentId}: ${transitionError.message}`,
+          );
+          return;
+        }
+        throw transitionError;
       }
 
       // 2. Reset device status to 'payment_pending' so user can retry payment
@@ -491,50 +556,41 @@ export class WebhooksService {
         // Don't throw - payment update succeeded, device status is less critical
       }
 
-      // 3. Create notification for payer
-      const { error: notifError } = await this.supabase.from('notifications').insert({
-        user_id: payment.payer_id,
-        message_key: 'payment_failed',
-        type: 'error',
-        is_read: false,
-        metadata: {
-          payment_id: paymentId,
-          failure_reason: webhookPayload.error_message || 'Payment failed',
+      // 3. Notification for payer and audit log, delivered by the outbox dispatcher
+      await this.outboxService.enqueue([
+        {
+          topic: 'notification',
+          aggregateId: paymentId,
+          payload: {
+            user_id: payment.payer_id,
+            message_key: 'payment_failed',
+            type: 'error',
+            metadata: {
+              payment_id: paymentId,
+              failure_reason: webhookPayload.error_message || 'Payment failed',
+            },
+          },
         },
-      });
-
-      if (notifError) {
-        this.logger.error(
-          `Failed to create notification: ${notifError.message}`,
-          notifError,
-        );
-        // Don't throw - notifications are not critical
-      }
-
-      // 4. Create audit log
-      const { error: auditError } = await this.supabase.from('audit_logs').insert({
-        event_type: 'payment_failed',
-        event_category: 'payment',
-        event_action: 'fail',
-        event_severity: 'warning',
-        user_id: payment.payer_id,
-        resource_type: 'payment',
-        resource_id: paymentId,
-        event_description: `Payment failed: ${webhookPayload.error_message || 'Payment failed'}`,
-        event_data: {
-          payment_id: paymentId,
-          reference_no: referenceNo,
-          failure_reason: webhookPayload.error_message,
+        {
+          topic: 'audit_log',
+          aggregateId: paymentId,
+          payload: {
+            event_type: 'payment_failed',
+            event_category: 'payment',
+            event_action: 'fail',
+            event_severity: 'warning',
+            user_id: payment.payer_id,
+            resource_type: 'payment',
+            resource_id: paymentId,
+            event_description: `Payment failed: ${webhookPayload.error_message || 'Payment failed'}`,
+            event_data: {
+              payment_id: paymentId,
+              reference_no: referenceNo,
+              failure_reason: webhookPayload.error_message,
+            },
+          },
         },
-      });
-
-      if (auditError) {
-        this.logger.error(
-          `Failed to create audit log: ${auditError.message}`,
-          auditError,
-        );
-        // Don't throw - audit logs are not critical
-      }
+      ]);
 
       this.logger.log(`Successfully processed failed payment: ${paymentId}`);
     } catch (error: any) {
@@ -593,28 +649,4 @@ export class WebhooksService {
 
     return webhook !== null;
   }
-
-  /**
-   * Generate a short human-readable delivery code for the finder.
-   * No real cargo carrier is integrated yet: this code identifies the
-   * anonymous shipment until ops enters a real tracking number.
-   */
-  private generateCargoCode(): string {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no O/0/I/1 ambiguity
-    let code = '';
-    for (let i = 0; i < 6; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return `IFA-${code}`;
-  }
-
-  /**
-   * Generate an anonymous identifier for a cargo shipment party so the
-   * finder and owner never see each other's real identity.
-   */
-  private generateAnonymousId(prefix: string): string {
-    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
-    return `${prefix}-${suffix}`;
-  }
 }
-
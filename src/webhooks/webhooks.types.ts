@@ -0,0 +1,70 @@
+/**
+ * How incoming provider webhooks are authenticated:
+ * - required: every webhook must carry a valid signature and a fresh
+ *   timestamp; unsigned webhooks are rejected
+ * - optional: unsigned webhooks are accepted (local development against a
+ *   provider test account that doesn't sign); signed ones are verified
+ */
+export const WEBHOOK_VERIFICATION_MODES = ['required', 'optional'] as const;
+
+export type WebhookVerificationMode = (typeof WEBHOOK_VERIFICATION_MODES)[number];
+
+// Failed processing attempts after which the retry job gives up and raises
+// a webhook_max_retry_exceeded alert
+export const WEBHOOK_MAX_RETRIES = 3;
+
+/**
+ * Where a stored webhook (webhook_storage row) stands:
+ * - pending: not processed yet, the retry job is still on it
+ * - failed: processing failed WEBHOOK_MAX_RETRIES times; needs a replay
+ * - quarantined: amounts don't match the payment, waiting for admin review
+ * - dead: taken out of processing by an admin (poisoned payload)
+ * - processed: applied to the payment
+ */
+export const WEBHOOK_INBOX_STATUSES = [
+  'pending',
+  'failed',
+  'quarantined',
+  'dead',
+  'processed',
+] as const;
+
+export type WebhookInboxStatus = (typeof WEBHOOK_INBOX_STATUSES)[number];
+
+// audit_logs event types raised about a stored webhook (or, for
+// payment_amount_mismatch, about a charge that doesn't match its payment);
+// webhook_replay_forced records an admin overriding the amount check
+export const WEBHOOK_ALERT_EVENT_TYPES = [
+  'webhook_max_retry_exceeded',
+  'webhook_quarantined',
+  'payment_amount_mismatch',
+  'webhook_replay_forced',
+] as const;
+
+export interface ProcessWebhookOptions {
+  // Admin override of a quarantined webhook (forced replay): apply it
+  // although its amounts don't match the payment
+  skipAmountCheck?: boolean;
+}
+
+export interface WebhookStorageRecord {
+  id: string;
+  payment_id: string | null;
+  reference_no: string;
+  webhook_payload: Record<string, any>;
+  is_succeed: boolean;
+  received_at: string;
+  processed_at: string | null;
+  retry_count: number;
+  last_retry_at: string | null;
+  error_message: string | null;
+  signature: string | null;
+  provider: string;
+  quarantined_at: string | null;
+  quarantine_reason: string | null;
+  dead_lettered_at: string | null;
+  dead_letter_reason: string | null;
+  dead_lettered_by: string | null;
+  created_at: string;
+  updated_at: string;
+}